@@ -0,0 +1,69 @@
+/**
+ * Attachment API Route
+ *
+ * GET - Serve an uploaded file (see lib/attachments.ts)
+ *
+ * Document attachments are served to anyone who can view one of their
+ * documents, including guests of public documents; profile photos to anyone.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { canReadAttachment, findAttachment, readAttachmentData } from '@/lib/attachments';
+
+/**
+ * GET /api/attachments/[id]
+ * Fetch the bytes of an attachment
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { db } = await connectToDatabase();
+    const { id } = await params;
+
+    const user = session?.user?.email
+      ? await db.collection('users').findOne({ email: session.user.email })
+      : null;
+
+    // Attachments the user can't see don't exist for them
+    const attachment = await findAttachment(db, id);
+    if (!attachment || !(await canReadAttachment(db, attachment, user))) {
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = await readAttachmentData(db, attachment);
+    if (!data) {
+      console.error(`❌ Attachment ${id} has no stored file`);
+      return NextResponse.json(
+        { error: 'Attachment not found' },
+        { status: 404 }
+      );
+    }
+
+    // The content of an id never changes
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': attachment.contentType,
+        'Content-Length': data.length.toString(),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(attachment.filename)}"`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': `${attachment.kind === 'avatar' ? 'public' : 'private'}, max-age=31536000, immutable`
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching attachment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,10 @@ import NextAuth, { NextAuthOptions } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import GoogleProvider from 'next-auth/providers/google';
 import { connectToDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
 import bcrypt from 'bcryptjs';
 import User, { IUser } from '@/lib/models/User';
+import { claimPendingInvites } from '@/lib/sharing';
 
 export const authOptions: NextAuthOptions = {
   providers: [
@@ -64,7 +66,7 @@ export const authOptions: NextAuthOptions = {
 
         if (!existingUser) {
           // Create new user for Google sign-in
-          await db.collection<IUser>('users').insertOne({
+          const result = await db.collection<IUser>('users').insertOne({
             name: user.name || '',
             email: user.email?.toLowerCase() || '',
             password: '', // No password for OAuth users
@@ -81,6 +83,9 @@ export const authOptions: NextAuthOptions = {
             createdAt: new Date(),
             updatedAt: new Date(),
           } as any);
+
+          // Documents shared with this address before it had an account
+          await claimPendingInvites(db, { _id: new ObjectId(result.insertedId.toString()), email: user.email?.toLowerCase() || '' });
         }
       }
       return true;
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { connectToDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
 import bcrypt from 'bcryptjs';
 import User, { IUser } from '@/lib/models/User';
+import { claimPendingInvites } from '@/lib/sharing';
 
 export async function POST(request: NextRequest) {
   try {
@@ -70,6 +72,9 @@ export async function POST(request: NextRequest) {
 
     const result = await db.collection<IUser>('users').insertOne(newUser as any);
 
+    // Documents shared with this address before it had an account
+    await claimPendingInvites(db, { _id: new ObjectId(result.insertedId.toString()), email: newUser.email });
+
     return NextResponse.json(
       {
         message: 'User created successfully',
@@ -1,6 +1,7 @@
 /**
  * Handle Access Request (Approve/Reject)
- * PATCH /api/documents/[id]/access-request/[requestId]
+ * PATCH /api/documents/[id]/access-request/[requestId] - from the access requests panel
+ * GET /api/documents/[id]/access-request/[requestId]?action=&token= - approve/deny links in the request email
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -8,6 +9,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
+import { resolveDocumentAccess } from '@/lib/documentAccess';
+import { isAccessRequestAction, processAccessRequest, verifyAccessRequestAction } from '@/lib/accessRequests';
 
 export async function PATCH(
   request: NextRequest,
@@ -28,7 +31,7 @@ export async function PATCH(
     const body = await request.json();
     const { action } = body; // 'approve' or 'reject'
 
-    if (!['approve', 'reject'].includes(action)) {
+    if (!isAccessRequestAction(action)) {
       return NextResponse.json(
         { error: 'Invalid action. Use "approve" or "reject"' },
         { status: 400 }
@@ -48,10 +51,11 @@ export async function PATCH(
       );
     }
 
-    // Find the document
-    const document = await db.collection('documents').findOne({
-      _id: accessRequest.documentId
-    });
+    // Find the document and the current user's role
+    const { document, user, role } = await resolveDocumentAccess(
+      session,
+      accessRequest.documentId.toString()
+    );
 
     if (!document) {
       return NextResponse.json(
@@ -60,11 +64,6 @@ export async function PATCH(
       );
     }
 
-    // Get current user
-    const user = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
     if (!user) {
       return NextResponse.json(
         { error: 'User not found' },
@@ -73,69 +72,14 @@ export async function PATCH(
     }
 
     // Check if user is owner
-    if (!document.owner?.equals(user._id)) {
+    if (role !== 'owner') {
       return NextResponse.json(
         { error: 'Only the owner can approve or reject access requests' },
         { status: 403 }
       );
     }
 
-    if (action === 'approve') {
-      // Ensure requesterId is an ObjectId
-      const requesterId = accessRequest.requesterId instanceof ObjectId 
-        ? accessRequest.requesterId 
-        : new ObjectId(accessRequest.requesterId);
-
-      // Remove ALL existing entries for this user (by userId OR email) to prevent duplicates
-      await db.collection('documents').updateOne(
-        { _id: document._id },
-        {
-          $pull: {
-            sharedWith: {
-              $or: [
-                { userId: requesterId },
-                { email: accessRequest.requesterEmail.toLowerCase() }
-              ]
-            }
-          } as any
-        }
-      );
-
-      console.log(`🧹 Removed any existing entries for ${accessRequest.requesterEmail}`);
-
-      // Now add the user with editor permission (guaranteed no duplicates)
-      await db.collection('documents').updateOne(
-        { _id: document._id },
-        {
-          $push: {
-            sharedWith: {
-              userId: requesterId,
-              email: accessRequest.requesterEmail.toLowerCase(),
-              role: 'editor',
-              sharedAt: new Date()
-            }
-          } as any
-        }
-      );
-
-      console.log(`✅ Access request approved: ${accessRequest.requesterEmail} granted edit access to "${document.title}"`);
-      console.log(`   Added to sharedWith: userId=${requesterId.toString()}, role=editor`);
-    } else {
-      console.log(`❌ Access request rejected: ${accessRequest.requesterEmail} denied edit access to "${document.title}"`);
-    }
-
-    // Update request status
-    await db.collection('accessRequests').updateOne(
-      { _id: new ObjectId(requestId) },
-      {
-        $set: {
-          status: action === 'approve' ? 'approved' : 'rejected',
-          processedBy: user._id,
-          processedAt: new Date(),
-          updatedAt: new Date()
-        }
-      }
-    );
+    await processAccessRequest(db, { accessRequest, document, owner: user, action });
 
     return NextResponse.json({
       success: true,
@@ -152,3 +96,83 @@ export async function PATCH(
     );
   }
 }
+
+/**
+ * GET /api/documents/[id]/access-request/[requestId]?action=approve|reject&token=...
+ * One-click approve/deny from the owner's email, then back to the document
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; requestId: string }> }
+) {
+  try {
+    const { id: documentId, requestId } = await params;
+    const action = request.nextUrl.searchParams.get('action');
+    const token = request.nextUrl.searchParams.get('token') || '';
+
+    if (!isAccessRequestAction(action) || !ObjectId.isValid(requestId) || !verifyAccessRequestAction(requestId, action, token)) {
+      return NextResponse.json(
+        { error: 'Invalid or expired link' },
+        { status: 400 }
+      );
+    }
+
+    const session = await getServerSession(authOptions);
+
+    // Sign in first, then come back to this link
+    if (!session?.user?.email) {
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('callbackUrl', `${request.nextUrl.pathname}${request.nextUrl.search}`);
+      return NextResponse.redirect(loginUrl);
+    }
+
+    const documentUrl = (status: string) =>
+      new URL(`/document/${documentId}?accessRequest=${status}`, request.url);
+
+    const { db } = await connectToDatabase();
+    const accessRequest = await db.collection('accessRequests').findOne({
+      _id: new ObjectId(requestId)
+    });
+
+    if (!accessRequest) {
+      return NextResponse.json(
+        { error: 'Access request not found' },
+        { status: 404 }
+      );
+    }
+
+    if (accessRequest.status !== 'pending') {
+      return NextResponse.redirect(documentUrl('processed'));
+    }
+
+    const { document, user, role } = await resolveDocumentAccess(
+      session,
+      accessRequest.documentId.toString()
+    );
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!user || role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the owner can approve or reject access requests' },
+        { status: 403 }
+      );
+    }
+
+    await processAccessRequest(db, { accessRequest, document, owner: user, action });
+
+    return NextResponse.redirect(documentUrl(action === 'approve' ? 'approved' : 'rejected'));
+
+  } catch (error) {
+    console.error('Error processing access request link:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
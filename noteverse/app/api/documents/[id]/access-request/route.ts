@@ -8,7 +8,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
+import { resolveDocumentAccess, canEdit } from '@/lib/documentAccess';
+import { notifyUsers, displayName } from '@/lib/notifications';
+import { emailAccessRequest } from '@/lib/emailNotifications';
 
 /**
  * POST /api/documents/[id]/access-request
@@ -31,17 +33,8 @@ export async function POST(
     const { db } = await connectToDatabase();
     const { id: documentId } = await params;
 
-    // Find the document
-    let document;
-    if (ObjectId.isValid(documentId)) {
-      document = await db.collection('documents').findOne({
-        _id: new ObjectId(documentId)
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-    }
+    // Find the document and the requester's current role
+    const { document, user: requester, role } = await resolveDocumentAccess(session, documentId);
 
     if (!document) {
       return NextResponse.json(
@@ -50,11 +43,6 @@ export async function POST(
       );
     }
 
-    // Get requester info
-    const requester = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
     if (!requester) {
       return NextResponse.json(
         { error: 'User not found' },
@@ -63,18 +51,14 @@ export async function POST(
     }
 
     // Check if user is already an editor or owner
-    if (document.owner?.equals(requester._id)) {
+    if (role === 'owner') {
       return NextResponse.json(
         { error: 'You already own this document' },
         { status: 400 }
       );
     }
 
-    const existingShare = document.sharedWith?.find((share: any) => 
-      share.userId?.equals(requester._id) && share.role === 'editor'
-    );
-
-    if (existingShare) {
+    if (canEdit(role)) {
       return NextResponse.json(
         { error: 'You already have edit access' },
         { status: 400 }
@@ -108,10 +92,23 @@ export async function POST(
       updatedAt: new Date()
     };
 
-    await db.collection('accessRequests').insertOne(accessRequest);
+    const result = await db.collection('accessRequests').insertOne(accessRequest);
 
     console.log(`📧 Access request created: ${session.user.email} requested edit access to "${document.title}"`);
 
+    if (document.owner) {
+      await notifyUsers(db, [{
+        recipientId: document.owner,
+        type: 'access_request',
+        actor: requester,
+        document,
+        message: `${displayName(requester)} requested edit access to "${document.title || 'Untitled Document'}"`
+      }]);
+
+      // Don't hold up the response on email delivery
+      emailAccessRequest(db, { document, requester, requestId: result.insertedId });
+    }
+
     return NextResponse.json({
       success: true,
       message: 'Edit access request sent successfully'
@@ -147,17 +144,8 @@ export async function GET(
     const { db } = await connectToDatabase();
     const { id: documentId } = await params;
 
-    // Find the document
-    let document;
-    if (ObjectId.isValid(documentId)) {
-      document = await db.collection('documents').findOne({
-        _id: new ObjectId(documentId)
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-    }
+    // Find the document and the current user's role
+    const { document, user, role } = await resolveDocumentAccess(session, documentId);
 
     if (!document) {
       return NextResponse.json(
@@ -166,11 +154,6 @@ export async function GET(
       );
     }
 
-    // Get current user
-    const user = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
     if (!user) {
       return NextResponse.json(
         { error: 'User not found' },
@@ -179,7 +162,7 @@ export async function GET(
     }
 
     // Check if user is owner
-    if (!document.owner?.equals(user._id)) {
+    if (role !== 'owner') {
       return NextResponse.json(
         { error: 'Only the owner can view access requests' },
         { status: 403 }
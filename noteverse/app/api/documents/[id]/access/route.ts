@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
+import { resolveDocumentAccess, canShare, isGrantableRole } from '@/lib/documentAccess';
+import { refreshDocumentAccess } from '@/lib/socket/liveAccess';
 
 /**
  * PATCH /api/documents/[id]/access
@@ -33,48 +34,21 @@ export async function PATCH(
     }
 
     // Validate publicPermission
-    if (publicPermission && !['viewer', 'editor'].includes(publicPermission)) {
+    if (publicPermission && !isGrantableRole(publicPermission)) {
       return NextResponse.json(
-        { message: 'Invalid publicPermission value. Must be "viewer" or "editor"' },
+        { message: 'Invalid publicPermission value. Must be "viewer", "commenter" or "editor"' },
         { status: 400 }
       );
     }
 
     // Find document by MongoDB ObjectId or custom ID
-    let document;
-    if (ObjectId.isValid(documentId)) {
-      document = await db.collection('documents').findOne({
-        _id: new ObjectId(documentId)
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-    }
+    const { docObjectId, role } = await resolveDocumentAccess(session, documentId);
     
-    if (!document) {
+    if (!docObjectId) {
       return NextResponse.json({ message: 'Document not found' }, { status: 404 });
     }
 
-    // Check if user is owner by comparing with session user
-    let isOwner = false;
-    if (session?.user?.id && document.owner) {
-      // Compare owner ObjectId with session user id
-      if (ObjectId.isValid(session.user.id)) {
-        const sessionUserId = new ObjectId(session.user.id);
-        isOwner = document.owner.equals(sessionUserId);
-      }
-    }
-    
-    // If not matched by ID, try by email
-    if (!isOwner && document.owner) {
-      const ownerUser = await db.collection('users').findOne({
-        _id: document.owner
-      });
-      isOwner = ownerUser?.email === session.user.email;
-    }
-
-    if (!isOwner) {
+    if (!canShare(role)) {
       console.log(`Access denied: ${session.user.email} is not owner of document ${documentId}`);
       return NextResponse.json(
         { message: 'Only the document owner can change general access settings' },
@@ -93,25 +67,19 @@ export async function PATCH(
     updateFields.updatedAt = new Date().toISOString();
 
     // Update document using MongoDB native driver
-    let result;
-    if (ObjectId.isValid(documentId)) {
-      result = await db.collection('documents').findOneAndUpdate(
-        { _id: new ObjectId(documentId) },
-        { $set: updateFields },
-        { returnDocument: 'after' }
-      );
-    } else {
-      result = await db.collection('documents').findOneAndUpdate(
-        { customId: documentId },
-        { $set: updateFields },
-        { returnDocument: 'after' }
-      );
-    }
+    const result = await db.collection('documents').findOneAndUpdate(
+      { _id: docObjectId },
+      { $set: updateFields },
+      { returnDocument: 'after' }
+    );
 
     if (!result) {
       return NextResponse.json({ message: 'Failed to update document' }, { status: 500 });
     }
 
+    // People who were only in through public access lose it or change role
+    await refreshDocumentAccess(result);
+
     console.log(`📋 Updated document access: ${documentId} -> visibility: ${visibility}, publicPermission: ${publicPermission}`);
 
     return NextResponse.json({
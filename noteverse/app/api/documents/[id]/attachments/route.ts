@@ -0,0 +1,87 @@
+/**
+ * Document Attachments API Route
+ *
+ * POST - Upload an image for a document (multipart form, field "file");
+ * the response holds the URL to put in the document
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, canEdit } from '@/lib/documentAccess';
+import { formatAttachment, storeAttachment } from '@/lib/attachments';
+
+/**
+ * POST /api/documents/[id]/attachments
+ * Upload an image
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId } = await params;
+
+    const { docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!docObjectId) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!user || !canEdit(role)) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'An image file is required' },
+        { status: 400 }
+      );
+    }
+
+    const attachment = await storeAttachment(db, {
+      data: Buffer.from(await file.arrayBuffer()),
+      filename: file.name,
+      kind: 'document',
+      uploadedBy: user._id,
+      document: docObjectId
+    });
+    if ('error' in attachment) {
+      return NextResponse.json(
+        { error: attachment.error },
+        { status: attachment.code }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      attachment: formatAttachment(attachment)
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Error uploading attachment:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
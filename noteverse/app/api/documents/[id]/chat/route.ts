@@ -9,8 +9,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
 import { createChatMessage } from '@/lib/models/ChatMessage';
+import { resolveDocumentAccess, canView, canEdit } from '@/lib/documentAccess';
+import { resolveMentions, notifyMentions, formatMentions } from '@/lib/mentions';
 
 /**
  * GET /api/documents/[id]/chat
@@ -32,36 +33,13 @@ export async function GET(
 
     console.log(`📨 Fetching chat messages for document: ${documentId}, user: ${session.user.email}`);
 
-    // Find document
-    let document;
-    let docObjectId: ObjectId;
-    
-    if (ObjectId.isValid(documentId)) {
-      docObjectId = new ObjectId(documentId);
-      document = await db.collection('documents').findOne({
-        _id: docObjectId
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      
-      // If document doesn't exist yet (new document not saved), return empty chat
-      // This is normal behavior - documents are created on first save
-      if (!document) {
-        console.log(`ℹ️ Chat GET: Document ${documentId} not found (new document - will be created on first save)`);
-        return NextResponse.json({
-          success: true,
-          messages: [],
-          count: 0,
-          info: 'Document not yet created. Chat will be available after first save.'
-        });
-      }
-      docObjectId = document._id;
-    }
+    // Find document (ObjectId or custom ID) and the user's role
+    const { document, docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
 
-    if (!document) {
-      console.log(`ℹ️ Chat GET: Document not found: ${documentId} (returning empty chat)`);
+    // If document doesn't exist yet (new document not saved), return empty chat
+    // This is normal behavior - documents are created on first save
+    if (!document || !docObjectId) {
+      console.log(`ℹ️ Chat GET: Document ${documentId} not found (new document - will be created on first save)`);
       return NextResponse.json({
         success: true,
         messages: [],
@@ -70,34 +48,12 @@ export async function GET(
       });
     }
 
-    // Verify user has access to this document
-    const user = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
     if (!user) {
       console.log(`❌ Chat GET: User not found: ${session.user.email}`);
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    // Check if document has owner field
-    if (!document.owner) {
-      console.log(`❌ Chat GET: Document ${documentId} has no owner field`);
-      return NextResponse.json({ error: 'Document has no owner' }, { status: 500 });
-    }
-
-    const isOwner = document.owner.toString() === user._id.toString();
-    
-    // Check if user has shared access from sharedWith array
-    const sharedWith = document.sharedWith || [];
-    const shareAccess = sharedWith.find((share: any) => 
-      share.email === session.user.email || share.userId?.equals(user._id)
-    );
-
-    // Check if document is public
-    const hasPublicAccess = document.visibility === 'public';
-
-    if (!isOwner && !shareAccess && !hasPublicAccess) {
+    if (!canView(role)) {
       console.log(`❌ Chat GET: Access denied for ${session.user.email} to document ${documentId}`);
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
@@ -122,6 +78,7 @@ export async function GET(
       senderName: msg.senderName || 'Unknown User',
       senderEmail: msg.senderEmail || '',
       message: msg.message || '',
+      mentions: formatMentions(msg.mentions),
       timestamp: msg.createdAt || new Date()
     }));
 
@@ -158,7 +115,7 @@ export async function POST(
 
     const { db } = await connectToDatabase();
     const { id: documentId } = await params;
-    const { message } = await request.json();
+    const { message, mentions } = await request.json();
 
     // Validate input
     if (!message || !message.trim()) {
@@ -168,79 +125,25 @@ export async function POST(
       );
     }
 
-    // Find document
-    let document;
-    let docObjectId: ObjectId;
-    
-    if (ObjectId.isValid(documentId)) {
-      docObjectId = new ObjectId(documentId);
-      document = await db.collection('documents').findOne({
-        _id: docObjectId
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      if (!document) {
-        return NextResponse.json({ error: 'Document not found' }, { status: 404 });
-      }
-      docObjectId = document._id;
-    }
+    // Find document (ObjectId or custom ID) and the user's role
+    const { document, docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
 
-    if (!document) {
+    if (!document || !docObjectId) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Find user
-    const user = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    // Verify user has access (at least viewer permission)
-    if (!document.owner) {
-      console.log(`❌ Chat POST: Document ${documentId} has no owner field`);
-      return NextResponse.json({ error: 'Document has no owner' }, { status: 500 });
-    }
-
-    const isOwner = document.owner.toString() === user._id.toString();
-    
-    // Check if user has shared access from sharedWith array
-    const sharedWith = document.sharedWith || [];
-    const shareAccess = sharedWith.find((share: any) => 
-      share.email === session.user.email || share.userId?.equals(user._id)
-    );
-
-    const hasPublicAccess = document.visibility === 'public';
-
-    if (!isOwner && !shareAccess && !hasPublicAccess) {
+    if (!canView(role)) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
     // Check if user has permission to send messages (editors and owners only)
-    let canSendMessage = isOwner;
-    
-    if (shareAccess && shareAccess.role === 'editor') {
-      canSendMessage = true;
-    }
-    
-    if (hasPublicAccess && document.publicPermission === 'editor') {
-      canSendMessage = true;
-    }
+    console.log('Chat permission check:', { role });
 
-    console.log('Chat permission check:', {
-      isOwner,
-      hasShareAccess: !!shareAccess,
-      shareRole: shareAccess?.role,
-      hasPublicAccess,
-      publicPermission: document.publicPermission,
-      canSendMessage
-    });
-
-    if (!canSendMessage) {
+    if (!canEdit(role)) {
       return NextResponse.json(
         { error: 'Only editors and owners can send messages' },
         { status: 403 }
@@ -253,11 +156,15 @@ export async function POST(
       user._id,
       user.name,
       user.email,
-      message
+      message,
+      await resolveMentions(db, document, mentions, user)
     );
 
     const result = await db.collection('chatmessages').insertOne(chatMessage);
 
+    // Don't hold up the response on email delivery
+    notifyMentions(db, { document, author: user, mentions: chatMessage.mentions || [], text: chatMessage.message, source: 'chat' });
+
     return NextResponse.json({
       success: true,
       message: 'Chat message sent',
@@ -267,6 +174,7 @@ export async function POST(
         senderName: user.name,
         senderEmail: user.email,
         message: chatMessage.message,
+        mentions: formatMentions(chatMessage.mentions),
         timestamp: chatMessage.createdAt
       }
     });
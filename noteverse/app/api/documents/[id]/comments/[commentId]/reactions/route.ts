@@ -0,0 +1,135 @@
+/**
+ * Comment Reactions API Route
+ *
+ * POST - Add or change the current user's reaction
+ * DELETE - Remove the current user's reaction
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, canComment } from '@/lib/documentAccess';
+import { findDocumentComment, getFormattedComment, CommentRecord } from '@/lib/comments';
+import { COMMENT_REACTIONS } from '@/lib/commentReactions';
+
+/**
+ * POST /api/documents/[id]/comments/[commentId]/reactions
+ * One reaction per user - a new emoji replaces the previous one
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId, commentId } = await params;
+    const { emoji } = await request.json();
+
+    if (!(COMMENT_REACTIONS as readonly string[]).includes(emoji)) {
+      return NextResponse.json(
+        { error: `Invalid reaction. Must be one of ${COMMENT_REACTIONS.join(' ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!docObjectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!canComment(role)) {
+      return NextResponse.json(
+        { error: 'You do not have permission to react to comments' },
+        { status: 403 }
+      );
+    }
+
+    const comment = await findDocumentComment(db, docObjectId, commentId);
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    // Remove any existing reaction from this user, then add the new one
+    await db.collection<CommentRecord>('comments').updateOne(
+      { _id: comment._id },
+      { $pull: { reactions: { user: user._id } } }
+    );
+    await db.collection<CommentRecord>('comments').updateOne(
+      { _id: comment._id },
+      { $push: { reactions: { user: user._id, emoji, createdAt: new Date() } } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      comment: await getFormattedComment(db, comment._id)
+    });
+  } catch (error) {
+    console.error('Error adding reaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to add reaction' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]/comments/[commentId]/reactions
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId, commentId } = await params;
+
+    const { docObjectId, user } = await resolveDocumentAccess(session, documentId);
+
+    if (!docObjectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const comment = await findDocumentComment(db, docObjectId, commentId);
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    await db.collection<CommentRecord>('comments').updateOne(
+      { _id: comment._id },
+      { $pull: { reactions: { user: user._id } } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      comment: await getFormattedComment(db, comment._id)
+    });
+  } catch (error) {
+    console.error('Error removing reaction:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove reaction' },
+      { status: 500 }
+    );
+  }
+}
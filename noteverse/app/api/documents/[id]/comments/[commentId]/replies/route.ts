@@ -0,0 +1,138 @@
+/**
+ * Comment Replies API Route
+ *
+ * POST - Reply to a comment thread (with optional @mentions)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, canComment } from '@/lib/documentAccess';
+import { findDocumentComment, getFormattedComment, MAX_COMMENT_LENGTH, CommentRecord } from '@/lib/comments';
+import { resolveMentions, notifyMentions } from '@/lib/mentions';
+import { notifyUsers, displayName } from '@/lib/notifications';
+import { emailCommentActivity } from '@/lib/emailNotifications';
+
+/**
+ * POST /api/documents/[id]/comments/[commentId]/replies
+ * Add a reply to a thread (replying to a reply adds to the same thread)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId, commentId } = await params;
+    const { content, mentions } = await request.json();
+
+    if (!content || !content.trim()) {
+      return NextResponse.json(
+        { error: 'Reply content is required' },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Reply cannot exceed ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { document, docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!document || !docObjectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!canComment(role)) {
+      return NextResponse.json(
+        { error: 'You do not have permission to comment on this document' },
+        { status: 403 }
+      );
+    }
+
+    const comment = await findDocumentComment(db, docObjectId, commentId);
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    // Threads are one level deep
+    const threadId = comment.parentComment || comment._id;
+
+    const replyDoc: CommentRecord = {
+      document: docObjectId,
+      author: user._id,
+      content: content.trim(),
+      parentComment: threadId,
+      mentions: await resolveMentions(db, document, mentions, user),
+      isResolved: false,
+      isDeleted: false,
+      reactions: [],
+      replies: [],
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const result = await db.collection<CommentRecord>('comments').insertOne(replyDoc);
+
+    await db.collection<CommentRecord>('comments').updateOne(
+      { _id: threadId },
+      {
+        $push: { replies: result.insertedId },
+        $set: { updatedAt: new Date() }
+      }
+    );
+
+    console.log(`💬 Reply added to comment ${threadId.toString()} by ${session.user.email}`);
+
+    // Notify everyone in the thread (the thread author and earlier repliers), except people mentioned in this reply
+    const thread = comment.parentComment
+      ? await db.collection('comments').findOne({ _id: threadId })
+      : comment;
+    const earlierReplies = await db.collection('comments')
+      .find({ parentComment: threadId, isDeleted: { $ne: true } })
+      .project({ author: 1 })
+      .toArray();
+    const participants = [thread?.author, ...earlierReplies.map((reply) => reply.author)]
+      .filter((author): author is ObjectId => !!author)
+      .filter((author) => !replyDoc.mentions?.some((mention) => mention.user.equals(author)));
+
+    await notifyUsers(db, participants.map((participant) => ({
+      recipientId: participant,
+      type: 'reply' as const,
+      actor: user,
+      document,
+      message: `${displayName(user)} replied to a comment on "${document.title || 'Untitled Document'}"`
+    })));
+
+    // Don't hold up the response on email delivery
+    emailCommentActivity(db, { document, author: user, recipientIds: participants, text: replyDoc.content, kind: 'reply' });
+    notifyMentions(db, { document, author: user, mentions: replyDoc.mentions || [], text: replyDoc.content, source: 'comment' });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Reply added successfully',
+      comment: await getFormattedComment(db, result.insertedId)
+    });
+  } catch (error) {
+    console.error('Error adding reply:', error);
+    return NextResponse.json(
+      { error: 'Failed to add reply' },
+      { status: 500 }
+    );
+  }
+}
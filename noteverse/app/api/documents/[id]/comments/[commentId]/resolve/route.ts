@@ -0,0 +1,105 @@
+/**
+ * Comment Resolve API Route
+ *
+ * POST - Resolve a comment thread
+ * DELETE - Reopen a resolved thread
+ *
+ * Allowed for the thread's author and for editors/owners.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, canComment, canEdit } from '@/lib/documentAccess';
+import { findDocumentComment, getFormattedComment, isCommentAuthor } from '@/lib/comments';
+
+/**
+ * Shared handler for resolving and reopening
+ */
+async function setResolved(
+  { params }: { params: Promise<{ id: string; commentId: string }> },
+  resolved: boolean
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId, commentId } = await params;
+
+    const { docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!docObjectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const comment = await findDocumentComment(db, docObjectId, commentId);
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    if (comment.parentComment) {
+      return NextResponse.json(
+        { error: 'Only top-level comments can be resolved' },
+        { status: 400 }
+      );
+    }
+
+    if (!canComment(role) || !(isCommentAuthor(comment, user) || canEdit(role))) {
+      return NextResponse.json(
+        { error: 'Only the author, editors or the owner can resolve this comment' },
+        { status: 403 }
+      );
+    }
+
+    await db.collection('comments').updateOne(
+      { _id: comment._id },
+      {
+        $set: resolved
+          ? { isResolved: true, resolvedBy: user._id, resolvedAt: new Date(), updatedAt: new Date() }
+          : { isResolved: false, resolvedBy: null, resolvedAt: null, updatedAt: new Date() }
+      }
+    );
+
+    console.log(`${resolved ? '✅ Resolved' : '↩️ Reopened'} comment ${commentId} (${session.user.email})`);
+
+    return NextResponse.json({
+      success: true,
+      comment: await getFormattedComment(db, comment._id)
+    });
+  } catch (error) {
+    console.error(`Error ${resolved ? 'resolving' : 'reopening'} comment:`, error);
+    return NextResponse.json(
+      { error: `Failed to ${resolved ? 'resolve' : 'reopen'} comment` },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/comments/[commentId]/resolve
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; commentId: string }> }
+) {
+  return setResolved(context, true);
+}
+
+/**
+ * DELETE /api/documents/[id]/comments/[commentId]/resolve
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; commentId: string }> }
+) {
+  return setResolved(context, false);
+}
@@ -0,0 +1,167 @@
+/**
+ * Single Comment API Route
+ *
+ * PATCH - Edit a comment (author only)
+ * DELETE - Soft-delete a comment (author or document owner)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, canComment } from '@/lib/documentAccess';
+import {
+  findDocumentComment,
+  getFormattedComment,
+  isCommentAuthor,
+  MAX_COMMENT_LENGTH,
+  CommentRecord
+} from '@/lib/comments';
+
+/**
+ * PATCH /api/documents/[id]/comments/[commentId]
+ * Edit the text of a comment
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId, commentId } = await params;
+    const { content } = await request.json();
+
+    if (!content || !content.trim()) {
+      return NextResponse.json(
+        { error: 'Comment content is required' },
+        { status: 400 }
+      );
+    }
+
+    if (content.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!docObjectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const comment = await findDocumentComment(db, docObjectId, commentId);
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    // Only the author can edit, and only while they can still comment
+    if (!isCommentAuthor(comment, user) || !canComment(role)) {
+      return NextResponse.json(
+        { error: 'Only the author can edit this comment' },
+        { status: 403 }
+      );
+    }
+
+    await db.collection('comments').updateOne(
+      { _id: comment._id },
+      {
+        $set: {
+          content: content.trim(),
+          editedAt: new Date(),
+          updatedAt: new Date()
+        }
+      }
+    );
+
+    console.log(`✏️ Comment ${commentId} edited by ${session.user.email}`);
+
+    return NextResponse.json({
+      success: true,
+      comment: await getFormattedComment(db, comment._id)
+    });
+  } catch (error) {
+    console.error('Error editing comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to edit comment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]/comments/[commentId]
+ * Soft-delete a comment (deleting a thread hides its replies too)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId, commentId } = await params;
+
+    const { docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!docObjectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    const comment = await findDocumentComment(db, docObjectId, commentId);
+
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    if (!isCommentAuthor(comment, user) && role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the author or the document owner can delete this comment' },
+        { status: 403 }
+      );
+    }
+
+    await db.collection('comments').updateOne(
+      { _id: comment._id },
+      {
+        $set: {
+          isDeleted: true,
+          deletedAt: new Date(),
+          updatedAt: new Date()
+        }
+      }
+    );
+
+    // Keep the parent's reply list in sync
+    if (comment.parentComment) {
+      await db.collection<CommentRecord>('comments').updateOne(
+        { _id: comment.parentComment },
+        { $pull: { replies: comment._id } }
+      );
+    }
+
+    console.log(`🗑️ Comment ${commentId} deleted by ${session.user.email}`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Comment deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete comment' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,19 +1,45 @@
 /**
  * Comments API Route
  * 
- * GET - Fetch all comments for a document
- * POST - Create a new comment
+ * GET - Fetch comment threads for a document
+ * POST - Create a new comment (optionally anchored to a text selection, with @mentions)
+ *
+ * Replies, edits, resolving and reactions live under [commentId]
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
+import { resolveDocumentAccess, canView, canComment } from '@/lib/documentAccess';
+import { getCommentThreads, getFormattedComment, MAX_COMMENT_LENGTH } from '@/lib/comments';
+import { resolveMentions, notifyMentions } from '@/lib/mentions';
+import { notifyUsers, displayName } from '@/lib/notifications';
+import { emailCommentActivity } from '@/lib/emailNotifications';
+import { DEFAULT_TAB_ID, isTabId } from '@/lib/documentTabs';
+
+const MAX_ANCHOR_LENGTH = 256;
+const MAX_SELECTED_TEXT_LENGTH = 500;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Validate a Yjs anchor sent by the editor ({ start, end } base64 relative
+ * positions in the fragment of tab tabId)
+ */
+function isValidAnchor(anchor: unknown): anchor is { start: string; end: string; tabId?: string } {
+  if (!anchor || typeof anchor !== 'object') return false;
+  const { start, end, tabId } = anchor as Record<string, unknown>;
+  return (tabId === undefined || isTabId(tabId)) && [start, end].every((value) =>
+    typeof value === 'string' &&
+    value.length <= MAX_ANCHOR_LENGTH &&
+    BASE64_PATTERN.test(value)
+  );
+}
 
 /**
- * GET /api/documents/[id]/comments
- * Fetch all comments for a document
+ * GET /api/documents/[id]/comments?includeResolved=true
+ * Fetch comment threads (top-level comments with replies) for a document
+ * Resolved threads are only included when includeResolved=true
  */
 export async function GET(
   request: NextRequest,
@@ -28,64 +54,24 @@ export async function GET(
     const { db } = await connectToDatabase();
     const { id: documentId } = await params;
 
-    // Find document
-    let document;
-    let docObjectId;
-    
-    if (ObjectId.isValid(documentId)) {
-      docObjectId = new ObjectId(documentId);
-      document = await db.collection('documents').findOne({
-        _id: docObjectId
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      docObjectId = document?._id;
-    }
+    // Find document and check the user can read it
+    const { docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
 
-    if (!document) {
+    if (!docObjectId) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Fetch comments for this document
-    const comments = await db.collection('comments')
-      .find({ 
-        document: docObjectId,
-        isDeleted: { $ne: true }
-      })
-      .sort({ createdAt: -1 })
-      .toArray();
-
-    // Populate author details
-    const commentsWithAuthors = await Promise.all(
-      comments.map(async (comment) => {
-        const author = await db.collection('users').findOne({
-          _id: comment.author
-        });
-
-        return {
-          id: comment._id.toString(),
-          text: comment.content,
-          content: comment.content,
-          timestamp: comment.createdAt,
-          user: author ? {
-            id: author._id.toString(),
-            name: author.name,
-            email: author.email
-          } : {
-            id: 'unknown',
-            name: 'Unknown User',
-            email: ''
-          },
-          isResolved: comment.isResolved || false
-        };
-      })
-    );
+    if (!canView(role)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const includeResolved = request.nextUrl.searchParams.get('includeResolved') === 'true';
+    const comments = await getCommentThreads(db, docObjectId, includeResolved);
 
     return NextResponse.json({
       success: true,
-      comments: commentsWithAuthors
+      comments,
+      currentUserId: user ? user._id.toString() : null // Lets the panel spot the viewer's own comments and reactions
     });
   } catch (error) {
     console.error('Error fetching comments:', error);
@@ -112,7 +98,7 @@ export async function POST(
 
     const { db } = await connectToDatabase();
     const { id: documentId } = await params;
-    const { content } = await request.json();
+    const { content, anchor, position, mentions } = await request.json();
 
     // Validate input
     if (!content || !content.trim()) {
@@ -122,43 +108,60 @@ export async function POST(
       );
     }
 
-    // Find document
-    let document;
-    let docObjectId: ObjectId;
-    
-    if (ObjectId.isValid(documentId)) {
-      docObjectId = new ObjectId(documentId);
-      document = await db.collection('documents').findOne({
-        _id: docObjectId
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      if (!document) {
-        return NextResponse.json({ error: 'Document not found' }, { status: 404 });
-      }
-      docObjectId = document._id;
+    if (content.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json(
+        { error: `Comment cannot exceed ${MAX_COMMENT_LENGTH} characters` },
+        { status: 400 }
+      );
     }
 
-    if (!document) {
-      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    if (anchor !== undefined && anchor !== null && !isValidAnchor(anchor)) {
+      return NextResponse.json(
+        { error: 'Invalid comment anchor' },
+        { status: 400 }
+      );
     }
 
-    // Find user
-    const user = await db.collection('users').findOne({
-      email: session.user.email
-    });
+    // Find document and user
+    const { document, docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!document || !docObjectId) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
 
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
+    if (!canComment(role)) {
+      return NextResponse.json(
+        { error: 'You do not have permission to comment on this document' },
+        { status: 403 }
+      );
+    }
+
+    // Inline comments keep the Yjs anchor plus the quoted text for display
+    const inlineFields = isValidAnchor(anchor) ? {
+      anchor: { start: anchor.start, end: anchor.end, tabId: anchor.tabId || DEFAULT_TAB_ID },
+      position: {
+        start: Number(position?.start) || 0,
+        end: Number(position?.end) || 0,
+        selectedText: typeof position?.selectedText === 'string'
+          ? position.selectedText.slice(0, MAX_SELECTED_TEXT_LENGTH)
+          : ''
+      }
+    } : {};
+
+    const mentionRecords = await resolveMentions(db, document, mentions, user);
+
     // Create comment
     const commentDoc = {
       document: docObjectId,
       author: user._id,
       content: content.trim(),
+      ...inlineFields,
+      mentions: mentionRecords,
+      parentComment: null,
       isResolved: false,
       isDeleted: false,
       reactions: [],
@@ -169,21 +172,26 @@ export async function POST(
 
     const result = await db.collection('comments').insertOne(commentDoc);
 
+    // Let the owner know about new feedback (unless they were mentioned - that notifies them already)
+    if (document.owner && !mentionRecords.some((mention) => mention.user.equals(document.owner))) {
+      await notifyUsers(db, [{
+        recipientId: document.owner,
+        type: 'comment',
+        actor: user,
+        document,
+        message: `${displayName(user)} commented on "${document.title || 'Untitled Document'}"`
+      }]);
+
+      emailCommentActivity(db, { document, author: user, recipientIds: [document.owner], text: commentDoc.content, kind: 'comment' });
+    }
+
+    // Don't hold up the response on email delivery
+    notifyMentions(db, { document, author: user, mentions: mentionRecords, text: commentDoc.content, source: 'comment' });
+
     return NextResponse.json({
       success: true,
       message: 'Comment added successfully',
-      comment: {
-        id: result.insertedId.toString(),
-        text: commentDoc.content,
-        content: commentDoc.content,
-        timestamp: commentDoc.createdAt,
-        user: {
-          id: user._id.toString(),
-          name: user.name,
-          email: user.email
-        },
-        isResolved: false
-      }
+      comment: await getFormattedComment(db, result.insertedId)
     });
   } catch (error) {
     console.error('Error creating comment:', error);
@@ -0,0 +1,83 @@
+/**
+ * Document Export API Route
+ *
+ * GET - Download a document (or one of its tabs) as Markdown, DOCX or PDF
+ * (see lib/documentExport.ts)
+ *
+ * Anyone who can view the document can export it, including guests of
+ * public documents.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, canView } from '@/lib/documentAccess';
+import { exportDocument, parseExportOptions } from '@/lib/documentExport';
+
+/**
+ * GET /api/documents/[id]/export?format=md|docx|pdf
+ * Optional: tab, pageSize (a4, letter, legal), orientation, margin (mm)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    const { db } = await connectToDatabase();
+    const { id: documentId } = await params;
+
+    const { document, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canView(role)) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const options = parseExportOptions(request.nextUrl.searchParams);
+    if ('error' in options) {
+      return NextResponse.json(
+        { error: options.error },
+        { status: options.code }
+      );
+    }
+
+    // Links and images in the export point at the app
+    const origin = new URL(process.env.NEXTAUTH_URL || request.nextUrl.origin).origin;
+    const exported = await exportDocument(db, document, options, origin);
+    if ('error' in exported) {
+      return NextResponse.json(
+        { error: exported.error },
+        { status: exported.code }
+      );
+    }
+
+    const asciiFilename = exported.filename.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+    return new NextResponse(new Uint8Array(exported.data), {
+      headers: {
+        'Content-Type': exported.contentType,
+        'Content-Length': exported.data.length.toString(),
+        'Content-Disposition': `attachment; filename="${asciiFilename}"; filename*=UTF-8''${encodeURIComponent(exported.filename)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error exporting document:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
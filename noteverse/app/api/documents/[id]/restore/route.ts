@@ -0,0 +1,72 @@
+/**
+ * Restore From Trash API Route
+ *
+ * POST - Take a trashed document out of the trash (owner only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess } from '@/lib/documentAccess';
+import { isTrashed, restoreFromTrash } from '@/lib/documents';
+
+/**
+ * POST /api/documents/[id]/restore
+ * Collaborators and public links get their access back
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId } = await params;
+
+    const { document, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the owner can restore this document' },
+        { status: 403 }
+      );
+    }
+
+    if (!isTrashed(document)) {
+      return NextResponse.json(
+        { error: 'Document is not in the trash' },
+        { status: 400 }
+      );
+    }
+
+    await restoreFromTrash(db, document);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Document restored'
+    });
+
+  } catch (error) {
+    console.error('Error restoring document:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,7 @@
  * Handles CRUD operations for documents
  * GET - Fetch document by ID
  * PUT - Update document (triggers version save)
- * DELETE - Delete document
+ * DELETE - Move document to trash (or delete it forever)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -12,6 +12,13 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
+import { resolveDocumentAccess, canView, canEdit } from '@/lib/documentAccess';
+import { notifyDocumentActivity } from '@/lib/notifications';
+import { linkAttachments } from '@/lib/attachments';
+import { deleteDocumentData, isTrashed, moveToTrash, tabsUpdate } from '@/lib/documents';
+import { DEFAULT_TAB_ID, DEFAULT_TAB_TITLE, DocumentTab, getDocumentTabs, normalizeTabs } from '@/lib/documentTabs';
+import { trashPurgeDate } from '@/lib/trash';
+import { createVersion } from '@/lib/versions';
 
 /**
  * GET /api/documents/[id]
@@ -27,22 +34,9 @@ export async function GET(
     const { db } = await connectToDatabase();
     const { id: documentId } = await params;
 
-    // Handle both MongoDB ObjectId and custom document IDs
-    let document;
-    
-    if (ObjectId.isValid(documentId)) {
-      // Standard MongoDB ObjectId
-      document = await db.collection('documents').findOne({
-        _id: new ObjectId(documentId)
-      });
-      console.log(`🔍 GET document by ObjectId ${documentId}:`, document ? `Found (title: "${document.title}", content length: ${document.content?.length || 0})` : 'Not found');
-    } else {
-      // Custom string ID (e.g., doc-1769406684982-dkluhj1r6)
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      console.log(`🔍 GET document by customId ${documentId}:`, document ? `Found (title: "${document.title}", content length: ${document.content?.length || 0})` : 'Not found');
-    }
+    // Handle both MongoDB ObjectId and custom document IDs, and resolve the user's role
+    const { document, user, role: userRole } = await resolveDocumentAccess(session, documentId);
+    console.log(`🔍 GET document ${documentId}:`, document ? `Found (title: "${document.title}", content length: ${document.content?.length || 0}, role: ${userRole})` : 'Not found');
 
     if (!document) {
       // For new documents that don't exist yet, return a default empty document
@@ -54,6 +48,7 @@ export async function GET(
             id: documentId,
             title: 'Untitled Document',
             content: '',
+            tabs: [{ id: DEFAULT_TAB_ID, title: DEFAULT_TAB_TITLE, content: '' }],
             owner: null,
             userId: {
               email: session.user.email,
@@ -84,61 +79,21 @@ export async function GET(
       });
     }
 
-    // Enforce access control
-    let hasAccess = false;
-    let userRole = 'none';
-    let currentUser: any = null;
-    
-    if (session?.user?.email) {
-      currentUser = await db.collection('users').findOne({
-        email: session.user.email
-      });
-      
-      if (currentUser) {
-        // Check if user is the owner
-        if (document.owner?.equals(currentUser._id)) {
-          hasAccess = true;
-          userRole = 'owner';
-        } else {
-          // Check if user is in sharedWith array
-          const sharedWith = document.sharedWith || [];
-          console.log(`🔍 Checking sharedWith array for user ${currentUser._id.toString()}:`, 
-            sharedWith.map((s: any) => ({ 
-              userId: s.userId?.toString(), 
-              email: s.email, 
-              role: s.role 
-            }))
-          );
-          
-          const shareInfo = sharedWith.find((share: any) => 
-            share.userId?.equals(currentUser._id)
-          );
-          
-          if (shareInfo) {
-            hasAccess = true;
-            userRole = shareInfo.role;
-            console.log(`✅ User found in sharedWith with role: ${userRole}`);
-          } else {
-            console.log(`❌ User not found in sharedWith array`);
-          }
-        }
-      }
-    }
-    
-    // Check public access
-    if (!hasAccess && document.visibility === 'public') {
-      hasAccess = true;
-      userRole = document.publicPermission || 'viewer';
-    }
-    
     // Deny access if not authorized
-    if (!hasAccess) {
+    if (!canView(userRole)) {
       return NextResponse.json(
-        { error: 'Access denied. You do not have permission to view this document.' },
+        {
+          error: document.deletedAt
+            ? 'This document is in the trash.'
+            : 'Access denied. You do not have permission to view this document.'
+        },
         { status: 403 }
       );
     }
 
+    // Tell the sharer a collaborator opened it, if their share asks for that
+    await notifyDocumentActivity(db, { document, user, activity: 'opened' });
+
     console.log(`📤 Returning document content: ${document.content?.length || 0} characters`);
     
     return NextResponse.json({
@@ -147,6 +102,7 @@ export async function GET(
         id: document._id.toString(),
         title: document.title,
         content: document.content,
+        tabs: getDocumentTabs(document),
         owner: document.owner ? document.owner.toString() : null,
         userId: ownerUser ? {
           email: ownerUser.email,
@@ -155,7 +111,7 @@ export async function GET(
         visibility: document.visibility || 'restricted',
         publicPermission: document.publicPermission || 'viewer',
         userRole, // Add user's role/permission
-        canEdit: userRole === 'owner' || userRole === 'editor',
+        canEdit: canEdit(userRole),
         settings: {
           chatEnabled: document.chatEnabled !== false,
           defaultFont: document.defaultFont || 'Arial',
@@ -163,6 +119,7 @@ export async function GET(
           pageWidth: document.pageWidth || 'normal',
           spellCheck: document.spellCheck !== false
         },
+        deletedAt: document.deletedAt || null, // Set while the document is in the trash
         createdAt: document.createdAt,
         updatedAt: document.updatedAt,
         wordCount: document.wordCount || 0,
@@ -182,6 +139,9 @@ export async function GET(
 /**
  * PUT /api/documents/[id]
  * Update document content and metadata
+ * Body: { title?, tabs?: [{ id, title, content }], content? (first tab only), wordCount?, characterCount?, restoreCount? }
+ * Content is only saved when restoreCount (the Yjs RESTORE_STATE count the
+ * content was read with) is current - 409 if a version was restored since
  * Automatically creates version history
  */
 export async function PUT(
@@ -196,19 +156,27 @@ export async function PUT(
     const body = await request.json();
     const { title, content, wordCount, characterCount } = body;
 
+    // tabs replaces the whole tab list; content alone updates the first tab
+    const tabs = body.tabs !== undefined ? normalizeTabs(body.tabs) : undefined;
+    if (tabs === null) {
+      return NextResponse.json(
+        { error: 'Invalid tabs' },
+        { status: 400 }
+      );
+    }
+
+    console.log(`📝 PUT document ${documentId}:`, { title, contentLength: content?.length || 0, tabs: tabs?.length });
+
+    // Handle both MongoDB ObjectId and custom document IDs, and resolve the user's role
+    const access = await resolveDocumentAccess(session, documentId);
+    const currentDocument = access.document;
+
     // Handle guest users (no session) or authenticated users
-    let userId: ObjectId | null = null;
-    let userEmail: string | null = null;
-    
-    if (session?.user?.email) {
-      userEmail = session.user.email;
-      // Try to find user by email
-      const user = await db.collection('users').findOne({
-        email: session.user.email
-      });
-      if (user) {
-        userId = user._id;
-      } else if (session.user.id && ObjectId.isValid(session.user.id)) {
+    let userId: ObjectId | null = access.user?._id ?? null;
+    const userEmail: string | null = session?.user?.email ?? null;
+
+    if (!userId && session?.user?.email) {
+      if (session.user.id && ObjectId.isValid(session.user.id)) {
         // Fallback to session ID if user not found by email
         userId = new ObjectId(session.user.id);
       } else {
@@ -217,33 +185,13 @@ export async function PUT(
       }
     }
 
-    // Handle both MongoDB ObjectId and custom document IDs
-    let currentDocument;
-    let docObjectId;
-    
-    console.log(`📝 PUT document ${documentId}:`, { title, contentLength: content?.length || 0 });
-    
-    if (ObjectId.isValid(documentId)) {
-      // Standard MongoDB ObjectId
-      docObjectId = new ObjectId(documentId);
-      currentDocument = await db.collection('documents').findOne({
-        _id: docObjectId
-      });
-    } else {
-      // Custom string ID (e.g., doc-1769406684982-dkluhj1r6)
-      currentDocument = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      docObjectId = currentDocument?._id;
-    }
-
     // If document doesn't exist, create it
     if (!currentDocument) {
       console.log(`🆕 Creating new document with title: "${title || 'Untitled Document'}"`);
       const newDoc = {
         customId: documentId,
         title: title || 'Untitled Document',
-        content: content || '',
+        ...tabsUpdate(tabs || [{ id: DEFAULT_TAB_ID, title: DEFAULT_TAB_TITLE, content: content || '' }]),
         owner: userId,
         visibility: 'restricted',
         publicPermission: 'viewer',
@@ -254,7 +202,9 @@ export async function PUT(
       };
 
       const result = await db.collection('documents').insertOne(newDoc);
-      docObjectId = result.insertedId;
+      if (access.user) {
+        await linkAttachments(db, result.insertedId, newDoc.tabs, access.user);
+      }
 
       console.log(`✅ Created new document ${documentId} with _id ${result.insertedId}`);
 
@@ -265,52 +215,28 @@ export async function PUT(
       });
     }
 
+    const docObjectId = currentDocument._id;
     console.log(`📄 Updating existing document. Current title: "${currentDocument.title}"`);
     console.log(`🔐 Access check:`, { 
       userId: userId?.toString(), 
       userEmail, 
       hasSession: !!session,
       documentOwner: currentDocument.owner?.toString(),
-      sharedWithCount: currentDocument.sharedWith?.length || 0
+      sharedWithCount: currentDocument.sharedWith?.length || 0,
+      role: access.role
     });
     
-    // Check permissions - Must have userId OR valid session for shared docs
+    // Check permissions - owners, shared editors and public editors may save
     if (currentDocument.owner) {
-      const isOwner = userId && currentDocument.owner.equals(userId);
-      
-      if (!isOwner) {
-        // Check if user has edit permission in sharedWith array
-        const sharedWith = currentDocument.sharedWith || [];
-        const shareInfo = sharedWith.find((share: any) => 
-          (userId && share.userId?.equals(userId)) || 
-          (userEmail && share.email === userEmail)
+      if (!canEdit(access.role)) {
+        console.log(`❌ Edit access denied for ${userEmail || 'unknown user'} (${access.role})`);
+        return NextResponse.json(
+          { error: `Edit access denied. You only have ${access.role === 'none' ? 'no' : access.role} permission.` },
+          { status: 403 }
         );
-        
-        console.log(`🔍 Share lookup for ${userEmail}:`, { 
-          foundShare: !!shareInfo, 
-          shareRole: shareInfo?.role,
-          sharedWithEmails: sharedWith.map((s: any) => s.email)
-        });
-        
-        const hasEditAccess = shareInfo && shareInfo.role === 'editor';
-        
-        // Also check if document is public with editor permission
-        const hasPublicEditAccess = 
-          currentDocument.visibility === 'public' && 
-          currentDocument.publicPermission === 'editor';
-
-        if (!hasEditAccess && !hasPublicEditAccess) {
-          console.log(`❌ Edit access denied for ${userEmail || 'unknown user'}`);
-          return NextResponse.json(
-            { error: 'Edit access denied. You only have viewer permission.' },
-            { status: 403 }
-          );
-        }
-        
-        console.log(`✅ Edit access granted for ${userEmail}: ${hasEditAccess ? 'shared editor' : 'public editor'}`);
-      } else {
-        console.log(`✅ Edit access granted for ${userEmail}: owner`);
       }
+
+      console.log(`✅ Edit access granted for ${userEmail}: ${access.role}`);
     } else {
       console.log(`⚠️ Document has no owner, allowing save for authenticated user`);
     }
@@ -320,55 +246,94 @@ export async function PUT(
       updatedAt: new Date()
     };
 
+    // Content from before a version restore would undo it
+    const writesContent = tabs !== undefined || content !== undefined;
+    const restoreCount = currentDocument.restoreCount || 0;
+    if (writesContent && (typeof body.restoreCount === 'number' ? body.restoreCount : 0) < restoreCount) {
+      console.log(`⏪ Rejected save of content from before restore ${restoreCount} of ${documentId}`);
+      return NextResponse.json(
+        { error: 'The document was restored to an earlier version', restoreCount },
+        { status: 409 }
+      );
+    }
+
     if (title !== undefined) updateData.title = title;
-    if (content !== undefined) updateData.content = content;
+    const previousTabs = getDocumentTabs(currentDocument);
+    if (tabs) {
+      Object.assign(updateData, tabsUpdate(tabs));
+    } else if (content !== undefined) {
+      const [firstTab, ...otherTabs] = previousTabs;
+      Object.assign(updateData, tabsUpdate([{ ...firstTab, content: content || '' }, ...otherTabs]));
+    }
     if (wordCount !== undefined) updateData.wordCount = wordCount;
     if (characterCount !== undefined) updateData.characterCount = characterCount;
 
     console.log(`💾 Updating document with:`, { 
       title: updateData.title, 
       contentLength: updateData.content?.length || 0,
+      tabs: updateData.tabs?.length,
       wordCount: updateData.wordCount,
       characterCount: updateData.characterCount 
     });
 
+    // A restore between reading the document and this write wins
     const updateResult = await db.collection('documents').updateOne(
-      { _id: docObjectId },
+      {
+        _id: docObjectId,
+        ...(writesContent ? { restoreCount: restoreCount || { $in: [0, null] } } : {})
+      },
       { $set: updateData }
     );
 
+    if (updateResult.matchedCount === 0) {
+      console.log(`⏪ Document ${documentId} was restored while saving`);
+      return NextResponse.json(
+        { error: 'The document was restored to an earlier version' },
+        { status: 409 }
+      );
+    }
+
     console.log(`✅ Document updated successfully:`, { 
       matched: updateResult.matchedCount, 
       modified: updateResult.modifiedCount 
     });
 
+    // Tell the sharer a collaborator edited it, if their share asks for that
+    const contentChanged = updateData.tabs && (
+      updateData.tabs.length !== previousTabs.length ||
+      updateData.tabs.some((tab: DocumentTab, index: number) => tab.content !== previousTabs[index].content)
+    );
+    if (contentChanged) {
+      await notifyDocumentActivity(db, { document: currentDocument, user: access.user, activity: 'edited' });
+    }
+
+    // Images pasted from other documents
+    if (contentChanged && access.user) {
+      await linkAttachments(db, docObjectId, updateData.tabs, access.user);
+    }
+
     // Create version snapshot (auto-save every 5 minutes or manual save) - only for authenticated users
-    if (userId && content) {
+    if (userId && updateData.tabs) {
       const lastVersion = await db.collection('documentVersions')
         .findOne(
           { document: docObjectId },
-          { sort: { versionNumber: -1 } }
+          { sort: { versionNumber: -1 }, projection: { createdAt: 1 } }
         );
 
       const shouldCreateVersion = !lastVersion || 
         (Date.now() - lastVersion.createdAt.getTime() > 5 * 60 * 1000); // 5 minutes
 
       if (shouldCreateVersion) {
-        const versionNumber = (lastVersion?.versionNumber || 0) + 1;
-        
-        await db.collection('documentVersions').insertOne({
+        // Also prunes old automatic versions (lib/versionRetention.ts)
+        await createVersion(db, {
           document: docObjectId,
-          versionNumber,
           title: title || currentDocument.title,
-          content,
+          tabs: updateData.tabs,
           createdBy: userId,
           changeType: 'auto',
           wordCount: wordCount || 0,
-          characterCount: characterCount || 0,
-          createdAt: new Date()
+          characterCount: characterCount || 0
         });
-
-        console.log(`📝 Created version ${versionNumber} for document ${documentId}`);
       }
     }
 
@@ -388,7 +353,8 @@ export async function PUT(
 
 /**
  * DELETE /api/documents/[id]
- * Delete a document (owner only)
+ * Move a document to the trash (owner only)
+ * With ?permanent=true a trashed document is deleted forever
  */
 export async function DELETE(
   request: NextRequest,
@@ -407,10 +373,8 @@ export async function DELETE(
     const { db } = await connectToDatabase();
     const { id: documentId } = await params;
 
-    // Find the user
-    const user = await db.collection('users').findOne({
-      email: session.user.email
-    });
+    // Find the document (ObjectId or custom ID) and the user's role
+    const { document, docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
 
     if (!user) {
       return NextResponse.json(
@@ -419,30 +383,7 @@ export async function DELETE(
       );
     }
 
-    // Handle both MongoDB ObjectId and custom document IDs
-    let document;
-    let docObjectId: ObjectId;
-    if (ObjectId.isValid(documentId)) {
-      // Standard MongoDB ObjectId
-      docObjectId = new ObjectId(documentId);
-      document = await db.collection('documents').findOne({
-        _id: docObjectId
-      });
-    } else {
-      // Custom string ID (e.g., doc-1769406684982-dkluhj1r6)
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      if (!document) {
-        return NextResponse.json(
-          { error: 'Document not found' },
-          { status: 404 }
-        );
-      }
-      docObjectId = document._id;
-    }
-
-    if (!document) {
+    if (!document || !docObjectId) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
@@ -450,24 +391,43 @@ export async function DELETE(
     }
 
     // Check if user is owner
-    if (!document.owner.equals(user._id)) {
+    if (role !== 'owner') {
       return NextResponse.json(
         { error: 'Only the owner can delete this document' },
         { status: 403 }
       );
     }
 
-    // Delete document and related data
-    await Promise.all([
-      db.collection('documents').deleteOne({ _id: docObjectId }),
-      db.collection('documentVersions').deleteMany({ document: docObjectId }),
-      db.collection('sharepermissions').deleteMany({ document: docObjectId }),
-      db.collection('comments').deleteMany({ document: docObjectId })
-    ]);
+    if (request.nextUrl.searchParams.get('permanent') === 'true') {
+      if (!isTrashed(document)) {
+        return NextResponse.json(
+          { error: 'Move the document to the trash before deleting it forever' },
+          { status: 400 }
+        );
+      }
+
+      // Delete document and related data
+      await deleteDocumentData(db, document);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Document deleted forever'
+      });
+    }
+
+    if (isTrashed(document)) {
+      return NextResponse.json(
+        { error: 'Document is already in the trash' },
+        { status: 400 }
+      );
+    }
+
+    await moveToTrash(db, document, user);
 
     return NextResponse.json({
       success: true,
-      message: 'Document deleted successfully'
+      message: 'Document moved to trash',
+      purgeAt: trashPurgeDate(new Date()).toISOString()
     });
 
   } catch (error) {
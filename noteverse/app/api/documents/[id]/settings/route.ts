@@ -9,7 +9,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
+import { resolveDocumentAccess, canView, canEdit, isGrantableRole } from '@/lib/documentAccess';
+import { normalizeTags, MAX_TAGS, MAX_TAG_LENGTH } from '@/lib/documentFilters';
+import { getCollaborators } from '@/lib/sharing';
 
 /**
  * GET document settings
@@ -29,40 +31,18 @@ export async function GET(
     const { id: documentId } = await params;
 
     // Handle both MongoDB ObjectId and custom document IDs
-    let document;
-    
-    if (ObjectId.isValid(documentId)) {
-      // Standard MongoDB ObjectId
-      document = await db.collection('documents').findOne({
-        _id: new ObjectId(documentId)
-      });
-    } else {
-      // Custom string ID (e.g., doc-1769406684982-dkluhj1r6)
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-    }
+    const { document, user: currentUser, role } = await resolveDocumentAccess(session, documentId);
 
     if (!document) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Get current user
-    const currentUser = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
     if (!currentUser) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
     // Check access permission
-    const isOwner = document.owner.equals(currentUser._id);
-    const isCollaborator = document.collaborators?.some(
-      (collab: { user: ObjectId; role: string }) => collab.user.equals(currentUser._id)
-    );
-
-    if (!isOwner && !isCollaborator) {
+    if (!canView(role)) {
       return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
@@ -88,7 +68,9 @@ export async function GET(
       pageWidth: document.pageWidth || 'normal',
       spellCheck: document.spellCheck ?? true,
       isArchived: document.isArchived || false,
-      collaboratorCount: document.collaborators?.length || 0,
+      tags: document.tags || [],
+      deletedAt: document.deletedAt || null,
+      collaboratorCount: getCollaborators(document).length,
     });
   } catch (error) {
     console.error('Error fetching document settings:', error);
@@ -120,40 +102,18 @@ export async function PATCH(
     const updates = await request.json();
 
     // Handle both MongoDB ObjectId and custom document IDs
-    let document;
-    let docObjectId: ObjectId;
-    if (ObjectId.isValid(documentId)) {
-      // Standard MongoDB ObjectId
-      docObjectId = new ObjectId(documentId);
-      document = await db.collection('documents').findOne({
-        _id: docObjectId
-      });
-    } else {
-      // Custom string ID
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      if (!document) {
-        return NextResponse.json({ error: 'Document not found' }, { status: 404 });
-      }
-      docObjectId = document._id;
-    }
+    const { docObjectId, user: currentUser, role } = await resolveDocumentAccess(session, documentId);
 
-    if (!document) {
+    if (!docObjectId) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Get current user
-    const currentUser = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
     if (!currentUser) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
     // Check permissions
-    const isOwner = document.owner.equals(currentUser._id);
+    const isOwner = role === 'owner';
 
     // Only owner can change most settings
     const ownerOnlyFields = [
@@ -179,6 +139,39 @@ export async function PATCH(
       );
     }
 
+    // Editors can tag documents too
+    if (updates.tags !== undefined && !canEdit(role)) {
+      return NextResponse.json(
+        { error: 'Only editors can change tags' },
+        { status: 403 }
+      );
+    }
+
+    if (updates.tags !== undefined) {
+      const tags = normalizeTags(updates.tags);
+      if (!tags) {
+        return NextResponse.json(
+          { error: `Tags must be a list of at most ${MAX_TAGS} strings of up to ${MAX_TAG_LENGTH} characters` },
+          { status: 400 }
+        );
+      }
+      updates.tags = tags;
+    }
+
+    if (updates.isArchived !== undefined && typeof updates.isArchived !== 'boolean') {
+      return NextResponse.json(
+        { error: 'isArchived must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (updates.publicPermission !== undefined && !isGrantableRole(updates.publicPermission)) {
+      return NextResponse.json(
+        { error: 'Invalid publicPermission. Must be "viewer", "commenter" or "editor"' },
+        { status: 400 }
+      );
+    }
+
     // Apply updates (validate allowed fields)
     const allowedUpdates = [
       'visibility',
@@ -189,6 +182,7 @@ export async function PATCH(
       'pageWidth',
       'spellCheck',
       'isArchived',
+      'tags',
     ];
 
     const updateFields: Record<string, unknown> = {};
@@ -237,7 +231,9 @@ export async function PATCH(
       pageWidth: updatedDocument.pageWidth || 'normal',
       spellCheck: updatedDocument.spellCheck ?? true,
       isArchived: updatedDocument.isArchived || false,
-      collaboratorCount: updatedDocument.collaborators?.length || 0,
+      tags: updatedDocument.tags || [],
+      deletedAt: updatedDocument.deletedAt || null,
+      collaboratorCount: getCollaborators(updatedDocument).length,
     });
   } catch (error) {
     console.error('Error updating document settings:', error);
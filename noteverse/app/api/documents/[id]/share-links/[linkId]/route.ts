@@ -0,0 +1,72 @@
+/**
+ * Document Share Link API
+ *
+ * DELETE - Revoke a share link; people who joined through it lose that access
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { ObjectId } from 'mongodb';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, canShare } from '@/lib/documentAccess';
+import { revokeShareLink } from '@/lib/shareLinks';
+
+/**
+ * DELETE /api/documents/[id]/share-links/[linkId]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; linkId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: documentId, linkId } = await params;
+
+    if (!ObjectId.isValid(linkId)) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    const { document, user, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!canShare(role)) {
+      return NextResponse.json({ error: 'Only the owner can manage share links' }, { status: 403 });
+    }
+
+    const { db } = await connectToDatabase();
+    const revoked = await revokeShareLink(db, {
+      document,
+      linkId: new ObjectId(linkId),
+      revokedBy: user
+    });
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'Share link not found' }, { status: 404 });
+    }
+
+    console.log(`🚫 Share link ${linkId} revoked for "${document.title}"`);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Share link revoked'
+    });
+  } catch (error) {
+    console.error('Error revoking share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke share link' },
+      { status: 500 }
+    );
+  }
+}
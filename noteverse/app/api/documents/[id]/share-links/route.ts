@@ -0,0 +1,157 @@
+/**
+ * Document Share Links API
+ *
+ * GET - List the document's share links (owner only)
+ * POST - Create a share link with its own role, optional expiry and password
+ *
+ * Revoking lives under [linkId]; visitors open links through /s/[token]
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, canShare, isGrantableRole } from '@/lib/documentAccess';
+import {
+  createShareLink,
+  formatShareLink,
+  getShareLinks,
+  MAX_SHARE_LINKS,
+  MAX_LINK_LABEL_LENGTH,
+  MIN_LINK_PASSWORD_LENGTH
+} from '@/lib/shareLinks';
+
+const MAX_EXPIRY_DAYS = 365;
+
+/**
+ * GET /api/documents/[id]/share-links
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: documentId } = await params;
+    const { document, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (!canShare(role)) {
+      return NextResponse.json({ error: 'Only the owner can manage share links' }, { status: 403 });
+    }
+
+    const { db } = await connectToDatabase();
+    const links = await getShareLinks(db, document._id);
+
+    return NextResponse.json({
+      success: true,
+      links: links.map(formatShareLink)
+    });
+  } catch (error) {
+    console.error('Error fetching share links:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch share links' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/share-links
+ * Body: { role, label?, expiresInDays?, password? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: documentId } = await params;
+    const { role: linkRole, label = '', expiresInDays = null, password = null } = await request.json();
+
+    if (!isGrantableRole(linkRole)) {
+      return NextResponse.json(
+        { error: 'Invalid role. Must be "viewer", "commenter" or "editor"' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof label !== 'string' || label.length > MAX_LINK_LABEL_LENGTH) {
+      return NextResponse.json(
+        { error: `Label cannot exceed ${MAX_LINK_LABEL_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (expiresInDays !== null && (typeof expiresInDays !== 'number' || expiresInDays <= 0 || expiresInDays > MAX_EXPIRY_DAYS)) {
+      return NextResponse.json(
+        { error: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    if (password !== null && (typeof password !== 'string' || password.length < MIN_LINK_PASSWORD_LENGTH)) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_LINK_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { document, user, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    if (!canShare(role)) {
+      return NextResponse.json({ error: 'Only the owner can manage share links' }, { status: 403 });
+    }
+
+    const { db } = await connectToDatabase();
+    const existingLinks = await getShareLinks(db, document._id);
+
+    if (existingLinks.length >= MAX_SHARE_LINKS) {
+      return NextResponse.json(
+        { error: `A document can have at most ${MAX_SHARE_LINKS} share links` },
+        { status: 400 }
+      );
+    }
+
+    const link = await createShareLink(db, {
+      document,
+      createdBy: user,
+      role: linkRole,
+      label: label.trim(),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      password
+    });
+
+    console.log(`🔗 Share link created for "${document.title}" (${linkRole}${password ? ', password protected' : ''})`);
+
+    return NextResponse.json({
+      success: true,
+      link: formatShareLink(link)
+    });
+  } catch (error) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to create share link' },
+      { status: 500 }
+    );
+  }
+}
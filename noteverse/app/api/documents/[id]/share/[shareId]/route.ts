@@ -11,6 +11,8 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
+import { resolveDocumentAccess, canShare, isGrantableRole } from '@/lib/documentAccess';
+import { getCollaborators, setDocumentShare, removeDocumentShare } from '@/lib/sharing';
 
 /**
  * PATCH /api/documents/[id]/share/[shareId]
@@ -33,9 +35,9 @@ export async function PATCH(
     console.log('🔄 PATCH share permission:', { documentId, shareId, permission });
 
     // Validate permission
-    if (!permission || !['viewer', 'editor'].includes(permission)) {
+    if (!isGrantableRole(permission)) {
       return NextResponse.json(
-        { error: 'Invalid permission. Must be "viewer" or "editor"' },
+        { error: 'Invalid permission. Must be "viewer", "commenter" or "editor"' },
         { status: 400 }
       );
     }
@@ -50,72 +52,34 @@ export async function PATCH(
     }
 
     // Find document and check ownership
-    let document;
-    if (ObjectId.isValid(documentId)) {
-      document = await db.collection('documents').findOne({
-        _id: new ObjectId(documentId)
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-    }
+    const { document, role } = await resolveDocumentAccess(session, documentId);
 
     if (!document) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Check if user is owner
-    const user = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
-    if (!user || !document.owner.equals(user._id)) {
+    if (!canShare(role)) {
       return NextResponse.json(
         { error: 'Only the owner can modify permissions' },
         { status: 403 }
       );
     }
 
-    // Update the share in sharedWith array
     // shareId is actually the userId of the collaborator
-    let docObjectId: ObjectId;
-    if (ObjectId.isValid(documentId)) {
-      docObjectId = new ObjectId(documentId);
-    } else {
-      docObjectId = document._id;
-    }
-
-    console.log('📝 Updating share:', {
-      docObjectId: docObjectId.toString(),
-      shareUserId: shareId,
-      newPermission: permission
-    });
-
-    // First try to update by userId
-    let result = await db.collection('documents').updateOne(
-      { 
-        _id: docObjectId,
-        'sharedWith.userId': new ObjectId(shareId)
-      },
-      { 
-        $set: { 
-          'sharedWith.$.role': permission,
-          updatedAt: new Date() 
-        } 
-      }
-    );
-
-    console.log('✅ Update result:', {
-      matchedCount: result.matchedCount,
-      modifiedCount: result.modifiedCount
-    });
+    const shareUserId = new ObjectId(shareId);
+    const existingShare = getCollaborators(document).find((share) => share.userId?.equals(shareUserId));
 
-    if (result.matchedCount === 0) {
+    if (!existingShare) {
       console.error('❌ Share not found for userId:', shareId);
       return NextResponse.json({ error: 'Share not found' }, { status: 404 });
     }
 
+    await setDocumentShare(db, {
+      document,
+      recipient: { _id: shareUserId, email: existingShare.email },
+      role: permission
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Permission updated successfully',
@@ -158,27 +122,13 @@ export async function DELETE(
     }
 
     // Find document and check ownership
-    let document;
-    if (ObjectId.isValid(documentId)) {
-      document = await db.collection('documents').findOne({
-        _id: new ObjectId(documentId)
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-    }
+    const { document, role } = await resolveDocumentAccess(session, documentId);
 
     if (!document) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Check if user is owner
-    const user = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
-    if (!user || !document.owner.equals(user._id)) {
+    if (!canShare(role)) {
       return NextResponse.json(
         { error: 'Only the owner can remove collaborators' },
         { status: 403 }
@@ -187,28 +137,12 @@ export async function DELETE(
 
     // Remove from sharedWith array
     // shareId is actually the userId of the collaborator
-    let docObjectId: ObjectId;
-    if (ObjectId.isValid(documentId)) {
-      docObjectId = new ObjectId(documentId);
-    } else {
-      docObjectId = document._id;
-    }
-
-    const result = await db.collection('documents').updateOne(
-      { _id: docObjectId },
-      {
-        $pull: {
-          sharedWith: {
-            userId: new ObjectId(shareId)
-          }
-        } as any,
-        $set: {
-          updatedAt: new Date()
-        }
-      }
-    );
+    const removed = await removeDocumentShare(db, {
+      document,
+      recipient: { _id: new ObjectId(shareId) }
+    });
 
-    if (result.modifiedCount === 0) {
+    if (!removed) {
       return NextResponse.json({ error: 'Share not found or already removed' }, { status: 404 });
     }
 
@@ -3,18 +3,21 @@
  * 
  * Handles document sharing operations:
  * - GET: Fetch all collaborators for a document
- * - POST: Invite a new collaborator
+ * - POST: Invite a new collaborator (people without an account get a
+ *   pending invitation by email)
+ * - DELETE: Remove a collaborator or pending invitation by email
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
-import mongoose from 'mongoose';
-import User from '@/lib/models/User';
-import Document from '@/lib/models/Document';
-import DocumentShare from '@/lib/models/DocumentShare';
+import { resolveDocumentAccess, canView, canShare, isGrantableRole } from '@/lib/documentAccess';
+import { getCollaborators, setDocumentShare, removeDocumentShare, isPendingInvite } from '@/lib/sharing';
+import { notifyUsers, saveShareNotificationSettings, displayName } from '@/lib/notifications';
+import { emailShare, emailInvitation } from '@/lib/emailNotifications';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
 /**
  * GET /api/documents/[id]/share
@@ -34,60 +37,25 @@ export async function GET(
     const { id: documentId } = await params;
 
     // Find document by MongoDB ObjectId or custom ID
-    let document;
-    let docObjectId: ObjectId;
-    
-    if (ObjectId.isValid(documentId)) {
-      docObjectId = new ObjectId(documentId);
-      document = await db.collection('documents').findOne({
-        _id: docObjectId
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      if (!document) {
-        return NextResponse.json({ error: 'Document not found' }, { status: 404 });
-      }
-      docObjectId = document._id;
-    }
+    const { document, role } = await resolveDocumentAccess(session, documentId);
 
     if (!document) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Check ownership - get owner's email
-    let isOwner = false;
-    if (document.owner) {
-      const ownerUser = await db.collection('users').findOne({
-        _id: document.owner
-      });
-      isOwner = ownerUser?.email === session.user.email;
+    if (!canView(role)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
     }
 
-    // Get collaborators from document.sharedWith array
-    const sharedWith = document.sharedWith || [];
-    
-    console.log('📋 Found sharedWith entries:', sharedWith.length);
-    
-    // Deduplicate by email (keep the highest permission level)
-    const deduplicatedShares = new Map<string, any>();
-    sharedWith.forEach((share: any) => {
-      const email = share.email?.toLowerCase();
-      if (!email) return;
-      
-      const existing = deduplicatedShares.get(email);
-      if (!existing || (share.role === 'editor' && existing.role === 'viewer')) {
-        deduplicatedShares.set(email, share);
-      }
-    });
-    
-    const uniqueShares = Array.from(deduplicatedShares.values());
-    console.log('✨ After deduplication:', uniqueShares.length, 'unique collaborators');
+    const isOwner = role === 'owner';
+
+    // One entry per collaborator from document.sharedWith (highest active role)
+    const uniqueShares = getCollaborators(document);
+    console.log('✨ Found', uniqueShares.length, 'unique collaborators');
     
     // Populate user details for each shared user
     const collaborators = await Promise.all(
-      uniqueShares.map(async (share: any, index: number) => {
+      uniqueShares.map(async (share, index) => {
         let sharedWithUser = null;
         if (share.userId) {
           sharedWithUser = await db.collection('users').findOne({
@@ -102,6 +70,8 @@ export async function GET(
           email: share.email,
           role: share.role,
           sharedAt: share.sharedAt,
+          viaLink: !!share.linkId,
+          pending: isPendingInvite(share),
           sharedWith: sharedWithUser ? {
             name: sharedWithUser.name,
             email: sharedWithUser.email
@@ -138,6 +108,7 @@ export async function GET(
 /**
  * POST /api/documents/[id]/share
  * Invite a new collaborator by email (Google Docs style)
+ * Unknown addresses get an invitation email; the share is claimed on signup.
  */
 export async function POST(
   request: NextRequest,
@@ -151,7 +122,7 @@ export async function POST(
 
     const { db } = await connectToDatabase();
     const { id: documentId } = await params;
-    const { email, permission } = await request.json();
+    const { email, permission, notifyOnAccess, notifyOnEdit } = await request.json();
 
     // Validate input
     if (!email || !permission) {
@@ -161,166 +132,120 @@ export async function POST(
       );
     }
 
-    if (!['viewer', 'editor'].includes(permission)) {
+    if (!isGrantableRole(permission)) {
       return NextResponse.json(
-        { error: 'Invalid permission. Must be "viewer" or "editor"' },
+        { error: 'Invalid permission. Must be "viewer", "commenter" or "editor"' },
         { status: 400 }
       );
     }
 
-    // Find document
-    let document;
-    let docObjectId: ObjectId;
-    
-    if (ObjectId.isValid(documentId)) {
-      docObjectId = new ObjectId(documentId);
-      document = await db.collection('documents').findOne({
-        _id: docObjectId
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      if (!document) {
-        return NextResponse.json({ error: 'Document not found' }, { status: 404 });
-      }
-      docObjectId = document._id;
-    }
+    // Find document and check the user may share it
+    const { document, docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
 
-    if (!document) {
+    if (!document || !docObjectId) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Check if user is the owner
-    const user = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    const isOwner = document.owner?.equals(user._id);
-    if (!isOwner) {
+    if (!canShare(role)) {
       return NextResponse.json(
         { error: 'Only the owner can share this document' },
         { status: 403 }
       );
     }
 
+    const recipientEmail = String(email).trim().toLowerCase();
+
+    if (!EMAIL_REGEX.test(recipientEmail)) {
+      return NextResponse.json(
+        { error: 'Please enter a valid email address' },
+        { status: 400 }
+      );
+    }
+
     // Prevent sharing with self
-    if (email.toLowerCase() === session.user.email.toLowerCase()) {
+    if (recipientEmail === session.user.email.toLowerCase()) {
       return NextResponse.json(
         { error: 'You cannot share with yourself' },
         { status: 400 }
       );
     }
 
-    // Find the recipient user by email
+    // Find the recipient user by email - people without an account get a pending invitation
     const recipientUser = await db.collection('users').findOne({
-      email: email.toLowerCase()
+      email: recipientEmail
     });
+    const recipient = { _id: recipientUser?._id || null, email: recipientEmail };
 
-    if (!recipientUser) {
-      return NextResponse.json(
-        { error: 'User with this email does not exist. They need to create an account first.' },
-        { status: 404 }
-      );
-    }
-
-    // Check if already shared with this user
-    const sharedWith = document.sharedWith || [];
-    const existingShare = sharedWith.find((share: any) => 
-      share.userId?.equals(recipientUser._id) || 
-      share.email?.toLowerCase() === email.toLowerCase()
-    );
+    // Add the share, or change the role of an existing one
+    const existingShare = await setDocumentShare(db, {
+      document,
+      recipient,
+      role: permission
+    });
 
-    if (existingShare) {
-      // Remove all existing entries for this user first (to handle duplicates)
-      await db.collection('documents').updateOne(
-        { _id: docObjectId },
-        {
-          $pull: {
-            sharedWith: {
-              $or: [
-                { userId: recipientUser._id },
-                { email: email.toLowerCase() }
-              ]
-            }
-          } as any
-        }
-      );
+    await saveShareNotificationSettings(db, {
+      document,
+      sharedBy: user,
+      recipient,
+      role: permission,
+      settings: { notifyOnAccess, notifyOnEdit }
+    });
 
-      console.log(`🧹 Removed all existing entries for ${email}`);
-
-      // Now add back with the new permission
-      await db.collection('documents').updateOne(
-        { _id: docObjectId },
-        {
-          $push: {
-            sharedWith: {
-              userId: recipientUser._id,
-              email: email.toLowerCase(),
-              role: permission,
-              sharedAt: new Date()
-            }
-          } as any,
-          $set: {
-            updatedAt: new Date()
-          }
-        }
-      );
+    const share = {
+      sharedWith: {
+        name: recipientUser?.name,
+        email: recipientEmail
+      },
+      role: permission,
+      pending: !recipientUser,
+      sharedAt: new Date()
+    };
 
-      console.log(`✅ Updated ${email} to ${permission}`);
+    if (existingShare) {
+      if (recipientUser) {
+        await notifyUsers(db, [{
+          recipientId: recipientUser._id,
+          type: 'share',
+          actor: user,
+          document,
+          message: `${displayName(user)} changed your access to "${document.title || 'Untitled Document'}" to ${permission}`
+        }]);
+      }
 
       return NextResponse.json({
         message: 'Access level updated successfully',
-        share: {
-          sharedWith: {
-            name: recipientUser.name,
-            email: recipientUser.email
-          },
-          role: permission,
-          sharedAt: new Date()
-        },
+        share,
       });
     }
 
-    // Add user to document.sharedWith array
-    const result = await db.collection('documents').updateOne(
-      { _id: docObjectId },
-      {
-        $push: {
-          sharedWith: {
-            userId: recipientUser._id,
-            email: email.toLowerCase(),
-            role: permission,
-            sharedAt: new Date()
-          }
-        } as any,
-        $set: {
-          updatedAt: new Date()
-        }
-      }
-    );
+    if (!recipientUser) {
+      // Don't hold up the response on email delivery
+      emailInvitation({ document, invitedBy: user, email: recipientEmail, role: permission });
 
-    if (result.modifiedCount === 0) {
-      return NextResponse.json(
-        { error: 'Failed to share document' },
-        { status: 500 }
-      );
+      return NextResponse.json({
+        message: 'Invitation sent',
+        share,
+      });
     }
 
+    await notifyUsers(db, [{
+      recipientId: recipientUser._id,
+      type: 'share',
+      actor: user,
+      document,
+      message: `${displayName(user)} shared "${document.title || 'Untitled Document'}" with you as ${permission}`
+    }]);
+
+    // Don't hold up the response on email delivery
+    emailShare(db, { document, sharedBy: user, recipient: recipientUser, role: permission });
+
     return NextResponse.json({
       message: 'Document shared successfully',
-      share: {
-        sharedWith: {
-          name: recipientUser.name,
-          email: recipientUser.email
-        },
-        role: permission,
-        sharedAt: new Date()
-      },
+      share,
     });
   } catch (error) {
     console.error('Error sharing document:', error);
@@ -356,40 +281,18 @@ export async function DELETE(
       );
     }
 
-    // Find document
-    let document;
-    let docObjectId: ObjectId;
-    
-    if (ObjectId.isValid(documentId)) {
-      docObjectId = new ObjectId(documentId);
-      document = await db.collection('documents').findOne({
-        _id: docObjectId
-      });
-    } else {
-      document = await db.collection('documents').findOne({
-        customId: documentId
-      });
-      if (!document) {
-        return NextResponse.json({ error: 'Document not found' }, { status: 404 });
-      }
-      docObjectId = document._id;
-    }
+    // Find document and check the user may share it
+    const { document, docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
 
-    if (!document) {
+    if (!document || !docObjectId) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 });
     }
 
-    // Check if user is the owner
-    const user = await db.collection('users').findOne({
-      email: session.user.email
-    });
-
     if (!user) {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    const isOwner = document.owner?.equals(user._id);
-    if (!isOwner) {
+    if (!canShare(role)) {
       return NextResponse.json(
         { error: 'Only the owner can remove collaborators' },
         { status: 403 }
@@ -397,21 +300,12 @@ export async function DELETE(
     }
 
     // Remove user from document.sharedWith array
-    const result = await db.collection('documents').updateOne(
-      { _id: docObjectId },
-      {
-        $pull: {
-          sharedWith: {
-            email: email.toLowerCase()
-          }
-        } as any,
-        $set: {
-          updatedAt: new Date()
-        }
-      }
-    );
+    const removed = await removeDocumentShare(db, {
+      document,
+      recipient: { email }
+    });
 
-    if (result.modifiedCount === 0) {
+    if (!removed) {
       return NextResponse.json(
         { error: 'User not found in shared list or already removed' },
         { status: 404 }
@@ -0,0 +1,89 @@
+/**
+ * Star API Route
+ *
+ * POST - Star the document for the current user
+ * DELETE - Unstar it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess } from '@/lib/documentAccess';
+import { setDocumentStarred } from '@/lib/documents';
+
+/**
+ * Star or unstar a document anyone with access can open
+ */
+async function updateStar(documentId: string, starred: boolean) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const { db } = await connectToDatabase();
+  const { document, user, role } = await resolveDocumentAccess(session, documentId);
+
+  if (!document) {
+    return NextResponse.json(
+      { error: 'Document not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!user || role === 'none') {
+    return NextResponse.json(
+      { error: 'You do not have access to this document' },
+      { status: 403 }
+    );
+  }
+
+  await setDocumentStarred(db, document, user, starred);
+
+  return NextResponse.json({
+    success: true,
+    starred
+  });
+}
+
+/**
+ * POST /api/documents/[id]/star
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+    return await updateStar(documentId, true);
+  } catch (error) {
+    console.error('Error starring document:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]/star
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+    return await updateStar(documentId, false);
+  } catch (error) {
+    console.error('Error unstarring document:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Document Ownership Transfer API
+ * GET - Pending transfer and transfer history (owner only)
+ * POST - Offer the document to another user (owner only)
+ * DELETE - Cancel the pending transfer (owner only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess } from '@/lib/documentAccess';
+import {
+  findTransferRecipient,
+  formatOwnershipTransfer,
+  getTransferHistory,
+  requestOwnershipTransfers,
+  respondToTransfer
+} from '@/lib/ownershipTransfers';
+
+/**
+ * Resolve the document for an owner-only transfer request
+ */
+async function resolveOwnedDocument(documentId: string) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { document, user, role } = await resolveDocumentAccess(session, documentId);
+
+  if (!document) {
+    return { error: NextResponse.json({ error: 'Document not found' }, { status: 404 }) };
+  }
+
+  if (!user || role !== 'owner') {
+    return {
+      error: NextResponse.json(
+        { error: 'Only the owner can transfer this document' },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { document, user };
+}
+
+/**
+ * GET /api/documents/[id]/transfer
+ * The pending transfer (if any) and every earlier transfer of the document
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+    const resolved = await resolveOwnedDocument(documentId);
+    if ('error' in resolved) return resolved.error;
+
+    const { db } = await connectToDatabase();
+    const history = await getTransferHistory(db, resolved.document._id);
+    const pending = history.find((transfer) => transfer.status === 'pending');
+
+    return NextResponse.json({
+      success: true,
+      pending: pending ? formatOwnershipTransfer(pending) : null,
+      history: history.map(formatOwnershipTransfer)
+    });
+  } catch (error) {
+    console.error('Error fetching ownership transfers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch ownership transfers' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/documents/[id]/transfer
+ * Body: { email: string }
+ * The recipient becomes the owner once they accept
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+    const resolved = await resolveOwnedDocument(documentId);
+    if ('error' in resolved) return resolved.error;
+
+    const { db } = await connectToDatabase();
+    const body = await request.json().catch(() => ({}));
+
+    if (resolved.document.deletedAt) {
+      return NextResponse.json(
+        { error: 'Restore the document from the trash before transferring it' },
+        { status: 400 }
+      );
+    }
+
+    const lookup = await findTransferRecipient(db, body.email, resolved.user);
+    if ('error' in lookup) {
+      return NextResponse.json({ error: lookup.error }, { status: lookup.code });
+    }
+
+    const [transfer] = await requestOwnershipTransfers(db, {
+      documents: [resolved.document],
+      from: resolved.user,
+      to: lookup.recipient
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Transfer offered to ${lookup.recipient.email}`,
+      transfer: formatOwnershipTransfer(transfer)
+    });
+  } catch (error) {
+    console.error('Error requesting ownership transfer:', error);
+    return NextResponse.json(
+      { error: 'Failed to request ownership transfer' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/documents/[id]/transfer
+ * Cancel the document's pending transfer
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+    const resolved = await resolveOwnedDocument(documentId);
+    if ('error' in resolved) return resolved.error;
+
+    const { db } = await connectToDatabase();
+    const pending = (await getTransferHistory(db, resolved.document._id))
+      .find((transfer) => transfer.status === 'pending');
+
+    if (!pending) {
+      return NextResponse.json(
+        { error: 'No pending transfer for this document' },
+        { status: 404 }
+      );
+    }
+
+    const result = await respondToTransfer(db, { transfer: pending, user: resolved.user, action: 'cancel' });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.code });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Transfer cancelled'
+    });
+  } catch (error) {
+    console.error('Error cancelling ownership transfer:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel ownership transfer' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,10 @@
  * Restore Document Version API Route
  * 
  * POST - Restore a document to a specific version
- * The restored content will sync to all active collaborators in real-time via Yjs
+ * The realtime server rewrites the live Yjs document in one transaction and
+ * tells everyone in the room (see lib/socket/liveRestore.ts). The restore
+ * bumps the document's restoreCount, so autosaves of content from before it
+ * are rejected.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -10,6 +13,13 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
+import { resolveDocumentAccess, canEdit } from '@/lib/documentAccess';
+import { tabsUpdate } from '@/lib/documents';
+import { getDocumentTabs } from '@/lib/documentTabs';
+import { createVersion } from '@/lib/versions';
+import { versionTabs } from '@/lib/versionStorage';
+import { restoreLiveDocument } from '@/lib/socket/liveRestore';
+import { documentRoomIds } from '@/lib/socket/liveAccess';
 
 /**
  * POST /api/documents/[id]/versions/[versionId]/restore
@@ -22,7 +32,7 @@ export async function POST(
   try {
     const session = await getServerSession(authOptions);
     
-    if (!session?.user?.id) {
+    if (!session?.user?.email) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -32,24 +42,20 @@ export async function POST(
     const { db } = await connectToDatabase();
     const { id: documentId, versionId } = await params;
 
-    // Validate ObjectIds
-    if (!ObjectId.isValid(documentId) || !ObjectId.isValid(versionId)) {
+    // Validate version ObjectId
+    if (!ObjectId.isValid(versionId)) {
       return NextResponse.json(
         { error: 'Invalid ID format' },
         { status: 400 }
       );
     }
 
-    const userId = new ObjectId(session.user.id);
-    const docObjectId = new ObjectId(documentId);
     const versionObjectId = new ObjectId(versionId);
 
-    // Fetch document
-    const document = await db.collection('documents').findOne({
-      _id: docObjectId
-    });
+    // Fetch document (ObjectId or custom ID) and the user's role
+    const { document, docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
 
-    if (!document) {
+    if (!document || !docObjectId) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
@@ -57,22 +63,15 @@ export async function POST(
     }
 
     // Check write permissions
-    const isOwner = document.owner.equals(userId);
-    if (!isOwner) {
-      const hasWriteAccess = await db.collection('sharepermissions').findOne({
-        document: docObjectId,
-        sharedWith: userId,
-        permission: { $in: ['edit', 'owner'] }
-      });
-
-      if (!hasWriteAccess) {
-        return NextResponse.json(
-          { error: 'Write access denied' },
-          { status: 403 }
-        );
-      }
+    if (!user || !canEdit(role)) {
+      return NextResponse.json(
+        { error: 'Write access denied' },
+        { status: 403 }
+      );
     }
 
+    const userId = user._id;
+
     // Fetch the version to restore
     const versionToRestore = await db.collection('documentVersions').findOne({
       _id: versionObjectId,
@@ -86,68 +85,76 @@ export async function POST(
       );
     }
 
-    // Save current state as a version before restoring (backup)
-    const lastVersion = await db.collection('documentVersions')
-      .findOne(
-        { document: docObjectId },
-        { sort: { versionNumber: -1 } }
-      );
-
-    const backupVersionNumber = (lastVersion?.versionNumber || 0) + 1;
+    const restoredTabs = await versionTabs(db, versionToRestore);
 
-    await db.collection('documentVersions').insertOne({
+    // Save current state as a version before restoring (backup), pinned so
+    // retention keeps it
+    await createVersion(db, {
       document: docObjectId,
-      versionNumber: backupVersionNumber,
       title: document.title,
-      content: document.content || '',
+      tabs: getDocumentTabs(document),
       createdBy: userId,
       changeType: 'auto',
+      pinned: true,
       description: `Backup before restoring to v${versionToRestore.versionNumber}`,
       wordCount: document.wordCount || 0,
-      characterCount: document.characterCount || 0,
-      createdAt: new Date()
+      characterCount: document.characterCount || 0
     });
 
     // Restore the document to the selected version
-    await db.collection('documents').updateOne(
+    const restoredDocument = await db.collection('documents').findOneAndUpdate(
       { _id: docObjectId },
       {
         $set: {
           title: versionToRestore.title,
-          content: versionToRestore.content,
+          ...tabsUpdate(restoredTabs),
           wordCount: versionToRestore.wordCount,
           characterCount: versionToRestore.characterCount,
           updatedAt: new Date()
-        }
-      }
+        },
+        $inc: { restoreCount: 1 }
+      },
+      { returnDocument: 'after', projection: { restoreCount: 1 } }
     );
+    const restoreCount = restoredDocument?.restoreCount || 1;
 
     // Create a new version entry for the restore action
-    const newVersionNumber = backupVersionNumber + 1;
-    
-    await db.collection('documentVersions').insertOne({
+    await createVersion(db, {
       document: docObjectId,
-      versionNumber: newVersionNumber,
       title: versionToRestore.title,
-      content: versionToRestore.content,
+      tabs: restoredTabs,
       createdBy: userId,
       changeType: 'restore',
       description: `Restored from v${versionToRestore.versionNumber}`,
       wordCount: versionToRestore.wordCount,
-      characterCount: versionToRestore.characterCount,
-      createdAt: new Date()
+      characterCount: versionToRestore.characterCount
     });
 
     console.log(`🔄 Document ${documentId} restored to version ${versionToRestore.versionNumber}`);
 
-    // Return the restored content
-    // The client will update the Yjs document, which will sync to all collaborators
+    // Rewrite the Yjs document in every room it can be joined with
+    const live = await restoreLiveDocument({
+      roomIds: documentRoomIds(document),
+      tabs: restoredTabs,
+      notice: {
+        versionNumber: versionToRestore.versionNumber,
+        title: versionToRestore.title,
+        restoreCount,
+        restoredBy: { id: userId.toString(), name: user.name, email: user.email, cursorColor: user.cursorColor }
+      }
+    });
+
+    // Without an in-process realtime server (live: false) the client applies
+    // the restore to its Yjs document itself
     return NextResponse.json({
       success: true,
       message: `Document restored to version ${versionToRestore.versionNumber}`,
+      live,
+      restoreCount,
       restoredContent: {
         title: versionToRestore.title,
-        content: versionToRestore.content,
+        content: restoredTabs[0]?.content || '',
+        tabs: restoredTabs,
         wordCount: versionToRestore.wordCount,
         characterCount: versionToRestore.characterCount,
         versionNumber: versionToRestore.versionNumber
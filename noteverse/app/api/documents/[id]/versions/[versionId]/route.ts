@@ -0,0 +1,154 @@
+/**
+ * Document Version API Route
+ *
+ * GET - Fetch one version of a document with its content
+ * PATCH - Name, describe or pin a version
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, canViewHistory, canEdit } from '@/lib/documentAccess';
+import {
+  getVersion,
+  normalizeVersionLabel,
+  updateVersionLabels,
+  MAX_VERSION_DESCRIPTION_LENGTH,
+  MAX_VERSION_NAME_LENGTH
+} from '@/lib/versions';
+
+/**
+ * GET /api/documents/[id]/versions/[versionId]
+ * Fetch a version's title and content (all tabs)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId, versionId } = await params;
+
+    const { docObjectId, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!docObjectId) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canViewHistory(role)) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const version = await getVersion(db, docObjectId, versionId);
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      version
+    });
+
+  } catch (error) {
+    console.error('Error fetching version:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/documents/[id]/versions/[versionId]
+ * Body: { name?, description?, pinned? } - an empty name or description
+ * removes it; named and pinned versions are never pruned
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; versionId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId, versionId } = await params;
+    const body = await request.json();
+
+    if (body.pinned !== undefined && typeof body.pinned !== 'boolean') {
+      return NextResponse.json(
+        { error: 'pinned must be true or false' },
+        { status: 400 }
+      );
+    }
+
+    const { docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!docObjectId) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!user || !canEdit(role)) {
+      return NextResponse.json(
+        { error: 'Write access denied' },
+        { status: 403 }
+      );
+    }
+
+    const version = await updateVersionLabels(db, docObjectId, versionId, {
+      name: normalizeVersionLabel(body.name, MAX_VERSION_NAME_LENGTH),
+      description: normalizeVersionLabel(body.description, MAX_VERSION_DESCRIPTION_LENGTH),
+      pinned: body.pinned
+    });
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`🏷️ Updated version ${version.versionNumber} of document ${documentId}`);
+
+    return NextResponse.json({
+      success: true,
+      version
+    });
+
+  } catch (error) {
+    console.error('Error updating version:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
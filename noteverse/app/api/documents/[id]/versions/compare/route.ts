@@ -0,0 +1,84 @@
+/**
+ * Compare Document Versions API Route
+ *
+ * GET - Diff two versions of a document, or a version and the current document
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, canViewHistory } from '@/lib/documentAccess';
+import { CURRENT_VERSION, compareVersions } from '@/lib/versions';
+
+/**
+ * GET /api/documents/[id]/versions/compare?from=<versionId>&to=<versionId|current>
+ * Inline and side-by-side diffs of every tab, with words added and removed
+ * per author in between. `to` defaults to the current document.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const { id: documentId } = await params;
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to') || CURRENT_VERSION;
+
+    if (!from) {
+      return NextResponse.json(
+        { error: 'Pick a version to compare' },
+        { status: 400 }
+      );
+    }
+
+    const { document, role } = await resolveDocumentAccess(session, documentId);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!canViewHistory(role)) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const comparison = await compareVersions(db, document, from, to);
+
+    if (!comparison) {
+      return NextResponse.json(
+        { error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log(`🔍 Compared ${from} with ${to} for document ${documentId}`);
+
+    return NextResponse.json({
+      success: true,
+      ...comparison
+    });
+
+  } catch (error) {
+    console.error('Error comparing versions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
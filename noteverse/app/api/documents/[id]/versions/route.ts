@@ -2,19 +2,29 @@
  * Document Versions API Routes
  * 
  * Handles document version history
- * GET - Fetch all versions for a document
- * POST - Create a manual version snapshot
+ * GET - Fetch the version history of a document (metadata only)
+ * POST - Save the current document as a (named) version
+ *
+ * A version's content: GET ./[versionId]; comparing two: GET ./compare
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
+import { resolveDocumentAccess, canViewHistory, canEdit } from '@/lib/documentAccess';
+import { getDocumentTabs } from '@/lib/documentTabs';
+import {
+  createVersion,
+  listVersions,
+  normalizeVersionLabel,
+  MAX_VERSION_DESCRIPTION_LENGTH,
+  MAX_VERSION_NAME_LENGTH
+} from '@/lib/versions';
 
 /**
  * GET /api/documents/[id]/versions
- * Fetch version history for a document
+ * Fetch version history for a document, without content
  */
 export async function GET(
   request: NextRequest,
@@ -23,7 +33,7 @@ export async function GET(
   try {
     const session = await getServerSession(authOptions);
     
-    if (!session?.user?.id) {
+    if (!session?.user?.email) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -33,103 +43,29 @@ export async function GET(
     const { db } = await connectToDatabase();
     const { id: documentId } = await params;
 
-    // Validate ObjectId
-    if (!ObjectId.isValid(documentId)) {
-      return NextResponse.json(
-        { error: 'Invalid document ID' },
-        { status: 400 }
-      );
-    }
-
-    const userId = new ObjectId(session.user.id);
-    const docObjectId = new ObjectId(documentId);
+    // Find document (ObjectId or custom ID) and check the user may see its history
+    const { docObjectId, role } = await resolveDocumentAccess(session, documentId);
 
-    // Check if user has access to document
-    const document = await db.collection('documents').findOne({
-      _id: docObjectId
-    });
-
-    if (!document) {
+    if (!docObjectId) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
       );
     }
 
-    const isOwner = document.owner.equals(userId);
-    if (!isOwner) {
-      const hasAccess = await db.collection('sharepermissions').findOne({
-        document: docObjectId,
-        sharedWith: userId
-      });
-
-      if (!hasAccess) {
-        return NextResponse.json(
-          { error: 'Access denied' },
-          { status: 403 }
-        );
-      }
+    if (!canViewHistory(role)) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
     }
 
-    // Fetch all versions, sorted by version number (newest first)
-    const versions = await db.collection('documentVersions')
-      .aggregate([
-        {
-          $match: { document: docObjectId }
-        },
-        {
-          $lookup: {
-            from: 'users',
-            localField: 'createdBy',
-            foreignField: '_id',
-            as: 'author'
-          }
-        },
-        {
-          $unwind: '$author'
-        },
-        {
-          $sort: { versionNumber: -1 }
-        },
-        {
-          $project: {
-            _id: 1,
-            versionNumber: 1,
-            title: 1,
-            content: 1,
-            changeType: 1,
-            description: 1,
-            wordCount: 1,
-            characterCount: 1,
-            createdAt: 1,
-            author: {
-              id: '$author._id',
-              name: '$author.name',
-              email: '$author.email'
-            }
-          }
-        }
-      ])
-      .toArray();
+    // Version metadata, newest first; content is fetched per version
+    const versions = await listVersions(db, docObjectId);
 
     return NextResponse.json({
       success: true,
-      versions: versions.map(v => ({
-        id: v._id.toString(),
-        versionNumber: v.versionNumber,
-        title: v.title,
-        content: v.content,
-        changeType: v.changeType,
-        description: v.description,
-        wordCount: v.wordCount,
-        characterCount: v.characterCount,
-        createdAt: v.createdAt,
-        author: {
-          id: v.author.id.toString(),
-          name: v.author.name,
-          email: v.author.email
-        }
-      }))
+      versions
     });
 
   } catch (error) {
@@ -143,7 +79,8 @@ export async function GET(
 
 /**
  * POST /api/documents/[id]/versions
- * Create a manual version snapshot
+ * Save the current document as a version
+ * Body: { name?, description? } - named versions are never pruned
  */
 export async function POST(
   request: NextRequest,
@@ -152,7 +89,7 @@ export async function POST(
   try {
     const session = await getServerSession(authOptions);
     
-    if (!session?.user?.id) {
+    if (!session?.user?.email) {
       return NextResponse.json(
         { error: 'Unauthorized' },
         { status: 401 }
@@ -162,25 +99,13 @@ export async function POST(
     const { db } = await connectToDatabase();
     const { id: documentId } = await params;
     const body = await request.json();
-    const { description } = body;
+    const name = normalizeVersionLabel(body.name, MAX_VERSION_NAME_LENGTH);
+    const description = normalizeVersionLabel(body.description, MAX_VERSION_DESCRIPTION_LENGTH);
 
-    // Validate ObjectId
-    if (!ObjectId.isValid(documentId)) {
-      return NextResponse.json(
-        { error: 'Invalid document ID' },
-        { status: 400 }
-      );
-    }
-
-    const userId = new ObjectId(session.user.id);
-    const docObjectId = new ObjectId(documentId);
-
-    // Fetch current document
-    const document = await db.collection('documents').findOne({
-      _id: docObjectId
-    });
+    // Fetch current document (ObjectId or custom ID) and the user's role
+    const { document, docObjectId, user, role } = await resolveDocumentAccess(session, documentId);
 
-    if (!document) {
+    if (!document || !docObjectId) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
@@ -188,66 +113,34 @@ export async function POST(
     }
 
     // Check write permissions
-    const isOwner = document.owner.equals(userId);
-    if (!isOwner) {
-      const hasWriteAccess = await db.collection('sharepermissions').findOne({
-        document: docObjectId,
-        sharedWith: userId,
-        permission: { $in: ['edit', 'owner'] }
-      });
-
-      if (!hasWriteAccess) {
-        return NextResponse.json(
-          { error: 'Write access denied' },
-          { status: 403 }
-        );
-      }
-    }
-
-    // Get next version number
-    const lastVersion = await db.collection('documentVersions')
-      .findOne(
-        { document: docObjectId },
-        { sort: { versionNumber: -1 } }
+    if (!user || !canEdit(role)) {
+      return NextResponse.json(
+        { error: 'Write access denied' },
+        { status: 403 }
       );
+    }
 
-    const versionNumber = (lastVersion?.versionNumber || 0) + 1;
-
-    // Create manual version
-    const newVersion = {
+    const version = await createVersion(db, {
       document: docObjectId,
-      versionNumber,
       title: document.title,
-      content: document.content || '',
-      createdBy: userId,
+      tabs: getDocumentTabs(document),
+      createdBy: user._id,
       changeType: 'manual',
-      description: description || 'Manual save',
+      name: name || undefined,
+      description: description || (name ? undefined : 'Manual save'),
       wordCount: document.wordCount || 0,
-      characterCount: document.characterCount || 0,
-      createdAt: new Date()
-    };
-
-    const result = await db.collection('documentVersions').insertOne(newVersion);
-
-    // Fetch author info for response
-    const author = await db.collection('users').findOne({ _id: userId });
+      characterCount: document.characterCount || 0
+    });
 
     return NextResponse.json({
       success: true,
       message: 'Version created successfully',
       version: {
-        id: result.insertedId.toString(),
-        versionNumber,
-        title: newVersion.title,
-        changeType: newVersion.changeType,
-        description: newVersion.description,
-        wordCount: newVersion.wordCount,
-        characterCount: newVersion.characterCount,
-        createdAt: newVersion.createdAt,
+        ...version,
         author: {
-          id: userId.toString(),
-          name: author?.name,
-          email: author?.email
+          id: user._id.toString(),
+          name: user.name,
+          email: user.email
         }
       }
     });
@@ -1,7 +1,7 @@
 /**
  * Documents API Route
  * 
- * GET - Fetch all documents for the current user
+ * GET - List the current user's documents (views, filters, pagination)
  * POST - Create a new document
  */
 
@@ -9,12 +9,35 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
 import { connectToDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { getDocumentCounts, getDocumentTags, listDocuments, tabsUpdate } from '@/lib/documents';
+import { linkAttachments } from '@/lib/attachments';
+import { DEFAULT_TAB_ID, DEFAULT_TAB_TITLE, normalizeTabs } from '@/lib/documentTabs';
+import { findFolder, checkFolderTarget } from '@/lib/folders';
+import {
+  DOCUMENTS_PAGE_SIZE,
+  MAX_DOCUMENTS_PAGE_SIZE,
+  isDocumentSort,
+  isDocumentView,
+  isOwnerFilter
+} from '@/lib/documentFilters';
 
 /**
  * GET /api/documents
- * Fetch all documents owned by or shared with the current user
+ * One page of the documents owned by or shared with the current user
+ *
+ * Query params:
+ * - view: owned (default) | shared | recent | starred | archived
+ * - sort: updated (default) | created | title
+ * - owner: anyone (default) | me | others
+ * - tag: only documents with this tag
+ * - q: search titles and text (substring match; /api/search ranks results)
+ * - folder: a folder id for its contents, or root for the top level of the view
+ * - page, limit: pagination (limit defaults to DOCUMENTS_PAGE_SIZE)
+ *
+ * Trashed documents are listed by /api/trash.
  */
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions);
 
@@ -39,66 +62,57 @@ export async function GET() {
       );
     }
 
-    // Fetch documents owned by the user
-    const ownedDocuments = await db.collection('documents')
-      .find({ owner: user._id })
-      .sort({ updatedAt: -1 })
-      .toArray();
-
-    // Fetch documents shared with the user (using sharedWith array)
-    const sharedDocuments = await db.collection('documents')
-      .find({ 
-        'sharedWith.userId': user._id
-      })
-      .sort({ updatedAt: -1 })
-      .toArray();
-
-    // Format owned documents
-    const formattedOwnedDocs = ownedDocuments.map(doc => ({
-      id: doc.customId || doc._id.toString(),
-      title: doc.title,
-      content: doc.content || '',
-      createdAt: doc.createdAt,
-      updatedAt: doc.updatedAt,
-      isOwner: true,
-      isShared: false
-    }));
-
-    // Format shared documents
-    const formattedSharedDocs = await Promise.all(
-      sharedDocuments.map(async (doc) => {
-        // Get the owner info
-        const owner = await db.collection('users').findOne({
-          _id: doc.owner
-        });
-
-        // Find the current user's role in sharedWith
-        const shareInfo = doc.sharedWith?.find((share: any) => 
-          share.userId?.equals(user._id)
-        );
-
-        return {
-          id: doc.customId || doc._id.toString(),
-          title: doc.title,
-          content: doc.content || '',
-          createdAt: doc.createdAt,
-          updatedAt: doc.updatedAt,
-          isOwner: false,
-          isShared: true,
-          role: shareInfo?.role || 'viewer', // Include the user's role
-          sharedAt: shareInfo?.sharedAt,
-          owner: owner ? {
-            name: owner.name,
-            email: owner.email
-          } : null
-        };
-      })
+    const params = request.nextUrl.searchParams;
+    const view = params.get('view') || 'owned';
+    const sort = params.get('sort') || 'updated';
+    const owner = params.get('owner') || 'anyone';
+
+    if (!isDocumentView(view) || !isDocumentSort(sort) || !isOwnerFilter(owner)) {
+      return NextResponse.json(
+        { error: 'Invalid view, sort or owner filter' },
+        { status: 400 }
+      );
+    }
+
+    const folderParam = params.get('folder');
+    if (folderParam && folderParam !== 'root' && !ObjectId.isValid(folderParam)) {
+      return NextResponse.json(
+        { error: 'Invalid folder' },
+        { status: 400 }
+      );
+    }
+    const folder = folderParam === 'root' ? 'root' : folderParam ? new ObjectId(folderParam) : null;
+
+    const page = Math.max(1, parseInt(params.get('page') || '1', 10) || 1);
+    const limit = Math.min(
+      MAX_DOCUMENTS_PAGE_SIZE,
+      Math.max(1, parseInt(params.get('limit') || String(DOCUMENTS_PAGE_SIZE), 10) || DOCUMENTS_PAGE_SIZE)
     );
 
+    const [{ documents, total }, counts, tags] = await Promise.all([
+      listDocuments(db, user, {
+        view,
+        sort,
+        owner,
+        tag: params.get('tag')?.trim().toLowerCase() || null,
+        query: params.get('q')?.trim() || null,
+        folder,
+        page,
+        limit
+      }),
+      getDocumentCounts(db, user),
+      getDocumentTags(db, user)
+    ]);
+
     return NextResponse.json({
       success: true,
-      documents: formattedOwnedDocs,
-      sharedDocuments: formattedSharedDocs
+      documents,
+      total,
+      page,
+      limit,
+      hasMore: page * limit < total,
+      counts,
+      tags
     });
 
   } catch (error) {
@@ -112,6 +126,7 @@ export async function GET() {
 /**
  * POST /api/documents
  * Create a new document (e.g., for "Make a copy")
+ * Body: { title?, tabs?: [{ id, title, content }] or content? (a single tab), folderId? }
  */
 export async function POST(request: NextRequest) {
   try {
@@ -138,14 +153,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get title and content from request
-    const { title, content } = await request.json();
+    // Get title, content and the folder to file it in from request
+    const { title, content, tabs: requestedTabs, folderId } = await request.json();
+
+    const tabs = requestedTabs !== undefined
+      ? normalizeTabs(requestedTabs)
+      : [{ id: DEFAULT_TAB_ID, title: DEFAULT_TAB_TITLE, content: content || '' }];
+    if (!tabs) {
+      return NextResponse.json(
+        { error: 'Invalid tabs' },
+        { status: 400 }
+      );
+    }
+
+    const folder = folderId ? await findFolder(db, folderId) : null;
+    if (folderId && !folder) {
+      return NextResponse.json(
+        { error: 'Folder not found' },
+        { status: 404 }
+      );
+    }
+
+    const folderError = checkFolderTarget(folder, user._id);
+    if (folderError) {
+      return NextResponse.json(
+        { error: folderError },
+        { status: 403 }
+      );
+    }
 
     // Create new document
     const newDocument = {
       title: title || 'Untitled Document',
-      content: content || '',
+      ...tabsUpdate(tabs),
       owner: user._id,
+      folder: folder ? folder._id : null,
       visibility: 'restricted', // Default to private
       publicPermission: 'viewer',
       createdAt: new Date(),
@@ -154,6 +196,9 @@ export async function POST(request: NextRequest) {
 
     const result = await db.collection('documents').insertOne(newDocument);
 
+    // A copy shows the images of the document it was made from
+    await linkAttachments(db, result.insertedId, newDocument.tabs, user);
+
     return NextResponse.json({
       success: true,
       message: 'Document created successfully',
@@ -0,0 +1,87 @@
+/**
+ * Copy Folder API Route
+ *
+ * POST - Copy a folder with its subfolders and documents into one of the
+ * current user's folders; the copy belongs to the current user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { canView } from '@/lib/documentAccess';
+import {
+  MAX_FOLDER_DEPTH,
+  checkFolderTarget,
+  copyFolder,
+  findFolder,
+  formatFolder,
+  getSubtreeDepth,
+  resolveFolderAccess
+} from '@/lib/folders';
+
+/**
+ * POST /api/folders/[folderId]/copy
+ * Body: { parentId?: string | null } - default: next to the original for
+ * its owner, the top level for everyone else
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { folderId } = await params;
+    const { folder, user, role } = await resolveFolderAccess(session, folderId);
+
+    if (!folder) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    if (!user || !canView(role)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { db } = await connectToDatabase();
+    const body = await request.json().catch(() => ({}));
+
+    const parentId = body.parentId !== undefined
+      ? body.parentId
+      : role === 'owner' ? folder.parent?.toString() : null;
+
+    const parent = parentId ? await findFolder(db, parentId) : null;
+    if (parentId && !parent) {
+      return NextResponse.json({ error: 'Destination folder not found' }, { status: 404 });
+    }
+
+    const targetError = checkFolderTarget(parent, user._id, folder);
+    if (targetError) {
+      return NextResponse.json({ error: targetError }, { status: 400 });
+    }
+
+    const depth = (parent ? parent.ancestors.length + 1 : 0) + await getSubtreeDepth(db, folder);
+    if (depth > MAX_FOLDER_DEPTH) {
+      return NextResponse.json(
+        { error: `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep` },
+        { status: 400 }
+      );
+    }
+
+    const copy = await copyFolder(db, folder, parent, user._id);
+
+    return NextResponse.json({
+      success: true,
+      folder: formatFolder(copy, 'owner')
+    });
+  } catch (error) {
+    console.error('Error copying folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to copy folder' },
+      { status: 500 }
+    );
+  }
+}
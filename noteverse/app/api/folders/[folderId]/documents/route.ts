@@ -0,0 +1,118 @@
+/**
+ * Folder Documents API Route
+ *
+ * POST - Move or copy documents into a folder ("root" for the top level)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { findDocument, getDocumentRole, getInheritedFolderRole, canView } from '@/lib/documentAccess';
+import {
+  checkFolderTarget,
+  copyDocumentsToFolder,
+  findFolder,
+  moveDocumentsToFolder
+} from '@/lib/folders';
+
+/**
+ * POST /api/folders/[folderId]/documents
+ * Body: { documentIds: string[], action?: 'move' | 'copy' }
+ * Moving needs ownership of the documents and the folder. Copies belong to
+ * the current user, so anyone who can open a document can copy it into
+ * their own folders.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { folderId } = await params;
+    const folder = folderId === 'root' ? null : await findFolder(db, folderId);
+
+    if (folderId !== 'root' && !folder) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const action = body.action || 'move';
+
+    if (action !== 'move' && action !== 'copy') {
+      return NextResponse.json(
+        { error: 'Invalid action. Must be "move" or "copy"' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.documentIds) || body.documentIds.length === 0) {
+      return NextResponse.json({ error: 'documentIds is required' }, { status: 400 });
+    }
+
+    const targetError = checkFolderTarget(folder, user._id);
+    if (targetError) {
+      return NextResponse.json({ error: targetError }, { status: 403 });
+    }
+
+    const documents = [];
+    for (const documentId of body.documentIds) {
+      const document = typeof documentId === 'string' ? await findDocument(db, documentId) : null;
+
+      if (!document || document.deletedAt) {
+        return NextResponse.json(
+          { error: `Document ${String(documentId)} not found` },
+          { status: 404 }
+        );
+      }
+
+      const role = getDocumentRole(document, user, await getInheritedFolderRole(db, document.folder, user));
+      if (action === 'move' ? role !== 'owner' : !canView(role)) {
+        return NextResponse.json(
+          {
+            error: action === 'move'
+              ? 'Only the owner can move a document'
+              : 'You do not have access to one of these documents'
+          },
+          { status: 403 }
+        );
+      }
+
+      documents.push(document);
+    }
+
+    if (action === 'move') {
+      await moveDocumentsToFolder(db, documents, folder);
+
+      return NextResponse.json({
+        success: true,
+        message: `${documents.length} document(s) moved`
+      });
+    }
+
+    const copies = await copyDocumentsToFolder(db, documents, folder, user._id);
+
+    return NextResponse.json({
+      success: true,
+      message: `${copies.length} document(s) copied`,
+      documentIds: copies.map((id) => id.toString())
+    });
+  } catch (error) {
+    console.error('Error moving documents:', error);
+    return NextResponse.json(
+      { error: 'Failed to move documents' },
+      { status: 500 }
+    );
+  }
+}
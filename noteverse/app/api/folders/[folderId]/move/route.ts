@@ -0,0 +1,82 @@
+/**
+ * Move Folder API Route
+ *
+ * POST - Move a folder (with everything in it) into another folder (owner only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import {
+  MAX_FOLDER_DEPTH,
+  checkFolderTarget,
+  findFolder,
+  getSubtreeDepth,
+  moveFolder,
+  resolveFolderAccess
+} from '@/lib/folders';
+
+/**
+ * POST /api/folders/[folderId]/move
+ * Body: { parentId: string | null } - null moves it to the top level
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { folderId } = await params;
+    const { folder, role } = await resolveFolderAccess(session, folderId);
+
+    if (!folder) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the owner can move this folder' },
+        { status: 403 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const body = await request.json().catch(() => ({}));
+
+    const parent = body.parentId ? await findFolder(db, body.parentId) : null;
+    if (body.parentId && !parent) {
+      return NextResponse.json({ error: 'Destination folder not found' }, { status: 404 });
+    }
+
+    const targetError = checkFolderTarget(parent, folder.owner, folder);
+    if (targetError) {
+      return NextResponse.json({ error: targetError }, { status: 400 });
+    }
+
+    const depth = (parent ? parent.ancestors.length + 1 : 0) + await getSubtreeDepth(db, folder);
+    if (depth > MAX_FOLDER_DEPTH) {
+      return NextResponse.json(
+        { error: `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep` },
+        { status: 400 }
+      );
+    }
+
+    await moveFolder(db, folder, parent);
+
+    return NextResponse.json({
+      success: true,
+      message: parent ? `Moved to "${parent.name}"` : 'Moved to the top level'
+    });
+  } catch (error) {
+    console.error('Error moving folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to move folder' },
+      { status: 500 }
+    );
+  }
+}
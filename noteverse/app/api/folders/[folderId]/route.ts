@@ -0,0 +1,164 @@
+/**
+ * Folder API Route
+ *
+ * GET - A folder with its breadcrumb path
+ * PATCH - Rename a folder (owner only)
+ * DELETE - Delete a folder and its subfolders; their documents go to the trash (owner only)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { canView } from '@/lib/documentAccess';
+import {
+  MAX_FOLDER_NAME_LENGTH,
+  deleteFolder,
+  formatFolder,
+  getFolderPath,
+  normalizeFolderName,
+  renameFolder,
+  resolveFolderAccess
+} from '@/lib/folders';
+
+/**
+ * GET /api/folders/[folderId]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { folderId } = await params;
+    const { folder, user, role } = await resolveFolderAccess(session, folderId);
+
+    if (!folder) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    if (!user || !canView(role)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const { db } = await connectToDatabase();
+
+    return NextResponse.json({
+      success: true,
+      folder: formatFolder(folder, role),
+      path: await getFolderPath(db, folder, user)
+    });
+  } catch (error) {
+    console.error('Error fetching folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch folder' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/folders/[folderId]
+ * Body: { name: string }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { folderId } = await params;
+    const { folder, role } = await resolveFolderAccess(session, folderId);
+
+    if (!folder) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    if (role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the owner can rename this folder' },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const name = normalizeFolderName(body.name);
+
+    if (!name) {
+      return NextResponse.json(
+        { error: `Folder name is required (up to ${MAX_FOLDER_NAME_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    await renameFolder(db, folder, name);
+
+    return NextResponse.json({
+      success: true,
+      folder: formatFolder({ ...folder, name, updatedAt: new Date() }, role)
+    });
+  } catch (error) {
+    console.error('Error renaming folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename folder' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/folders/[folderId]
+ * Documents inside are moved to the trash at the top level, where they can
+ * be restored from
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { folderId } = await params;
+    const { folder, user, role } = await resolveFolderAccess(session, folderId);
+
+    if (!folder) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    if (!user || role !== 'owner') {
+      return NextResponse.json(
+        { error: 'Only the owner can delete this folder' },
+        { status: 403 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const trashed = await deleteFolder(db, folder, user);
+
+    return NextResponse.json({
+      success: true,
+      message: trashed > 0
+        ? `Folder deleted. ${trashed} document(s) moved to trash`
+        : 'Folder deleted',
+      trashed
+    });
+  } catch (error) {
+    console.error('Error deleting folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete folder' },
+      { status: 500 }
+    );
+  }
+}
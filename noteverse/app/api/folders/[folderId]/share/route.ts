@@ -0,0 +1,184 @@
+/**
+ * Folder Sharing API Route
+ *
+ * GET - People the folder is shared with (owner only)
+ * POST - Share the folder, and everything in it, with a user (owner only)
+ * DELETE - Stop sharing the folder with a user (owner only)
+ *
+ * Documents inside inherit these shares; a share on a document itself
+ * overrides the inherited role (see lib/documentAccess.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { isGrantableRole } from '@/lib/documentAccess';
+import {
+  findFolder,
+  formatFolder,
+  removeFolderShare,
+  resolveFolderAccess,
+  setFolderShare
+} from '@/lib/folders';
+
+/**
+ * Resolve the folder for an owner-only sharing request
+ */
+async function resolveOwnedFolder(folderId: string) {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.email) {
+    return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+  }
+
+  const { folder, user, role } = await resolveFolderAccess(session, folderId);
+
+  if (!folder) {
+    return { error: NextResponse.json({ error: 'Folder not found' }, { status: 404 }) };
+  }
+
+  if (!user || role !== 'owner') {
+    return {
+      error: NextResponse.json(
+        { error: 'Only the owner can share this folder' },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { folder, user };
+}
+
+/**
+ * GET /api/folders/[folderId]/share
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const { folderId } = await params;
+    const resolved = await resolveOwnedFolder(folderId);
+    if ('error' in resolved) return resolved.error;
+
+    return NextResponse.json({
+      success: true,
+      sharedWith: formatFolder(resolved.folder, 'owner').sharedWith
+    });
+  } catch (error) {
+    console.error('Error fetching folder shares:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch folder shares' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/folders/[folderId]/share
+ * Body: { email: string, role: 'editor' | 'commenter' | 'viewer' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const { folderId } = await params;
+    const resolved = await resolveOwnedFolder(folderId);
+    if ('error' in resolved) return resolved.error;
+
+    const { db } = await connectToDatabase();
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.email !== 'string' || !body.email.trim()) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+    }
+
+    if (!isGrantableRole(body.role)) {
+      return NextResponse.json(
+        { error: 'Invalid role. Must be "viewer", "commenter" or "editor"' },
+        { status: 400 }
+      );
+    }
+
+    const email = body.email.trim().toLowerCase();
+    if (email === resolved.user.email?.toLowerCase()) {
+      return NextResponse.json({ error: 'You already own this folder' }, { status: 400 });
+    }
+
+    // Folder shares need an account; documents can still invite by email
+    const recipient = await db.collection('users').findOne({ email });
+    if (!recipient) {
+      return NextResponse.json(
+        { error: 'No NoteVerse account uses this email' },
+        { status: 404 }
+      );
+    }
+
+    await setFolderShare(db, {
+      folder: resolved.folder,
+      recipient,
+      role: body.role,
+      sharedBy: resolved.user
+    });
+
+    const updated = await findFolder(db, folderId);
+
+    return NextResponse.json({
+      success: true,
+      message: `Folder shared with ${email}`,
+      sharedWith: updated ? formatFolder(updated, 'owner').sharedWith : []
+    });
+  } catch (error) {
+    console.error('Error sharing folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to share folder' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/folders/[folderId]/share
+ * Body: { email: string }
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ folderId: string }> }
+) {
+  try {
+    const { folderId } = await params;
+    const resolved = await resolveOwnedFolder(folderId);
+    if ('error' in resolved) return resolved.error;
+
+    const { db } = await connectToDatabase();
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.email !== 'string' || !body.email.trim()) {
+      return NextResponse.json({ error: 'Email is required' }, { status: 400 });
+    }
+
+    const removed = await removeFolderShare(db, resolved.folder, body.email.trim());
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'The folder is not shared with this person' },
+        { status: 404 }
+      );
+    }
+
+    const updated = await findFolder(db, folderId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Access removed',
+      sharedWith: updated ? formatFolder(updated, 'owner').sharedWith : []
+    });
+  } catch (error) {
+    console.error('Error removing folder share:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove folder share' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Folders API Route
+ *
+ * GET - Folders at the top level or inside a folder, with the breadcrumb path
+ * POST - Create a folder
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { canView } from '@/lib/documentAccess';
+import {
+  MAX_FOLDER_DEPTH,
+  MAX_FOLDER_NAME_LENGTH,
+  createFolder,
+  findFolder,
+  formatFolder,
+  getChildFolders,
+  getFolderPath,
+  getFolderRole,
+  getSharedFolderRoles,
+  getSharedRootFolders,
+  normalizeFolderName
+} from '@/lib/folders';
+
+/**
+ * GET /api/folders
+ * Query params:
+ * - parentId: list the folders inside this folder (default: the top level)
+ * - view: owned (default) | shared - which top level to list without parentId
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const parentId = request.nextUrl.searchParams.get('parentId');
+
+    if (!parentId) {
+      if (request.nextUrl.searchParams.get('view') === 'shared') {
+        const [shared, roles] = await Promise.all([
+          getSharedRootFolders(db, user),
+          getSharedFolderRoles(db, user)
+        ]);
+
+        return NextResponse.json({
+          success: true,
+          folder: null,
+          path: [],
+          folders: shared.map((folder) => formatFolder(folder, roles.get(folder._id.toString()) || 'viewer'))
+        });
+      }
+
+      const folders = await getChildFolders(db, { parent: null, owner: user._id });
+
+      return NextResponse.json({
+        success: true,
+        folder: null,
+        path: [],
+        folders: folders.map((folder) => formatFolder(folder, 'owner'))
+      });
+    }
+
+    const parent = await findFolder(db, parentId);
+    if (!parent) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    const role = await getFolderRole(db, parent, user);
+    if (!canView(role)) {
+      return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+    }
+
+    const [folders, path] = await Promise.all([
+      getChildFolders(db, { parent, owner: parent.owner }),
+      getFolderPath(db, parent, user)
+    ]);
+
+    // Folders inherit the role of the folder they're in
+    return NextResponse.json({
+      success: true,
+      folder: formatFolder(parent, role),
+      path,
+      folders: folders.map((folder) => formatFolder(folder, role))
+    });
+  } catch (error) {
+    console.error('Error fetching folders:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch folders' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/folders
+ * Body: { name: string, parentId?: string }
+ * Folders can only be created inside the user's own folders
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const name = normalizeFolderName(body.name);
+    if (!name) {
+      return NextResponse.json(
+        { error: `Folder name is required (up to ${MAX_FOLDER_NAME_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const parent = body.parentId ? await findFolder(db, body.parentId) : null;
+    if (body.parentId && !parent) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    if (parent && !parent.owner.equals(user._id)) {
+      return NextResponse.json(
+        { error: 'Folders can only be created inside your own folders' },
+        { status: 403 }
+      );
+    }
+
+    if (parent && parent.ancestors.length + 1 >= MAX_FOLDER_DEPTH) {
+      return NextResponse.json(
+        { error: `Folders can be nested at most ${MAX_FOLDER_DEPTH} levels deep` },
+        { status: 400 }
+      );
+    }
+
+    const folder = await createFolder(db, { name, owner: user._id, parent });
+
+    return NextResponse.json({
+      success: true,
+      folder: formatFolder(folder, 'owner')
+    });
+  } catch (error) {
+    console.error('Error creating folder:', error);
+    return NextResponse.json(
+      { error: 'Failed to create folder' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Single Notification API Route
+ *
+ * PATCH - Mark a notification as read or unread
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+
+/**
+ * PATCH /api/notifications/[id]
+ * Body: { read?: boolean } (defaults to true)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const read = body.read !== false;
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    // Scoped to the current user, so nobody can touch someone else's notifications
+    const result = await db.collection('notifications').updateOne(
+      { _id: new ObjectId(id), userId: user._id },
+      { $set: { read, readAt: read ? new Date() : null } }
+    );
+
+    if (result.matchedCount === 0) {
+      return NextResponse.json({ error: 'Notification not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error updating notification:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notification' },
+      { status: 500 }
+    );
+  }
+}
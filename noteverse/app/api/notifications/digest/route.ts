@@ -0,0 +1,47 @@
+/**
+ * Daily Digest API Route
+ *
+ * Sends the daily email digest of unread notifications. The custom server
+ * sends digests itself (lib/scheduledJobs.ts); without it, Vercel Cron calls
+ * this route daily (vercel.json) with `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * GET / POST - Send digests to every subscriber that is due one
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/lib/mongodb';
+import { sendDailyDigests } from '@/lib/emailNotifications';
+
+async function handleDigest(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const sent = await sendDailyDigests(db);
+
+    return NextResponse.json({ success: true, sent });
+  } catch (error) {
+    console.error('Error sending daily digests:', error);
+    return NextResponse.json(
+      { error: 'Failed to send daily digests' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/notifications/digest (Vercel Cron sends GET requests)
+ */
+export async function GET(request: NextRequest) {
+  return handleDigest(request);
+}
+
+/**
+ * POST /api/notifications/digest
+ */
+export async function POST(request: NextRequest) {
+  return handleDigest(request);
+}
@@ -0,0 +1,47 @@
+/**
+ * Mark All Notifications Read API Route
+ *
+ * POST - Mark every unread notification of the current user as read
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+
+/**
+ * POST /api/notifications/read-all
+ */
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const result = await db.collection('notifications').updateMany(
+      { userId: user._id, read: false },
+      { $set: { read: true, readAt: new Date() } }
+    );
+
+    console.log(`🔔 Marked ${result.modifiedCount} notifications read for ${session.user.email}`);
+
+    return NextResponse.json({
+      success: true,
+      updated: result.modifiedCount
+    });
+  } catch (error) {
+    console.error('Error marking notifications read:', error);
+    return NextResponse.json(
+      { error: 'Failed to mark notifications as read' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Notifications API Route
+ *
+ * GET - List the current user's notifications (newest first)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { formatNotification, Notification } from '@/lib/models/Notification';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+/**
+ * GET /api/notifications?unread=true&limit=20&before=<ISO date>
+ * Returns notifications plus the total unread count for the bell badge
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const unreadOnly = searchParams.get('unread') === 'true';
+    const limit = Math.min(parseInt(searchParams.get('limit') || '', 10) || DEFAULT_LIMIT, MAX_LIMIT);
+    const before = searchParams.get('before');
+
+    const query: Record<string, unknown> = { userId: user._id };
+    if (unreadOnly) query.read = false;
+    if (before && !isNaN(Date.parse(before))) query.createdAt = { $lt: new Date(before) };
+
+    const notifications = db.collection<Notification>('notifications');
+
+    const [items, unreadCount] = await Promise.all([
+      notifications.find(query).sort({ createdAt: -1 }).limit(limit).toArray(),
+      notifications.countDocuments({ userId: user._id, read: false })
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      notifications: items.map(formatNotification),
+      unreadCount,
+      hasMore: items.length === limit
+    });
+  } catch (error) {
+    console.error('Error fetching notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,12 @@
 import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
-import { connectDB } from '@/lib/mongodb';
+import { connectDB, connectToDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
 import User from '@/lib/models/User';
 import Document from '@/lib/models/Document';
-import DocumentShare from '@/lib/models/DocumentShare';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getSharesByOwner } from '@/lib/sharing';
+import { getDocumentTabs } from '@/lib/documentTabs';
 
 export async function GET() {
   try {
@@ -25,14 +27,12 @@ export async function GET() {
 
     // Get all user's documents
     const documents = await Document.find({ owner: user._id })
-      .select('title content tags isPublic createdAt updatedAt')
+      .select('title content tabs tags isPublic createdAt updatedAt')
       .lean();
 
     // Get shares
-    const shares = await DocumentShare.find({ sharedBy: user._id })
-      .populate('documentId', 'title')
-      .populate('sharedWith', 'name email')
-      .lean();
+    const { db } = await connectToDatabase();
+    const shares = await getSharesByOwner(db, new ObjectId(user._id.toString()));
 
     // Build export data
     const exportData = {
@@ -53,16 +53,17 @@ export async function GET() {
       documents: documents.map(doc => ({
         title: doc.title,
         content: doc.content,
+        tabs: getDocumentTabs(doc),
         tags: doc.tags,
         isPublic: doc.isPublic,
         createdAt: doc.createdAt,
         updatedAt: doc.updatedAt
       })),
       shares: shares.map(share => ({
-        document: (share.documentId as any)?.title,
-        sharedWith: (share.sharedWith as any)?.email,
-        permission: share.permission,
-        createdAt: share.createdAt
+        document: share.documentTitle,
+        sharedWith: share.email,
+        permission: share.role,
+        createdAt: share.sharedAt
       })),
       stats: {
         totalDocuments: documents.length,
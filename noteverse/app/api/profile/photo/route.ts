@@ -1,40 +1,61 @@
+/**
+ * Profile Photo API Routes
+ *
+ * POST - Upload a new profile photo (multipart form, field "file")
+ * DELETE - Remove the profile photo
+ *
+ * Photos are stored as attachments (lib/attachments.ts); the user's image
+ * becomes the attachment URL.
+ */
+
 import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
-import { connectDB } from '@/lib/mongodb';
-import User from '@/lib/models/User';
+import { connectToDatabase } from '@/lib/mongodb';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { attachmentUrl, deleteAttachment, findProfilePhoto, storeAttachment } from '@/lib/attachments';
 
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions);
-    
+
     if (!session?.user?.email) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    await connectDB();
+    const { db } = await connectToDatabase();
 
-    const body = await request.json();
-    const { image } = body;
+    const user = await db.collection('users').findOne({ email: session.user.email });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
 
-    if (!image) {
-      return NextResponse.json({ error: 'Image URL is required' }, { status: 400 });
+    const formData = await request.formData().catch(() => null);
+    const file = formData?.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'An image file is required' }, { status: 400 });
     }
 
-    // Update user's profile photo
-    const user = await User.findOneAndUpdate(
-      { email: session.user.email },
-      { image },
-      { new: true, runValidators: true }
-    );
+    const attachment = await storeAttachment(db, {
+      data: Buffer.from(await file.arrayBuffer()),
+      filename: file.name,
+      kind: 'avatar',
+      uploadedBy: user._id
+    });
+    if ('error' in attachment) {
+      return NextResponse.json({ error: attachment.error }, { status: attachment.code });
+    }
 
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    // The previous photo isn't used anywhere else
+    const previousPhoto = await findProfilePhoto(db, user);
+    const image = attachmentUrl(attachment._id);
+    await db.collection('users').updateOne({ _id: user._id }, { $set: { image, updatedAt: new Date() } });
+    if (previousPhoto) {
+      await deleteAttachment(db, previousPhoto);
     }
 
     return NextResponse.json({
       message: 'Profile photo updated successfully',
-      image: user.image
+      image
     });
   } catch (error) {
     console.error('Error updating profile photo:', error);
@@ -44,3 +65,34 @@ export async function POST(request: Request) {
     );
   }
 }
+
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+
+    const user = await db.collection('users').findOne({ email: session.user.email });
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const photo = await findProfilePhoto(db, user);
+    await db.collection('users').updateOne({ _id: user._id }, { $set: { image: null, updatedAt: new Date() } });
+    if (photo) {
+      await deleteAttachment(db, photo);
+    }
+
+    return NextResponse.json({ message: 'Profile photo removed successfully' });
+  } catch (error) {
+    console.error('Error removing profile photo:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove profile photo' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,16 @@
 import { getServerSession } from 'next-auth';
 import { NextResponse } from 'next/server';
-import { connectDB } from '@/lib/mongodb';
+import { connectDB, connectToDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
 import User from '@/lib/models/User';
 import Document from '@/lib/models/Document';
-import DocumentShare from '@/lib/models/DocumentShare';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getEmailPreferences, isEmailNotificationKind } from '@/lib/emailPreferences';
+import { getSharesByOwner, removeUserFromShares } from '@/lib/sharing';
+import { deleteDocumentData } from '@/lib/documents';
+import { removeUserFromFolders } from '@/lib/folders';
+import { deleteAttachment, findProfilePhoto } from '@/lib/attachments';
+import { findTransferRecipient, requestOwnershipTransfers, withdrawPendingTransfers } from '@/lib/ownershipTransfers';
 
 export async function GET() {
   try {
@@ -21,7 +27,7 @@ export async function GET() {
 
     // Get user with all profile data
     const user = await User.findOne({ email: session.user.email }).select(
-      'name email image displayName cursorColor timeZone theme fontSize fontFamily lineSpacing autoSave role lastLogin createdAt'
+      'name email image displayName cursorColor timeZone theme fontSize fontFamily lineSpacing autoSave emailNotifications role lastLogin createdAt'
     );
 
     console.log('Profile API - User found:', user ? 'Yes' : 'No');
@@ -33,7 +39,8 @@ export async function GET() {
 
     // Get activity statistics
     const documentsCreated = await Document.countDocuments({ owner: user._id });
-    const documentsShared = await DocumentShare.countDocuments({ sharedBy: user._id });
+    const { db } = await connectToDatabase();
+    const documentsShared = (await getSharesByOwner(db, new ObjectId(user._id.toString()))).length;
     
     // Get last edited document
     const lastDocument = await Document.findOne({ owner: user._id })
@@ -70,6 +77,7 @@ export async function GET() {
         lineSpacing: user.lineSpacing,
         autoSave: user.autoSave
       },
+      emailNotifications: getEmailPreferences(user.toObject().emailNotifications),
       stats: {
         documentsCreated,
         documentsShared,
@@ -116,6 +124,7 @@ export async function PUT(request: Request) {
       fontFamily,
       lineSpacing,
       autoSave,
+      emailNotifications,
       image
     } = body;
 
@@ -168,7 +177,22 @@ export async function PUT(request: Request) {
     if (fontFamily !== undefined) user.fontFamily = fontFamily;
     if (lineSpacing !== undefined) user.lineSpacing = lineSpacing;
     if (autoSave !== undefined) user.autoSave = autoSave;
-    if (image !== undefined) user.image = image;
+    if (image !== undefined) {
+      // Photos are uploaded and removed through /api/profile/photo
+      return NextResponse.json({ error: 'Use /api/profile/photo to change the profile photo' }, { status: 400 });
+    }
+
+    if (emailNotifications !== undefined) {
+      if (!emailNotifications || typeof emailNotifications !== 'object') {
+        return NextResponse.json({ error: 'Invalid email notification settings' }, { status: 400 });
+      }
+      for (const [key, value] of Object.entries(emailNotifications)) {
+        if (!isEmailNotificationKind(key) || typeof value !== 'boolean') {
+          return NextResponse.json({ error: `Invalid email notification setting: ${key}` }, { status: 400 });
+        }
+        user.set(`emailNotifications.${key}`, value);
+      }
+    }
 
     // Save with validation error handling
     try {
@@ -204,7 +228,8 @@ export async function PUT(request: Request) {
           fontFamily: user.fontFamily,
           lineSpacing: user.lineSpacing,
           autoSave: user.autoSave
-        }
+        },
+        emailNotifications: getEmailPreferences(user.toObject().emailNotifications)
       }
     });
   } catch (error: unknown) {
@@ -231,7 +256,13 @@ export async function PUT(request: Request) {
   }
 }
 
-export async function DELETE() {
+/**
+ * DELETE /api/profile
+ * Body (optional): { transferTo: string }
+ * Deletes the account. With transferTo, owned documents are offered to that
+ * user instead of being deleted; any they decline are deleted then.
+ */
+export async function DELETE(request: Request) {
   try {
     const session = await getServerSession(authOptions);
     
@@ -247,16 +278,67 @@ export async function DELETE() {
       return NextResponse.json({ error: 'User not found' }, { status: 404 });
     }
 
-    // Delete all user's documents
-    await Document.deleteMany({ owner: user._id });
+    const { db } = await connectToDatabase();
+    const account = await db.collection('users').findOne({ _id: new ObjectId(user._id.toString()) });
+
+    if (!account) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    let recipient = null;
+
+    if (body.transferTo) {
+      const lookup = await findTransferRecipient(db, body.transferTo, account);
+      if ('error' in lookup) {
+        return NextResponse.json({ error: lookup.error }, { status: lookup.code });
+      }
+      recipient = lookup.recipient;
+    }
+
+    await withdrawPendingTransfers(db, account);
 
-    // Delete all shares created by user
-    await DocumentShare.deleteMany({ sharedBy: user._id });
+    const ownedDocuments = await db.collection('documents').find({ owner: account._id }).toArray();
+
+    // Trashed documents are never offered
+    const trashedDocuments = ownedDocuments.filter((document) => document.deletedAt);
+    const activeDocuments = ownedDocuments.filter((document) => !document.deletedAt);
+
+    for (const document of trashedDocuments) {
+      await deleteDocumentData(db, document);
+    }
+
+    if (recipient) {
+      // Documents stay until the recipient accepts or declines them
+      await requestOwnershipTransfers(db, {
+        documents: activeDocuments,
+        from: account,
+        to: recipient,
+        accountDeletion: true
+      });
+    } else {
+      for (const document of activeDocuments) {
+        await deleteDocumentData(db, document);
+      }
+    }
+
+    // Remove the user from documents shared with them, and their share records
+    await removeUserFromShares(db, { _id: new ObjectId(user._id.toString()), email: user.email });
+    await removeUserFromFolders(db, account);
+
+    const photo = await findProfilePhoto(db, account);
+    if (photo) {
+      await deleteAttachment(db, photo);
+    }
 
     // Delete user account
     await User.deleteOne({ _id: user._id });
 
-    return NextResponse.json({ message: 'Account deleted successfully' });
+    return NextResponse.json({
+      message: recipient
+        ? `Account deleted. ${activeDocuments.length} document(s) offered to ${recipient.email}`
+        : 'Account deleted successfully'
+    });
   } catch (error) {
     console.error('Error deleting account:', error);
     return NextResponse.json(
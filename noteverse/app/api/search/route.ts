@@ -0,0 +1,153 @@
+/**
+ * Search API Route
+ *
+ * GET - Full-text search over the documents the current user can open
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { MongoServerError } from 'mongodb';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { isOwnerFilter } from '@/lib/documentFilters';
+import {
+  MAX_SEARCH_PAGE_SIZE,
+  MAX_SEARCH_QUERY_LENGTH,
+  SEARCH_PAGE_SIZE,
+  searchDocuments
+} from '@/lib/search';
+
+// MongoDB's error code for a $text query without a text index
+const INDEX_NOT_FOUND = 27;
+
+/**
+ * Parse a from/to date param; a bare date (YYYY-MM-DD) as "to" covers that
+ * whole day. Returns undefined when the value isn't a date.
+ */
+function parseDateParam(value: string | null, endOfDay: boolean): Date | null | undefined {
+  if (!value) return null;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return undefined;
+
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCHours(23, 59, 59, 999);
+  }
+  return date;
+}
+
+/**
+ * GET /api/search
+ * Documents owned by or shared with the current user that match a query,
+ * best matches first, with highlighted snippets (see lib/search.ts)
+ *
+ * Query params:
+ * - q: words, "quoted phrases" and prefix* terms (required)
+ * - owner: anyone (default) | me | others
+ * - tag: only documents with this tag
+ * - from, to: last edited on or after / on or before (ISO dates)
+ * - page, limit: pagination (limit defaults to SEARCH_PAGE_SIZE)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+
+    const user = await db.collection('users').findOne({
+      email: session.user.email
+    });
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q')?.trim() || '';
+    const owner = params.get('owner') || 'anyone';
+
+    if (!query) {
+      return NextResponse.json(
+        { error: 'Search query is required' },
+        { status: 400 }
+      );
+    }
+
+    if (query.length > MAX_SEARCH_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: `Search query cannot exceed ${MAX_SEARCH_QUERY_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    if (!isOwnerFilter(owner)) {
+      return NextResponse.json(
+        { error: 'Invalid owner filter' },
+        { status: 400 }
+      );
+    }
+
+    const from = parseDateParam(params.get('from'), false);
+    const to = parseDateParam(params.get('to'), true);
+
+    if (from === undefined || to === undefined) {
+      return NextResponse.json(
+        { error: 'Invalid date range' },
+        { status: 400 }
+      );
+    }
+
+    const page = Math.max(1, parseInt(params.get('page') || '1', 10) || 1);
+    const limit = Math.min(
+      MAX_SEARCH_PAGE_SIZE,
+      Math.max(1, parseInt(params.get('limit') || String(SEARCH_PAGE_SIZE), 10) || SEARCH_PAGE_SIZE)
+    );
+
+    console.log(`🔍 Searching for "${query}" as ${user.email}`);
+
+    const { results, total } = await searchDocuments(db, user, query, {
+      filters: {
+        owner,
+        tag: params.get('tag')?.trim().toLowerCase() || null,
+        from,
+        to
+      },
+      page,
+      limit
+    });
+
+    return NextResponse.json({
+      success: true,
+      results,
+      total,
+      page,
+      limit,
+      hasMore: page * limit < total
+    });
+
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === INDEX_NOT_FOUND) {
+      console.error('❌ Search index missing - run npm run migrate:search');
+      return NextResponse.json(
+        { error: 'Search is not available yet' },
+        { status: 503 }
+      );
+    }
+
+    console.error('Error searching documents:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
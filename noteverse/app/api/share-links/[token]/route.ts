@@ -0,0 +1,123 @@
+/**
+ * Share Link Visitor API
+ *
+ * GET - What a share link opens (title, role, whether it needs a password)
+ * POST - Open the link: check the password, count the visit and grant the
+ *        link's role to the signed-in user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { roleFromSharePermission } from '@/lib/documentAccess';
+import {
+  findShareLinkByToken,
+  isShareLinkExpired,
+  checkShareLinkPassword,
+  redeemShareLink
+} from '@/lib/shareLinks';
+
+/**
+ * GET /api/share-links/[token]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { token } = await params;
+    const { db } = await connectToDatabase();
+    const link = await findShareLinkByToken(db, token);
+
+    if (!link) {
+      return NextResponse.json({ error: 'This link is invalid or has been revoked' }, { status: 404 });
+    }
+
+    if (isShareLinkExpired(link)) {
+      return NextResponse.json({ error: 'This link has expired' }, { status: 410 });
+    }
+
+    const document = await db.collection('documents').findOne({ _id: link.document });
+    if (!document || document.deletedAt) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      documentTitle: document.title || 'Untitled Document',
+      role: roleFromSharePermission(link.permission),
+      requiresPassword: !!link.linkPassword
+    });
+  } catch (error) {
+    console.error('Error fetching share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to open share link' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/share-links/[token]
+ * Body: { password? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { token } = await params;
+    const { password } = await request.json().catch(() => ({}));
+    const { db } = await connectToDatabase();
+    const link = await findShareLinkByToken(db, token);
+
+    if (!link) {
+      return NextResponse.json({ error: 'This link is invalid or has been revoked' }, { status: 404 });
+    }
+
+    if (isShareLinkExpired(link)) {
+      return NextResponse.json({ error: 'This link has expired' }, { status: 410 });
+    }
+
+    if (!(await checkShareLinkPassword(link, password))) {
+      return NextResponse.json({ error: 'Incorrect password' }, { status: 403 });
+    }
+
+    const [document, user] = await Promise.all([
+      db.collection('documents').findOne({ _id: link.document }),
+      db.collection('users').findOne({ email: session.user.email })
+    ]);
+
+    if (!document || document.deletedAt) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+    }
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    await redeemShareLink(db, { link, document, user });
+
+    return NextResponse.json({
+      success: true,
+      documentId: document.customId || document._id.toString()
+    });
+  } catch (error) {
+    console.error('Error opening share link:', error);
+    return NextResponse.json(
+      { error: 'Failed to open share link' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Socket Token API
+ * GET /api/socket/token
+ * Issue a short-lived token that authenticates the Socket.io handshake.
+ * Needed when the socket server runs on another domain (split deployment)
+ * and never receives the NextAuth session cookie.
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { encode } from 'next-auth/jwt';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+
+// Only needs to live long enough to open (or re-open) the connection
+const SOCKET_TOKEN_MAX_AGE = 60; // seconds
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.email) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const token = await encode({
+      token: {
+        id: session.user.id,
+        email: session.user.email,
+        name: session.user.name
+      },
+      secret: process.env.NEXTAUTH_SECRET!,
+      maxAge: SOCKET_TOKEN_MAX_AGE
+    });
+
+    return NextResponse.json({ token });
+  } catch (error) {
+    console.error('Error issuing socket token:', error);
+    return NextResponse.json(
+      { error: 'Failed to issue socket token' },
+      { status: 500 }
+    );
+  }
+}
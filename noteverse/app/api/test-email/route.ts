@@ -1,33 +1,16 @@
-import { NextRequest, NextResponse } from 'next/server';
-import nodemailer from 'nodemailer';
+import { NextResponse } from 'next/server';
+import { sendEmail, verifyEmailTransport } from '@/lib/email';
 
-export async function GET(request: NextRequest) {
+export async function GET() {
   try {
     console.log('Testing email configuration...');
-    
-    const transporter = nodemailer.createTransport({
-      host: process.env.EMAIL_SERVER_HOST,
-      port: Number(process.env.EMAIL_SERVER_PORT),
-      secure: false,
-      auth: {
-        user: process.env.EMAIL_SERVER_USER,
-        pass: process.env.EMAIL_SERVER_PASSWORD,
-      },
-      tls: {
-        rejectUnauthorized: false
-      },
-      debug: true,
-      logger: true
-    });
 
     console.log('Verifying transporter...');
-    await transporter.verify();
+    await verifyEmailTransport();
     console.log('Transporter verified successfully!');
 
     console.log('Sending test email...');
-    const info = await transporter.sendMail({
-      from: process.env.EMAIL_FROM,
-      to: process.env.EMAIL_SERVER_USER,
+    const info = await sendEmail(process.env.EMAIL_SERVER_USER || process.env.EMAIL_FROM || 'test@localhost', {
       subject: 'Test Email from NoteVerse',
       text: 'If you received this, your email configuration is working!',
       html: '<p>If you received this, your email configuration is working!</p>'
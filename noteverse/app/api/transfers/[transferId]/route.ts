@@ -0,0 +1,70 @@
+/**
+ * Single Ownership Transfer API
+ * POST - Accept, decline or cancel a pending transfer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import { findOwnershipTransfer, isTransferAction, respondToTransfer } from '@/lib/ownershipTransfers';
+
+/**
+ * POST /api/transfers/[transferId]
+ * Body: { action: 'accept' | 'decline' | 'cancel' }
+ * The recipient accepts or declines; the sender can cancel
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ transferId: string }> }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { transferId } = await params;
+    if (!ObjectId.isValid(transferId)) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (!isTransferAction(body.action)) {
+      return NextResponse.json(
+        { error: 'Action must be accept, decline or cancel' },
+        { status: 400 }
+      );
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const transfer = await findOwnershipTransfer(db, new ObjectId(transferId));
+    if (!transfer) {
+      return NextResponse.json({ error: 'Transfer not found' }, { status: 404 });
+    }
+
+    const result = await respondToTransfer(db, { transfer, user, action: body.action });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.code });
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: result.status,
+      documentId: transfer.document.toString()
+    });
+  } catch (error) {
+    console.error('Error responding to ownership transfer:', error);
+    return NextResponse.json(
+      { error: 'Failed to respond to ownership transfer' },
+      { status: 500 }
+    );
+  }
+}
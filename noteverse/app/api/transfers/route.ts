@@ -0,0 +1,114 @@
+/**
+ * Ownership Transfers API
+ * GET - Pending transfers offered to and by the current user
+ * POST - Offer several (or all) of the current user's documents to another user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { ObjectId } from 'mongodb';
+import {
+  findTransferRecipient,
+  formatOwnershipTransfer,
+  getPendingTransfers,
+  requestOwnershipTransfers
+} from '@/lib/ownershipTransfers';
+
+/**
+ * GET /api/transfers
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { incoming, outgoing } = await getPendingTransfers(db, user._id);
+
+    return NextResponse.json({
+      success: true,
+      incoming: incoming.map(formatOwnershipTransfer),
+      outgoing: outgoing.map(formatOwnershipTransfer)
+    });
+  } catch (error) {
+    console.error('Error fetching ownership transfers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch ownership transfers' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/transfers
+ * Body: { email: string, documentIds?: string[] }
+ * Without documentIds every document the user owns is offered
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    const lookup = await findTransferRecipient(db, body.email, user);
+    if ('error' in lookup) {
+      return NextResponse.json({ error: lookup.error }, { status: lookup.code });
+    }
+
+    const filter: Record<string, unknown> = { owner: user._id, deletedAt: null };
+    if (Array.isArray(body.documentIds)) {
+      const ids = body.documentIds.filter((id: unknown): id is string => typeof id === 'string');
+      filter.$or = [
+        { _id: { $in: ids.filter((id: string) => ObjectId.isValid(id)).map((id: string) => new ObjectId(id)) } },
+        { customId: { $in: ids } }
+      ];
+    }
+
+    const documents = await db.collection('documents').find(filter).toArray();
+
+    if (documents.length === 0) {
+      return NextResponse.json(
+        { error: 'No documents to transfer' },
+        { status: 400 }
+      );
+    }
+
+    const transfers = await requestOwnershipTransfers(db, {
+      documents,
+      from: user,
+      to: lookup.recipient
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `${transfers.length} document(s) offered to ${lookup.recipient.email}`,
+      transfers: transfers.map(formatOwnershipTransfer)
+    });
+  } catch (error) {
+    console.error('Error requesting ownership transfers:', error);
+    return NextResponse.json(
+      { error: 'Failed to request ownership transfers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Trash Purge API Route
+ *
+ * Permanently deletes documents that have been in the trash for more than
+ * 30 days. The custom server runs the purge itself (lib/scheduledJobs.ts);
+ * without it, Vercel Cron calls this route daily (vercel.json) with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ *
+ * GET / POST - Purge expired trash
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/lib/mongodb';
+import { purgeTrash } from '@/lib/documents';
+
+async function handlePurge(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const purged = await purgeTrash(db);
+
+    return NextResponse.json({ success: true, purged });
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to purge trash' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/trash/purge (Vercel Cron sends GET requests)
+ */
+export async function GET(request: NextRequest) {
+  return handlePurge(request);
+}
+
+/**
+ * POST /api/trash/purge
+ */
+export async function POST(request: NextRequest) {
+  return handlePurge(request);
+}
@@ -0,0 +1,78 @@
+/**
+ * Trash API Route
+ *
+ * GET - The current user's trashed documents
+ * DELETE - Empty the current user's trash
+ */
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { connectToDatabase } from '@/lib/mongodb';
+import { formatDocumentListItem, getTrashedDocuments, purgeTrash } from '@/lib/documents';
+import { trashPurgeDate } from '@/lib/trash';
+
+/**
+ * GET /api/trash
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const documents = await getTrashedDocuments(db, user._id);
+
+    return NextResponse.json({
+      success: true,
+      documents: documents.map((doc) => ({
+        ...formatDocumentListItem(doc, user),
+        purgeAt: trashPurgeDate(doc.deletedAt)
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch trash' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/trash
+ * Delete every trashed document forever
+ */
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const deleted = await purgeTrash(db, { ownerId: user._id });
+
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    return NextResponse.json(
+      { error: 'Failed to empty trash' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,12 +2,24 @@
  * User Search API
  * GET /api/users/search?q=query
  * Search for users by email or name for sharing documents
+ *
+ * GET /api/users/search?q=query&documentId=id
+ * Used by the @mention picker: each user is flagged with hasAccess and
+ * people with access come first. A short or empty query lists the
+ * document's collaborators.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { WithId, Document as MongoDocument } from 'mongodb';
 import { connectToDatabase } from '@/lib/mongodb';
+import { resolveDocumentAccess, getDocumentRole, getInheritedFolderRole, canView } from '@/lib/documentAccess';
+import { getCollaborators } from '@/lib/sharing';
+import { escapeRegExp } from '@/lib/regex';
+
+// Suggestions in the @mention picker
+const MAX_MENTION_RESULTS = 10;
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,6 +34,11 @@ export async function GET(request: NextRequest) {
 
     const searchParams = request.nextUrl.searchParams;
     const query = searchParams.get('q');
+    const documentId = searchParams.get('documentId');
+
+    if (documentId) {
+      return searchDocumentUsers(session.user.email, documentId, query || '');
+    }
 
     if (!query || query.length < 2) {
       return NextResponse.json({ users: [] });
@@ -33,8 +50,8 @@ export async function GET(request: NextRequest) {
     const users = await db.collection('users')
       .find({
         $or: [
-          { email: { $regex: query, $options: 'i' } },
-          { name: { $regex: query, $options: 'i' } }
+          { email: { $regex: escapeRegExp(query), $options: 'i' } },
+          { name: { $regex: escapeRegExp(query), $options: 'i' } }
         ],
         // Exclude current user
         email: { $ne: session.user.email }
@@ -55,3 +72,67 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Search users for the @mention picker of a document
+ */
+async function searchDocumentUsers(email: string, documentId: string, query: string) {
+  const { document, role } = await resolveDocumentAccess({ user: { email } }, documentId);
+
+  if (!document) {
+    return NextResponse.json({ error: 'Document not found' }, { status: 404 });
+  }
+
+  if (!canView(role)) {
+    return NextResponse.json({ error: 'Access denied' }, { status: 403 });
+  }
+
+  const { db } = await connectToDatabase();
+
+  // The owner and the people the document is shared with
+  const sharedWith = getCollaborators(document);
+  const collaboratorFilter = {
+    $or: [
+      { _id: { $in: [document.owner, ...sharedWith.map((share) => share.userId)].filter(Boolean) } },
+      { email: { $in: sharedWith.map((share) => share.email).filter(Boolean) } }
+    ]
+  };
+  const queryFilter = {
+    $or: [
+      { email: { $regex: escapeRegExp(query), $options: 'i' } },
+      { name: { $regex: escapeRegExp(query), $options: 'i' } }
+    ]
+  };
+
+  // Matching collaborators first, so other accounts can't crowd them out;
+  // without a query only collaborators are suggested
+  const collaborators = await db.collection('users')
+    .find({ $and: query.length < 2 ? [collaboratorFilter] : [collaboratorFilter, queryFilter], email: { $ne: email } })
+    .limit(MAX_MENTION_RESULTS)
+    .project<WithId<MongoDocument>>({ email: 1, name: 1 })
+    .toArray();
+
+  const others = query.length < 2 || collaborators.length >= MAX_MENTION_RESULTS
+    ? []
+    : await db.collection('users')
+      .find({ ...queryFilter, _id: { $nin: collaborators.map((user) => user._id) }, email: { $ne: email } })
+      .limit(MAX_MENTION_RESULTS - collaborators.length)
+      .project<WithId<MongoDocument>>({ email: 1, name: 1 })
+      .toArray();
+
+  const users = [...collaborators, ...others];
+
+  const inheritedRoles = await Promise.all(
+    users.map((user) => getInheritedFolderRole(db, document.folder, user))
+  );
+
+  const results = users
+    .map((user, index) => ({
+      email: user.email,
+      name: user.name,
+      hasAccess: canView(getDocumentRole(document, user, inheritedRoles[index]))
+    }))
+    .sort((a, b) => Number(b.hasAccess) - Number(a.hasAccess));
+
+  return NextResponse.json({ users: results });
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import type { HighlightRange } from '@/lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: HighlightRange[];
+  className?: string;
+}
+
+/**
+ * Text with search matches marked (ranges from /api/search)
+ */
+export default function HighlightedText({ text, highlights, className }: HighlightedTextProps) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach(([start, end]) => {
+    if (start > position) parts.push(text.slice(position, start));
+    parts.push(
+      <mark
+        key={start}
+        className="bg-yellow-200 dark:bg-yellow-500/40 text-inherit rounded-sm px-0.5"
+      >
+        {text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <span className={className}>{parts}</span>;
+}
@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { FileText, Search } from 'lucide-react';
+import HighlightedText from './HighlightedText';
+import type { DocumentListItem } from '@/lib/documentFilters';
+import type { HighlightRange, SearchResult } from '@/lib/search';
+
+const RESULT_LIMIT = 8;
+const SEARCH_DEBOUNCE_MS = 150;
+
+interface SwitcherItem {
+  id: string;
+  title: string;
+  titleHighlights: HighlightRange[];
+  detail: { text: string; highlights: HighlightRange[] };
+  ownerName?: string;
+}
+
+function fromListItem(document: DocumentListItem): SwitcherItem {
+  return {
+    id: document.id,
+    title: document.title,
+    titleHighlights: [],
+    detail: { text: document.preview, highlights: [] },
+    ownerName: document.owner?.name || document.owner?.email
+  };
+}
+
+function fromSearchResult(result: SearchResult): SwitcherItem {
+  return {
+    ...fromListItem(result),
+    titleHighlights: result.titleHighlights,
+    detail: result.snippet
+  };
+}
+
+/**
+ * Ctrl+K / Cmd+K quick switcher: jump to a document by searching for it.
+ * With an empty query it lists recently edited documents.
+ */
+export default function QuickSwitcher() {
+  const router = useRouter();
+  const { status } = useSession();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [items, setItems] = useState<SwitcherItem[]>([]);
+  const [selected, setSelected] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  // Ignore responses for queries that have changed since
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen((isOpen) => !isOpen);
+        setQuery('');
+        setSelected(0);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [status]);
+
+  const loadItems = async (text: string) => {
+    const requestId = ++requestIdRef.current;
+    const params = text
+      ? new URLSearchParams({ q: text, limit: String(RESULT_LIMIT) })
+      : new URLSearchParams({ view: 'recent', limit: String(RESULT_LIMIT) });
+
+    setLoading(true);
+    try {
+      const response = await fetch(text ? `/api/search?${params}` : `/api/documents?${params}`);
+      const data = await response.json();
+      if (requestId !== requestIdRef.current) return;
+
+      if (!response.ok) {
+        setItems([]);
+        return;
+      }
+
+      setItems(text
+        ? data.results.map(fromSearchResult)
+        : data.documents.map(fromListItem));
+    } catch (error) {
+      console.error('Error loading quick switcher results:', error);
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!open) return;
+
+    const text = query.trim();
+    const timeout = setTimeout(() => loadItems(text), text ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timeout);
+  }, [open, query]);
+
+  const close = () => {
+    setOpen(false);
+    setItems([]);
+  };
+
+  const openDocument = (item: SwitcherItem) => {
+    close();
+    router.push(`/document/${item.id}`);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setSelected((index) => Math.min(index + 1, items.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setSelected((index) => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter' && items[selected]) {
+      event.preventDefault();
+      openDocument(items[selected]);
+    } else if (event.key === 'Escape') {
+      close();
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-start justify-center z-[10000] p-4 pt-[15vh]"
+      onClick={close}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl max-w-xl w-full overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Quick switcher"
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-gray-200 dark:border-gray-700">
+          <Search className="w-5 h-5 text-gray-400" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelected(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Jump to a document..."
+            className="flex-1 py-4 bg-transparent outline-none text-gray-900 dark:text-white placeholder-gray-400"
+          />
+          <kbd className="text-xs text-gray-400 border border-gray-200 dark:border-gray-600 rounded px-1.5 py-0.5">Esc</kbd>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto py-2">
+          {!query.trim() && items.length > 0 && (
+            <p className="px-4 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">Recent</p>
+          )}
+          {items.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">
+              {loading ? 'Searching...' : query.trim() ? 'No matching documents' : 'No recent documents'}
+            </p>
+          ) : (
+            items.map((item, index) => (
+              <button
+                key={item.id}
+                onClick={() => openDocument(item)}
+                onMouseMove={() => setSelected(index)}
+                className={`w-full flex items-start gap-3 px-4 py-2 text-left ${
+                  index === selected ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''
+                }`}
+              >
+                <FileText className="w-4 h-4 mt-1 text-gray-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    <HighlightedText text={item.title || 'Untitled Document'} highlights={item.titleHighlights} />
+                  </p>
+                  {item.detail.text && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 line-clamp-1">
+                      <HighlightedText text={item.detail.text} highlights={item.detail.highlights} />
+                    </p>
+                  )}
+                </div>
+                {item.ownerName && (
+                  <span className="ml-auto text-xs text-gray-400 whitespace-nowrap">{item.ownerName}</span>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
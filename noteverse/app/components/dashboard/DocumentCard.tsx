@@ -2,35 +2,56 @@
 
 import Link from 'next/link';
 import { useState } from 'react';
+import { Star } from 'lucide-react';
+import { trashPurgeDate } from '@/lib/trash';
+import { DOCUMENT_DRAG_TYPE } from './FolderCard';
 
 interface DocumentCardProps {
   id: string;
   title: string;
-  content: string;
+  preview: string; // Plain-text start of the content
+  tags?: string[];
+  starred?: boolean;
+  isArchived?: boolean;
   createdAt: string;
   updatedAt: string;
   collaborators?: Array<{ name: string; avatar?: string }>;
   isShared?: boolean;
-  role?: string; // 'owner', 'editor', 'viewer'
+  role?: string; // 'owner', 'editor', 'commenter', 'viewer'
   owner?: { name: string; email: string };
+  deletedAt?: string; // Set for documents in the trash
+  draggable?: boolean; // Can be dragged onto folders
   onDelete: (id: string) => void;
   onDuplicate?: (id: string) => void;
   onShare?: (id: string) => void;
+  onRestore?: (id: string) => void;
+  onToggleStar?: (id: string) => void;
+  onToggleArchive?: (id: string) => void;
+  onTagClick?: (tag: string) => void;
 }
 
 export default function DocumentCard({
   id,
   title,
-  content,
+  preview,
+  tags = [],
+  starred = false,
+  isArchived = false,
   createdAt,
   updatedAt,
   collaborators = [],
   isShared = false,
   role,
   owner,
+  deletedAt,
+  draggable = false,
   onDelete,
   onDuplicate,
-  onShare
+  onShare,
+  onRestore,
+  onToggleStar,
+  onToggleArchive,
+  onTagClick
 }: DocumentCardProps) {
   const [showMenu, setShowMenu] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -54,30 +75,36 @@ export default function DocumentCard({
     }
   };
 
-  /**
-   * Strip HTML tags and decode entities from content for clean preview
-   * Removes <p>, </p>, and other HTML tags that shouldn't display
-   */
-  const stripHtmlTags = (html: string): string => {
-    // Remove HTML tags
-    const withoutTags = html.replace(/<[^>]*>/g, ' ');
-    // Decode HTML entities
-    const textarea = document.createElement('textarea');
-    textarea.innerHTML = withoutTags;
-    // Clean up extra whitespace
-    return textarea.value.replace(/\s+/g, ' ').trim();
+  const handleRestore = () => {
+    if (onRestore) {
+      onRestore(id);
+      setShowMenu(false);
+    }
+  };
+
+  const handleToggleArchive = () => {
+    if (onToggleArchive) {
+      onToggleArchive(id);
+      setShowMenu(false);
+    }
   };
 
+  // The preview arrives as plain text from the API
   const truncateContent = (text: string, maxLength: number = 120) => {
-    // First strip HTML tags
-    const cleanText = stripHtmlTags(text);
-    if (cleanText.length <= maxLength) return cleanText;
-    return cleanText.slice(0, maxLength) + '...';
+    if (text.length <= maxLength) return text;
+    return text.slice(0, maxLength) + '...';
   };
 
   return (
     <>
-      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-6 hover:shadow-lg transition-all group">
+      <div
+        draggable={draggable}
+        onDragStart={(event) => {
+          event.dataTransfer.setData(DOCUMENT_DRAG_TYPE, id);
+          event.dataTransfer.effectAllowed = 'move';
+        }}
+        className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 p-6 hover:shadow-lg transition-all group"
+      >
         <div className="flex items-start justify-between mb-4">
           <div className="flex-1">
             <Link href={`/document/${id}`} className="block group-hover:text-indigo-600 dark:group-hover:text-indigo-400">
@@ -107,6 +134,13 @@ export default function DocumentCard({
                       </svg>
                       Can Edit
                     </>
+                  ) : role === 'commenter' ? (
+                    <>
+                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z" />
+                      </svg>
+                      Can Comment
+                    </>
                   ) : (
                     <>
                       <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -126,7 +160,20 @@ export default function DocumentCard({
             )}
           </div>
 
-          <div className="relative">
+          <div className="relative flex items-center">
+            {!deletedAt && onToggleStar && (
+              <button
+                onClick={() => onToggleStar(id)}
+                className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                title={starred ? 'Unstar' : 'Star'}
+              >
+                <Star
+                  className={`w-5 h-5 ${
+                    starred ? 'fill-yellow-400 text-yellow-400' : 'text-gray-400 dark:text-gray-500'
+                  }`}
+                />
+              </button>
+            )}
             <button
               onClick={() => setShowMenu(!showMenu)}
               className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
@@ -139,25 +186,44 @@ export default function DocumentCard({
             {showMenu && (
               <>
                 <div className="fixed inset-0 z-10" onClick={() => setShowMenu(false)} />
-                <div className="absolute right-0 mt-2 w-48 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-20">
+                <div className="absolute right-0 top-full mt-2 w-48 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-20">
                   <Link
                     href={`/document/${id}`}
                     className="block px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 rounded-t-lg"
                   >
                     Open
                   </Link>
-                  <button
-                    onClick={handleDuplicate}
-                    className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
-                  >
-                    Duplicate
-                  </button>
-                  <button
-                    onClick={handleShare}
-                    className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
-                  >
-                    Share
-                  </button>
+                  {deletedAt ? (
+                    <button
+                      onClick={handleRestore}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                    >
+                      Restore
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        onClick={handleDuplicate}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        Duplicate
+                      </button>
+                      <button
+                        onClick={handleShare}
+                        className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        Share
+                      </button>
+                      {!isShared && onToggleArchive && (
+                        <button
+                          onClick={handleToggleArchive}
+                          className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                        >
+                          {isArchived ? 'Unarchive' : 'Archive'}
+                        </button>
+                      )}
+                    </>
+                  )}
                   <div className="border-t border-gray-200 dark:border-gray-700" />
                   <button
                     onClick={() => {
@@ -166,7 +232,7 @@ export default function DocumentCard({
                     }}
                     className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-b-lg"
                   >
-                    Delete
+                    {deletedAt ? 'Delete forever' : 'Move to trash'}
                   </button>
                 </div>
               </>
@@ -175,9 +241,23 @@ export default function DocumentCard({
         </div>
 
         <p className="text-gray-600 dark:text-gray-400 text-sm mb-4 line-clamp-3">
-          {truncateContent(content)}
+          {truncateContent(preview)}
         </p>
 
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-4">
+            {tags.map((tag) => (
+              <button
+                key={tag}
+                onClick={() => onTagClick?.(tag)}
+                className="px-2 py-0.5 text-xs font-medium bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-full hover:bg-indigo-100 dark:hover:bg-indigo-900/50 transition-colors"
+              >
+                #{tag}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             {collaborators.length > 0 && (
@@ -201,7 +281,9 @@ export default function DocumentCard({
           </div>
 
           <div className="text-xs text-gray-500 dark:text-gray-400">
-            Updated {new Date(updatedAt).toLocaleDateString()}
+            {deletedAt
+              ? `Deleted forever on ${trashPurgeDate(deletedAt).toLocaleDateString()}`
+              : `Updated ${new Date(updatedAt).toLocaleDateString()}`}
           </div>
         </div>
       </div>
@@ -216,11 +298,17 @@ export default function DocumentCard({
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
                 </svg>
               </div>
-              <h3 className="text-xl font-bold text-gray-900 dark:text-white">Delete Document</h3>
+              <h3 className="text-xl font-bold text-gray-900 dark:text-white">
+                {deletedAt ? 'Delete Forever' : 'Move to Trash'}
+              </h3>
             </div>
             
             <p className="text-gray-700 dark:text-gray-300 mb-6">
-              Are you sure you want to delete "<strong>{title}</strong>"? This action cannot be undone.
+              {deletedAt ? (
+                <>Are you sure you want to permanently delete &quot;<strong>{title}</strong>&quot;? This action cannot be undone.</>
+              ) : (
+                <>Move &quot;<strong>{title}</strong>&quot; to the trash? Collaborators lose access until you restore it.</>
+              )}
             </p>
 
             <div className="flex gap-3">
@@ -234,7 +322,7 @@ export default function DocumentCard({
                 onClick={handleDelete}
                 className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg font-semibold hover:bg-red-700 transition-all"
               >
-                Delete
+                {deletedAt ? 'Delete Forever' : 'Move to Trash'}
               </button>
             </div>
           </div>
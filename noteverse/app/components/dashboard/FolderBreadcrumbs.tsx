@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import type { FolderBreadcrumb } from '@/lib/folders';
+import { DOCUMENT_DRAG_TYPE, FOLDER_DRAG_TYPE, isFolderDrop } from './FolderCard';
+
+interface FolderBreadcrumbsProps {
+  rootLabel: string;
+  path: FolderBreadcrumb[];
+  onNavigate: (folderId: string | null) => void;
+  // Dropping on a crumb moves the item there (null: the top level); leave
+  // out when the user can't file things along this path
+  onDropDocument?: (documentId: string, folderId: string | null) => void;
+  onDropFolder?: (folderId: string, parentId: string | null) => void;
+}
+
+export default function FolderBreadcrumbs({
+  rootLabel,
+  path,
+  onNavigate,
+  onDropDocument,
+  onDropFolder
+}: FolderBreadcrumbsProps) {
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+  const acceptsDrops = !!onDropDocument || !!onDropFolder;
+
+  const crumbs = [{ id: null, name: rootLabel }, ...path];
+
+  const handleDrop = (event: React.DragEvent, targetId: string | null) => {
+    setDragOverId(null);
+    if (!acceptsDrops) return;
+    event.preventDefault();
+
+    const documentId = event.dataTransfer.getData(DOCUMENT_DRAG_TYPE);
+    const folderId = event.dataTransfer.getData(FOLDER_DRAG_TYPE);
+
+    if (documentId && onDropDocument) {
+      onDropDocument(documentId, targetId);
+    } else if (folderId && folderId !== targetId && onDropFolder) {
+      onDropFolder(folderId, targetId);
+    }
+  };
+
+  return (
+    <nav className="flex items-center flex-wrap gap-1 text-sm mb-4" aria-label="Folder path">
+      {crumbs.map((crumb, index) => {
+        const isCurrent = index === crumbs.length - 1;
+        const key = crumb.id || 'root';
+
+        return (
+          <span key={key} className="flex items-center gap-1">
+            {index > 0 && <ChevronRight className="w-4 h-4 text-gray-400" />}
+            <button
+              onClick={() => onNavigate(crumb.id)}
+              disabled={isCurrent}
+              onDragOver={(event) => {
+                if (!acceptsDrops || isCurrent || !isFolderDrop(event)) return;
+                event.preventDefault();
+                setDragOverId(key);
+              }}
+              onDragLeave={() => setDragOverId(null)}
+              onDrop={(event) => handleDrop(event, crumb.id)}
+              className={`px-2 py-1 rounded-md transition-colors ${
+                isCurrent
+                  ? 'font-semibold text-gray-900 dark:text-white cursor-default'
+                  : 'text-gray-600 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+              } ${dragOverId === key ? 'bg-indigo-100 dark:bg-indigo-900/40 text-indigo-700 dark:text-indigo-300' : ''}`}
+            >
+              {crumb.name}
+            </button>
+          </span>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { Folder as FolderIcon, Users } from 'lucide-react';
+import type { Folder } from '@/lib/folders';
+
+// Drag-and-drop payload types for moving documents and folders
+export const DOCUMENT_DRAG_TYPE = 'application/x-noteverse-document';
+export const FOLDER_DRAG_TYPE = 'application/x-noteverse-folder';
+
+interface FolderCardProps {
+  folder: Folder;
+  onOpen: (id: string) => void;
+  onRename?: (id: string) => void;
+  onShare?: (id: string) => void;
+  onCopy?: (id: string) => void;
+  onDelete?: (id: string) => void;
+  onDropDocument?: (documentId: string, folderId: string) => void;
+  onDropFolder?: (folderId: string, parentId: string) => void;
+}
+
+/**
+ * Whether a drag carries something that can be dropped on a folder
+ */
+export function isFolderDrop(event: React.DragEvent): boolean {
+  return event.dataTransfer.types.includes(DOCUMENT_DRAG_TYPE) || event.dataTransfer.types.includes(FOLDER_DRAG_TYPE);
+}
+
+export default function FolderCard({
+  folder,
+  onOpen,
+  onRename,
+  onShare,
+  onCopy,
+  onDelete,
+  onDropDocument,
+  onDropFolder
+}: FolderCardProps) {
+  const [showMenu, setShowMenu] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  // Only the owner can file things in a folder
+  const acceptsDrops = folder.isOwner && (!!onDropDocument || !!onDropFolder);
+
+  const handleMenuAction = (action?: (id: string) => void) => {
+    if (action) {
+      action(folder.id);
+      setShowMenu(false);
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!acceptsDrops || !isFolderDrop(event)) return;
+    event.preventDefault();
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    setIsDragOver(false);
+    if (!acceptsDrops) return;
+    event.preventDefault();
+
+    const documentId = event.dataTransfer.getData(DOCUMENT_DRAG_TYPE);
+    const folderId = event.dataTransfer.getData(FOLDER_DRAG_TYPE);
+
+    if (documentId && onDropDocument) {
+      onDropDocument(documentId, folder.id);
+    } else if (folderId && folderId !== folder.id && onDropFolder) {
+      onDropFolder(folderId, folder.id);
+    }
+  };
+
+  return (
+    <div
+      draggable={folder.isOwner}
+      onDragStart={(event) => {
+        event.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+        event.dataTransfer.effectAllowed = 'move';
+      }}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      className={`bg-white dark:bg-gray-800 rounded-xl shadow-sm border p-4 flex items-center gap-3 transition-all group ${
+        isDragOver
+          ? 'border-indigo-500 ring-2 ring-indigo-200 dark:ring-indigo-800'
+          : 'border-gray-200 dark:border-gray-700 hover:shadow-md'
+      }`}
+    >
+      <button
+        onClick={() => onOpen(folder.id)}
+        className="flex-1 flex items-center gap-3 min-w-0 text-left"
+      >
+        <div className="w-10 h-10 bg-indigo-100 dark:bg-indigo-900/30 rounded-lg flex items-center justify-center flex-shrink-0">
+          <FolderIcon className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+        </div>
+        <div className="min-w-0">
+          <p className="font-semibold text-gray-900 dark:text-white truncate group-hover:text-indigo-600 dark:group-hover:text-indigo-400">
+            {folder.name}
+          </p>
+          {(folder.sharedWith.length > 0 || !folder.isOwner) && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+              <Users className="w-3 h-3" />
+              {folder.isOwner ? `Shared with ${folder.sharedWith.length}` : 'Shared with you'}
+            </p>
+          )}
+        </div>
+      </button>
+
+      <div className="relative">
+        <button
+          onClick={() => setShowMenu(!showMenu)}
+          className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          <svg className="w-5 h-5 text-gray-600 dark:text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 5v.01M12 12v.01M12 19v.01M12 6a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2zm0 7a1 1 0 110-2 1 1 0 010 2z" />
+          </svg>
+        </button>
+
+        {showMenu && (
+          <>
+            <div className="fixed inset-0 z-10" onClick={() => setShowMenu(false)} />
+            <div className="absolute right-0 top-full mt-2 w-44 bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 z-20 overflow-hidden">
+              <button
+                onClick={() => handleMenuAction(onOpen)}
+                className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Open
+              </button>
+              {folder.isOwner && onRename && (
+                <button
+                  onClick={() => handleMenuAction(onRename)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Rename
+                </button>
+              )}
+              {folder.isOwner && onShare && (
+                <button
+                  onClick={() => handleMenuAction(onShare)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Share
+                </button>
+              )}
+              {onCopy && (
+                <button
+                  onClick={() => handleMenuAction(onCopy)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Make a copy
+                </button>
+              )}
+              {folder.isOwner && onDelete && (
+                <>
+                  <div className="border-t border-gray-200 dark:border-gray-700" />
+                  <button
+                    onClick={() => handleMenuAction(onDelete)}
+                    className="w-full text-left px-4 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20"
+                  >
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Folder as FolderIcon } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Dropdown from '@/app/components/Dropdown';
+import type { GrantableRole } from '@/lib/documentAccess';
+import type { Folder } from '@/lib/folders';
+
+interface FolderShareModalProps {
+  folder: Folder;
+  onClose: () => void;
+  onUpdated: (sharedWith: Folder['sharedWith']) => void;
+}
+
+const ROLE_OPTIONS = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'commenter', label: 'Commenter' },
+  { value: 'editor', label: 'Editor' }
+];
+
+/**
+ * Share a folder; everything inside it is shared along with it
+ */
+export default function FolderShareModal({ folder, onClose, onUpdated }: FolderShareModalProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<GrantableRole>('viewer');
+  const [sharedWith, setSharedWith] = useState(folder.sharedWith);
+  const [loading, setLoading] = useState(false);
+
+  const updateShare = async (method: 'POST' | 'DELETE', body: { email: string; role?: GrantableRole }) => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/folders/${folder.id}/share`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update sharing');
+        return false;
+      }
+
+      setSharedWith(data.sharedWith);
+      onUpdated(data.sharedWith);
+      toast.success(data.message);
+      return true;
+    } catch (error) {
+      console.error('Error sharing folder:', error);
+      toast.error('Failed to update sharing. Please try again.');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleShare = async () => {
+    if (!email.trim()) return;
+    if (await updateShare('POST', { email: email.trim(), role })) {
+      setEmail('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[9999] p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl max-w-xl w-full max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <FolderIcon className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+            Share: {folder.name}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto max-h-[calc(90vh-80px)]">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <div className="flex gap-2">
+              <input
+                type="email"
+                placeholder="Add people by email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleShare();
+                }}
+                disabled={loading}
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg
+                         bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                         focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent
+                         disabled:opacity-50 disabled:cursor-not-allowed"
+              />
+              <Dropdown
+                value={role}
+                onChange={(val) => setRole(val as GrantableRole)}
+                options={ROLE_OPTIONS}
+                disabled={loading}
+                className="w-40"
+              />
+              <button
+                onClick={handleShare}
+                disabled={!email.trim() || loading}
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-lg
+                         disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Share
+              </button>
+            </div>
+            <p className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+              People get this role on every folder and document inside. Sharing a document
+              directly gives someone a different role on that document.
+            </p>
+          </div>
+
+          <div className="px-6 py-4">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">People with access</h3>
+            {sharedWith.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Only you can open this folder.</p>
+            ) : (
+              <div className="space-y-2">
+                {sharedWith.map((share) => (
+                  <div key={share.email} className="flex items-center justify-between gap-3">
+                    <span className="text-sm text-gray-900 dark:text-white truncate">{share.email}</span>
+                    <div className="flex items-center gap-2">
+                      <Dropdown
+                        value={share.role}
+                        onChange={(val) => updateShare('POST', { email: share.email, role: val as GrantableRole })}
+                        options={ROLE_OPTIONS}
+                        disabled={loading}
+                        className="w-36"
+                      />
+                      <button
+                        onClick={() => updateShare('DELETE', { email: share.email })}
+                        disabled={loading}
+                        className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+                        title="Remove access"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
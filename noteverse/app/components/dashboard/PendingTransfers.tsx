@@ -0,0 +1,141 @@
+/**
+ * PendingTransfers Component
+ *
+ * Dashboard banner for documents other users want to hand over
+ * Features:
+ * - Lists ownership transfers offered to the current user
+ * - Accept or decline each one, or accept all at once
+ * - Renders nothing when there are none
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowRightLeft } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { OwnershipTransfer } from '@/lib/ownershipTransfers';
+
+interface PendingTransfersProps {
+  onAccepted: () => void;
+}
+
+export default function PendingTransfers({ onAccepted }: PendingTransfersProps) {
+  const [transfers, setTransfers] = useState<OwnershipTransfer[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const loadTransfers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/transfers');
+      if (response.ok) {
+        const data = await response.json();
+        setTransfers(data.incoming || []);
+      }
+    } catch (error) {
+      console.error('Failed to load ownership transfers:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  const respond = async (transfer: OwnershipTransfer, action: 'accept' | 'decline') => {
+    const response = await fetch(`/api/transfers/${transfer.id}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action })
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      toast.error(data.error || `Failed to ${action} "${transfer.documentTitle}"`);
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleRespond = async (transfers: OwnershipTransfer[], action: 'accept' | 'decline') => {
+    if (
+      action === 'decline' &&
+      transfers.some((transfer) => transfer.accountDeletion) &&
+      !confirm('The previous owner deleted their account. Declining deletes this document. Continue?')
+    ) {
+      return;
+    }
+
+    setBusy(true);
+    try {
+      let succeeded = 0;
+      for (const transfer of transfers) {
+        if (await respond(transfer, action)) succeeded++;
+      }
+
+      if (succeeded > 0) {
+        toast.success(action === 'accept'
+          ? `You now own ${succeeded === 1 ? `"${transfers[0].documentTitle}"` : `${succeeded} documents`}`
+          : 'Transfer declined');
+        if (action === 'accept') onAccepted();
+      }
+    } catch (error) {
+      console.error('Failed to respond to ownership transfer:', error);
+      toast.error('Failed to respond to transfer');
+    } finally {
+      setBusy(false);
+      await loadTransfers();
+    }
+  };
+
+  if (transfers.length === 0) return null;
+
+  return (
+    <div className="mb-8 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ArrowRightLeft className="w-5 h-5 text-amber-600 dark:text-amber-400" />
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Ownership transfers
+          </h2>
+        </div>
+        {transfers.length > 1 && (
+          <button
+            onClick={() => handleRespond(transfers, 'accept')}
+            disabled={busy}
+            className="px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg disabled:opacity-50 transition-colors"
+          >
+            Accept all
+          </button>
+        )}
+      </div>
+      <div className="space-y-3">
+        {transfers.map((transfer) => (
+          <div key={transfer.id} className="flex items-center gap-4">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                {transfer.documentTitle}
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                {transfer.fromEmail} wants to make you the owner
+                {transfer.accountDeletion && ' (their account was deleted)'}
+              </p>
+            </div>
+            <button
+              onClick={() => handleRespond([transfer], 'decline')}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded-lg disabled:opacity-50 transition-colors"
+            >
+              Decline
+            </button>
+            <button
+              onClick={() => handleRespond([transfer], 'accept')}
+              disabled={busy}
+              className="px-3 py-1.5 text-sm bg-indigo-600 hover:bg-indigo-700 text-white font-medium rounded-lg disabled:opacity-50 transition-colors"
+            >
+              Accept
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import Link from 'next/link';
+import { useEffect, useRef, useState } from 'react';
+import { Archive, Users } from 'lucide-react';
+import HighlightedText from '../HighlightedText';
+import EmptyState from './EmptyState';
+import DocumentSkeleton from './DocumentSkeleton';
+import type { OwnerFilter } from '@/lib/documentFilters';
+import type { SearchResult } from '@/lib/search';
+
+interface SearchResultsProps {
+  query: string;
+  owner: OwnerFilter;
+  tag: string | null;
+  onTagClick: (tag: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * Ranked full-text search results for the dashboard (GET /api/search)
+ */
+export default function SearchResults({ query, owner, tag, onTagClick, onClear }: SearchResultsProps) {
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  // Ignore responses for searches that have changed since
+  const requestIdRef = useRef(0);
+
+  const loadResults = async (pageNumber: number) => {
+    const requestId = ++requestIdRef.current;
+    const params = new URLSearchParams({ q: query, owner, page: String(pageNumber) });
+    if (tag) params.set('tag', tag);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    if (pageNumber === 1) setLoading(true);
+
+    try {
+      const response = await fetch(`/api/search?${params}`);
+      const data = await response.json();
+      if (requestId !== requestIdRef.current) return;
+
+      if (!response.ok) {
+        setError(data.error || 'Search failed');
+        setResults([]);
+        setHasMore(false);
+        return;
+      }
+
+      setError(null);
+      setResults(current => pageNumber === 1 ? data.results : [...current, ...data.results]);
+      setTotal(data.total);
+      setPage(data.page);
+      setHasMore(data.hasMore);
+    } catch (error) {
+      console.error('Error searching documents:', error);
+      if (requestId === requestIdRef.current) setError('Search failed. Please try again.');
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadResults(1);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query, owner, tag, from, to]);
+
+  const handleLoadMore = () => {
+    setLoadingMore(true);
+    loadResults(page + 1);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {loading ? 'Searching...' : `${total} result${total !== 1 ? 's' : ''} for "${query}"`}
+        </p>
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <label htmlFor="search-from">Edited from</label>
+          <input
+            id="search-from"
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+          />
+          <label htmlFor="search-to">to</label>
+          <input
+            id="search-to"
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="px-2 py-1 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg text-gray-900 dark:text-white"
+          />
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <DocumentSkeleton key={i} />
+          ))}
+        </div>
+      ) : error ? (
+        <EmptyState title="Search unavailable" description={error} />
+      ) : results.length === 0 ? (
+        <EmptyState
+          title="No documents found"
+          description={`No documents match "${query}". Try different keywords, a prefix like plan* or fewer filters.`}
+          actionLabel="Clear Search"
+          onAction={onClear}
+        />
+      ) : (
+        <>
+          <div className="space-y-3">
+            {results.map((result) => (
+              <Link
+                key={result.id}
+                href={`/document/${result.id}`}
+                className="block bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-5 hover:shadow-md hover:border-indigo-300 dark:hover:border-indigo-700 transition-all"
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    <HighlightedText text={result.title || 'Untitled Document'} highlights={result.titleHighlights} />
+                  </h3>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    Updated {new Date(result.updatedAt).toLocaleDateString()}
+                  </span>
+                </div>
+
+                {result.snippet.text && (
+                  <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">
+                    <HighlightedText text={result.snippet.text} highlights={result.snippet.highlights} />
+                  </p>
+                )}
+
+                <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                  {!result.isOwner && (
+                    <span className="flex items-center gap-1">
+                      <Users className="w-3 h-3" />
+                      {result.owner ? `Owned by ${result.owner.name || result.owner.email}` : 'Shared with you'}
+                    </span>
+                  )}
+                  {result.isArchived && (
+                    <span className="flex items-center gap-1">
+                      <Archive className="w-3 h-3" />
+                      Archived
+                    </span>
+                  )}
+                  {result.tags.map((resultTag) => (
+                    <button
+                      key={resultTag}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        onTagClick(resultTag);
+                      }}
+                      className="px-2 py-0.5 rounded-full bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/50"
+                    >
+                      #{resultTag}
+                    </button>
+                  ))}
+                </div>
+              </Link>
+            ))}
+          </div>
+
+          {hasMore && (
+            <div className="mt-8 text-center">
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="px-6 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+              >
+                {loadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * Attribution Hover Card Component
+ *
+ * Shows who wrote the text under the mouse, and when, while the attribution
+ * overlay is on (see ../editor/AttributionExtension.ts).
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Editor } from '@tiptap/react';
+import type { DocumentAttribution } from '@/lib/socket/events';
+import { DEFAULT_AUTHOR_COLOR } from '../editor/AttributionExtension';
+
+interface AttributionHoverCardProps {
+  editor: Editor | null;
+  attribution: DocumentAttribution;
+}
+
+interface HoveredRun {
+  authorId: string;
+  time: string;
+  left: number;
+  top: number;
+}
+
+export default function AttributionHoverCard({ editor, attribution }: AttributionHoverCardProps) {
+  const [hovered, setHovered] = useState<HoveredRun | null>(null);
+
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+    const dom = editor.view.dom;
+
+    const handleMouseOver = (event: MouseEvent) => {
+      const run = (event.target as HTMLElement).closest<HTMLElement>('.attribution');
+      if (!run?.dataset.authorId || !run.dataset.time) {
+        setHovered(null);
+        return;
+      }
+
+      const rect = run.getBoundingClientRect();
+      setHovered({
+        authorId: run.dataset.authorId,
+        time: run.dataset.time,
+        left: event.clientX,
+        top: rect.bottom + 6
+      });
+    };
+    const handleMouseLeave = () => setHovered(null);
+
+    dom.addEventListener('mouseover', handleMouseOver);
+    dom.addEventListener('mouseleave', handleMouseLeave);
+
+    return () => {
+      dom.removeEventListener('mouseover', handleMouseOver);
+      dom.removeEventListener('mouseleave', handleMouseLeave);
+    };
+  }, [editor]);
+
+  if (!hovered) return null;
+
+  const author = attribution.authors.find((candidate) => candidate.id === hovered.authorId);
+
+  return (
+    <div
+      className="fixed z-50 pointer-events-none bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg px-3 py-2 -translate-x-1/2"
+      style={{ left: hovered.left, top: hovered.top }}
+    >
+      <div className="flex items-center gap-2">
+        <span
+          className="w-2.5 h-2.5 rounded-full shrink-0"
+          style={{ backgroundColor: author?.cursorColor || DEFAULT_AUTHOR_COLOR }}
+        />
+        <span className="text-sm font-medium text-gray-900 dark:text-white">
+          {author?.name || 'Unknown user'}
+        </span>
+      </div>
+      {author?.email && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{author.email}</p>
+      )}
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+        Written {new Date(hovered.time).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+      </p>
+    </div>
+  );
+}
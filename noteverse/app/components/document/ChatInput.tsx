@@ -6,24 +6,147 @@
  * - Send button
  * - Press Enter to send (Shift+Enter for new line)
  * - Character limit indicator (optional)
+ * - @mentions of collaborators (when mentionDocumentId is set)
  */
 
 'use client';
 
-import { useState, KeyboardEvent } from 'react';
+import { useState, useEffect, useRef, KeyboardEvent, ChangeEvent } from 'react';
+import toast from 'react-hot-toast';
+
+export interface PickedMention {
+  name: string;
+  email: string;
+}
+
+interface MentionSuggestion extends PickedMention {
+  hasAccess: boolean;
+}
 
 interface ChatInputProps {
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, mentions: PickedMention[]) => void;
   disabled?: boolean;
   placeholder?: string;
+  mentionDocumentId?: string; // Enables @mentions of people on this document
+  canShareDocument?: boolean; // Offer to share with mentioned people who lack access
 }
 
+// "@query" right before the caret, at the start or after whitespace
+const MENTION_QUERY_PATTERN = /(?:^|\s)@([^\s@]*)$/;
+
 export default function ChatInput({
   onSendMessage,
   disabled = false,
-  placeholder = 'Type a message...'
+  placeholder = 'Type a message...',
+  mentionDocumentId,
+  canShareDocument = false
 }: ChatInputProps) {
   const [message, setMessage] = useState('');
+  const [mentions, setMentions] = useState<PickedMention[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionSuggestion[]>([]);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  /**
+   * Look up people to mention while an @query is being typed
+   */
+  useEffect(() => {
+    if (!mentionDocumentId || mentionQuery === null) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/users/search?q=${encodeURIComponent(mentionQuery)}&documentId=${encodeURIComponent(mentionDocumentId)}`
+        );
+        if (response.ok) {
+          const data = await response.json();
+          setSuggestions(data.users || []);
+          setHighlightedIndex(0);
+        }
+      } catch (error) {
+        console.error('❌ Failed to search users for mention:', error);
+      }
+    }, 200);
+
+    return () => clearTimeout(timeout);
+  }, [mentionDocumentId, mentionQuery]);
+
+  /**
+   * Track the text and whether the caret is inside an @query
+   */
+  const handleChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
+    const { value, selectionStart } = e.target;
+    setMessage(value);
+
+    if (!mentionDocumentId) return;
+    const match = value.slice(0, selectionStart).match(MENTION_QUERY_PATTERN);
+    setMentionQuery(match ? match[1] : null);
+    if (!match) setSuggestions([]);
+  };
+
+  /**
+   * Offer to share the document at commenter level with someone who can't see it
+   */
+  const offerAccess = async (user: MentionSuggestion) => {
+    const displayName = user.name || user.email;
+
+    if (!canShareDocument) {
+      toast.error(`${displayName} doesn't have access to this document, so they won't be notified. Ask the owner to share it with them.`, { duration: 5000 });
+      return;
+    }
+
+    if (!confirm(`${displayName} doesn't have access to this document. Share it with them as a commenter?`)) {
+      toast(`${displayName} won't be notified until they have access`);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/documents/${mentionDocumentId}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: user.email, permission: 'commenter' })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to share document');
+        return;
+      }
+
+      toast.success(`Shared with ${displayName} as a commenter`);
+    } catch (error) {
+      console.error('Error sharing document with mentioned user:', error);
+      toast.error('Failed to share document');
+    }
+  };
+
+  /**
+   * Replace the @query with the picked person's name
+   */
+  const handleSelectMention = (user: MentionSuggestion) => {
+    const textarea = textareaRef.current;
+    const caret = textarea ? textarea.selectionStart : message.length;
+    const before = message.slice(0, caret).replace(/@[^\s@]*$/, `@${user.name || user.email} `);
+    const after = message.slice(caret);
+
+    setMessage(before + after);
+    setMentionQuery(null);
+    setMentions(prev => prev.some(mention => mention.email === user.email)
+      ? prev
+      : [...prev, { name: user.name || user.email, email: user.email }]);
+
+    // Put the caret back after the inserted name
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+
+    if (!user.hasAccess) {
+      offerAccess(user);
+    }
+  };
 
   /**
    * Handle send message
@@ -31,16 +154,40 @@ export default function ChatInput({
   const handleSend = () => {
     if (!message.trim() || disabled) return;
 
-    onSendMessage(message.trim());
+    // Only keep mentions whose name is still in the text
+    const text = message.trim();
+    onSendMessage(text, mentions.filter(mention => text.includes(`@${mention.name}`)));
     setMessage(''); // Clear input after sending
+    setMentions([]);
+    setMentionQuery(null);
   };
 
   /**
    * Handle keyboard shortcuts
-   * Enter: Send message
+   * Enter: Send message (or pick the highlighted mention)
    * Shift+Enter: New line
+   * Arrow keys / Tab / Escape: Navigate the mention list
    */
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0 && mentionQuery !== null) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlightedIndex(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        handleSelectMention(suggestions[highlightedIndex]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -48,13 +195,41 @@ export default function ChatInput({
   };
 
   return (
-    <div className="border-t border-gray-200 dark:border-gray-700 p-3 bg-white dark:bg-gray-800">
+    <div className="relative border-t border-gray-200 dark:border-gray-700 p-3 bg-white dark:bg-gray-800">
+      {/* Mention Suggestions */}
+      {mentionQuery !== null && suggestions.length > 0 && (
+        <div className="absolute left-3 right-3 bottom-full mb-1 z-20 max-h-48 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          {suggestions.map((user, index) => (
+            <button
+              key={user.email}
+              onMouseDown={(e) => {
+                e.preventDefault(); // Keep focus in the textarea
+                handleSelectMention(user);
+              }}
+              className={`w-full flex items-center justify-between gap-2 px-3 py-2 text-left ${
+                index === highlightedIndex ? 'bg-indigo-50 dark:bg-indigo-900/40' : 'hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              <span className="min-w-0">
+                <span className="block text-sm text-gray-900 dark:text-white truncate">{user.name || user.email}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">{user.email}</span>
+              </span>
+              {!user.hasAccess && (
+                <span className="flex-shrink-0 text-xs text-amber-600 dark:text-amber-400">No access</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="flex gap-2">
         {/* Text Input */}
         <textarea
+          ref={textareaRef}
           value={message}
-          onChange={(e) => setMessage(e.target.value)}
+          onChange={handleChange}
           onKeyDown={handleKeyDown}
+          onBlur={() => setMentionQuery(null)}
           placeholder={placeholder}
           disabled={disabled}
           className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none bg-white dark:bg-gray-700 text-gray-900 dark:text-white resize-none text-sm"
@@ -87,7 +262,7 @@ export default function ChatInput({
 
       {/* Helper Text */}
       <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-        Press <span className="font-medium">Enter</span> to send, <span className="font-medium">Shift+Enter</span> for new line
+        Press <span className="font-medium">Enter</span> to send, <span className="font-medium">Shift+Enter</span> for new line{mentionDocumentId && <>, <span className="font-medium">@</span> to mention</>}
       </p>
     </div>
   );
@@ -7,16 +7,20 @@
  * - Message text
  * - Timestamp
  * - Different styling for own vs others' messages
+ * - Highlighted @mentions
  */
 
 'use client';
 
+import MentionText from './MentionText';
+
 interface ChatMessageItemProps {
   id: string;
   senderId: string;
   senderName: string;
   senderEmail: string;
   message: string;
+  mentions?: Array<{ name: string }>;
   timestamp: Date;
   isOwnMessage: boolean;
 }
@@ -25,6 +29,7 @@ export default function ChatMessageItem({
   senderName,
   senderEmail,
   message,
+  mentions,
   timestamp,
   isOwnMessage
 }: ChatMessageItemProps) {
@@ -121,7 +126,13 @@ export default function ChatMessageItem({
               : 'bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white rounded-bl-none'
           }`}
         >
-          <p className="text-sm whitespace-pre-wrap">{message}</p>
+          <p className="text-sm whitespace-pre-wrap">
+            <MentionText
+              text={message}
+              mentions={mentions}
+              className={isOwnMessage ? 'font-semibold underline' : undefined}
+            />
+          </p>
         </div>
       </div>
     </div>
@@ -0,0 +1,294 @@
+/**
+ * CommentThreadItem Component
+ *
+ * A single comment in the comments panel, rendered with its replies
+ * Features:
+ * - Quoted or detached selection for inline comments, and their tab when it isn't the open one
+ * - Emoji reactions (one per user, click again to remove)
+ * - Highlighted @mentions (replies can mention people too)
+ * - Reply, edit, resolve/reopen and delete actions based on the viewer's role
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { COMMENT_REACTIONS } from '@/lib/commentReactions';
+import ChatInput, { PickedMention } from './ChatInput';
+import MentionText from './MentionText';
+import type { CommentAnchor } from '../editor/CommentAnchorsExtension';
+
+export interface DocumentComment {
+  id: string;
+  content: string;
+  timestamp: Date;
+  isEdited: boolean;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  parentId: string | null;
+  anchor: CommentAnchor | null;
+  selectedText: string | null;
+  isResolved: boolean;
+  resolvedBy: { id: string; name: string } | null;
+  reactions: Array<{ emoji: string; userId: string }>;
+  mentions: Array<{ userId: string; name: string; email: string }>;
+  replies: DocumentComment[];
+}
+
+interface CommentThreadItemProps {
+  documentId: string;
+  comment: DocumentComment;
+  currentUserId: string | null;
+  canComment: boolean;
+  canEditDocument: boolean;
+  isOwner: boolean;
+  isActive?: boolean;
+  isDetached?: boolean;
+  tabTitle?: string; // Tab of the commented text, when another tab is open
+  onClick?: () => void;
+  onReply: (threadId: string, content: string, mentions: PickedMention[]) => Promise<boolean>;
+  onEdit: (comment: DocumentComment, content: string) => Promise<boolean>;
+  onToggleResolved: (comment: DocumentComment) => void;
+  onDelete: (comment: DocumentComment) => void;
+  onReact: (comment: DocumentComment, emoji: string) => void;
+}
+
+export default function CommentThreadItem({
+  documentId,
+  comment,
+  currentUserId,
+  canComment,
+  canEditDocument,
+  isOwner,
+  isActive = false,
+  isDetached = false,
+  tabTitle,
+  onClick,
+  onReply,
+  onEdit,
+  onToggleResolved,
+  onDelete,
+  onReact
+}: CommentThreadItemProps) {
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editText, setEditText] = useState(comment.content);
+  const [showReactionPicker, setShowReactionPicker] = useState(false);
+
+  const isReply = comment.parentId !== null;
+  const isAuthor = !!currentUserId && comment.user.id === currentUserId;
+  const myReaction = comment.reactions.find((reaction) => reaction.userId === currentUserId)?.emoji;
+
+  // Group reactions by emoji, keeping the order of the picker
+  const reactionCounts = COMMENT_REACTIONS
+    .map((emoji) => ({
+      emoji,
+      count: comment.reactions.filter((reaction) => reaction.emoji === emoji).length
+    }))
+    .filter(({ count }) => count > 0);
+
+  const handleSubmitReply = async (content: string, mentions: PickedMention[]) => {
+    if (await onReply(comment.id, content, mentions)) {
+      setIsReplying(false);
+    }
+  };
+
+  const handleSubmitEdit = async () => {
+    if (!editText.trim()) return;
+    if (await onEdit(comment, editText.trim())) {
+      setIsEditing(false);
+    }
+  };
+
+  // Stop action clicks from also selecting the thread
+  const action = (handler: () => void) => (event: React.MouseEvent) => {
+    event.stopPropagation();
+    handler();
+  };
+
+  const actionClass = 'text-xs text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400';
+
+  return (
+    <div
+      onClick={onClick}
+      className={
+        isReply
+          ? 'pl-3 border-l-2 border-gray-200 dark:border-gray-700'
+          : `p-3 rounded-lg border bg-gray-50 dark:bg-gray-900 ${
+              isActive
+                ? 'border-yellow-400 dark:border-yellow-500'
+                : 'border-gray-200 dark:border-gray-700'
+            } ${comment.anchor ? 'cursor-pointer hover:border-yellow-300 dark:hover:border-yellow-600' : ''} ${
+              comment.isResolved ? 'opacity-70' : ''
+            }`
+      }
+    >
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-semibold text-gray-700 dark:text-gray-300 truncate">
+          {comment.user.name || comment.user.email}
+        </span>
+        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">
+          {comment.timestamp.toLocaleString([], {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit'
+          })}
+          {comment.isEdited && ' (edited)'}
+        </span>
+      </div>
+
+      {comment.isResolved && (
+        <p className="mb-1 text-xs font-medium text-green-600 dark:text-green-400">
+          ✓ Resolved{comment.resolvedBy ? ` by ${comment.resolvedBy.name}` : ''}
+        </p>
+      )}
+
+      {comment.anchor && (
+        isDetached ? (
+          <div className="mb-2">
+            <span className="text-xs font-medium text-gray-500 dark:text-gray-400">
+              Detached · the commented text was deleted
+            </span>
+            {comment.selectedText && (
+              <p className="text-xs text-gray-400 dark:text-gray-500 line-through truncate">
+                {comment.selectedText}
+              </p>
+            )}
+          </div>
+        ) : (
+          <>
+            {tabTitle && (
+              <p className="mb-1 text-xs font-medium text-gray-500 dark:text-gray-400 truncate">
+                In tab “{tabTitle}”
+              </p>
+            )}
+            {comment.selectedText && (
+              <p className="mb-2 pl-2 border-l-2 border-yellow-400 text-xs text-gray-600 dark:text-gray-400 truncate">
+                {comment.selectedText}
+              </p>
+            )}
+          </>
+        )
+      )}
+
+      {isEditing ? (
+        <div onClick={(event) => event.stopPropagation()}>
+          <textarea
+            value={editText}
+            onChange={(event) => setEditText(event.target.value)}
+            rows={3}
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 resize-none"
+          />
+          <div className="flex justify-end gap-2 mt-1">
+            <button onClick={() => { setIsEditing(false); setEditText(comment.content); }} className={actionClass}>
+              Cancel
+            </button>
+            <button onClick={handleSubmitEdit} className="text-xs font-medium text-indigo-600 hover:text-indigo-700 dark:text-indigo-400">
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-900 dark:text-white whitespace-pre-wrap break-words">
+          <MentionText text={comment.content} mentions={comment.mentions} />
+        </p>
+      )}
+
+      {/* Reactions */}
+      {(reactionCounts.length > 0 || showReactionPicker) && (
+        <div className="flex flex-wrap items-center gap-1 mt-2">
+          {(showReactionPicker ? COMMENT_REACTIONS.map((emoji) => ({
+            emoji,
+            count: reactionCounts.find((reaction) => reaction.emoji === emoji)?.count || 0
+          })) : reactionCounts).map(({ emoji, count }) => (
+            <button
+              key={emoji}
+              onClick={action(() => {
+                setShowReactionPicker(false);
+                onReact(comment, emoji);
+              })}
+              disabled={!canComment}
+              className={`px-1.5 py-0.5 rounded-full text-xs border ${
+                myReaction === emoji
+                  ? 'border-indigo-400 bg-indigo-50 dark:bg-indigo-900/40'
+                  : 'border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800'
+              } disabled:cursor-default`}
+            >
+              {emoji}{count > 0 && <span className="ml-1 text-gray-600 dark:text-gray-400">{count}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Actions */}
+      {!isEditing && (
+        <div className="flex flex-wrap items-center gap-3 mt-2">
+          {canComment && (
+            <button onClick={action(() => setShowReactionPicker(!showReactionPicker))} className={actionClass}>
+              React
+            </button>
+          )}
+          {canComment && !isReply && !comment.isResolved && (
+            <button onClick={action(() => setIsReplying(!isReplying))} className={actionClass}>
+              Reply
+            </button>
+          )}
+          {canComment && isAuthor && (
+            <button onClick={action(() => setIsEditing(true))} className={actionClass}>
+              Edit
+            </button>
+          )}
+          {canComment && !isReply && (isAuthor || canEditDocument) && (
+            <button onClick={action(() => onToggleResolved(comment))} className={actionClass}>
+              {comment.isResolved ? 'Reopen' : 'Resolve'}
+            </button>
+          )}
+          {(isAuthor || isOwner) && (
+            <button
+              onClick={action(() => onDelete(comment))}
+              className="text-xs text-gray-500 hover:text-red-600 dark:text-gray-400 dark:hover:text-red-400"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Replies */}
+      {comment.replies.length > 0 && (
+        <div className="mt-3 space-y-3">
+          {comment.replies.map((reply) => (
+            <CommentThreadItem
+              key={reply.id}
+              documentId={documentId}
+              comment={reply}
+              currentUserId={currentUserId}
+              canComment={canComment}
+              canEditDocument={canEditDocument}
+              isOwner={isOwner}
+              onReply={onReply}
+              onEdit={onEdit}
+              onToggleResolved={onToggleResolved}
+              onDelete={onDelete}
+              onReact={onReact}
+            />
+          ))}
+        </div>
+      )}
+
+      {isReplying && (
+        <div className="mt-3 -mx-3 -mb-3" onClick={(event) => event.stopPropagation()}>
+          <ChatInput
+            onSendMessage={handleSubmitReply}
+            placeholder="Write a reply..."
+            mentionDocumentId={documentId}
+            canShareDocument={isOwner}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
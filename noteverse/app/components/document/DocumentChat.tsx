@@ -13,7 +13,7 @@
 
 import { useEffect, useRef } from 'react';
 import ChatMessageItem from './ChatMessageItem';
-import ChatInput from './ChatInput';
+import ChatInput, { PickedMention } from './ChatInput';
 
 interface ChatMessage {
   id: string;
@@ -21,21 +21,26 @@ interface ChatMessage {
   senderName: string;
   senderEmail: string;
   message: string;
+  mentions?: Array<{ name: string }>;
   timestamp: Date;
 }
 
 interface DocumentChatProps {
+  documentId: string;
   messages: ChatMessage[];
   currentUserId: string;
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, mentions: PickedMention[]) => void;
   canSendMessage: boolean;
+  canShareDocument: boolean;
 }
 
 export default function DocumentChat({
+  documentId,
   messages,
   currentUserId,
   onSendMessage,
-  canSendMessage
+  canSendMessage,
+  canShareDocument
 }: DocumentChatProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -92,6 +97,7 @@ export default function DocumentChat({
                   senderName={msg.senderName}
                   senderEmail={msg.senderEmail}
                   message={msg.message}
+                  mentions={msg.mentions}
                   timestamp={msg.timestamp}
                   isOwnMessage={msg.senderId === currentUserId}
                 />
@@ -108,6 +114,8 @@ export default function DocumentChat({
         <ChatInput
           onSendMessage={onSendMessage}
           placeholder="Type a message..."
+          mentionDocumentId={documentId}
+          canShareDocument={canShareDocument}
         />
       ) : (
         <div className="border-t border-gray-200 dark:border-gray-700 p-4 bg-gray-50 dark:bg-gray-900">
@@ -0,0 +1,448 @@
+/**
+ * DocumentComments Component
+ *
+ * Comment panel for document feedback
+ * Features:
+ * - Loads comments from the comments API
+ * - Comment input for owners, editors and commenters
+ * - Inline comments anchored to the current editor selection
+ * - Click an inline comment to scroll to its highlighted text (or open its tab)
+ * - Comments whose text was deleted are shown as detached
+ * - Threaded replies, reactions, editing and resolve/reopen
+ * - @mentions in comments and replies
+ * - Resolved threads hidden unless "Show resolved" is on
+ * - Read-only notice for viewers
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Editor } from '@tiptap/react';
+import toast from 'react-hot-toast';
+import ChatInput, { PickedMention } from './ChatInput';
+import CommentThreadItem, { DocumentComment } from './CommentThreadItem';
+import type { TabInfo } from '@/lib/documentTabs';
+import {
+  CommentAnchor,
+  anchorTabId,
+  createCommentAnchor,
+  resolveCommentAnchor,
+  setCommentAnchors
+} from '../editor/CommentAnchorsExtension';
+
+interface DocumentCommentsProps {
+  documentId: string;
+  canComment: boolean;
+  canEditDocument: boolean;
+  isOwner: boolean;
+  editor: Editor | null; // Editor of the active tab
+  activeTabId: string;
+  tabs: TabInfo[];
+  onSelectTab: (tabId: string) => void;
+}
+
+/**
+ * Convert a comment from the API (dates as strings) for display
+ */
+function parseComment(comment: DocumentComment): DocumentComment {
+  return {
+    ...comment,
+    timestamp: new Date(comment.timestamp),
+    replies: (comment.replies || []).map(parseComment)
+  };
+}
+
+export default function DocumentComments({
+  documentId,
+  canComment,
+  canEditDocument,
+  isOwner,
+  editor,
+  activeTabId,
+  tabs,
+  onSelectTab
+}: DocumentCommentsProps) {
+  const [comments, setComments] = useState<DocumentComment[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showResolved, setShowResolved] = useState(false);
+  const [selectedText, setSelectedText] = useState<string | null>(null); // Text the next comment will be anchored to
+  const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
+  const [detachedIds, setDetachedIds] = useState<Set<string>>(new Set());
+
+  /**
+   * Fetch comment threads for this document (newest first)
+   * Resolved threads are always loaded so toggling them doesn't refetch
+   */
+  const fetchComments = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/comments?includeResolved=true`);
+
+      if (response.ok) {
+        const data = await response.json();
+        setComments((data.comments || []).map(parseComment));
+        setCurrentUserId(data.currentUserId || null);
+      } else if (response.status !== 404) {
+        // 404 means the document hasn't been saved yet, so there's nothing to load
+        console.error('❌ Failed to fetch comments:', response.status);
+      }
+    } catch (error) {
+      console.error('❌ Exception while fetching comments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  /**
+   * Track the editor selection so new comments can be anchored to it
+   */
+  useEffect(() => {
+    if (!editor) return;
+
+    const handleSelectionUpdate = () => {
+      const { from, to, empty } = editor.state.selection;
+      setSelectedText(empty ? null : editor.state.doc.textBetween(from, to, ' '));
+    };
+
+    editor.on('selectionUpdate', handleSelectionUpdate);
+    return () => {
+      editor.off('selectionUpdate', handleSelectionUpdate);
+    };
+  }, [editor]);
+
+  /**
+   * Show the active tab's anchored comments in the editor and keep the
+   * detached list up to date (comments on a deleted tab are detached too)
+   */
+  useEffect(() => {
+    if (!editor || editor.isDestroyed) return;
+
+    const tabIds = new Set(tabs.map((tab) => tab.id));
+    const deletedTabComments = comments
+      .filter((comment) => comment.anchor && !tabIds.has(anchorTabId(comment.anchor)))
+      .map((comment) => comment.id);
+
+    const anchoredComments = comments
+      .filter((comment) => comment.anchor && anchorTabId(comment.anchor) === activeTabId)
+      .map((comment) => ({
+        id: comment.id,
+        anchor: comment.anchor as CommentAnchor,
+        isResolved: comment.isResolved
+      }));
+
+    setCommentAnchors(editor, { comments: anchoredComments, activeCommentId });
+
+    const updateDetached = () => {
+      setDetachedIds(new Set([
+        ...deletedTabComments,
+        ...anchoredComments
+          .filter((comment) => !resolveCommentAnchor(editor.state, comment.anchor))
+          .map((comment) => comment.id)
+      ]));
+    };
+
+    updateDetached();
+    editor.on('update', updateDetached);
+    return () => {
+      editor.off('update', updateDetached);
+    };
+  }, [editor, comments, activeCommentId, activeTabId, tabs]);
+
+  /**
+   * Scroll the editor to an inline comment's text and highlight it
+   */
+  const handleCommentClick = (comment: DocumentComment) => {
+    if (!comment.anchor) return;
+
+    setActiveCommentId(comment.id === activeCommentId ? null : comment.id);
+
+    // The tab's editor shows the highlight once it's open
+    const tabId = anchorTabId(comment.anchor);
+    if (tabId !== activeTabId) {
+      if (tabs.some((tab) => tab.id === tabId)) onSelectTab(tabId);
+      return;
+    }
+    if (!editor || editor.isDestroyed) return;
+
+    const range = resolveCommentAnchor(editor.state, comment.anchor);
+    if (!range) return;
+
+    const { node } = editor.view.domAtPos(range.from);
+    const element = node instanceof Element ? node : node.parentElement;
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  /**
+   * Post a new comment
+   */
+  const handleAddComment = async (content: string, mentions: PickedMention[]) => {
+    // Anchor to the current selection (positions are mapped through any edits made meanwhile)
+    let inlineFields = {};
+    if (editor && !editor.isDestroyed && selectedText) {
+      const { from, to } = editor.state.selection;
+      const anchor = createCommentAnchor(editor.state, activeTabId, from, to);
+      if (anchor) {
+        inlineFields = {
+          anchor,
+          position: { start: from, end: to, selectedText: editor.state.doc.textBetween(from, to, ' ') }
+        };
+      }
+    }
+
+    try {
+      const response = await fetch(`/api/documents/${documentId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, mentions, ...inlineFields })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to add comment');
+        return;
+      }
+
+      setComments(prev => [parseComment(data.comment), ...prev]);
+      setSelectedText(null);
+    } catch (error) {
+      console.error('Error adding comment:', error);
+      toast.error('Failed to add comment');
+    }
+  };
+
+  /**
+   * Call a comment endpoint and return the updated comment (null on failure)
+   */
+  const commentRequest = async (
+    path: string,
+    method: string,
+    body: Record<string, unknown> | undefined,
+    errorMessage: string
+  ): Promise<DocumentComment | null> => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/comments/${path}`, {
+        method,
+        headers: body ? { 'Content-Type': 'application/json' } : undefined,
+        body: body ? JSON.stringify(body) : undefined
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || errorMessage);
+        return null;
+      }
+
+      return data.comment ? parseComment(data.comment) : null;
+    } catch (error) {
+      console.error(`❌ ${errorMessage}:`, error);
+      toast.error(errorMessage);
+      return null;
+    }
+  };
+
+  /**
+   * Replace a thread or reply in the list with the server's copy
+   */
+  const replaceComment = (updated: DocumentComment) => {
+    setComments(prev => prev.map((thread) => {
+      if (thread.id === updated.id) return updated;
+      if (thread.id !== updated.parentId) return thread;
+      return {
+        ...thread,
+        replies: thread.replies.map((reply) => reply.id === updated.id ? updated : reply)
+      };
+    }));
+  };
+
+  const handleReply = async (threadId: string, content: string, mentions: PickedMention[]) => {
+    const reply = await commentRequest(`${threadId}/replies`, 'POST', { content, mentions }, 'Failed to add reply');
+    if (!reply) return false;
+
+    setComments(prev => prev.map((thread) =>
+      thread.id === reply.parentId ? { ...thread, replies: [...thread.replies, reply] } : thread
+    ));
+    return true;
+  };
+
+  const handleEdit = async (comment: DocumentComment, content: string) => {
+    const updated = await commentRequest(comment.id, 'PATCH', { content }, 'Failed to edit comment');
+    if (updated) replaceComment(updated);
+    return !!updated;
+  };
+
+  const handleToggleResolved = async (comment: DocumentComment) => {
+    const updated = await commentRequest(
+      `${comment.id}/resolve`,
+      comment.isResolved ? 'DELETE' : 'POST',
+      undefined,
+      comment.isResolved ? 'Failed to reopen comment' : 'Failed to resolve comment'
+    );
+    if (updated) replaceComment(updated);
+  };
+
+  const handleReact = async (comment: DocumentComment, emoji: string) => {
+    // Clicking your current reaction again removes it
+    const isMine = comment.reactions.some((reaction) => reaction.userId === currentUserId && reaction.emoji === emoji);
+    const updated = await commentRequest(
+      `${comment.id}/reactions`,
+      isMine ? 'DELETE' : 'POST',
+      isMine ? undefined : { emoji },
+      'Failed to update reaction'
+    );
+    if (updated) replaceComment(updated);
+  };
+
+  const handleDelete = async (comment: DocumentComment) => {
+    const message = comment.parentId
+      ? 'Delete this reply?'
+      : 'Delete this comment and its replies?';
+    if (!confirm(message)) return;
+
+    try {
+      const response = await fetch(`/api/documents/${documentId}/comments/${comment.id}`, {
+        method: 'DELETE'
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to delete comment');
+        return;
+      }
+
+      setComments(prev => comment.parentId
+        ? prev.map((thread) => thread.id === comment.parentId
+            ? { ...thread, replies: thread.replies.filter((reply) => reply.id !== comment.id) }
+            : thread)
+        : prev.filter((thread) => thread.id !== comment.id));
+      if (comment.id === activeCommentId) setActiveCommentId(null);
+    } catch (error) {
+      console.error('Error deleting comment:', error);
+      toast.error('Failed to delete comment');
+    }
+  };
+
+  const openCount = comments.filter((comment) => !comment.isResolved).length;
+  const resolvedCount = comments.length - openCount;
+  const visibleComments = showResolved
+    ? comments
+    : comments.filter((comment) => !comment.isResolved);
+
+  // The title of the tab an inline comment is on, when it isn't the open one
+  const otherTabTitle = (comment: DocumentComment) => {
+    const tabId = comment.anchor ? anchorTabId(comment.anchor) : activeTabId;
+    return tabId === activeTabId ? undefined : tabs.find((tab) => tab.id === tabId)?.title;
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Comments Header */}
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300">
+          Comments
+        </h3>
+        <div className="flex items-center justify-between mt-0.5">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {openCount} open {openCount === 1 ? 'thread' : 'threads'}
+          </p>
+          {resolvedCount > 0 && (
+            <label className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showResolved}
+                onChange={(event) => setShowResolved(event.target.checked)}
+                className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Show resolved ({resolvedCount})
+            </label>
+          )}
+        </div>
+      </div>
+
+      {/* Comments List */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : visibleComments.length === 0 ? (
+          <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+            <svg
+              className="w-12 h-12 mx-auto mb-3 opacity-50"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M7 8h10M7 12h4m1 8l-4-4H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-3l-4 4z"
+              />
+            </svg>
+            <p className="text-sm">{comments.length === 0 ? 'No comments yet' : 'No open comments'}</p>
+            {canComment && <p className="text-xs mt-1">Leave feedback for the authors</p>}
+          </div>
+        ) : (
+          visibleComments.map((comment) => (
+            <CommentThreadItem
+              key={comment.id}
+              comment={comment}
+              documentId={documentId}
+              currentUserId={currentUserId}
+              canComment={canComment}
+              canEditDocument={canEditDocument}
+              isOwner={isOwner}
+              isActive={comment.id === activeCommentId}
+              isDetached={detachedIds.has(comment.id)}
+              tabTitle={otherTabTitle(comment)}
+              onClick={() => handleCommentClick(comment)}
+              onReply={handleReply}
+              onEdit={handleEdit}
+              onToggleResolved={handleToggleResolved}
+              onDelete={handleDelete}
+              onReact={handleReact}
+            />
+          ))
+        )}
+      </div>
+
+      {/* Comment Input */}
+      {canComment ? (
+        <div>
+          {selectedText && (
+            <div className="flex items-center gap-2 px-3 pt-2 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+              <p className="flex-1 min-w-0 pl-2 border-l-2 border-yellow-400 text-xs text-gray-600 dark:text-gray-400 truncate">
+                Commenting on: {selectedText}
+              </p>
+              <button
+                onClick={() => setSelectedText(null)}
+                className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                title="Comment on the whole document instead"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+          <ChatInput
+            onSendMessage={handleAddComment}
+            placeholder={selectedText ? 'Comment on selection...' : 'Add a comment...'}
+            mentionDocumentId={documentId}
+            canShareDocument={isOwner}
+          />
+        </div>
+      ) : (
+        <div className="border-t border-gray-200 dark:border-gray-700 p-4 bg-gray-50 dark:bg-gray-900">
+          <p className="text-xs text-gray-500 dark:text-gray-400 text-center">
+            You have view-only access. Only commenters, editors and owners can comment.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -15,7 +15,13 @@ import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import toast from 'react-hot-toast';
 import ThemeToggle from '../ThemeToggle';
-import { Bell, Check, X as XIcon } from 'lucide-react';
+import NotificationBell from '../notifications/NotificationBell';
+import { UserPlus, Check, X as XIcon } from 'lucide-react';
+import type { DocumentRole } from '@/lib/documentAccess';
+import type { RealtimeClientSocket } from '@/lib/socket/useSocket';
+import type * as Y from 'yjs';
+import { combineTabsHtml } from '@/lib/documentTabs';
+import { collectTabs } from '../editor/tabFragments';
 
 interface User {
   id: string;
@@ -38,11 +44,16 @@ interface DocumentHeaderProps {
   activeUsers: User[];
   onShare?: () => void;
   onOpenSettings?: () => void;
+  onOpenHistory?: () => void;
+  showAttribution?: boolean; // Whether the text is colored by author
+  onToggleAttribution?: () => void;
   documentId?: string;
   editor?: any;
+  ydoc?: Y.Doc | null; // Source of the content of every tab
   isViewOnly?: boolean;
-  userPermission?: 'viewer' | 'editor' | 'owner' | null;
+  userPermission?: Exclude<DocumentRole, 'none'> | null;
   onRequestAccess?: () => void;
+  socket?: RealtimeClientSocket | null;
 }
 
 export default function DocumentHeader({
@@ -52,11 +63,16 @@ export default function DocumentHeader({
   activeUsers,
   onShare,
   onOpenSettings,
+  onOpenHistory,
+  showAttribution = false,
+  onToggleAttribution,
   documentId,
   editor,
+  ydoc = null,
   isViewOnly = false,
   userPermission = null,
-  onRequestAccess
+  onRequestAccess,
+  socket = null
 }: DocumentHeaderProps) {
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [localTitle, setLocalTitle] = useState(title);
@@ -156,16 +172,16 @@ export default function DocumentHeader({
   };
 
   /**
-   * Download document as HTML
+   * Download document (all tabs) as HTML
    */
   const handleDownload = () => {
-    if (!editor) {
+    if (!editor || !ydoc) {
       toast.error('Editor not ready');
       return;
     }
 
     try {
-      const html = editor.getHTML();
+      const html = combineTabsHtml(collectTabs(editor, ydoc));
       const blob = new Blob([html], { type: 'text/html' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -186,20 +202,20 @@ export default function DocumentHeader({
    * Make a copy of the document
    */
   const handleMakeCopy = async () => {
-    if (!documentId || !editor) {
+    if (!documentId || !editor || !ydoc) {
       toast.error('Cannot copy document at this time');
       return;
     }
 
     try {
-      const content = editor.getHTML();
+      const tabs = collectTabs(editor, ydoc);
       
       const response = await fetch('/api/documents', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           title: `${title} (Copy)`,
-          content: content
+          tabs
         })
       });
 
@@ -302,7 +318,7 @@ export default function DocumentHeader({
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
                   </svg>
-                  <span>Viewing</span>
+                  <span>{userPermission === 'commenter' ? 'Commenting' : 'Viewing'}</span>
                 </>
               ) : (
                 <>
@@ -323,6 +339,8 @@ export default function DocumentHeader({
 
         {/* Right: Collaborators and Actions */}
         <div className="flex items-center gap-4">
+          <NotificationBell socket={socket} />
+
           {/* Access Requests Notification for Owners */}
           {userPermission === 'owner' && accessRequests.length > 0 && (
             <div className="relative">
@@ -331,7 +349,7 @@ export default function DocumentHeader({
                 className="relative p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
                 title="Access requests"
               >
-                <Bell className="w-5 h-5 text-gray-700 dark:text-gray-300" />
+                <UserPlus className="w-5 h-5 text-gray-700 dark:text-gray-300" />
                 {accessRequests.length > 0 && (
                   <span className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center">
                     {accessRequests.length}
@@ -392,8 +410,8 @@ export default function DocumentHeader({
             </div>
           )}
 
-          {/* Request edit access button for viewers */}
-          {userPermission === 'viewer' && onRequestAccess && (
+          {/* Request edit access button for viewers and commenters */}
+          {(userPermission === 'viewer' || userPermission === 'commenter') && onRequestAccess && (
             <button
               onClick={onRequestAccess}
               className="px-4 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-md transition-colors"
@@ -483,6 +501,34 @@ export default function DocumentHeader({
                     </svg>
                     Make a copy
                   </button>
+                  {onOpenHistory && (
+                    <button 
+                      onClick={() => {
+                        setShowMenu(false);
+                        onOpenHistory();
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      Version history
+                    </button>
+                  )}
+                  {onToggleAttribution && (
+                    <button 
+                      onClick={() => {
+                        setShowMenu(false);
+                        onToggleAttribution();
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z" />
+                      </svg>
+                      {showAttribution ? 'Hide authors' : 'Show authors'}
+                    </button>
+                  )}
                   <button 
                     onClick={() => {
                       setShowMenu(false);
@@ -2,18 +2,27 @@
  * Document Settings Modal Component
  * 
  * Comprehensive document settings similar to Google Docs:
- * - Document Info (title, owner, dates)
+ * - Document Info (title, owner, dates, contributions per author)
  * - Access & Permissions (visibility, permissions, chat)
  * - Editor Preferences (font, size, page width, spell check)
- * - Document Actions (rename, download, copy, trash, restore)
+ * - Document Actions (rename, download, export to Markdown/Word/PDF, copy, trash, restore)
  */
 
 'use client';
 
 import { useState, useEffect } from 'react';
-import { X, Info, Shield, Settings, Trash2, Download, Copy, RotateCcw } from 'lucide-react';
+import { X, Info, Shield, Settings, Trash2, Download, Copy, RotateCcw, Archive, ArchiveRestore, Tag } from 'lucide-react';
 import { Editor } from '@tiptap/react';
 import Dropdown from '@/app/components/Dropdown';
+import type { GrantableRole } from '@/lib/documentAccess';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { MAX_TAGS, MAX_TAG_LENGTH } from '@/lib/documentFilters';
+import type * as Y from 'yjs';
+import { combineTabsHtml } from '@/lib/documentTabs';
+import { collectTabs, collectTabsText } from '../editor/tabFragments';
+import { DEFAULT_AUTHOR_COLOR, summarizeContributions } from '../editor/AttributionExtension';
+import type { DocumentAttribution } from '@/lib/socket/events';
+import type { ExportFormat } from '@/lib/documentExport';
 
 interface DocumentSettingsProps {
   documentId: string;
@@ -23,6 +32,8 @@ interface DocumentSettingsProps {
   currentTitle: string;
   onTitleChange: (title: string) => void;
   editor?: Editor | null;
+  ydoc?: Y.Doc | null; // Source of the content of every tab
+  attribution?: DocumentAttribution; // Who wrote what, for the contributions summary
   onSettingsUpdate?: (settings: {
     defaultFont: string;
     defaultFontSize: string;
@@ -31,6 +42,13 @@ interface DocumentSettingsProps {
   }) => void;
 }
 
+// Server-side exports (GET /api/documents/[id]/export)
+const EXPORT_OPTIONS: Array<{ format: ExportFormat; label: string; description: string }> = [
+  { format: 'md', label: 'Download as Markdown', description: 'Save as a .md file with task lists and tables' },
+  { format: 'docx', label: 'Download as Word', description: 'Save as a .docx file with images embedded' },
+  { format: 'pdf', label: 'Download as PDF', description: 'Save as a PDF with the page setup below' }
+];
+
 interface DocumentInfo {
   title: string;
   owner: {
@@ -40,13 +58,15 @@ interface DocumentInfo {
   createdAt: string;
   updatedAt: string;
   visibility: 'restricted' | 'public';
-  publicPermission: 'viewer' | 'editor';
+  publicPermission: GrantableRole;
   chatEnabled: boolean;
   defaultFont: string;
   defaultFontSize: string;
   pageWidth: 'normal' | 'wide';
   spellCheck: boolean;
   isArchived: boolean;
+  tags: string[];
+  deletedAt: string | null;
   collaboratorCount: number;
 }
 
@@ -58,6 +78,8 @@ export default function DocumentSettings({
   currentTitle,
   onTitleChange,
   editor,
+  ydoc = null,
+  attribution,
   onSettingsUpdate
 }: DocumentSettingsProps) {
   const [activeTab, setActiveTab] = useState<'info' | 'access' | 'preferences' | 'actions'>('info');
@@ -66,10 +88,15 @@ export default function DocumentSettings({
   const [saving, setSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [showTrashConfirm, setShowTrashConfirm] = useState(false);
+  const [tagInput, setTagInput] = useState('');
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [exportPageSize, setExportPageSize] = useState('a4');
+  const [exportOrientation, setExportOrientation] = useState('portrait');
+  const [exportMargin, setExportMargin] = useState('25');
 
   // Form state - staged changes
   const [visibility, setVisibility] = useState<'restricted' | 'public'>('restricted');
-  const [publicPermission, setPublicPermission] = useState<'viewer' | 'editor'>('viewer');
+  const [publicPermission, setPublicPermission] = useState<GrantableRole>('viewer');
   const [chatEnabled, setChatEnabled] = useState(true);
   const [defaultFont, setDefaultFont] = useState('Arial');
   const [defaultFontSize, setDefaultFontSize] = useState('14');
@@ -209,10 +236,10 @@ export default function DocumentSettings({
   };
 
   /**
-   * Handle download document
+   * Handle download document (all tabs)
    */
   const handleDownload = async (format: 'html' | 'txt') => {
-    if (!editor) return;
+    if (!editor || !ydoc) return;
 
     try {
       let content: string;
@@ -220,11 +247,11 @@ export default function DocumentSettings({
       let extension: string;
 
       if (format === 'html') {
-        content = editor.getHTML();
+        content = combineTabsHtml(collectTabs(editor, ydoc));
         mimeType = 'text/html';
         extension = 'html';
       } else {
-        content = editor.getText();
+        content = collectTabsText(editor, ydoc);
         mimeType = 'text/plain';
         extension = 'txt';
       }
@@ -243,20 +270,59 @@ export default function DocumentSettings({
     }
   };
 
+  /**
+   * Handle export on the server (all tabs, from the saved content)
+   */
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+
+    try {
+      const params = new URLSearchParams({
+        format,
+        pageSize: exportPageSize,
+        orientation: exportOrientation,
+        margin: exportMargin
+      });
+      const response = await fetch(`/api/documents/${documentId}/export?${params}`);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to export document');
+      }
+
+      // The server names the file after the document
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const encodedName = /filename\*=UTF-8''([^;]+)/.exec(disposition)?.[1];
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = encodedName ? decodeURIComponent(encodedName) : `${currentTitle}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export failed:', error);
+    } finally {
+      setExporting(null);
+    }
+  };
+
   /**
    * Handle document copy
    */
   const handleMakeCopy = async () => {
-    if (!editor) return;
+    if (!editor || !ydoc) return;
 
     try {
-      const content = editor.getHTML();
+      const tabs = collectTabs(editor, ydoc);
       const response = await fetch('/api/documents', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           title: `${currentTitle} (Copy)`,
-          content,
+          tabs,
         }),
       });
 
@@ -269,6 +335,24 @@ export default function DocumentSettings({
     }
   };
 
+  /**
+   * Add the typed tag (saved right away, like archiving)
+   */
+  const handleAddTag = async () => {
+    if (!documentInfo) return;
+
+    const tag = tagInput.trim().toLowerCase();
+    if (!tag || documentInfo.tags.includes(tag) || documentInfo.tags.length >= MAX_TAGS) return;
+
+    setTagInput('');
+    await updateSettings({ tags: [...documentInfo.tags, tag] });
+  };
+
+  const handleRemoveTag = async (tag: string) => {
+    if (!documentInfo) return;
+    await updateSettings({ tags: documentInfo.tags.filter((t) => t !== tag) });
+  };
+
   /**
    * Handle move to trash
    */
@@ -276,7 +360,7 @@ export default function DocumentSettings({
     if (!isOwner) return;
 
     if (showTrashConfirm) {
-      // User confirmed - proceed with deletion
+      // User confirmed - move to trash (restorable from the dashboard's Trash tab)
       setShowTrashConfirm(false);
       try {
         const response = await fetch(`/api/documents/${documentId}`, {
@@ -296,14 +380,19 @@ export default function DocumentSettings({
   };
 
   /**
-   * Handle restore document
+   * Handle restore document from trash
    */
   const handleRestore = async () => {
     if (!isOwner) return;
 
     try {
-      await updateSettings({ isArchived: false });
-      window.location.href = '/dashboard';
+      const response = await fetch(`/api/documents/${documentId}/restore`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        window.location.href = '/dashboard';
+      }
     } catch (error) {
       console.error('Restore failed:', error);
     }
@@ -323,6 +412,10 @@ export default function DocumentSettings({
     });
   };
 
+  // Characters each author wrote, across every tab
+  const contributions = ydoc && attribution ? summarizeContributions(ydoc, attribution) : [];
+  const totalCharacters = contributions.reduce((total, contribution) => total + contribution.characters, 0);
+
   if (loading) {
     return (
       <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[9999] p-4">
@@ -446,6 +539,91 @@ export default function DocumentSettings({
                   </div>
                 </div>
               </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Contributions
+                </label>
+                {totalCharacters === 0 ? (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">No text written yet</p>
+                ) : (
+                  <div className="space-y-2">
+                    {contributions.map(({ userId, author, characters }) => {
+                      const share = Math.round((characters / totalCharacters) * 100);
+                      const color = userId ? author?.cursorColor || DEFAULT_AUTHOR_COLOR : '#9CA3AF';
+                      return (
+                        <div key={userId || 'unattributed'}>
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="flex items-center gap-2 text-gray-900 dark:text-white">
+                              <span
+                                className="w-2.5 h-2.5 rounded-full"
+                                style={{ backgroundColor: color }}
+                              />
+                              {userId ? author?.name || 'Unknown user' : 'Unattributed (written before authorship tracking)'}
+                            </span>
+                            <span className="text-gray-600 dark:text-gray-400">
+                              {characters.toLocaleString()} characters · {share}%
+                            </span>
+                          </div>
+                          <div className="mt-1 h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                            <div
+                              className="h-full rounded-full"
+                              style={{ width: `${share}%`, backgroundColor: color }}
+                            />
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Tags
+                </label>
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {documentInfo.tags.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No tags yet</p>
+                  )}
+                  {documentInfo.tags.map((tag) => (
+                    <span
+                      key={tag}
+                      className="inline-flex items-center gap-1 px-2.5 py-1 text-xs font-medium bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 rounded-full"
+                    >
+                      <Tag className="w-3 h-3" />
+                      {tag}
+                      {(isOwner || isEditor) && (
+                        <button
+                          onClick={() => handleRemoveTag(tag)}
+                          disabled={saving}
+                          className="ml-0.5 hover:text-indigo-900 dark:hover:text-indigo-100 disabled:opacity-50"
+                          title={`Remove ${tag}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                </div>
+                {(isOwner || isEditor) && documentInfo.tags.length < MAX_TAGS && (
+                  <input
+                    type="text"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleAddTag();
+                      }
+                    }}
+                    maxLength={MAX_TAG_LENGTH}
+                    disabled={saving}
+                    placeholder="Add a tag and press Enter"
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-gray-700 dark:text-white disabled:opacity-50"
+                  />
+                )}
+              </div>
             </div>
           )}
 
@@ -474,9 +652,10 @@ export default function DocumentSettings({
                   </label>
                   <Dropdown
                     value={publicPermission}
-                    onChange={(val) => setPublicPermission(val as 'viewer' | 'editor')}
+                    onChange={(val) => setPublicPermission(val as GrantableRole)}
                     options={[
                       { value: 'viewer', label: 'Viewer - Can view only' },
+                      { value: 'commenter', label: 'Commenter - Can view and comment' },
                       { value: 'editor', label: 'Editor - Can edit' }
                     ]}
                     disabled={!isOwner}
@@ -624,6 +803,54 @@ export default function DocumentSettings({
                   </div>
                 </button>
 
+                {EXPORT_OPTIONS.map(({ format, label, description }) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={exporting !== null}
+                    className="w-full px-4 py-3 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors text-left flex items-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Download className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">{label}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">
+                        {exporting === format ? 'Exporting…' : description}
+                      </p>
+                    </div>
+                  </button>
+                ))}
+
+                <div className="grid grid-cols-3 gap-2">
+                  <Dropdown
+                    value={exportPageSize}
+                    onChange={setExportPageSize}
+                    options={[
+                      { value: 'a4', label: 'A4' },
+                      { value: 'letter', label: 'Letter' },
+                      { value: 'legal', label: 'Legal' }
+                    ]}
+                    aria-label="PDF page size"
+                  />
+                  <Dropdown
+                    value={exportOrientation}
+                    onChange={setExportOrientation}
+                    options={[
+                      { value: 'portrait', label: 'Portrait' },
+                      { value: 'landscape', label: 'Landscape' }
+                    ]}
+                    aria-label="PDF orientation"
+                  />
+                  <Dropdown
+                    value={exportMargin}
+                    onChange={setExportMargin}
+                    options={['10', '15', '20', '25', '30', '40'].map(margin => ({
+                      value: margin,
+                      label: `${margin}mm margins`
+                    }))}
+                    aria-label="PDF margins"
+                  />
+                </div>
+
                 <button
                   onClick={handleMakeCopy}
                   disabled={!editor}
@@ -637,8 +864,32 @@ export default function DocumentSettings({
                 </button>
               </div>
 
+              {isOwner && !documentInfo.deletedAt && (
+                <button
+                  onClick={() => updateSettings({ isArchived: !documentInfo.isArchived })}
+                  disabled={saving}
+                  className="w-full px-4 py-3 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors text-left flex items-center gap-3 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {documentInfo.isArchived ? (
+                    <ArchiveRestore className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+                  ) : (
+                    <Archive className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+                  )}
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {documentInfo.isArchived ? 'Unarchive' : 'Archive'}
+                    </p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {documentInfo.isArchived
+                        ? 'Show this document in My Documents again'
+                        : 'Move out of My Documents into the Archived view'}
+                    </p>
+                  </div>
+                </button>
+              )}
+
               <div className="border-t border-gray-200 dark:border-gray-700 pt-4 mt-4">
-                {!documentInfo.isArchived ? (
+                {!documentInfo.deletedAt ? (
                   <button
                     onClick={handleMoveToTrash}
                     disabled={!isOwner}
@@ -654,7 +905,9 @@ export default function DocumentSettings({
                         {showTrashConfirm ? 'Click again to confirm' : 'Move to Trash'}
                       </p>
                       <p className="text-sm text-red-600 dark:text-red-400">
-                        {showTrashConfirm ? 'This action cannot be undone' : 'Delete this document'}
+                        {showTrashConfirm
+                          ? `Collaborators lose access. It can be restored for ${TRASH_RETENTION_DAYS} days.`
+                          : 'Delete this document'}
                       </p>
                     </div>
                   </button>
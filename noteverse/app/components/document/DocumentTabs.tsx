@@ -2,7 +2,7 @@
  * Document Tabs Component
  * 
  * Left sidebar with:
- * - Tab management (add, switch, rename tabs)
+ * - Tab management (add, switch, rename, reorder and delete tabs)
  * - Document outline view (headings from current tab)
  * - Google Docs-style design
  */
@@ -11,12 +11,7 @@
 
 import { useState, useEffect } from 'react';
 import { Editor } from '@tiptap/react';
-
-interface Tab {
-  id: string;
-  name: string;
-  content: string;
-}
+import { MAX_TAB_TITLE_LENGTH, TabInfo } from '@/lib/documentTabs';
 
 interface Heading {
   level: number;
@@ -27,26 +22,33 @@ interface Heading {
 interface DocumentTabsProps {
   editor: Editor | null;
   activeTabId: string;
-  tabs: Tab[];
+  tabs: TabInfo[];
+  readOnly?: boolean; // Switching tabs only (viewers and commenters)
   onTabChange: (tabId: string) => void;
   onTabAdd: () => void;
   onTabRename: (tabId: string, newName: string) => void;
   onTabDelete?: (tabId: string) => void;
+  onTabMove?: (tabId: string, toIndex: number) => void;
 }
 
 export default function DocumentTabs({
   editor,
   activeTabId,
   tabs,
+  readOnly = false,
   onTabChange,
   onTabAdd,
   onTabRename,
-  onTabDelete
+  onTabDelete,
+  onTabMove
 }: DocumentTabsProps) {
   const [headings, setHeadings] = useState<Heading[]>([]);
   const [editingTabId, setEditingTabId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const [draggedTabId, setDraggedTabId] = useState<string | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const canReorder = !readOnly && !!onTabMove;
 
   /**
    * Extract headings from editor content for outline view
@@ -102,9 +104,20 @@ export default function DocumentTabs({
     }
   };
 
-  const handleTabDoubleClick = (tab: Tab) => {
+  const handleTabDoubleClick = (tab: TabInfo) => {
+    if (readOnly) return;
     setEditingTabId(tab.id);
-    setEditName(tab.name);
+    setEditName(tab.title);
+  };
+
+  const handleTabDrop = () => {
+    if (draggedTabId && dropIndex !== null && onTabMove) {
+      const fromIndex = tabs.findIndex((tab) => tab.id === draggedTabId);
+      // Dropping below itself shifts the target up by one once it's removed
+      onTabMove(draggedTabId, dropIndex > fromIndex ? dropIndex - 1 : dropIndex);
+    }
+    setDraggedTabId(null);
+    setDropIndex(null);
   };
 
   const handleTabRenameSubmit = (tabId: string) => {
@@ -179,12 +192,32 @@ export default function DocumentTabs({
       {/* Tabs List */}
       <div className="flex-1 overflow-y-auto">
         <div className="p-2 space-y-1">
-          {tabs.map((tab) => (
-            <div key={tab.id} className="relative group">
+          {tabs.map((tab, index) => (
+            <div
+              key={tab.id}
+              className={`relative group ${dropIndex === index && draggedTabId !== tab.id ? 'border-t-2 border-indigo-500' : ''}`}
+              draggable={canReorder && editingTabId !== tab.id}
+              onDragStart={() => setDraggedTabId(tab.id)}
+              onDragEnd={() => {
+                setDraggedTabId(null);
+                setDropIndex(null);
+              }}
+              onDragOver={(e) => {
+                if (!draggedTabId) return;
+                e.preventDefault();
+                const { top, height } = e.currentTarget.getBoundingClientRect();
+                setDropIndex(e.clientY < top + height / 2 ? index : index + 1);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleTabDrop();
+              }}
+            >
               {editingTabId === tab.id ? (
                 <input
                   type="text"
                   value={editName}
+                  maxLength={MAX_TAB_TITLE_LENGTH}
                   onChange={(e) => setEditName(e.target.value)}
                   onBlur={() => handleTabRenameSubmit(tab.id)}
                   onKeyDown={(e) => {
@@ -211,10 +244,10 @@ export default function DocumentTabs({
                     `}
                   >
                     <div className="flex items-center justify-between">
-                      <span className="truncate">{tab.name}</span>
+                      <span className="truncate">{tab.title}</span>
                     </div>
                   </button>
-                  {onTabDelete && tabs.length > 1 && (
+                  {!readOnly && onTabDelete && tabs.length > 1 && (
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -234,16 +267,21 @@ export default function DocumentTabs({
             </div>
           ))}
 
+          {/* Drop target after the last tab */}
+          {dropIndex === tabs.length && <div className="border-t-2 border-indigo-500" />}
+
           {/* Add Tab Button */}
-          <button
-            onClick={onTabAdd}
-            className="w-full px-3 py-2 text-sm text-left text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800 rounded transition-colors flex items-center gap-2"
-          >
-            <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            <span>Add Tab</span>
-          </button>
+          {!readOnly && (
+            <button
+              onClick={onTabAdd}
+              className="w-full px-3 py-2 text-sm text-left text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800 rounded transition-colors flex items-center gap-2"
+            >
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+              </svg>
+              <span>Add Tab</span>
+            </button>
+          )}
         </div>
 
         {/* Outline View - Headings from current tab */}
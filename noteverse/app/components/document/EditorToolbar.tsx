@@ -17,12 +17,14 @@
 
 import { Editor } from '@tiptap/react';
 import { useState } from 'react';
+import { insertImageFiles } from '../editor/ImageUploadExtension';
 
 interface EditorToolbarProps {
   editor: Editor | null;
   currentFont?: string;
   currentFontSize?: string;
   readOnly?: boolean;
+  documentId: string; // Images are uploaded as its attachments
 }
 
 // Toolbar button component
@@ -58,7 +60,7 @@ const Divider = () => (
   <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1"></div>
 );
 
-export default function EditorToolbar({ editor, currentFont = 'Arial', currentFontSize = '14', readOnly = false }: EditorToolbarProps) {
+export default function EditorToolbar({ editor, currentFont = 'Arial', currentFontSize = '14', readOnly = false, documentId }: EditorToolbarProps) {
   const [showFontDropdown, setShowFontDropdown] = useState(false);
   const [showSizeDropdown, setShowSizeDropdown] = useState(false);
   const [showColorPicker, setShowColorPicker] = useState(false);
@@ -171,36 +173,8 @@ export default function EditorToolbar({ editor, currentFont = 'Arial', currentFo
       const file = (e.target as HTMLInputElement).files?.[0];
       if (!file) return;
 
-      const reader = new FileReader();
-      reader.onload = (readerEvent) => {
-        const url = readerEvent.target?.result as string;
-        if (url) {
-          // Create an image to get dimensions
-          const img = new window.Image();
-          img.onload = () => {
-            // Calculate dimensions to fit within editor (max 800px width)
-            let width = img.width;
-            let height = img.height;
-            const maxWidth = 800;
-            
-            if (width > maxWidth) {
-              height = (height * maxWidth) / width;
-              width = maxWidth;
-            }
-            
-            // Insert image with width and height attributes for resizing
-            editor.chain().focus().setImage({ 
-              src: url,
-              alt: file.name,
-              title: file.name,
-              width: width,
-              height: height,
-            }).run();
-          };
-          img.src = url;
-        }
-      };
-      reader.readAsDataURL(file);
+      // Stored as an attachment of the document, inserted by URL
+      void insertImageFiles(editor, documentId, [file]);
     };
     input.click();
   };
@@ -0,0 +1,45 @@
+/**
+ * MentionText Component
+ *
+ * Renders comment or chat text with its @mentions highlighted
+ */
+
+'use client';
+
+import { Fragment } from 'react';
+
+interface MentionTextProps {
+  text: string;
+  mentions?: Array<{ name: string }>;
+  className?: string; // Classes for the mention highlight
+}
+
+/**
+ * Escape a name for use inside a RegExp
+ */
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export default function MentionText({
+  text,
+  mentions = [],
+  className = 'font-semibold text-indigo-600 dark:text-indigo-400'
+}: MentionTextProps) {
+  const names = mentions.map((mention) => mention.name).filter(Boolean);
+  if (names.length === 0) return <>{text}</>;
+
+  // Longest names first so "@Ann Lee" wins over "@Ann"
+  const pattern = new RegExp(
+    `(${names.sort((a, b) => b.length - a.length).map((name) => `@${escapeRegExp(name)}`).join('|')})`,
+    'g'
+  );
+
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1
+          ? <span key={index} className={className}>{part}</span>
+          : <Fragment key={index}>{part}</Fragment>
+      )}
+    </>
+  );
+}
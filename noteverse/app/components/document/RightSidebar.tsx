@@ -3,13 +3,18 @@
  * 
  * Collapsible sidebar with tabs:
  * - Chat: Real-time chat space for document collaboration
+ * - Comments: Document feedback from commenters, editors and owners
  * - Users: Active collaborators list
  */
 
 'use client';
 
 import { useState } from 'react';
+import { Editor } from '@tiptap/react';
 import DocumentChat from './DocumentChat';
+import DocumentComments from './DocumentComments';
+import type { PickedMention } from './ChatInput';
+import type { TabInfo } from '@/lib/documentTabs';
 
 interface User {
   id: string;
@@ -24,6 +29,7 @@ interface ChatMessage {
   senderName: string;
   senderEmail: string;
   message: string;
+  mentions?: Array<{ name: string }>;
   timestamp: Date;
 }
 
@@ -32,23 +38,38 @@ interface RightSidebarProps {
   activeUsers: User[];
   chatMessages: ChatMessage[];
   currentUserId: string;
-  onSendMessage: (message: string) => void;
+  onSendMessage: (message: string, mentions: PickedMention[]) => void;
   canSendMessage: boolean;
+  canComment: boolean;
+  canEditDocument: boolean;
+  isOwner: boolean;
+  editor: Editor | null;
+  activeTabId: string;
+  tabs: TabInfo[];
+  onSelectTab: (tabId: string) => void;
   unreadCount?: number; // New: unread message count
   onChatOpen?: () => void; // New: callback when chat is opened
 }
 
 export default function RightSidebar({
+  documentId,
   activeUsers,
   chatMessages,
   currentUserId,
   onSendMessage,
   canSendMessage,
+  canComment,
+  canEditDocument,
+  isOwner,
+  editor,
+  activeTabId,
+  tabs,
+  onSelectTab,
   unreadCount = 0,
   onChatOpen
 }: RightSidebarProps) {
   const [isOpen, setIsOpen] = useState(true);
-  const [activeTab, setActiveTab] = useState<'chat' | 'users'>('chat');
+  const [activeTab, setActiveTab] = useState<'chat' | 'comments' | 'users'>('chat');
 
   /**
    * Handle opening chat tab - clear unread count
@@ -147,6 +168,16 @@ export default function RightSidebar({
                 </span>
               )}
             </button>
+            <button
+              onClick={() => setActiveTab('comments')}
+              className={`px-3 py-1 text-sm font-medium rounded transition-colors ${
+                activeTab === 'comments'
+                  ? 'bg-indigo-100 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-300'
+                  : 'text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              Comments
+            </button>
             <button
               onClick={() => setActiveTab('users')}
               className={`px-3 py-1 text-sm font-medium rounded transition-colors ${
@@ -165,13 +196,29 @@ export default function RightSidebar({
           {/* Chat Tab */}
           {activeTab === 'chat' && (
             <DocumentChat
+              documentId={documentId}
               messages={chatMessages}
               currentUserId={currentUserId}
               onSendMessage={onSendMessage}
               canSendMessage={canSendMessage}
+              canShareDocument={isOwner}
             />
           )}
 
+          {/* Comments Tab - kept mounted so inline comment highlights stay in the editor */}
+          <div className={activeTab === 'comments' ? 'h-full' : 'hidden'}>
+            <DocumentComments
+              documentId={documentId}
+              canComment={canComment}
+              canEditDocument={canEditDocument}
+              isOwner={isOwner}
+              editor={editor}
+              activeTabId={activeTabId}
+              tabs={tabs}
+              onSelectTab={onSelectTab}
+            />
+          </div>
+
           {/* Users Tab */}
           {activeTab === 'users' && (
             <div className="p-4 space-y-3 overflow-y-auto h-full">
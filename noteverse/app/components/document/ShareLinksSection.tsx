@@ -0,0 +1,245 @@
+/**
+ * ShareLinksSection Component
+ *
+ * Owner-only part of the share dialog for tokenized share links (/s/[token])
+ * Features:
+ * - Several links per document, each with its own role
+ * - Optional label, expiry and password per link
+ * - Copy, access counter and revoke
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Link2, Lock, Trash2, Copy, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Dropdown from '@/app/components/Dropdown';
+import type { GrantableRole } from '@/lib/documentAccess';
+import type { ShareLink } from '@/lib/shareLinks';
+
+interface ShareLinksSectionProps {
+  documentId: string;
+}
+
+const ROLE_OPTIONS = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'commenter', label: 'Commenter' },
+  { value: 'editor', label: 'Editor' }
+];
+
+const EXPIRY_OPTIONS = [
+  { value: '', label: 'Never expires' },
+  { value: '1', label: 'Expires in 1 day' },
+  { value: '7', label: 'Expires in 7 days' },
+  { value: '30', label: 'Expires in 30 days' }
+];
+
+export default function ShareLinksSection({ documentId }: ShareLinksSectionProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [role, setRole] = useState<GrantableRole>('viewer');
+  const [label, setLabel] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [password, setPassword] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/share-links`);
+      if (response.ok) {
+        const data = await response.json();
+        setLinks(data.links || []);
+      }
+    } catch (error) {
+      console.error('Failed to load share links:', error);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const copyLink = async (link: ShareLink) => {
+    await navigator.clipboard.writeText(`${window.location.origin}${link.path}`);
+    toast.success('Link copied to clipboard');
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const response = await fetch(`/api/documents/${documentId}/share-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          role,
+          label: label.trim(),
+          expiresInDays: expiresInDays ? Number(expiresInDays) : null,
+          password: password || null
+        })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to create link');
+        return;
+      }
+
+      setLinks(prev => [data.link, ...prev]);
+      setShowForm(false);
+      setRole('viewer');
+      setLabel('');
+      setExpiresInDays('');
+      setPassword('');
+      await copyLink(data.link);
+    } catch (error) {
+      console.error('Failed to create share link:', error);
+      toast.error('Failed to create link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!confirm('Revoke this link? People who joined through it will lose access.')) return;
+
+    try {
+      const response = await fetch(`/api/documents/${documentId}/share-links/${link.id}`, {
+        method: 'DELETE'
+      });
+
+      if (response.ok) {
+        setLinks(prev => prev.filter(l => l.id !== link.id));
+        toast.success('Link revoked');
+      } else {
+        toast.error('Failed to revoke link');
+      }
+    } catch (error) {
+      console.error('Failed to revoke share link:', error);
+      toast.error('Failed to revoke link');
+    }
+  };
+
+  return (
+    <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+          Share links
+        </h3>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400"
+          >
+            <Plus className="w-4 h-4" />
+            New link
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="mb-4 p-3 space-y-2 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <input
+            type="text"
+            placeholder="Label (e.g. Client review)"
+            value={label}
+            maxLength={100}
+            onChange={(e) => setLabel(e.target.value)}
+            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                     bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex gap-2">
+            <Dropdown
+              value={role}
+              onChange={(val) => setRole(val as GrantableRole)}
+              options={ROLE_OPTIONS}
+              className="flex-1 text-sm"
+            />
+            <Dropdown
+              value={expiresInDays}
+              onChange={(val) => setExpiresInDays(val)}
+              options={EXPIRY_OPTIONS}
+              className="flex-1 text-sm"
+            />
+          </div>
+          <input
+            type="password"
+            placeholder="Password (optional)"
+            value={password}
+            autoComplete="new-password"
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                     bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={creating}
+              className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md
+                       disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {creating ? 'Creating...' : 'Create and copy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {links.length === 0 && !showForm ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Create links with their own role, expiry and password. Revoke them at any time.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {links.map((link) => (
+            <div key={link.id} className="flex items-center gap-3 py-2 group">
+              <div className="w-10 h-10 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center flex-shrink-0">
+                {link.hasPassword ? (
+                  <Lock className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+                ) : (
+                  <Link2 className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                  {link.label || 'Untitled link'}
+                  <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400 capitalize">{link.role}</span>
+                </div>
+                <div className={`text-xs ${link.isExpired ? 'text-red-600' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {link.isExpired
+                    ? 'Expired'
+                    : link.expiresAt
+                      ? `Expires ${new Date(link.expiresAt).toLocaleDateString()}`
+                      : 'No expiry'}
+                  {' · '}
+                  {link.accessCount} {link.accessCount === 1 ? 'visit' : 'visits'}
+                </div>
+              </div>
+              <button
+                onClick={() => copyLink(link)}
+                className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+                title="Copy link"
+              >
+                <Copy className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleRevoke(link)}
+                className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-md"
+                title="Revoke link"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,17 +4,29 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { X, Link2, Check, Globe, Lock, ChevronDown } from 'lucide-react';
 import toast from 'react-hot-toast';
 import Dropdown from '@/app/components/Dropdown';
+import ShareLinksSection from './ShareLinksSection';
+import TransferOwnershipSection from './TransferOwnershipSection';
+import type { GrantableRole } from '@/lib/documentAccess';
 
 interface Collaborator {
   _id: string;
   sharedWithEmail: string;
-  permission: 'owner' | 'editor' | 'viewer';
+  permission: 'owner' | GrantableRole;
+  viaLink?: boolean; // Joined through a share link
+  pending?: boolean; // Invited by email, no account yet
   sharedWith?: {
     name?: string;
     email?: string;
   };
 }
 
+// What each general access permission lets link visitors do
+const PERMISSION_VERBS: Record<GrantableRole, string> = {
+  viewer: 'view',
+  commenter: 'comment',
+  editor: 'edit'
+};
+
 interface UserSuggestion {
   email: string;
   name?: string;
@@ -28,7 +40,7 @@ interface ShareModalProps {
   currentUserEmail: string;
   ownerEmail: string;
   visibility?: 'restricted' | 'public';
-  publicPermission?: 'viewer' | 'editor';
+  publicPermission?: GrantableRole;
 }
 
 export default function ShareModal({
@@ -41,12 +53,14 @@ export default function ShareModal({
   publicPermission = 'viewer'
 }: ShareModalProps) {
   const [email, setEmail] = useState('');
-  const [permission, setPermission] = useState<'editor' | 'viewer'>('viewer');
+  const [permission, setPermission] = useState<GrantableRole>('viewer');
+  const [notifyOnAccess, setNotifyOnAccess] = useState(false);
+  const [notifyOnEdit, setNotifyOnEdit] = useState(true);
   const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
   const [loading, setLoading] = useState(false);
   const [copied, setCopied] = useState(false);
   const [generalAccess, setGeneralAccess] = useState<'restricted' | 'public'>(visibility);
-  const [generalPermission, setGeneralPermission] = useState<'viewer' | 'editor'>(publicPermission);
+  const [generalPermission, setGeneralPermission] = useState<GrantableRole>(publicPermission);
   const [showGeneralDropdown, setShowGeneralDropdown] = useState(false);
   
   // User suggestions for autocomplete
@@ -182,7 +196,7 @@ export default function ShareModal({
       const response = await fetch(`/api/documents/${documentId}/share`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email: email.trim(), permission }),
+        body: JSON.stringify({ email: email.trim(), permission, notifyOnAccess, notifyOnEdit }),
       });
 
       const data = await response.json();
@@ -191,7 +205,7 @@ export default function ShareModal({
         setEmail('');
         setPermission('viewer');
         await loadCollaborators();
-        toast.success('Collaborator added successfully');
+        toast.success(data.share?.pending ? `Invitation sent to ${data.share.sharedWith.email}` : 'Collaborator added successfully');
       } else {
         toast.error(data.error || data.message || 'Failed to share document');
       }
@@ -237,17 +251,24 @@ export default function ShareModal({
     }
   };
 
-  const handleRemoveCollaborator = async (shareId: string) => {
+  const handleRemoveCollaborator = async (collab: Collaborator) => {
     if (!isOwner) return;
 
     try {
-      const response = await fetch(`/api/documents/${documentId}/share/${shareId}`, {
-        method: 'DELETE',
-      });
+      // Pending invitations have no user id yet, so they're removed by email
+      const response = collab.pending
+        ? await fetch(`/api/documents/${documentId}/share`, {
+            method: 'DELETE',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: collab.sharedWithEmail }),
+          })
+        : await fetch(`/api/documents/${documentId}/share/${collab._id}`, {
+            method: 'DELETE',
+          });
 
       if (response.ok) {
         await loadCollaborators();
-        toast.success('Collaborator removed');
+        toast.success(collab.pending ? 'Invitation cancelled' : 'Collaborator removed');
       } else {
         toast.error('Failed to remove collaborator');
       }
@@ -265,7 +286,7 @@ export default function ShareModal({
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handleUpdateGeneralAccess = async (newVisibility: 'restricted' | 'public', newPermission?: 'viewer' | 'editor') => {
+  const handleUpdateGeneralAccess = async (newVisibility: 'restricted' | 'public', newPermission?: GrantableRole) => {
     if (!isOwner) return;
 
     try {
@@ -393,9 +414,10 @@ export default function ShareModal({
                 
                 <Dropdown
                   value={permission}
-                  onChange={(val) => setPermission(val as 'editor' | 'viewer')}
+                  onChange={(val) => setPermission(val as GrantableRole)}
                   options={[
                     { value: 'viewer', label: 'Viewer' },
+                    { value: 'commenter', label: 'Commenter' },
                     { value: 'editor', label: 'Editor' }
                   ]}
                   disabled={loading}
@@ -410,6 +432,30 @@ export default function ShareModal({
                   Send
                 </button>
               </div>
+
+              {/* Activity notifications for this share */}
+              <div className="flex flex-wrap gap-4 mt-3 text-sm text-gray-600 dark:text-gray-400">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={notifyOnAccess}
+                    onChange={(e) => setNotifyOnAccess(e.target.checked)}
+                    disabled={loading}
+                    className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                  />
+                  Notify me when they open it
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={notifyOnEdit}
+                    onChange={(e) => setNotifyOnEdit(e.target.checked)}
+                    disabled={loading}
+                    className="rounded border-gray-300 dark:border-gray-600 text-blue-600 focus:ring-blue-500"
+                  />
+                  Notify me when they edit it
+                </label>
+              </div>
             </div>
           )}
 
@@ -444,6 +490,8 @@ export default function ShareModal({
                     </div>
                     <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
                       {collab.sharedWithEmail}
+                      {collab.viaLink && ' · via link'}
+                      {collab.pending && ' · invitation pending'}
                     </div>
                   </div>
                   {isOwner && collab.permission !== 'owner' ? (
@@ -453,14 +501,15 @@ export default function ShareModal({
                         onChange={(val) => handleUpdatePermission(collab.sharedWithEmail, val)}
                         options={[
                           { value: 'viewer', label: 'Viewer' },
+                          { value: 'commenter', label: 'Commenter' },
                           { value: 'editor', label: 'Editor' }
                         ]}
                         className="w-32 text-sm"
                       />
                       <button
-                        onClick={() => handleRemoveCollaborator(collab._id)}
+                        onClick={() => handleRemoveCollaborator(collab)}
                         className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-md opacity-0 group-hover:opacity-100 transition-all duration-150"
-                        title="Remove access"
+                        title={collab.pending ? 'Cancel invitation' : 'Remove access'}
                       >
                         Remove
                       </button>
@@ -504,7 +553,7 @@ export default function ShareModal({
                         </div>
                         <div className="text-xs text-gray-500 dark:text-gray-400">
                           {generalAccess === 'public' 
-                            ? 'Anyone on the internet with the link can view'
+                            ? `Anyone on the internet with the link can ${PERMISSION_VERBS[generalPermission]}`
                             : 'Only people with access can open'
                           }
                         </div>
@@ -553,9 +602,10 @@ export default function ShareModal({
                     <div className="mt-2">
                       <Dropdown
                         value={generalPermission}
-                        onChange={(val) => handleUpdateGeneralAccess('public', val as 'viewer' | 'editor')}
+                        onChange={(val) => handleUpdateGeneralAccess('public', val as GrantableRole)}
                         options={[
                           { value: 'viewer', label: 'Viewer' },
+                          { value: 'commenter', label: 'Commenter' },
                           { value: 'editor', label: 'Editor' }
                         ]}
                         className="text-sm"
@@ -567,6 +617,15 @@ export default function ShareModal({
             </div>
           )}
 
+          {isOwner && <ShareLinksSection documentId={documentId} />}
+
+          {isOwner && (
+            <TransferOwnershipSection
+              documentId={documentId}
+              collaboratorEmails={collaborators.filter(c => !c.pending).map(c => c.sharedWithEmail)}
+            />
+          )}
+
           {/* Copy link section */}
           <div className="px-6 py-4 bg-gray-50 dark:bg-gray-900/50 border-t border-gray-200 dark:border-gray-700">
             <button
@@ -7,6 +7,9 @@
  * - Real-time cursor synchronization
  * - Collaborative awareness (user presence)
  * - Live cursor indicators
+ *
+ * Each editor edits one document tab (its Yjs fragment); saved HTML is seeded
+ * into Yjs by the page, see ../editor/tabFragments.ts
  */
 
 'use client';
@@ -26,8 +29,12 @@ import Highlight from '@tiptap/extension-highlight';
 import { FontFamily } from '@tiptap/extension-font-family';
 import FontSize from 'tiptap-extension-font-size';
 import { ResizableImageExtension } from '../editor/ResizableImageExtension';
+import { CommentAnchorsExtension } from '../editor/CommentAnchorsExtension';
+import { AttributionExtension } from '../editor/AttributionExtension';
+import { ImageUploadExtension } from '../editor/ImageUploadExtension';
 // import CollaborationCursor from '@tiptap/extension-collaboration-cursor'; // Version conflict - to be added later
 import * as Y from 'yjs';
+import { DEFAULT_TAB_ID } from '@/lib/documentTabs';
 import { useEffect, useRef, useMemo } from 'react';
 
 import { Editor as TipTapEditorInstance } from '@tiptap/react';
@@ -45,28 +52,13 @@ interface TipTapEditorProps {
   onReady?: (editor: TipTapEditorInstance) => void;
   provider?: unknown; // Yjs provider for awareness
   readOnly?: boolean; // Whether editor is read-only (view-only permission)
-  initialContent?: string; // Initial document content to load
-  documentId?: string; // Document ID to track document changes
+  field?: string; // Yjs fragment to edit: the id of the open tab
+  documentId?: string; // Pasted and dropped images are uploaded to it
 }
 
-export default function TipTapEditor({ ydoc, currentUser, onReady, readOnly = false, initialContent = '', documentId }: TipTapEditorProps) {
+export default function TipTapEditor({ ydoc, currentUser, onReady, readOnly = false, field = DEFAULT_TAB_ID, documentId }: TipTapEditorProps) {
   const hasCalledOnReady = useRef(false);
-  const loadedContentRef = useRef<string | null>(null); // Track what content was loaded, not just boolean
-  const previousDocumentId = useRef<string | undefined>(documentId);
-  
-  // Reset loaded content when document changes
-  useEffect(() => {
-    if (documentId && previousDocumentId.current !== documentId) {
-      console.log('🔄 Document ID changed, resetting loaded content:', {
-        previousDocId: previousDocumentId.current,
-        newDocId: documentId
-      });
-      loadedContentRef.current = null;
-      hasCalledOnReady.current = false;
-      previousDocumentId.current = documentId;
-    }
-  }, [documentId]);
-  
+
   // Memoize extensions to prevent duplicate registration
   const extensions = useMemo(() => {
     console.log('🔧 Configuring TipTap extensions with collaboration support');
@@ -116,7 +108,11 @@ export default function TipTapEditor({ ydoc, currentUser, onReady, readOnly = fa
       // Resizable Image extension
       ResizableImageExtension.configure({
         inline: true,
-        allowBase64: true,
+        allowBase64: true, // Images embedded before attachments existed
+      }),
+      // Pasted and dropped images become attachments
+      ImageUploadExtension.configure({
+        documentId: documentId ?? null,
       }),
     ];
 
@@ -125,7 +121,12 @@ export default function TipTapEditor({ ydoc, currentUser, onReady, readOnly = fa
       exts.push(
         Collaboration.configure({
           document: ydoc,
-        }) as any
+          field,
+        }) as any,
+        // Highlights for inline comments (anchored to Yjs positions)
+        CommentAnchorsExtension,
+        // Author colors, shown when the page turns attribution on
+        AttributionExtension
       );
 
       // TODO: Add CollaborationCursor when version is compatible
@@ -144,7 +145,7 @@ export default function TipTapEditor({ ydoc, currentUser, onReady, readOnly = fa
 
     return exts;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [ydoc]);
+  }, [ydoc, field]);
   
   const editor = useEditor({
     immediatelyRender: false,
@@ -156,57 +157,16 @@ export default function TipTapEditor({ ydoc, currentUser, onReady, readOnly = fa
         class: 'prose prose-lg dark:prose-invert max-w-none focus:outline-none min-h-[600px]',
       },
     },
-  }, [ydoc]); // Recreate editor when ydoc changes (different document)
+  }, [ydoc, field]); // Recreate editor when ydoc (different document) or tab changes
 
+  // Notify parent when editor is ready (only once)
   useEffect(() => {
-    console.log('🔍 TipTapEditor content loading effect:', {
-      hasEditor: !!editor,
-      hasYdoc: !!ydoc,
-      loadedContent: loadedContentRef.current,
-      loadedContentLength: loadedContentRef.current?.length || 0,
-      initialContent: initialContent,
-      initialContentLength: initialContent?.length || 0,
-      areEqual: loadedContentRef.current === initialContent,
-      needsLoad: loadedContentRef.current !== initialContent
-    });
-    
-    if (!editor) {
-      console.log('⏭️ Skipping - editor not ready');
-      return;
-    }
-
-    // Load content if it's different from what was previously loaded
-    const needsLoad = loadedContentRef.current !== initialContent;
-    
-    if (needsLoad) {
-      if (initialContent && initialContent.length > 0) {
-        console.log(`📄 Loading ${initialContent.length} characters of saved content into editor`);
-        console.log(`📄 Content preview:`, initialContent.substring(0, 100));
-        console.log(`📄 Full content:`, initialContent);
-        
-        // Use a small delay to ensure Collaboration extension is ready
-        setTimeout(() => {
-          if (editor && !editor.isDestroyed) {
-            editor.commands.setContent(initialContent);
-            loadedContentRef.current = initialContent;
-            console.log('✅ Content loaded into editor successfully');
-          }
-        }, 100);
-      } else {
-        console.log('ℹ️ No initial content to load (empty or new document)');
-        loadedContentRef.current = initialContent; // Store the empty string
-      }
-    } else {
-      console.log('⏭️ Content already loaded, skipping (same content)');
-    }
-
-    // Notify parent when editor is ready (only once)
     if (onReady && !hasCalledOnReady.current && editor) {
       hasCalledOnReady.current = true;
       console.log('📞 Calling onReady callback');
       onReady(editor);
     }
-  }, [editor, onReady, initialContent]);
+  }, [editor, onReady]);
 
   // Update editable state when readOnly changes
   useEffect(() => {
@@ -271,6 +231,30 @@ export default function TipTapEditor({ ydoc, currentUser, onReady, readOnly = fa
           white-space: nowrap;
         }
 
+        /* Inline Comment Anchors */
+        .ProseMirror .comment-anchor {
+          background: rgba(250, 204, 21, 0.35);
+          border-bottom: 2px solid #facc15;
+          border-radius: 2px;
+        }
+
+        .ProseMirror .comment-anchor--active {
+          background: rgba(250, 204, 21, 0.7);
+        }
+
+        .dark .ProseMirror .comment-anchor {
+          background: rgba(234, 179, 8, 0.3);
+        }
+
+        .dark .ProseMirror .comment-anchor--active {
+          background: rgba(234, 179, 8, 0.55);
+        }
+
+        /* Attribution (colors come from each author's cursorColor) */
+        .ProseMirror .attribution {
+          border-radius: 2px;
+        }
+
         /* Heading Styles */
         .ProseMirror h1 {
           font-size: 2.25rem;
@@ -0,0 +1,193 @@
+/**
+ * TransferOwnershipSection Component
+ *
+ * Owner-only part of the share dialog for handing the document to someone else
+ * Features:
+ * - Offer ownership to a collaborator (or any account) by email
+ * - Shows the pending offer with cancel
+ * - Transfer history of the document
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ArrowRightLeft, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { OwnershipTransfer } from '@/lib/ownershipTransfers';
+
+interface TransferOwnershipSectionProps {
+  documentId: string;
+  collaboratorEmails: string[];
+}
+
+const describeTransfer = (transfer: OwnershipTransfer) => {
+  switch (transfer.status) {
+    case 'accepted':
+      return `${transfer.fromEmail} transferred ownership to ${transfer.toEmail}`;
+    case 'declined':
+      return `${transfer.toEmail} declined ownership from ${transfer.fromEmail}`;
+    case 'cancelled':
+      return `${transfer.fromEmail} cancelled an offer to ${transfer.toEmail}`;
+    default:
+      return `${transfer.fromEmail} offered ownership to ${transfer.toEmail}`;
+  }
+};
+
+export default function TransferOwnershipSection({ documentId, collaboratorEmails }: TransferOwnershipSectionProps) {
+  const [pending, setPending] = useState<OwnershipTransfer | null>(null);
+  const [history, setHistory] = useState<OwnershipTransfer[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [email, setEmail] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadTransfers = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/transfer`);
+      if (response.ok) {
+        const data = await response.json();
+        setPending(data.pending);
+        setHistory((data.history || []).filter((transfer: OwnershipTransfer) => transfer.status !== 'pending'));
+      }
+    } catch (error) {
+      console.error('Failed to load ownership transfers:', error);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    loadTransfers();
+  }, [loadTransfers]);
+
+  const handleOffer = async () => {
+    if (!email.trim()) return;
+    if (!confirm(`Make ${email.trim()} the owner of this document? You'll stay on as an editor once they accept.`)) return;
+
+    setSubmitting(true);
+    try {
+      const response = await fetch(`/api/documents/${documentId}/transfer`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: email.trim() })
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to transfer ownership');
+        return;
+      }
+
+      toast.success(data.message);
+      setShowForm(false);
+      setEmail('');
+      await loadTransfers();
+    } catch (error) {
+      console.error('Failed to transfer ownership:', error);
+      toast.error('Failed to transfer ownership');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/transfer`, { method: 'DELETE' });
+
+      if (response.ok) {
+        toast.success('Transfer cancelled');
+        await loadTransfers();
+      } else {
+        toast.error('Failed to cancel transfer');
+      }
+    } catch (error) {
+      console.error('Failed to cancel ownership transfer:', error);
+      toast.error('Failed to cancel transfer');
+    }
+  };
+
+  return (
+    <div className="px-6 py-4 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+          Ownership
+        </h3>
+        {!showForm && !pending && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-1 text-sm font-medium text-blue-600 hover:text-blue-700 dark:text-blue-400"
+          >
+            <ArrowRightLeft className="w-4 h-4" />
+            Transfer ownership
+          </button>
+        )}
+      </div>
+
+      {pending && (
+        <div className="flex items-center gap-3 p-3 mb-3 border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+          <ArrowRightLeft className="w-4 h-4 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+          <div className="flex-1 min-w-0 text-sm text-gray-900 dark:text-white truncate">
+            Waiting for {pending.toEmail} to accept ownership
+          </div>
+          <button
+            onClick={handleCancel}
+            className="p-1.5 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded-md"
+            title="Cancel transfer"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="mb-3 p-3 space-y-2 border border-gray-200 dark:border-gray-700 rounded-lg">
+          <input
+            type="email"
+            list="transfer-ownership-collaborators"
+            placeholder="New owner's email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleOffer()}
+            className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg
+                     bg-white dark:bg-gray-700 text-gray-900 dark:text-white
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <datalist id="transfer-ownership-collaborators">
+            {collaboratorEmails.map((collaboratorEmail) => (
+              <option key={collaboratorEmail} value={collaboratorEmail} />
+            ))}
+          </datalist>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            They become the owner once they accept. You&apos;ll keep edit access.
+          </p>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleOffer}
+              disabled={submitting || !email.trim()}
+              className="px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md
+                       disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {submitting ? 'Sending...' : 'Send offer'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="space-y-1">
+          {history.slice(0, 5).map((transfer) => (
+            <div key={transfer.id} className="text-xs text-gray-500 dark:text-gray-400">
+              {describeTransfer(transfer)}
+              {' · '}
+              {new Date(transfer.respondedAt || transfer.createdAt).toLocaleDateString()}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,508 @@
+/**
+ * Version History Component
+ *
+ * Lists a document's versions and compares any two of them (or a version
+ * and the current document):
+ * - Inline or side-by-side diff of every tab, insertions and deletions colored
+ * - Words added and removed per author in between
+ * - Editors can restore the selected version for everyone in the document
+ * - Editors can save named versions, and name, describe and pin existing
+ *   ones (named and pinned versions are never pruned)
+ */
+
+'use client';
+
+import { FormEvent, useEffect, useState } from 'react';
+import { X, History, Columns2, AlignLeft, RotateCcw, Pin, PinOff, Pencil, Plus } from 'lucide-react';
+import toast from 'react-hot-toast';
+import Dropdown from '@/app/components/Dropdown';
+import type { DiffStats } from '@/lib/versionDiff';
+import type { VersionComparison, VersionSummary } from '@/lib/versions';
+
+// Mirror CURRENT_VERSION and the label limits in lib/versions.ts
+const CURRENT = 'current';
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+interface VersionHistoryProps {
+  documentId: string;
+  canEdit: boolean;
+  onRestore: (versionId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+const STATUS_LABELS = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'No changes'
+};
+
+// Diff markup comes from the server with only whitelisted tags and attributes
+const DIFF_CLASSES = `prose prose-sm dark:prose-invert max-w-none
+  [&_ins]:no-underline [&_ins]:bg-green-100 [&_ins]:text-green-900 dark:[&_ins]:bg-green-900/40 dark:[&_ins]:text-green-200
+  [&_del]:bg-red-100 [&_del]:text-red-900 dark:[&_del]:bg-red-900/40 dark:[&_del]:text-red-200
+  [&_.diff-added]:border-l-4 [&_.diff-added]:border-green-400 [&_.diff-added]:pl-2
+  [&_.diff-removed]:border-l-4 [&_.diff-removed]:border-red-400 [&_.diff-removed]:pl-2
+  [&_.diff-format]:border-l-4 [&_.diff-format]:border-amber-400 [&_.diff-format]:pl-2`;
+
+function formatDate(date: Date | string) {
+  return new Date(date).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+interface VersionFormProps {
+  name?: string;
+  description?: string;
+  submitLabel: string;
+  onSubmit: (name: string, description: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+function VersionForm({ name: initialName = '', description: initialDescription = '', submitLabel, onSubmit, onCancel }: VersionFormProps) {
+  const [name, setName] = useState(initialName);
+  const [description, setDescription] = useState(initialDescription);
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await onSubmit(name, description);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-center gap-2">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={MAX_NAME_LENGTH}
+        placeholder="Name, e.g. Sent to client"
+        className="flex-1 min-w-40 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+        autoFocus
+      />
+      <input
+        type="text"
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        maxLength={MAX_DESCRIPTION_LENGTH}
+        placeholder="Description (optional)"
+        className="flex-[2] min-w-48 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+      />
+      <button
+        type="submit"
+        disabled={saving}
+        className="px-3 py-1.5 text-sm rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+      >
+        {saving ? 'Saving...' : submitLabel}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        className="px-3 py-1.5 text-sm rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+      >
+        Cancel
+      </button>
+    </form>
+  );
+}
+
+function ChangeCounts({ stats }: { stats: DiffStats | null }) {
+  if (!stats) return null;
+  return (
+    <span className="text-xs whitespace-nowrap">
+      <span className="text-green-600 dark:text-green-400">+{stats.insertedWords}</span>{' '}
+      <span className="text-red-600 dark:text-red-400">-{stats.deletedWords}</span>
+      {stats.formatChanges > 0 && (
+        <span className="ml-1 text-amber-600 dark:text-amber-400" title="Blocks reformatted">~{stats.formatChanges}</span>
+      )}
+    </span>
+  );
+}
+
+export default function VersionHistory({ documentId, canEdit, onRestore, onClose }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState(CURRENT);
+  const [view, setView] = useState<'inline' | 'side-by-side'>('inline');
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [showSaveForm, setShowSaveForm] = useState(false);
+  const [editingLabels, setEditingLabels] = useState(false);
+
+  const loadComparison = async (from: string, to: string) => {
+    setFromId(from);
+    setToId(to);
+    setEditingLabels(false);
+    if (!from) return;
+
+    setComparing(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ from, to });
+      const response = await fetch(`/api/documents/${documentId}/versions/compare?${params}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to compare versions');
+        setComparison(null);
+        return;
+      }
+
+      setComparison(data);
+    } catch (err) {
+      console.error('Error comparing versions:', err);
+      setError('Failed to compare versions');
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        const response = await fetch(`/api/documents/${documentId}/versions`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to load version history');
+          return;
+        }
+
+        setVersions(data.versions);
+        // Start with what changed since the latest version
+        if (data.versions.length > 0) {
+          loadComparison(data.versions[0].id, CURRENT);
+        }
+      } catch (err) {
+        console.error('Error loading versions:', err);
+        setError('Failed to load version history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadVersions();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [documentId]);
+
+  const versionOptions = [
+    { value: CURRENT, label: 'Current document' },
+    ...versions.map((version) => ({
+      value: version.id,
+      label: `v${version.versionNumber} · ${formatDate(version.createdAt)}`
+    }))
+  ];
+
+  const changedTabs = comparison?.tabs.filter((tab) => tab.status !== 'unchanged') || [];
+  const selectedVersion = versions.find((version) => version.id === fromId);
+
+  const handleSaveVersion = async (name: string, description: string) => {
+    try {
+      const response = await fetch(`/api/documents/${documentId}/versions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to save version');
+        return;
+      }
+
+      setVersions((current) => [data.version, ...current]);
+      setShowSaveForm(false);
+      toast.success(`Saved v${data.version.versionNumber}`);
+    } catch (err) {
+      console.error('Error saving version:', err);
+      toast.error('Failed to save version');
+    }
+  };
+
+  // Name, description or pin of the selected version
+  const updateLabels = async (labels: { name?: string; description?: string; pinned?: boolean }) => {
+    if (!selectedVersion) return;
+
+    try {
+      const response = await fetch(`/api/documents/${documentId}/versions/${selectedVersion.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(labels)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update version');
+        return;
+      }
+
+      setVersions((current) => current.map((version) => (version.id === data.version.id ? data.version : version)));
+      setEditingLabels(false);
+    } catch (err) {
+      console.error('Error updating version:', err);
+      toast.error('Failed to update version');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selectedVersion) return;
+    if (!confirm(`Restore v${selectedVersion.versionNumber}? Everyone in the document will see its content, and the current content is kept as a new version.`)) return;
+
+    setRestoring(true);
+    try {
+      await onRestore(selectedVersion.id);
+    } catch (err) {
+      console.error('Error restoring version:', err);
+      setError('Failed to restore version');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-[9999] p-4">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <History className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+            Version history
+          </h2>
+          <div className="flex items-center gap-2">
+            {canEdit && !showSaveForm && (
+              <button
+                onClick={() => setShowSaveForm(true)}
+                className="px-3 py-1.5 text-sm flex items-center gap-1 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                <Plus className="w-4 h-4" /> Save version
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-1 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-500 dark:text-gray-400" />
+            </button>
+          </div>
+        </div>
+
+        {showSaveForm && (
+          <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700">
+            <VersionForm
+              submitLabel="Save version"
+              onSubmit={handleSaveVersion}
+              onCancel={() => setShowSaveForm(false)}
+            />
+          </div>
+        )}
+
+        <div className="flex flex-1 min-h-0">
+          {/* Version list */}
+          <div className="w-72 border-r border-gray-200 dark:border-gray-700 overflow-y-auto">
+            {loading ? (
+              <p className="p-4 text-sm text-gray-500 dark:text-gray-400">Loading versions...</p>
+            ) : versions.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500 dark:text-gray-400">No versions saved yet.</p>
+            ) : (
+              versions.map((version) => (
+                <button
+                  key={version.id}
+                  onClick={() => loadComparison(version.id, CURRENT)}
+                  className={`w-full text-left px-4 py-3 border-b border-gray-100 dark:border-gray-700 transition-colors ${
+                    fromId === version.id
+                      ? 'bg-indigo-50 dark:bg-indigo-900/30'
+                      : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-gray-900 dark:text-white truncate flex items-center gap-1">
+                      {version.pinned && <Pin className="w-3 h-3 shrink-0 text-indigo-600 dark:text-indigo-400" />}
+                      {version.name ? (
+                        <>
+                          <span className="truncate">{version.name}</span>
+                          <span className="text-xs font-normal text-gray-500 dark:text-gray-400">v{version.versionNumber}</span>
+                        </>
+                      ) : (
+                        `v${version.versionNumber}`
+                      )}
+                    </span>
+                    <ChangeCounts stats={version.stats} />
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{formatDate(version.createdAt)}</p>
+                  <p className="text-xs text-gray-600 dark:text-gray-300 truncate">
+                    {version.author?.name || version.author?.email || 'Unknown'}
+                    {version.description ? ` · ${version.description}` : ''}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+
+          {/* Comparison */}
+          <div className="flex-1 flex flex-col min-w-0">
+            <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-gray-200 dark:border-gray-700">
+              <span className="text-sm text-gray-600 dark:text-gray-400">Compare</span>
+              <Dropdown
+                value={fromId}
+                onChange={(value) => loadComparison(value, toId)}
+                options={versionOptions}
+                placeholder="Pick a version"
+                disabled={versions.length === 0}
+                className="w-60"
+                aria-label="Older version"
+              />
+              <span className="text-sm text-gray-600 dark:text-gray-400">with</span>
+              <Dropdown
+                value={toId}
+                onChange={(value) => loadComparison(fromId, value)}
+                options={versionOptions}
+                disabled={versions.length === 0}
+                className="w-60"
+                aria-label="Newer version"
+              />
+              {canEdit && selectedVersion && (
+                <>
+                  <button
+                    onClick={() => setEditingLabels(true)}
+                    className="p-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                    title="Name this version"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => updateLabels({ pinned: !selectedVersion.pinned })}
+                    className="p-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                    title={selectedVersion.pinned ? 'Unpin' : 'Pin so it is always kept'}
+                  >
+                    {selectedVersion.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+                  </button>
+                </>
+              )}
+              {canEdit && selectedVersion && (
+                <button
+                  onClick={handleRestore}
+                  disabled={restoring}
+                  className="px-3 py-1.5 text-sm flex items-center gap-1 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  {restoring ? 'Restoring...' : `Restore v${selectedVersion.versionNumber}`}
+                </button>
+              )}
+              <div className="ml-auto flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden">
+                <button
+                  onClick={() => setView('inline')}
+                  className={`px-3 py-1.5 text-sm flex items-center gap-1 ${
+                    view === 'inline' ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  <AlignLeft className="w-4 h-4" /> Inline
+                </button>
+                <button
+                  onClick={() => setView('side-by-side')}
+                  className={`px-3 py-1.5 text-sm flex items-center gap-1 ${
+                    view === 'side-by-side' ? 'bg-indigo-600 text-white' : 'text-gray-700 dark:text-gray-300'
+                  }`}
+                >
+                  <Columns2 className="w-4 h-4" /> Side by side
+                </button>
+              </div>
+            </div>
+
+            {editingLabels && selectedVersion && (
+              <div className="px-6 py-3 border-b border-gray-200 dark:border-gray-700">
+                <VersionForm
+                  key={selectedVersion.id}
+                  name={selectedVersion.name}
+                  description={selectedVersion.description}
+                  submitLabel="Save"
+                  onSubmit={(name, description) => updateLabels({ name, description })}
+                  onCancel={() => setEditingLabels(false)}
+                />
+              </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto px-6 py-4">
+              {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+              {comparing && <p className="text-sm text-gray-500 dark:text-gray-400">Comparing...</p>}
+
+              {comparison && !comparing && (
+                <>
+                  {/* Change summary */}
+                  <div className="mb-6 rounded-lg bg-gray-50 dark:bg-gray-900/50 p-4">
+                    <p className="text-sm text-gray-900 dark:text-white mb-2">
+                      <span className="font-semibold">{comparison.stats.insertedWords}</span> words added,{' '}
+                      <span className="font-semibold">{comparison.stats.deletedWords}</span> removed
+                      {comparison.stats.formatChanges > 0 && (
+                        <>, <span className="font-semibold">{comparison.stats.formatChanges}</span> reformatted</>
+                      )}
+                      {changedTabs.length > 0 && ` in ${changedTabs.length} tab${changedTabs.length === 1 ? '' : 's'}`}
+                    </p>
+                    {comparison.authors.length > 0 && (
+                      <ul className="space-y-1">
+                        {comparison.authors.map((entry) => (
+                          <li
+                            key={entry.author?.id || 'unsaved'}
+                            className="flex items-center justify-between gap-3 text-sm text-gray-700 dark:text-gray-300"
+                          >
+                            <span className="truncate">
+                              {entry.author
+                                ? `${entry.author.name || entry.author.email} · ${entry.versions} version${entry.versions === 1 ? '' : 's'}`
+                                : 'Since the last version'}
+                            </span>
+                            <ChangeCounts stats={entry} />
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {changedTabs.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">These versions have the same content.</p>
+                  )}
+
+                  {changedTabs.map((tab) => (
+                    <section key={tab.id} className="mb-8">
+                      <div className="flex items-center gap-2 mb-3">
+                        <h3 className="font-semibold text-gray-900 dark:text-white">{tab.title}</h3>
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                          {STATUS_LABELS[tab.status]}
+                        </span>
+                        <ChangeCounts stats={tab.stats} />
+                      </div>
+
+                      {view === 'inline' ? (
+                        <div className={DIFF_CLASSES} dangerouslySetInnerHTML={{ __html: tab.inline }} />
+                      ) : (
+                        <div className="grid grid-cols-2 gap-4">
+                          <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+                            <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase mb-2">
+                              {comparison.from.versionNumber ? `v${comparison.from.versionNumber}` : 'Current'}
+                            </p>
+                            <div className={DIFF_CLASSES} dangerouslySetInnerHTML={{ __html: tab.before }} />
+                          </div>
+                          <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+                            <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase mb-2">
+                              {comparison.to.versionNumber ? `v${comparison.to.versionNumber}` : 'Current'}
+                            </p>
+                            <div className={DIFF_CLASSES} dangerouslySetInnerHTML={{ __html: tab.after }} />
+                          </div>
+                        </div>
+                      )}
+                    </section>
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
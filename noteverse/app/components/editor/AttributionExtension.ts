@@ -0,0 +1,253 @@
+/**
+ * Attribution Extension
+ *
+ * Colors the text of the open tab by author ("blame"), with each author's
+ * cursorColor. The realtime server records which user sent every Yjs
+ * client's content (AttributionEntry in lib/socket/events.ts), so the author
+ * of a character follows from the id of the Yjs item that holds it. Like
+ * comment anchors, the colors are decorations and never touch the document.
+ * Text written before attribution was recorded isn't colored.
+ */
+
+import { Editor, Extension } from '@tiptap/core';
+import { EditorState, Plugin, PluginKey } from '@tiptap/pm/state';
+import { Schema } from '@tiptap/pm/model';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { ySyncPluginKey } from '@tiptap/y-tiptap';
+import * as Y from 'yjs';
+import type { AttributionEntry, DocumentAttribution, SocketUser } from '@/lib/socket/events';
+import { getTabList } from './tabFragments';
+
+// Used for authors without a cursor color, like the default in the profile
+export const DEFAULT_AUTHOR_COLOR = '#6366F1';
+
+interface AttributionState {
+  attribution: DocumentAttribution;
+  enabled: boolean;
+  decorations: DecorationSet;
+}
+
+// Meta payload for updating the plugin from React (or refreshing it)
+interface AttributionMeta {
+  attribution?: DocumentAttribution;
+  enabled?: boolean;
+}
+
+export interface Contribution {
+  userId: string | null; // null for text written before attribution was recorded
+  author: SocketUser | null; // null when the user no longer exists as well
+  characters: number;
+}
+
+export const attributionPluginKey = new PluginKey<AttributionState>('attribution');
+
+const EMPTY_ATTRIBUTION: DocumentAttribution = { entries: [], authors: [] };
+
+/**
+ * The entries of every Yjs client, by clock
+ */
+function entriesByClient(entries: AttributionEntry[]): Map<number, AttributionEntry[]> {
+  const byClient = new Map<number, AttributionEntry[]>();
+  for (const entry of entries) {
+    byClient.set(entry.client, [...(byClient.get(entry.client) || []), entry]);
+  }
+  byClient.forEach((clientEntries) => clientEntries.sort((a, b) => a.clock - b.clock));
+  return byClient;
+}
+
+/**
+ * Split the characters of a Yjs item into runs with one entry each
+ * (offsets into the item; the entry is null where nothing was recorded)
+ */
+function itemRuns(
+  item: Y.Item,
+  byClient: Map<number, AttributionEntry[]>
+): Array<{ start: number; end: number; entry: AttributionEntry | null }> {
+  const clientEntries = byClient.get(item.id.client) || [];
+  const first = item.id.clock;
+  const last = first + item.length;
+  const runs = [];
+
+  let clock = first;
+  while (clock < last) {
+    const index = clientEntries.findIndex((entry) => entry.clock > clock) - 1;
+    const current = index === -2 ? clientEntries.length - 1 : index;
+    const next = clientEntries[current + 1];
+    const end = next ? Math.min(next.clock, last) : last;
+
+    runs.push({ start: clock - first, end: end - first, entry: clientEntries[current] || null });
+    clock = end;
+  }
+
+  return runs;
+}
+
+/**
+ * Call visit for every visible text item in a Yjs fragment, with its position
+ * in the ProseMirror document (only counted when a schema is given)
+ */
+function forEachTextItem(
+  parent: Y.XmlFragment | Y.XmlElement,
+  schema: Schema | null,
+  start: number,
+  visit: (item: Y.Item, pos: number) => void
+): number {
+  let pos = start;
+
+  for (const child of parent.toArray()) {
+    if (child instanceof Y.XmlText) {
+      for (let item = child._start; item; item = item.right) {
+        // Formatting (marks) takes no room in the document
+        if (item.deleted || !item.countable) continue;
+        visit(item, pos);
+        pos += item.length;
+      }
+    } else if (child instanceof Y.XmlElement) {
+      pos = schema?.nodes[child.nodeName]?.isLeaf
+        ? pos + 1
+        : forEachTextItem(child, schema, pos + 1, visit) + 1;
+    }
+  }
+
+  return pos;
+}
+
+function buildDecorations(state: EditorState, attribution: DocumentAttribution): DecorationSet {
+  const ystate = ySyncPluginKey.getState(state);
+  if (!ystate?.type) return DecorationSet.empty;
+
+  const byClient = entriesByClient(attribution.entries);
+  const authors = new Map(attribution.authors.map((author) => [author.id, author]));
+  const decorations: Decoration[] = [];
+  let previous: { from: number; to: number; entry: AttributionEntry } | null = null;
+
+  const flush = () => {
+    // Yjs can be ahead of the editor until the sync plugin renders it
+    if (!previous || previous.to > state.doc.content.size) {
+      previous = null;
+      return;
+    }
+    const color = authors.get(previous.entry.userId)?.cursorColor || DEFAULT_AUTHOR_COLOR;
+    decorations.push(
+      Decoration.inline(previous.from, previous.to, {
+        class: 'attribution',
+        style: `background-color: ${color}33; border-bottom: 2px solid ${color};`,
+        'data-author-id': previous.entry.userId,
+        'data-time': previous.entry.time
+      })
+    );
+    previous = null;
+  };
+
+  forEachTextItem(ystate.type, state.schema, 0, (item, pos) => {
+    for (const { start, end, entry } of itemRuns(item, byClient)) {
+      const from = pos + start;
+      const to = pos + end;
+      // Neighbouring items written in the same session share one decoration
+      if (previous && entry === previous.entry && previous.to === from) {
+        previous.to = to;
+        continue;
+      }
+      flush();
+      if (entry) previous = { from, to, entry };
+    }
+  });
+  flush();
+
+  return DecorationSet.create(state.doc, decorations);
+}
+
+/**
+ * How many characters of the document (every tab) each author wrote, most first
+ */
+export function summarizeContributions(ydoc: Y.Doc, attribution: DocumentAttribution): Contribution[] {
+  const byClient = entriesByClient(attribution.entries);
+  const characters = new Map<string | null, number>();
+
+  for (const tab of getTabList(ydoc)) {
+    forEachTextItem(ydoc.getXmlFragment(tab.id), null, 0, (item) => {
+      for (const { start, end, entry } of itemRuns(item, byClient)) {
+        const userId = entry?.userId ?? null;
+        characters.set(userId, (characters.get(userId) || 0) + end - start);
+      }
+    });
+  }
+
+  return [...characters.entries()]
+    .map(([userId, count]) => ({
+      userId,
+      author: attribution.authors.find((author) => author.id === userId) || null,
+      characters: count
+    }))
+    .sort((a, b) => b.characters - a.characters);
+}
+
+/**
+ * Replace the attribution shown in the editor and/or turn the overlay on or off
+ */
+export function setAttributionOverlay(editor: Editor, meta: AttributionMeta) {
+  if (editor.isDestroyed) return;
+  editor.view.dispatch(editor.state.tr.setMeta(attributionPluginKey, meta));
+}
+
+export const AttributionExtension = Extension.create({
+  name: 'attribution',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<AttributionState>({
+        key: attributionPluginKey,
+        state: {
+          init: () => ({
+            attribution: EMPTY_ATTRIBUTION,
+            enabled: false,
+            decorations: DecorationSet.empty
+          }),
+          apply: (tr, value, _oldState, newState) => {
+            const meta = tr.getMeta(attributionPluginKey) as AttributionMeta | undefined;
+            const isRemoteChange = !!tr.getMeta(ySyncPluginKey)?.isChangeOrigin;
+
+            if (!meta && !isRemoteChange) {
+              // Local edits reach Yjs only after this transaction is applied,
+              // the plugin view refreshes the colors once they have
+              return tr.docChanged
+                ? { ...value, decorations: value.decorations.map(tr.mapping, tr.doc) }
+                : value;
+            }
+
+            const attribution = meta?.attribution ?? value.attribution;
+            const enabled = meta?.enabled ?? value.enabled;
+
+            return {
+              attribution,
+              enabled,
+              decorations: enabled ? buildDecorations(newState, attribution) : DecorationSet.empty
+            };
+          }
+        },
+        view: () => {
+          let refresh: ReturnType<typeof setTimeout> | undefined;
+
+          return {
+            update: (view, prevState) => {
+              const state = attributionPluginKey.getState(view.state);
+              if (!state?.enabled || view.state.doc === prevState.doc) return;
+
+              // The sync plugin has written the edit to Yjs by now
+              clearTimeout(refresh);
+              refresh = setTimeout(() => {
+                if (!view.isDestroyed) view.dispatch(view.state.tr.setMeta(attributionPluginKey, {}));
+              });
+            },
+            destroy: () => clearTimeout(refresh)
+          };
+        },
+        props: {
+          decorations(state) {
+            return attributionPluginKey.getState(state)?.decorations;
+          }
+        }
+      })
+    ];
+  }
+});
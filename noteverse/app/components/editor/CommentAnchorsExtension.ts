@@ -0,0 +1,195 @@
+/**
+ * Comment Anchors Extension
+ *
+ * Highlights the text that inline comments are attached to.
+ * Anchors are stored as Yjs relative positions so they follow the text
+ * through concurrent edits. Highlights are editor decorations rather than
+ * marks, so commenters (who can't edit) never touch the shared document.
+ * Every tab is its own Yjs fragment, so an anchor also records its tab and
+ * only resolves in that tab's editor.
+ */
+
+import { Editor, Extension } from '@tiptap/core';
+import { EditorState, Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import {
+  ySyncPluginKey,
+  absolutePositionToRelativePosition,
+  relativePositionToAbsolutePosition
+} from '@tiptap/y-tiptap';
+import * as Y from 'yjs';
+import { DEFAULT_TAB_ID } from '@/lib/documentTabs';
+
+// Base64-encoded Yjs relative positions for both ends of the commented range
+export interface CommentAnchor {
+  start: string;
+  end: string;
+  tabId?: string; // Missing on anchors from before tabs, which are in the default tab
+}
+
+export interface AnchoredComment {
+  id: string;
+  anchor: CommentAnchor;
+  isResolved?: boolean;
+}
+
+interface CommentAnchorsState {
+  comments: AnchoredComment[];
+  activeCommentId: string | null;
+  decorations: DecorationSet;
+}
+
+// Meta payload for updating the plugin from React
+interface CommentAnchorsMeta {
+  comments?: AnchoredComment[];
+  activeCommentId?: string | null;
+}
+
+export const commentAnchorsPluginKey = new PluginKey<CommentAnchorsState>('commentAnchors');
+
+function encodePosition(relPos: Y.RelativePosition): string {
+  const bytes = Y.encodeRelativePosition(relPos);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function decodePosition(encoded: string): Y.RelativePosition | null {
+  try {
+    const binary = atob(encoded);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return Y.decodeRelativePosition(bytes);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The tab an anchor's text is in
+ */
+export function anchorTabId(anchor: CommentAnchor): string {
+  return anchor.tabId || DEFAULT_TAB_ID;
+}
+
+/**
+ * Create an anchor for a range of the editor of a tab (null if collaboration isn't ready)
+ */
+export function createCommentAnchor(state: EditorState, tabId: string, from: number, to: number): CommentAnchor | null {
+  const ystate = ySyncPluginKey.getState(state);
+  if (!ystate?.binding || from >= to) return null;
+
+  const { type, binding } = ystate;
+  return {
+    start: encodePosition(absolutePositionToRelativePosition(from, type, binding.mapping)),
+    end: encodePosition(absolutePositionToRelativePosition(to, type, binding.mapping)),
+    tabId
+  };
+}
+
+/**
+ * Resolve an anchor to its current range in the editor of its tab
+ * Returns null when the anchored text has been deleted (detached comment)
+ */
+export function resolveCommentAnchor(
+  state: EditorState,
+  anchor: CommentAnchor
+): { from: number; to: number } | null {
+  const ystate = ySyncPluginKey.getState(state);
+  if (!ystate?.binding) return null;
+
+  const start = decodePosition(anchor.start);
+  const end = decodePosition(anchor.end);
+  if (!start || !end) return null;
+
+  const { type, binding } = ystate;
+  const from = relativePositionToAbsolutePosition(type.doc, type, start, binding.mapping);
+  const to = relativePositionToAbsolutePosition(type.doc, type, end, binding.mapping);
+
+  if (from === null || to === null || from >= to) return null;
+  return { from, to };
+}
+
+function buildDecorations(
+  state: EditorState,
+  comments: AnchoredComment[],
+  activeCommentId: string | null
+): DecorationSet {
+  const decorations: Decoration[] = [];
+
+  comments.forEach((comment) => {
+    if (comment.isResolved) return;
+
+    const range = resolveCommentAnchor(state, comment.anchor);
+    if (!range) return;
+
+    const isActive = comment.id === activeCommentId;
+    decorations.push(
+      Decoration.inline(range.from, range.to, {
+        class: isActive ? 'comment-anchor comment-anchor--active' : 'comment-anchor',
+        'data-comment-id': comment.id
+      })
+    );
+  });
+
+  return DecorationSet.create(state.doc, decorations);
+}
+
+/**
+ * Replace the anchored comments and/or the active comment shown in the editor
+ */
+export function setCommentAnchors(editor: Editor, meta: CommentAnchorsMeta) {
+  if (editor.isDestroyed) return;
+  editor.view.dispatch(editor.state.tr.setMeta(commentAnchorsPluginKey, meta));
+}
+
+export const CommentAnchorsExtension = Extension.create({
+  name: 'commentAnchors',
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<CommentAnchorsState>({
+        key: commentAnchorsPluginKey,
+        state: {
+          init: (_, state) => ({
+            comments: [],
+            activeCommentId: null,
+            decorations: DecorationSet.create(state.doc, [])
+          }),
+          apply: (tr, value, _oldState, newState) => {
+            const meta = tr.getMeta(commentAnchorsPluginKey) as CommentAnchorsMeta | undefined;
+            const isRemoteChange = !!tr.getMeta(ySyncPluginKey)?.isChangeOrigin;
+
+            if (!meta && !isRemoteChange) {
+              // Local edits reach Yjs only after this transaction is applied,
+              // so map the existing highlights instead of re-resolving anchors
+              return tr.docChanged
+                ? { ...value, decorations: value.decorations.map(tr.mapping, tr.doc) }
+                : value;
+            }
+
+            const comments = meta?.comments ?? value.comments;
+            const activeCommentId = meta && meta.activeCommentId !== undefined
+              ? meta.activeCommentId
+              : value.activeCommentId;
+
+            return {
+              comments,
+              activeCommentId,
+              decorations: buildDecorations(newState, comments, activeCommentId)
+            };
+          }
+        },
+        props: {
+          decorations(state) {
+            return commentAnchorsPluginKey.getState(state)?.decorations;
+          }
+        }
+      })
+    ];
+  }
+});
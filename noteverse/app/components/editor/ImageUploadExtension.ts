@@ -0,0 +1,148 @@
+/**
+ * Image Upload Extension
+ *
+ * Uploads images pasted or dropped into the editor as attachments of the
+ * document (POST /api/documents/[id]/attachments) and inserts them by URL,
+ * so the document never embeds image data. The toolbar's image button
+ * inserts through insertImageFiles as well.
+ */
+
+import { Editor, Extension } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import toast from 'react-hot-toast';
+import type { Attachment } from '@/lib/attachments';
+
+// Images wider than this are inserted scaled down (they can be resized later)
+const MAX_IMAGE_WIDTH = 800;
+
+interface ImageUploadOptions {
+  documentId: string | null;
+}
+
+export const imageUploadPluginKey = new PluginKey('imageUpload');
+
+/**
+ * Upload an image file as an attachment of a document
+ */
+export async function uploadImage(documentId: string, file: File): Promise<Attachment> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await fetch(`/api/documents/${documentId}/attachments`, {
+    method: 'POST',
+    body: formData
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to upload image');
+  }
+  return data.attachment;
+}
+
+// The natural size of an image file (null when the browser can't show it)
+function imageSize(file: File): Promise<{ width: number; height: number } | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const img = new window.Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve({ width: img.width, height: img.height });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(null);
+    };
+    img.src = url;
+  });
+}
+
+async function insertImageFile(editor: Editor, documentId: string, file: File, pos?: number) {
+  const toastId = toast.loading(`Uploading ${file.name}…`);
+
+  try {
+    const [attachment, size] = await Promise.all([uploadImage(documentId, file), imageSize(file)]);
+    // The tab was closed while uploading
+    if (editor.isDestroyed) {
+      toast.dismiss(toastId);
+      return;
+    }
+
+    const scale = size && size.width > MAX_IMAGE_WIDTH ? MAX_IMAGE_WIDTH / size.width : 1;
+    const image = {
+      type: 'image',
+      attrs: {
+        src: attachment.url,
+        alt: file.name,
+        title: file.name,
+        width: size ? Math.round(size.width * scale) : null,
+        height: size ? Math.round(size.height * scale) : null
+      }
+    };
+
+    // Others may have shortened the document during the upload
+    const chain = editor.chain().focus();
+    (pos === undefined
+      ? chain.insertContent(image)
+      : chain.insertContentAt(Math.min(pos, editor.state.doc.content.size), image)
+    ).run();
+
+    toast.dismiss(toastId);
+  } catch (error) {
+    console.error('Error uploading image:', error);
+    toast.error(error instanceof Error ? error.message : 'Failed to upload image', { id: toastId });
+  }
+}
+
+/**
+ * Upload images and insert them one after another, at pos or at the cursor
+ */
+export async function insertImageFiles(editor: Editor, documentId: string, files: File[], pos?: number) {
+  for (const [index, file] of files.entries()) {
+    // Every insert leaves the cursor after the image
+    await insertImageFile(editor, documentId, file, index === 0 ? pos : undefined);
+  }
+}
+
+const imageFiles = (data: DataTransfer | null) =>
+  Array.from(data?.files || []).filter((file) => file.type.startsWith('image/'));
+
+export const ImageUploadExtension = Extension.create<ImageUploadOptions>({
+  name: 'imageUpload',
+
+  addOptions() {
+    return {
+      documentId: null
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { editor } = this;
+    const { documentId } = this.options;
+
+    return [
+      new Plugin({
+        key: imageUploadPluginKey,
+        props: {
+          handlePaste: (_view, event) => {
+            const files = imageFiles(event.clipboardData);
+            if (!documentId || !editor.isEditable || files.length === 0) return false;
+
+            event.preventDefault();
+            void insertImageFiles(editor, documentId, files);
+            return true;
+          },
+          handleDrop: (view, event, _slice, moved) => {
+            const files = imageFiles(event.dataTransfer);
+            if (moved || !documentId || !editor.isEditable || files.length === 0) return false;
+
+            event.preventDefault();
+            const pos = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos;
+            void insertImageFiles(editor, documentId, files, pos);
+            return true;
+          }
+        }
+      })
+    ];
+  }
+});
@@ -0,0 +1,218 @@
+/**
+ * Document tabs in the shared Yjs document
+ *
+ * Every tab's content is the XML fragment named after its id and the tab list
+ * is the TABS_LIST Y.Array of { id, title } maps (see lib/documentTabs.ts).
+ * An empty list means the document only has its original DEFAULT_TAB_ID tab,
+ * so the list is filled in on the first tab change. Clients doing that at the
+ * same time each add the tab, so entries with an id seen before are ignored
+ * (and removed by the next tab change).
+ */
+
+import * as Y from 'yjs';
+import { Editor, generateJSON, getHTMLFromFragment } from '@tiptap/core';
+import { prosemirrorJSONToYXmlFragment, yXmlFragmentToProseMirrorRootNode } from '@tiptap/y-tiptap';
+import {
+  DEFAULT_TAB_ID,
+  DEFAULT_TAB_TITLE,
+  RESTORE_COUNT,
+  RESTORE_STATE,
+  TABS_LIST,
+  DocumentTab,
+  TabInfo,
+  createTabId
+} from '@/lib/documentTabs';
+
+export const DEFAULT_TABS: TabInfo[] = [{ id: DEFAULT_TAB_ID, title: DEFAULT_TAB_TITLE }];
+
+// Tab list per Y.Doc, rebuilt after each change (stable for useSyncExternalStore)
+const tabListSnapshots = new WeakMap<Y.Doc, TabInfo[]>();
+
+const tabList = (ydoc: Y.Doc) => ydoc.getArray<Y.Map<string>>(TABS_LIST);
+
+function tabEntry(tab: TabInfo): Y.Map<string> {
+  const entry = new Y.Map<string>();
+  entry.set('id', tab.id);
+  entry.set('title', tab.title);
+  return entry;
+}
+
+/**
+ * The document's tabs, in order
+ */
+export function getTabList(ydoc: Y.Doc): TabInfo[] {
+  const cached = tabListSnapshots.get(ydoc);
+  if (cached) return cached;
+
+  const tabs = tabList(ydoc)
+    .toArray()
+    .map((entry) => ({ id: entry.get('id') || '', title: entry.get('title') || '' }))
+    .filter((tab, index, all) => tab.id && all.findIndex((other) => other.id === tab.id) === index);
+  const snapshot = tabs.length > 0 ? tabs : DEFAULT_TABS;
+
+  tabListSnapshots.set(ydoc, snapshot);
+  return snapshot;
+}
+
+/**
+ * Call onChange whenever a collaborator (or this client) changes the tab list
+ */
+export function subscribeTabList(ydoc: Y.Doc, onChange: () => void): () => void {
+  const list = tabList(ydoc);
+  const handleChange = () => {
+    tabListSnapshots.delete(ydoc);
+    onChange();
+  };
+
+  list.observeDeep(handleChange);
+  return () => list.unobserveDeep(handleChange);
+}
+
+// The list starts out empty for documents that only have the default tab
+function ensureTabList(ydoc: Y.Doc) {
+  const list = tabList(ydoc);
+  if (list.length === 0) list.push(DEFAULT_TABS.map(tabEntry));
+
+  // Drop entries added twice by concurrent first changes, keeping the first
+  const seen = new Set<string>();
+  for (let index = 0; index < list.length;) {
+    const id = list.get(index).get('id') || '';
+    if (seen.has(id)) {
+      list.delete(index, 1);
+    } else {
+      seen.add(id);
+      index++;
+    }
+  }
+  return list;
+}
+
+function indexOfTab(list: Y.Array<Y.Map<string>>, tabId: string) {
+  return list.toArray().findIndex((entry) => entry.get('id') === tabId);
+}
+
+export function addTab(ydoc: Y.Doc, title: string): string {
+  const id = createTabId();
+  ydoc.transact(() => {
+    ensureTabList(ydoc).push([tabEntry({ id, title })]);
+  });
+  return id;
+}
+
+export function renameTab(ydoc: Y.Doc, tabId: string, title: string) {
+  ydoc.transact(() => {
+    const list = ensureTabList(ydoc);
+    list.get(indexOfTab(list, tabId))?.set('title', title);
+  });
+}
+
+/**
+ * Remove a tab and its content (the last tab can't be deleted)
+ */
+export function deleteTab(ydoc: Y.Doc, tabId: string) {
+  ydoc.transact(() => {
+    const list = ensureTabList(ydoc);
+    const index = indexOfTab(list, tabId);
+    if (index === -1 || list.length === 1) return;
+
+    list.delete(index, 1);
+    const fragment = ydoc.getXmlFragment(tabId);
+    fragment.delete(0, fragment.length);
+  });
+}
+
+export function moveTab(ydoc: Y.Doc, tabId: string, toIndex: number) {
+  ydoc.transact(() => {
+    const list = ensureTabList(ydoc);
+    const index = indexOfTab(list, tabId);
+    if (index === -1 || index === toIndex) return;
+
+    // Y.Maps can't be moved, so the entry is recreated at its new place
+    const tab = { id: tabId, title: list.get(index).get('title') || '' };
+    list.delete(index, 1);
+    list.insert(Math.min(toIndex, list.length), [tabEntry(tab)]);
+  });
+}
+
+/**
+ * Every tab with its current content as HTML; the editor provides the schema
+ */
+export function collectTabs(editor: Editor, ydoc: Y.Doc): DocumentTab[] {
+  return getTabList(ydoc).map((tab) => {
+    const node = yXmlFragmentToProseMirrorRootNode(ydoc.getXmlFragment(tab.id), editor.schema);
+    return { ...tab, content: getHTMLFromFragment(node.content, editor.schema) };
+  });
+}
+
+/**
+ * Every tab as plain text, each under its title when there are several
+ */
+export function collectTabsText(editor: Editor, ydoc: Y.Doc): string {
+  const tabs = getTabList(ydoc);
+
+  return tabs
+    .map((tab) => {
+      const node = yXmlFragmentToProseMirrorRootNode(ydoc.getXmlFragment(tab.id), editor.schema);
+      const text = node.textBetween(0, node.content.size, '\n\n');
+      return tabs.length > 1 ? `${tab.title}\n\n${text}` : text;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Fill an empty Yjs document with tabs saved as HTML, in one update. Used by
+ * the client the server picks to seed a document without Yjs state.
+ */
+export function seedTabs(editor: Editor, ydoc: Y.Doc, tabs: DocumentTab[]) {
+  const extensions = editor.extensionManager.extensions;
+
+  ydoc.transact(() => {
+    const list = tabList(ydoc);
+    const onlyDefaultTab = tabs.length === 1 && tabs[0].id === DEFAULT_TAB_ID;
+    if (list.length === 0 && !onlyDefaultTab) {
+      list.push(tabs.map(tabEntry));
+    }
+
+    for (const tab of tabs) {
+      const fragment = ydoc.getXmlFragment(tab.id);
+      if (fragment.length > 0 || !tab.content.trim()) continue;
+      prosemirrorJSONToYXmlFragment(editor.schema, generateJSON(tab.content, extensions), fragment);
+    }
+  });
+}
+
+/**
+ * Versions restored so far, as of this Yjs document's content; autosaves
+ * send it so the server can tell content from before a restore
+ */
+export function getRestoreCount(ydoc: Y.Doc): number {
+  return ydoc.getMap<number>(RESTORE_STATE).get(RESTORE_COUNT) || 0;
+}
+
+/**
+ * Replace every tab with restored ones in one update. The realtime server
+ * does this itself; clients only do it when the API couldn't reach it.
+ */
+export function restoreTabs(editor: Editor, ydoc: Y.Doc, tabs: DocumentTab[], restoreCount: number) {
+  const extensions = editor.extensionManager.extensions;
+
+  ydoc.transact(() => {
+    const list = tabList(ydoc);
+    const tabIds = new Set([DEFAULT_TAB_ID, ...getTabList(ydoc).map((tab) => tab.id), ...tabs.map((tab) => tab.id)]);
+    for (const tabId of tabIds) {
+      const fragment = ydoc.getXmlFragment(tabId);
+      fragment.delete(0, fragment.length);
+    }
+
+    list.delete(0, list.length);
+    if (tabs.length > 1 || tabs[0].id !== DEFAULT_TAB_ID) {
+      list.push(tabs.map(tabEntry));
+    }
+
+    for (const tab of tabs) {
+      if (!tab.content.trim()) continue;
+      prosemirrorJSONToYXmlFragment(editor.schema, generateJSON(tab.content, extensions), ydoc.getXmlFragment(tab.id));
+    }
+    ydoc.getMap<number>(RESTORE_STATE).set(RESTORE_COUNT, restoreCount);
+  });
+}
@@ -0,0 +1,235 @@
+/**
+ * NotificationBell Component
+ *
+ * Bell with unread count and a dropdown of recent notifications
+ * Features:
+ * - Loads notifications from /api/notifications
+ * - Realtime delivery through the user's socket room ('notification' event)
+ * - Refreshes on window focus and periodically, for when the realtime
+ *   server runs separately and can't push
+ * - Click a notification to mark it read and open it
+ * - Mark all as read
+ */
+
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import toast from 'react-hot-toast';
+import { Bell, AtSign, MessageSquare, Share2, UserPlus, CheckCircle, XCircle, Eye, Pencil, ArrowRightLeft } from 'lucide-react';
+import type { RealtimeClientSocket } from '@/lib/socket/useSocket';
+import type { NotificationPayload, NotificationType } from '@/lib/models/Notification';
+
+interface NotificationBellProps {
+  socket?: RealtimeClientSocket | null;
+}
+
+const REFRESH_INTERVAL = 2 * 60 * 1000; // 2 minutes
+
+const NOTIFICATION_ICONS: Record<NotificationType, typeof Bell> = {
+  mention: AtSign,
+  comment: MessageSquare,
+  reply: MessageSquare,
+  share: Share2,
+  access_request: UserPlus,
+  access_request_approved: CheckCircle,
+  access_request_rejected: XCircle,
+  document_opened: Eye,
+  document_edited: Pencil,
+  ownership_transfer: ArrowRightLeft,
+  ownership_transfer_accepted: CheckCircle,
+  ownership_transfer_declined: XCircle
+};
+
+/**
+ * Format a timestamp as relative time
+ */
+const formatTime = (value: string) => {
+  const diffInSeconds = Math.floor((Date.now() - new Date(value).getTime()) / 1000);
+
+  if (diffInSeconds < 60) return 'just now';
+  if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)}m ago`;
+  if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)}h ago`;
+  return new Date(value).toLocaleDateString();
+};
+
+export default function NotificationBell({ socket = null }: NotificationBellProps) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<NotificationPayload[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  /**
+   * Load recent notifications and the unread count
+   */
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const response = await fetch('/api/notifications');
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications || []);
+        setUnreadCount(data.unreadCount || 0);
+      }
+    } catch (error) {
+      console.error('❌ Failed to fetch notifications:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchNotifications();
+
+    const interval = setInterval(fetchNotifications, REFRESH_INTERVAL);
+    window.addEventListener('focus', fetchNotifications);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', fetchNotifications);
+    };
+  }, [fetchNotifications]);
+
+  /**
+   * Realtime notifications
+   */
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleNotification = (notification: NotificationPayload) => {
+      console.log('🔔 Notification received:', notification.type);
+      setNotifications(prev => [notification, ...prev.filter(n => n.id !== notification.id)]);
+      setUnreadCount(prev => prev + 1);
+      toast(notification.message, { icon: '🔔' });
+    };
+
+    socket.on('notification', handleNotification);
+    return () => {
+      socket.off('notification', handleNotification);
+    };
+  }, [socket]);
+
+  /**
+   * Close the dropdown when clicking outside
+   */
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleOpenNotification = async (notification: NotificationPayload) => {
+    setIsOpen(false);
+
+    if (!notification.read) {
+      setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, read: true } : n));
+      setUnreadCount(prev => Math.max(0, prev - 1));
+
+      fetch(`/api/notifications/${notification.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ read: true })
+      }).catch((error) => console.error('❌ Failed to mark notification read:', error));
+    }
+
+    router.push(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications/read-all', { method: 'POST' });
+      if (!response.ok) {
+        toast.error('Failed to mark notifications as read');
+        return;
+      }
+
+      setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('❌ Failed to mark all notifications read:', error);
+      toast.error('Failed to mark notifications as read');
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-full transition-colors"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5 text-gray-700 dark:text-gray-300" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-red-500 text-white text-xs font-bold rounded-full flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 z-50">
+          <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+              Notifications
+            </h3>
+            {unreadCount > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="text-xs font-medium text-indigo-600 hover:text-indigo-700 dark:text-indigo-400"
+              >
+                Mark all as read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+              </div>
+            ) : notifications.length === 0 ? (
+              <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                You&apos;re all caught up
+              </p>
+            ) : (
+              notifications.map((notification) => {
+                const Icon = NOTIFICATION_ICONS[notification.type] || Bell;
+
+                return (
+                  <button
+                    key={notification.id}
+                    onClick={() => handleOpenNotification(notification)}
+                    className={`w-full flex items-start gap-3 p-4 text-left border-b border-gray-100 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+                      notification.read ? '' : 'bg-indigo-50/60 dark:bg-indigo-900/20'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4 mt-0.5 flex-shrink-0 text-gray-500 dark:text-gray-400" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 dark:text-white">
+                        {notification.message}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {formatTime(notification.createdAt)}
+                      </p>
+                    </div>
+                    {!notification.read && (
+                      <span className="w-2 h-2 mt-1.5 flex-shrink-0 rounded-full bg-indigo-600" />
+                    )}
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
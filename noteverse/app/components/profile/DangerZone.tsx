@@ -4,16 +4,17 @@ import { useState } from 'react';
 
 interface DangerZoneProps {
   onExportData: () => void;
-  onDeleteAccount: () => void;
+  onDeleteAccount: (transferTo?: string) => void;
 }
 
 export default function DangerZone({ onExportData, onDeleteAccount }: DangerZoneProps) {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
+  const [transferTo, setTransferTo] = useState('');
 
   const handleDeleteAccount = () => {
     if (deleteConfirmText === 'DELETE') {
-      onDeleteAccount();
+      onDeleteAccount(transferTo.trim() || undefined);
       setShowDeleteModal(false);
     }
   };
@@ -42,7 +43,7 @@ export default function DangerZone({ onExportData, onDeleteAccount }: DangerZone
         <div className="flex items-center justify-between p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
           <div>
             <p className="font-semibold text-red-600 dark:text-red-400">Delete Account</p>
-            <p className="text-sm text-gray-600 dark:text-gray-400">Permanently delete your account and all data</p>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Permanently delete your account, or hand your documents to someone first</p>
           </div>
           <button
             onClick={() => setShowDeleteModal(true)}
@@ -70,6 +71,24 @@ export default function DangerZone({ onExportData, onDeleteAccount }: DangerZone
               This action cannot be undone. This will permanently delete your account and remove all your data from our servers.
             </p>
 
+            <div className="mb-6">
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                Transfer my documents to (optional)
+              </label>
+              <input
+                type="email"
+                value={transferTo}
+                onChange={(e) => setTransferTo(e.target.value)}
+                className="w-full px-4 py-3 border-2 border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
+                placeholder="colleague@example.com"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                {transferTo.trim()
+                  ? 'They become the owner of your documents once they accept. Documents they decline are deleted.'
+                  : 'Leave empty to delete all documents you own.'}
+              </p>
+            </div>
+
             <div className="mb-6">
               <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
                 Type <span className="text-red-600 dark:text-red-400 font-bold">DELETE</span> to confirm
@@ -88,6 +107,7 @@ export default function DangerZone({ onExportData, onDeleteAccount }: DangerZone
                 onClick={() => {
                   setShowDeleteModal(false);
                   setDeleteConfirmText('');
+                  setTransferTo('');
                 }}
                 className="flex-1 px-4 py-3 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg font-semibold hover:bg-gray-300 dark:hover:bg-gray-600 transition-all"
               >
@@ -0,0 +1,54 @@
+'use client';
+
+import {
+  EMAIL_NOTIFICATION_OPTIONS,
+  EmailNotificationKind,
+  EmailNotificationPreferences
+} from '@/lib/emailPreferences';
+
+interface EmailNotificationsProps {
+  preferences: EmailNotificationPreferences;
+  onPreferencesChange: (preferences: EmailNotificationPreferences) => void;
+}
+
+export default function EmailNotifications({ preferences, onPreferencesChange }: EmailNotificationsProps) {
+  const togglePreference = (key: EmailNotificationKind) => {
+    onPreferencesChange({ ...preferences, [key]: !preferences[key] });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg border border-gray-200 dark:border-gray-700 p-8">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">Email Notifications</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+        Choose which emails you get. In-app notifications are always on.
+      </p>
+
+      <div className="space-y-3">
+        {EMAIL_NOTIFICATION_OPTIONS.map((option) => (
+          <div
+            key={option.key}
+            className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-700 rounded-lg"
+          >
+            <div>
+              <p className="font-semibold text-gray-900 dark:text-white">{option.label}</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">{option.description}</p>
+            </div>
+            <button
+              onClick={() => togglePreference(option.key)}
+              className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors ${
+                preferences[option.key] ? 'bg-indigo-600' : 'bg-gray-300'
+              }`}
+              aria-label={option.label}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  preferences[option.key] ? 'translate-x-6' : 'translate-x-1'
+                }`}
+              />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -10,38 +10,118 @@ import DocumentCard from '../components/dashboard/DocumentCard';
 import DocumentSkeleton from '../components/dashboard/DocumentSkeleton';
 import EmptyState from '../components/dashboard/EmptyState';
 import SearchBar from '../components/dashboard/SearchBar';
+import SearchResults from '../components/dashboard/SearchResults';
 import ViewToggle from '../components/dashboard/ViewToggle';
+import PendingTransfers from '../components/dashboard/PendingTransfers';
+import FolderCard from '../components/dashboard/FolderCard';
+import FolderBreadcrumbs from '../components/dashboard/FolderBreadcrumbs';
+import FolderShareModal from '../components/dashboard/FolderShareModal';
 import ShareModal from '../components/document/ShareModal';
+import NotificationBell from '../components/notifications/NotificationBell';
+import { useSocket } from '@/lib/socket/useSocket';
+import Dropdown from '../components/Dropdown';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+import {
+  DOCUMENTS_PAGE_SIZE,
+  DOCUMENT_SORT_OPTIONS,
+  OWNER_FILTER_OPTIONS,
+  RECENT_DAYS,
+  DocumentCounts,
+  DocumentListItem,
+  DocumentSort,
+  DocumentView,
+  OwnerFilter
+} from '@/lib/documentFilters';
+import type { Folder, FolderBreadcrumb } from '@/lib/folders';
 
-interface Document {
-  id: string;
-  title: string;
-  content: string;
-  createdAt: string;
-  updatedAt: string;
-  collaborators?: Array<{ name: string; avatar?: string }>;
-  isShared?: boolean;
-  role?: string; // 'editor' or 'viewer'
-  owner?: { name: string; email: string };
-}
+type DashboardTab = DocumentView | 'trash';
+
+const TABS: { value: DashboardTab; label: string }[] = [
+  { value: 'owned', label: 'My Documents' },
+  { value: 'shared', label: 'Shared With Me' },
+  { value: 'recent', label: 'Recent' },
+  { value: 'starred', label: 'Starred' },
+  { value: 'archived', label: 'Archived' },
+  { value: 'trash', label: 'Trash' }
+];
+
+const EMPTY_STATES: Record<DashboardTab, { title: string; description: string }> = {
+  owned: {
+    title: 'No documents yet',
+    description: 'Get started by creating your first document. Collaborate with your team in real-time.'
+  },
+  shared: {
+    title: 'No shared documents',
+    description: 'Documents shared with you by your team will appear here.'
+  },
+  recent: {
+    title: 'Nothing edited lately',
+    description: `Documents edited in the last ${RECENT_DAYS} days will appear here.`
+  },
+  starred: {
+    title: 'No starred documents',
+    description: 'Star documents to find them here quickly.'
+  },
+  archived: {
+    title: 'No archived documents',
+    description: 'Archive documents you are done with to keep My Documents tidy.'
+  },
+  trash: {
+    title: 'Trash is empty',
+    description: `Deleted documents stay here for ${TRASH_RETENTION_DAYS} days before they are removed for good.`
+  }
+};
+
+const EMPTY_COUNTS: DocumentCounts = { owned: 0, shared: 0, starred: 0, archived: 0 };
+
+// Search waits for the user to stop typing
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function DashboardPage() {
   const { data: session, status } = useSession();
+  const { socket } = useSocket();
   const router = useRouter();
   const [showProfileMenu, setShowProfileMenu] = useState(false);
   const profileRef = useRef<HTMLDivElement>(null);
   
   // Document management state
-  const [documents, setDocuments] = useState<Document[]>([]);
-  const [sharedDocuments, setSharedDocuments] = useState<Document[]>([]);
+  const [documents, setDocuments] = useState<DocumentListItem[]>([]);
+  const [trashedDocuments, setTrashedDocuments] = useState<DocumentListItem[]>([]);
+  const [counts, setCounts] = useState<DocumentCounts>(EMPTY_COUNTS);
+  const [tags, setTags] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [loadingMore, setLoadingMore] = useState(false);
   const [view, setView] = useState<'grid' | 'list'>('grid');
-  const [activeTab, setActiveTab] = useState<'my-docs' | 'shared'>('my-docs');
+  const [activeTab, setActiveTab] = useState<DashboardTab>('owned');
   const [shareModalOpen, setShareModalOpen] = useState(false);
   const [shareDocumentId, setShareDocumentId] = useState<string>('');
   const [shareDocumentTitle, setShareDocumentTitle] = useState<string>('');
 
+  // Filters (sent to GET /api/documents; a search query switches to /api/search)
+  const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [sort, setSort] = useState<DocumentSort>('updated');
+  const [ownerFilter, setOwnerFilter] = useState<OwnerFilter>('anyone');
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+
+  // Folder navigation (My Documents and Shared With Me)
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  const [currentFolder, setCurrentFolder] = useState<Folder | null>(null);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [folderPath, setFolderPath] = useState<FolderBreadcrumb[]>([]);
+  const [shareFolder, setShareFolder] = useState<Folder | null>(null);
+
+  // Ignore responses for filters that have changed since
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(searchQuery.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
   useEffect(() => {
     if (status === 'unauthenticated') {
       router.push('/login');
@@ -51,30 +131,124 @@ export default function DashboardPage() {
     if (status === 'authenticated') {
       fetchDocuments();
     }
-  }, [status, router]);
-  
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, router, activeTab, sort, ownerFilter, selectedTag, currentFolderId]);
+
+  // Search results replace the list, except in the trash (searched locally)
+  const searching = !!debouncedQuery && activeTab !== 'trash';
+
+  // Tag filters look through every folder
+  const browsingFolders = (activeTab === 'owned' || activeTab === 'shared') && !selectedTag;
+
+  /**
+   * Fetch one page of the active view
+   */
+  const loadPage = async (pageNumber: number) => {
+    const requestId = ++requestIdRef.current;
+    const params = new URLSearchParams({
+      view: activeTab === 'trash' ? 'owned' : activeTab,
+      sort,
+      owner: ownerFilter,
+      page: String(pageNumber),
+      limit: String(DOCUMENTS_PAGE_SIZE)
+    });
+    if (selectedTag) params.set('tag', selectedTag);
+    if (browsingFolders) params.set('folder', currentFolderId || 'root');
+
+    const response = await fetch(`/api/documents?${params}`);
+    if (requestId !== requestIdRef.current) return;
+
+    if (!response.ok) {
+      console.error('Failed to fetch documents');
+      if (pageNumber === 1) setDocuments([]);
+      return;
+    }
+
+    const data = await response.json();
+    if (requestId !== requestIdRef.current) return;
+
+    setDocuments(docs => pageNumber === 1 ? data.documents : [...docs, ...data.documents]);
+    setTotal(data.total);
+    setPage(data.page);
+    setHasMore(data.hasMore);
+    setCounts(data.counts);
+    setTags(data.tags);
+  };
+
+  /**
+   * Fetch the folders shown above the documents, and the breadcrumb path
+   */
+  const loadFolders = async () => {
+    if (!browsingFolders) {
+      setFolders([]);
+      return;
+    }
+
+    const params = new URLSearchParams(currentFolderId ? { parentId: currentFolderId } : { view: activeTab });
+    const response = await fetch(`/api/folders?${params}`);
+
+    if (!response.ok) {
+      // The folder was deleted or unshared; go back to the top
+      if (currentFolderId) setCurrentFolderId(null);
+      setFolders([]);
+      return;
+    }
+
+    const data = await response.json();
+    setFolders(data.folders);
+    setCurrentFolder(data.folder);
+    setFolderPath(data.path);
+  };
+
   const fetchDocuments = async () => {
     setLoading(true);
     try {
-      const response = await fetch('/api/documents');
-      if (response.ok) {
-        const data = await response.json();
-        setDocuments(data.documents || []);
-        setSharedDocuments(data.sharedDocuments || []);
-      } else {
-        console.error('Failed to fetch documents');
-        setDocuments([]);
-        setSharedDocuments([]);
+      const [, , trashResponse] = await Promise.all([
+        loadPage(1),
+        loadFolders(),
+        fetch('/api/trash')
+      ]);
+      if (trashResponse.ok) {
+        const trashData = await trashResponse.json();
+        setTrashedDocuments(trashData.documents || []);
       }
     } catch (error) {
       console.error('Error fetching documents:', error);
       setDocuments([]);
-      setSharedDocuments([]);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    try {
+      await loadPage(page + 1);
+    } catch (error) {
+      console.error('Error fetching documents:', error);
+      toast.error('Failed to load more documents');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  /**
+   * Keep the view counts in step with local changes
+   */
+  const adjustCounts = (doc: DocumentListItem, delta: number) => {
+    setCounts(current => ({
+      owned: current.owned + (doc.isOwner && !doc.isArchived ? delta : 0),
+      shared: current.shared + (!doc.isOwner && !doc.isArchived ? delta : 0),
+      starred: current.starred + (doc.starred ? delta : 0),
+      archived: current.archived + (doc.isArchived ? delta : 0)
+    }));
+  };
+
+  const removeFromList = (id: string) => {
+    setDocuments(docs => docs.filter(doc => doc.id !== id));
+    setTotal(count => Math.max(0, count - 1));
+  };
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (profileRef.current && !profileRef.current.contains(event.target as Node)) {
@@ -91,7 +265,29 @@ export default function DashboardPage() {
     };
   }, [showProfileMenu]);
   
-  const handleCreateDocument = () => {
+  const handleCreateDocument = async () => {
+    // Inside one of the user's folders, create it there right away
+    if (browsingFolders && currentFolder?.isOwner) {
+      try {
+        const response = await fetch('/api/documents', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ title: 'Untitled Document', content: '', folderId: currentFolder.id }),
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          router.push(`/document/${data.document._id}`);
+        } else {
+          toast.error('Failed to create document');
+        }
+      } catch (error) {
+        console.error('Error creating document:', error);
+        toast.error('Failed to create document. Please try again.');
+      }
+      return;
+    }
+
     // Generate a unique document ID
     const newDocId = 'doc-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9);
     // Navigate to new document editor
@@ -99,16 +295,29 @@ export default function DashboardPage() {
   };
   
   const handleDeleteDocument = async (id: string) => {
+    const trashedDoc = trashedDocuments.find(doc => doc.id === id);
+
     try {
-      const response = await fetch(`/api/documents/${id}`, {
+      // Documents already in the trash are deleted forever
+      const response = await fetch(`/api/documents/${id}${trashedDoc ? '?permanent=true' : ''}`, {
         method: 'DELETE',
       });
 
       if (response.ok) {
-        // Remove from local state
-        setDocuments(docs => docs.filter(doc => doc.id !== id));
-        setSharedDocuments(docs => docs.filter(doc => doc.id !== id));
-        toast.success('Document deleted successfully');
+        if (trashedDoc) {
+          setTrashedDocuments(docs => docs.filter(doc => doc.id !== id));
+          toast.success('Document deleted forever');
+          return;
+        }
+
+        // Move to the trash in local state
+        const movedDoc = documents.find(doc => doc.id === id);
+        removeFromList(id);
+        if (movedDoc) {
+          adjustCounts(movedDoc, -1);
+          setTrashedDocuments(docs => [{ ...movedDoc, deletedAt: new Date().toISOString() }, ...docs]);
+        }
+        toast.success('Document moved to trash');
       } else {
         toast.error('Failed to delete document. You may not have permission.');
       }
@@ -118,14 +327,112 @@ export default function DashboardPage() {
     }
   };
 
+  const handleRestoreDocument = async (id: string) => {
+    try {
+      const response = await fetch(`/api/documents/${id}/restore`, {
+        method: 'POST',
+      });
+
+      if (response.ok) {
+        const restoredDoc = trashedDocuments.find(doc => doc.id === id);
+        setTrashedDocuments(docs => docs.filter(doc => doc.id !== id));
+        if (restoredDoc) {
+          adjustCounts(restoredDoc, 1);
+        }
+        toast.success('Document restored');
+      } else {
+        toast.error('Failed to restore document');
+      }
+    } catch (error) {
+      console.error('Error restoring document:', error);
+      toast.error('Failed to restore document. Please try again.');
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${trashedDocuments.length} documents in the trash? This cannot be undone.`)) return;
+
+    try {
+      const response = await fetch('/api/trash', {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        setTrashedDocuments([]);
+        toast.success('Trash emptied');
+      } else {
+        toast.error('Failed to empty trash');
+      }
+    } catch (error) {
+      console.error('Error emptying trash:', error);
+      toast.error('Failed to empty trash. Please try again.');
+    }
+  };
+
+  const handleToggleStar = async (id: string) => {
+    const doc = documents.find(d => d.id === id);
+    if (!doc) return;
+
+    try {
+      const response = await fetch(`/api/documents/${id}/star`, {
+        method: doc.starred ? 'DELETE' : 'POST',
+      });
+
+      if (response.ok) {
+        setCounts(current => ({ ...current, starred: current.starred + (doc.starred ? -1 : 1) }));
+        if (activeTab === 'starred' && doc.starred) {
+          removeFromList(id);
+        } else {
+          setDocuments(docs => docs.map(d => d.id === id ? { ...d, starred: !doc.starred } : d));
+        }
+      } else {
+        toast.error('Failed to update star');
+      }
+    } catch (error) {
+      console.error('Error starring document:', error);
+      toast.error('Failed to update star. Please try again.');
+    }
+  };
+
+  const handleToggleArchive = async (id: string) => {
+    const doc = documents.find(d => d.id === id);
+    if (!doc) return;
+
+    try {
+      const response = await fetch(`/api/documents/${id}/settings`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isArchived: !doc.isArchived }),
+      });
+
+      if (response.ok) {
+        adjustCounts(doc, -1);
+        adjustCounts({ ...doc, isArchived: !doc.isArchived }, 1);
+        // Only the starred view shows archived and active documents together
+        if (activeTab === 'starred') {
+          setDocuments(docs => docs.map(d => d.id === id ? { ...d, isArchived: !doc.isArchived } : d));
+        } else {
+          removeFromList(id);
+        }
+        toast.success(doc.isArchived ? 'Document unarchived' : 'Document archived');
+      } else {
+        toast.error('Failed to update document');
+      }
+    } catch (error) {
+      console.error('Error archiving document:', error);
+      toast.error('Failed to update document. Please try again.');
+    }
+  };
+
   const handleDuplicateDocument = async (id: string) => {
     try {
-      // Find the original document
-      const originalDoc = documents.find(doc => doc.id === id) || sharedDocuments.find(doc => doc.id === id);
-      if (!originalDoc) {
+      // The list only has a preview; load the full content
+      const originalResponse = await fetch(`/api/documents/${id}`);
+      if (!originalResponse.ok) {
         toast.error('Document not found');
         return;
       }
+      const { document: originalDoc } = await originalResponse.json();
 
       // Create a duplicate
       const response = await fetch('/api/documents', {
@@ -135,16 +442,14 @@ export default function DashboardPage() {
         },
         body: JSON.stringify({
           title: `${originalDoc.title} (Copy)`,
-          content: originalDoc.content,
+          tabs: originalDoc.tabs,
         }),
       });
 
       if (response.ok) {
-        const newDoc = await response.json();
-        // Add to local state
-        setDocuments(docs => [newDoc, ...docs]);
+        const data = await response.json();
         // Navigate to the new document
-        router.push(`/document/${newDoc.id}`);
+        router.push(`/document/${data.document._id}`);
       } else {
         toast.error('Failed to duplicate document');
       }
@@ -156,18 +461,197 @@ export default function DashboardPage() {
 
   const handleShareDocument = (id: string) => {
     // Find the document to get its title
-    const doc = documents.find(d => d.id === id) || sharedDocuments.find(d => d.id === id);
+    const doc = documents.find(d => d.id === id);
     setShareDocumentId(id);
     setShareDocumentTitle(doc?.title || 'Untitled Document');
     setShareModalOpen(true);
   };
-  
-  const currentDocuments = activeTab === 'my-docs' ? documents : sharedDocuments;
-  
-  const filteredDocuments = currentDocuments.filter(doc =>
-    doc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    doc.content.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+
+  const handleTabChange = (tab: DashboardTab) => {
+    setActiveTab(tab);
+    setPage(1);
+    setCurrentFolderId(null);
+    setCurrentFolder(null);
+    setFolderPath([]);
+  };
+
+  const handleOpenFolder = (id: string | null) => {
+    setCurrentFolderId(id);
+    if (!id) {
+      setCurrentFolder(null);
+      setFolderPath([]);
+    }
+  };
+
+  const handleCreateFolder = async () => {
+    const name = prompt('Folder name');
+    if (!name?.trim()) return;
+
+    try {
+      const response = await fetch('/api/folders', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, parentId: currentFolderId }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setFolders(current => [...current, data.folder].sort((a, b) => a.name.localeCompare(b.name)));
+        toast.success('Folder created');
+      } else {
+        toast.error(data.error || 'Failed to create folder');
+      }
+    } catch (error) {
+      console.error('Error creating folder:', error);
+      toast.error('Failed to create folder. Please try again.');
+    }
+  };
+
+  const handleRenameFolder = async (id: string) => {
+    const folder = folders.find(f => f.id === id);
+    const name = prompt('Rename folder', folder?.name);
+    if (!name?.trim() || name === folder?.name) return;
+
+    try {
+      const response = await fetch(`/api/folders/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setFolders(current => current.map(f => f.id === id ? data.folder : f));
+      } else {
+        toast.error(data.error || 'Failed to rename folder');
+      }
+    } catch (error) {
+      console.error('Error renaming folder:', error);
+      toast.error('Failed to rename folder. Please try again.');
+    }
+  };
+
+  const handleCopyFolder = async (id: string) => {
+    try {
+      const response = await fetch(`/api/folders/${id}/copy`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        if (data.folder.parentId === currentFolderId && activeTab === 'owned') {
+          setFolders(current => [...current, data.folder].sort((a, b) => a.name.localeCompare(b.name)));
+        }
+        toast.success(`Copied to "${data.folder.name}"`);
+      } else {
+        toast.error(data.error || 'Failed to copy folder');
+      }
+    } catch (error) {
+      console.error('Error copying folder:', error);
+      toast.error('Failed to copy folder. Please try again.');
+    }
+  };
+
+  const handleDeleteFolder = async (id: string) => {
+    const folder = folders.find(f => f.id === id);
+    if (!confirm(`Delete "${folder?.name}" and its subfolders? The documents inside are moved to the trash.`)) return;
+
+    try {
+      const response = await fetch(`/api/folders/${id}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        toast.success(data.message);
+        // Counts and the trash changed too
+        fetchDocuments();
+      } else {
+        toast.error(data.error || 'Failed to delete folder');
+      }
+    } catch (error) {
+      console.error('Error deleting folder:', error);
+      toast.error('Failed to delete folder. Please try again.');
+    }
+  };
+
+  /**
+   * File a document in a folder (null: the top level) by drag and drop
+   */
+  const handleMoveDocument = async (documentId: string, folderId: string | null) => {
+    if (folderId === currentFolderId) return;
+
+    try {
+      const response = await fetch(`/api/folders/${folderId || 'root'}/documents`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ documentIds: [documentId], action: 'move' }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        removeFromList(documentId);
+        toast.success('Document moved');
+      } else {
+        toast.error(data.error || 'Failed to move document');
+      }
+    } catch (error) {
+      console.error('Error moving document:', error);
+      toast.error('Failed to move document. Please try again.');
+    }
+  };
+
+  const handleMoveFolder = async (folderId: string, parentId: string | null) => {
+    if (parentId === currentFolderId) return;
+
+    try {
+      const response = await fetch(`/api/folders/${folderId}/move`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ parentId }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setFolders(current => current.filter(f => f.id !== folderId));
+        toast.success(data.message);
+      } else {
+        toast.error(data.error || 'Failed to move folder');
+      }
+    } catch (error) {
+      console.error('Error moving folder:', error);
+      toast.error('Failed to move folder. Please try again.');
+    }
+  };
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setDebouncedQuery('');
+    setSelectedTag(null);
+    setOwnerFilter('anyone');
+  };
+
+  const tabCount = (tab: DashboardTab): number | null => {
+    if (tab === 'trash') return trashedDocuments.length;
+    if (tab === 'recent') return null;
+    return counts[tab];
+  };
+
+  // The trash isn't paginated; search it locally
+  const trashQuery = searchQuery.trim().toLowerCase();
+  const visibleDocuments = activeTab === 'trash'
+    ? trashedDocuments.filter(doc =>
+        doc.title.toLowerCase().includes(trashQuery) ||
+        doc.preview.toLowerCase().includes(trashQuery)
+      )
+    : documents;
+  const visibleTotal = activeTab === 'trash' ? trashedDocuments.length : total;
+  const isFiltered = !!(searchQuery.trim() || selectedTag || ownerFilter !== 'anyone');
+  const visibleFolders = browsingFolders && !searching ? folders : [];
+  // Things can be filed in the user's own folders only
+  const canFile = browsingFolders && !searching && activeTab === 'owned';
 
   if (status === 'loading') {
     return (
@@ -200,6 +684,7 @@ export default function DashboardPage() {
             </Link>
 
             <div className="flex items-center gap-4">
+              <NotificationBell socket={socket} />
               <ThemeToggle />
               <div className="relative" ref={profileRef}>
                 <button
@@ -269,13 +754,16 @@ export default function DashboardPage() {
           <p className="text-gray-600 dark:text-gray-400">Manage your notes and collaborate with your team</p>
         </div>
 
+        {/* Documents other users want to hand over */}
+        <PendingTransfers onAccepted={fetchDocuments} />
+
         {/* Stats Overview */}
         <div className="grid md:grid-cols-4 gap-6 mb-8">
           <div className="bg-gradient-to-br from-indigo-50 to-purple-50 dark:from-indigo-900/20 dark:to-purple-900/20 rounded-xl border border-indigo-100 dark:border-indigo-800 p-6">
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-semibold text-indigo-700 dark:text-indigo-300 mb-1">Total Documents</p>
-                <p className="text-3xl font-bold text-gray-900 dark:text-white">{documents.length}</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white">{counts.owned + counts.archived}</p>
               </div>
               <div className="w-12 h-12 bg-indigo-500 rounded-lg flex items-center justify-center">
                 <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -289,7 +777,7 @@ export default function DashboardPage() {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-semibold text-purple-700 dark:text-purple-300 mb-1">Shared With Me</p>
-                <p className="text-3xl font-bold text-gray-900 dark:text-white">{sharedDocuments.length}</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white">{counts.shared}</p>
               </div>
               <div className="w-12 h-12 bg-purple-500 rounded-lg flex items-center justify-center">
                 <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -302,10 +790,8 @@ export default function DashboardPage() {
           <div className="bg-gradient-to-br from-blue-50 to-cyan-50 dark:from-blue-900/20 dark:to-cyan-900/20 rounded-xl border border-blue-100 dark:border-blue-800 p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-semibold text-blue-700 dark:text-blue-300 mb-1">Collaborators</p>
-                <p className="text-3xl font-bold text-gray-900 dark:text-white">
-                  {new Set(documents.flatMap(d => d.collaborators?.map(c => c.name) || [])).size}
-                </p>
+                <p className="text-sm font-semibold text-blue-700 dark:text-blue-300 mb-1">Starred</p>
+                <p className="text-3xl font-bold text-gray-900 dark:text-white">{counts.starred}</p>
               </div>
               <div className="w-12 h-12 bg-blue-500 rounded-lg flex items-center justify-center">
                 <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -331,98 +817,238 @@ export default function DashboardPage() {
         </div>
 
         {/* Toolbar */}
-        <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6 mb-6">
+        <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6 mb-6 space-y-4">
           <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center justify-between">
-            <div className="flex items-center gap-4 w-full lg:w-auto">
-              {/* Tabs */}
-              <div className="flex items-center gap-2 bg-gray-100 dark:bg-gray-700 rounded-lg p-1">
-                <button
-                  onClick={() => setActiveTab('my-docs')}
-                  className={`px-4 py-2 rounded-lg font-medium transition-all ${
-                    activeTab === 'my-docs'
-                      ? 'bg-white dark:bg-gray-600 text-indigo-600 dark:text-indigo-400 shadow-sm'
-                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
-                  }`}
-                >
-                  My Documents ({documents.length})
-                </button>
-                <button
-                  onClick={() => setActiveTab('shared')}
-                  className={`px-4 py-2 rounded-lg font-medium transition-all ${
-                    activeTab === 'shared'
-                      ? 'bg-white dark:bg-gray-600 text-indigo-600 dark:text-indigo-400 shadow-sm'
-                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
-                  }`}
-                >
-                  Shared With Me ({sharedDocuments.length})
-                </button>
-              </div>
+            {/* Tabs */}
+            <div className="flex items-center gap-1 bg-gray-100 dark:bg-gray-700 rounded-lg p-1 overflow-x-auto max-w-full">
+              {TABS.map((tab) => {
+                const count = tabCount(tab.value);
+                return (
+                  <button
+                    key={tab.value}
+                    onClick={() => handleTabChange(tab.value)}
+                    className={`px-3 py-2 rounded-lg font-medium whitespace-nowrap transition-all ${
+                      activeTab === tab.value
+                        ? 'bg-white dark:bg-gray-600 text-indigo-600 dark:text-indigo-400 shadow-sm'
+                        : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+                    }`}
+                  >
+                    {tab.label}{count !== null && ` (${count})`}
+                  </button>
+                );
+              })}
             </div>
 
             <div className="flex items-center gap-4 w-full lg:w-auto">
               {/* Search */}
-              <div className="flex-1 lg:w-80">
-                <SearchBar value={searchQuery} onChange={setSearchQuery} />
+              <div className="flex-1 lg:w-72">
+                <SearchBar
+                  value={searchQuery}
+                  onChange={setSearchQuery}
+                  placeholder={activeTab === 'trash' ? 'Search the trash...' : 'Search documents... ("phrase", prefix*)'}
+                />
               </div>
 
               {/* View Toggle */}
               <ViewToggle view={view} onChange={setView} />
             </div>
           </div>
+
+          {activeTab !== 'trash' && (
+            <div className="flex flex-col md:flex-row gap-3 md:items-center">
+              <div className="flex items-center gap-3">
+                {!searching && (
+                  <Dropdown
+                    value={sort}
+                    onChange={(value) => setSort(value as DocumentSort)}
+                    options={DOCUMENT_SORT_OPTIONS}
+                    aria-label="Sort documents"
+                    className="w-40"
+                  />
+                )}
+                {(searching || (activeTab !== 'owned' && activeTab !== 'shared')) && (
+                  <Dropdown
+                    value={ownerFilter}
+                    onChange={(value) => setOwnerFilter(value as OwnerFilter)}
+                    options={OWNER_FILTER_OPTIONS}
+                    aria-label="Filter by owner"
+                    className="w-48"
+                  />
+                )}
+              </div>
+
+              {/* Tag chips */}
+              {tags.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2">
+                  {tags.map((tag) => (
+                    <button
+                      key={tag}
+                      onClick={() => setSelectedTag(selectedTag === tag ? null : tag)}
+                      className={`px-3 py-1 text-xs font-medium rounded-full transition-colors ${
+                        selectedTag === tag
+                          ? 'bg-indigo-600 text-white'
+                          : 'bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 hover:bg-indigo-100 dark:hover:bg-indigo-900/50'
+                      }`}
+                    >
+                      #{tag}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
+        {/* Search results (all documents the user can open, whatever the tab) */}
+        {searching && (
+          <SearchResults
+            query={debouncedQuery}
+            owner={ownerFilter}
+            tag={selectedTag}
+            onTagClick={setSelectedTag}
+            onClear={clearFilters}
+          />
+        )}
+
+        {/* Folder path and actions */}
+        {browsingFolders && !searching && (
+          <div className="flex items-start justify-between gap-4">
+            <FolderBreadcrumbs
+              rootLabel={activeTab === 'owned' ? 'My Documents' : 'Shared With Me'}
+              path={folderPath}
+              onNavigate={handleOpenFolder}
+              onDropDocument={canFile ? handleMoveDocument : undefined}
+              onDropFolder={canFile ? handleMoveFolder : undefined}
+            />
+            {activeTab === 'owned' && (
+              <button
+                onClick={handleCreateFolder}
+                className="px-3 py-1.5 text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20 rounded-lg transition-colors whitespace-nowrap"
+              >
+                + New folder
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Documents Grid/List */}
-        {loading ? (
+        {searching ? null : loading ? (
           <div className={view === 'grid' ? 'grid md:grid-cols-2 lg:grid-cols-3 gap-6' : 'space-y-4'}>
             {[1, 2, 3, 4, 5, 6].map((i) => (
               <DocumentSkeleton key={i} />
             ))}
           </div>
-        ) : filteredDocuments.length === 0 ? (
-          searchQuery ? (
+        ) : visibleDocuments.length === 0 && visibleFolders.length === 0 ? (
+          isFiltered ? (
             <EmptyState
               title="No documents found"
-              description={`No documents match your search "${searchQuery}". Try different keywords.`}
-              actionLabel="Clear Search"
-              onAction={() => setSearchQuery('')}
+              description={searchQuery.trim()
+                ? `No documents match your search "${searchQuery.trim()}". Try different keywords.`
+                : 'No documents match these filters.'}
+              actionLabel="Clear Filters"
+              onAction={clearFilters}
+            />
+          ) : currentFolderId ? (
+            <EmptyState
+              title="This folder is empty"
+              description={currentFolder?.isOwner
+                ? 'Create a document here or drag documents onto this folder.'
+                : 'Documents added to this folder will appear here.'}
+              actionLabel={currentFolder?.isOwner ? 'Create Document' : undefined}
+              onAction={currentFolder?.isOwner ? handleCreateDocument : undefined}
             />
           ) : (
             <EmptyState
-              title={activeTab === 'my-docs' ? 'No documents yet' : 'No shared documents'}
-              description={
-                activeTab === 'my-docs'
-                  ? 'Get started by creating your first document. Collaborate with your team in real-time.'
-                  : 'Documents shared with you by your team will appear here.'
-              }
-              actionLabel={activeTab === 'my-docs' ? 'Create First Document' : undefined}
-              onAction={activeTab === 'my-docs' ? handleCreateDocument : undefined}
+              title={EMPTY_STATES[activeTab].title}
+              description={EMPTY_STATES[activeTab].description}
+              actionLabel={activeTab === 'owned' ? 'Create First Document' : undefined}
+              onAction={activeTab === 'owned' ? handleCreateDocument : undefined}
             />
           )
         ) : (
-          <div className={view === 'grid' ? 'grid md:grid-cols-2 lg:grid-cols-3 gap-6' : 'space-y-4'}>
-            {filteredDocuments.map((doc) => (
-              <DocumentCard
-                key={doc.id}
-                {...doc}
-                onDelete={handleDeleteDocument}
-                onDuplicate={handleDuplicateDocument}
-                onShare={handleShareDocument}
-              />
-            ))}
-          </div>
+          <>
+            {visibleFolders.length > 0 && (
+              <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
+                {visibleFolders.map((folder) => (
+                  <FolderCard
+                    key={folder.id}
+                    folder={folder}
+                    onOpen={handleOpenFolder}
+                    onRename={handleRenameFolder}
+                    onShare={(id) => setShareFolder(folders.find(f => f.id === id) || null)}
+                    onCopy={handleCopyFolder}
+                    onDelete={handleDeleteFolder}
+                    onDropDocument={canFile ? handleMoveDocument : undefined}
+                    onDropFolder={canFile ? handleMoveFolder : undefined}
+                  />
+                ))}
+              </div>
+            )}
+            {activeTab === 'trash' && (
+              <div className="flex items-center justify-between mb-4 text-sm text-gray-600 dark:text-gray-400">
+                <p>Documents in the trash are deleted forever after {TRASH_RETENTION_DAYS} days.</p>
+                <button
+                  onClick={handleEmptyTrash}
+                  className="px-3 py-1.5 text-red-600 dark:text-red-400 font-medium hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                >
+                  Empty trash
+                </button>
+              </div>
+            )}
+            <div className={view === 'grid' ? 'grid md:grid-cols-2 lg:grid-cols-3 gap-6' : 'space-y-4'}>
+              {visibleDocuments.map((doc) => (
+                <DocumentCard
+                  key={doc.id}
+                  {...doc}
+                  owner={doc.owner || undefined}
+                  draggable={canFile && doc.isOwner}
+                  onDelete={handleDeleteDocument}
+                  onDuplicate={handleDuplicateDocument}
+                  onShare={handleShareDocument}
+                  onRestore={handleRestoreDocument}
+                  onToggleStar={handleToggleStar}
+                  onToggleArchive={handleToggleArchive}
+                  onTagClick={setSelectedTag}
+                />
+              ))}
+            </div>
+
+            {activeTab !== 'trash' && hasMore && (
+              <div className="mt-8 text-center">
+                <button
+                  onClick={handleLoadMore}
+                  disabled={loadingMore}
+                  className="px-6 py-2 bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-lg font-medium hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+                >
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </button>
+              </div>
+            )}
+          </>
         )}
 
         {/* Results Count */}
-        {!loading && filteredDocuments.length > 0 && (
+        {!searching && !loading && visibleDocuments.length > 0 && (
           <div className="mt-8 text-center">
             <p className="text-gray-600 dark:text-gray-400">
-              Showing {filteredDocuments.length} of {currentDocuments.length} document{currentDocuments.length !== 1 ? 's' : ''}
-              {searchQuery && ` matching "${searchQuery}"`}
+              Showing {visibleDocuments.length} of {visibleTotal} document{visibleTotal !== 1 ? 's' : ''}
+              {activeTab === 'trash' && searchQuery.trim() && ` matching "${searchQuery.trim()}"`}
             </p>
           </div>
         )}
       </main>
 
+      {/* Folder Share Modal */}
+      {shareFolder && (
+        <FolderShareModal
+          folder={shareFolder}
+          onClose={() => setShareFolder(null)}
+          onUpdated={(sharedWith) => setFolders(current =>
+            current.map(f => f.id === shareFolder.id ? { ...f, sharedWith } : f)
+          )}
+        />
+      )}
+
       {/* Share Modal */}
       {shareModalOpen && session?.user?.email && (
         <ShareModal
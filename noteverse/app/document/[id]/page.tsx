@@ -14,7 +14,7 @@
 
 'use client';
 
-import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
 import { useSession } from 'next-auth/react';
 import { useRouter, useParams } from 'next/navigation';
 import { useSocket } from '@/lib/socket/useSocket';
@@ -31,7 +31,27 @@ import RightSidebar from '@/app/components/document/RightSidebar';
 import StatusBar from '@/app/components/document/StatusBar';
 import ShareModal from '@/app/components/document/ShareModal';
 import DocumentSettings from '@/app/components/document/DocumentSettings';
+import VersionHistory from '@/app/components/document/VersionHistory';
+import AttributionHoverCard from '@/app/components/document/AttributionHoverCard';
+import type { PickedMention } from '@/app/components/document/ChatInput';
 import { Editor } from '@tiptap/react';
+import type { DocumentRole, GrantableRole } from '@/lib/documentAccess';
+import type { ServerToClientEvents } from '@/lib/socket/events';
+import { DEFAULT_TAB_ID, MAX_TABS, DocumentTab } from '@/lib/documentTabs';
+import {
+  DEFAULT_TABS,
+  addTab,
+  collectTabs,
+  deleteTab,
+  getRestoreCount,
+  getTabList,
+  moveTab,
+  renameTab,
+  restoreTabs,
+  seedTabs,
+  subscribeTabList
+} from '@/app/components/editor/tabFragments';
+import { setAttributionOverlay } from '@/app/components/editor/AttributionExtension';
 
 interface User {
   id: string;
@@ -40,11 +60,8 @@ interface User {
   cursorColor: string;
 }
 
-interface Tab {
-  id: string;
-  name: string;
-  content: string;
-}
+// Permission levels the editor page works with (no access redirects away)
+type DocumentPermission = Exclude<DocumentRole, 'none'>;
 
 export default function DocumentPage() {
   const { data: session, status } = useSession();
@@ -56,7 +73,7 @@ export default function DocumentPage() {
   // Document state
   const [documentTitle, setDocumentTitle] = useState('Untitled Document');
   const documentTitleRef = useRef('Untitled Document'); // Keep ref in sync with state for closures
-  const [documentContent, setDocumentContent] = useState(''); // Store fetched content
+  const [savedTabs, setSavedTabs] = useState<DocumentTab[] | null>(null); // Tabs as last saved, to seed Yjs from
   const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'unsaved'>('saved');
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [wordCount, setWordCount] = useState(0);
@@ -76,35 +93,18 @@ export default function DocumentPage() {
       console.log(`  [${idx}] ${msg.senderName}: ${msg.message} (${msg.timestamp})`);
     });
   }, [chatMessages]);
-  // Debug: Track documentContent changes
+
+  // Outcome of an approve/deny link from an access request email
   useEffect(() => {
-    console.log('📝 documentContent state changed:', {
-      length: documentContent?.length || 0,
-      preview: documentContent?.substring(0, 100),
-      fullContent: documentContent
-    });
-  }, [documentContent]);
-  // Tab state - Each tab has independent content stored as HTML
-  const [tabs, setTabs] = useState<Tab[]>([
-    { id: 'tab-1', name: 'Tab 1', content: '' }
-  ]);
-  const [activeTabId, setActiveTabId] = useState('tab-1');
+    const result = new URLSearchParams(window.location.search).get('accessRequest');
+    if (!result) return;
 
-  /**
-   * Save current editor content to active tab before switching
-   */
-  const saveCurrentTabContent = useCallback(() => {
-    if (editor && activeTabId) {
-      const html = editor.getHTML();
-      setTabs(prevTabs => 
-        prevTabs.map(tab => 
-          tab.id === activeTabId 
-            ? { ...tab, content: html }
-            : tab
-        )
-      );
-    }
-  }, [editor, activeTabId]);
+    if (result === 'approved') toast.success('Access request approved');
+    else if (result === 'rejected') toast.success('Access request denied');
+    else if (result === 'processed') toast('This access request was already handled');
+
+    router.replace(window.location.pathname);
+  }, [router]);
 
   // Auto-save timeout - use ref instead of state for proper closure handling
   const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -112,15 +112,23 @@ export default function DocumentPage() {
   // Share modal state
   const [showShareModal, setShowShareModal] = useState(false);
   const [isOwner, setIsOwner] = useState(false);
-  const [userPermission, setUserPermission] = useState<'viewer' | 'editor' | 'owner' | null>(null);
-  const userPermissionRef = useRef<'viewer' | 'editor' | 'owner' | null>(null); // Ref for latest value in closures
+  const [userPermission, setUserPermission] = useState<DocumentPermission | null>(null);
+  const userPermissionRef = useRef<DocumentPermission | null>(null); // Ref for latest value in closures
   const [ownerEmail, setOwnerEmail] = useState('');
   const [visibility, setVisibility] = useState<'restricted' | 'public'>('restricted');
-  const [publicPermission, setPublicPermission] = useState<'viewer' | 'editor'>('viewer');
+  const [publicPermission, setPublicPermission] = useState<GrantableRole>('viewer');
   const [hasPendingAccessRequest, setHasPendingAccessRequest] = useState(false);
 
+  // Viewers and commenters get a read-only editor; commenters can still use the comments tab
+  const isReadOnly = userPermission === 'viewer' || userPermission === 'commenter';
+  const canEditDocument = userPermission === 'editor' || userPermission === 'owner';
+  const canComment = canEditDocument || userPermission === 'commenter';
+
   // Document Settings modal state
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  // Attribution overlay: text colored by author
+  const [showAttribution, setShowAttribution] = useState(false);
 
   // Editor settings state
   const [editorSettings, setEditorSettings] = useState({
@@ -156,15 +164,13 @@ export default function DocumentPage() {
         const docVisibility = docData.document?.visibility || 'restricted';
         const docPublicPermission = docData.document?.publicPermission || 'viewer';
         const docTitle = docData.document?.title || 'Untitled Document';
-        const docContent = docData.document?.content || '';
+        const docTabs: DocumentTab[] = docData.document?.tabs || [];
         const isNewDoc = docData.document?.isNew || false;
         
         console.log('📄 Document loaded from API:', { 
           title: docTitle,
           isNew: isNewDoc,
-          contentLength: docContent.length,
-          contentPreview: docContent.substring(0, 100),
-          rawContent: docContent,
+          tabCount: docTabs.length,
           rawTitle: docData.document?.title,
           alreadyLoaded: contentLoadedRef.current 
         });
@@ -175,9 +181,8 @@ export default function DocumentPage() {
         setDocumentTitle(docTitle);
         documentTitleRef.current = docTitle; // Keep ref in sync
         
-        console.log('🔄 Setting documentContent state with content length:', docContent.length);
-        setDocumentContent(docContent); // Store content in state
-        console.log('✅ documentContent state set');
+        console.log('🔄 Setting savedTabs state with', docTabs.length, 'tab(s)');
+        setSavedTabs(docTabs);
         
         // Load editor settings from document
         if (docData.document?.settings) {
@@ -216,9 +221,9 @@ export default function DocumentPage() {
           console.log('🔍 User shares found:', userShares);
 
           if (userShares && userShares.length > 0) {
-            // Pick the highest permission: owner > editor > viewer
+            // Pick the highest permission: owner > editor > commenter > viewer
             const highestPermission = userShares.reduce((highest: any, current: any) => {
-              const permissions = { owner: 3, editor: 2, viewer: 1 };
+              const permissions = { owner: 4, editor: 3, commenter: 2, viewer: 1 };
               const currentLevel = permissions[current.permission as keyof typeof permissions] || 0;
               const highestLevel = permissions[highest.permission as keyof typeof permissions] || 0;
               return currentLevel > highestLevel ? current : highest;
@@ -238,8 +243,8 @@ export default function DocumentPage() {
         // Check if document is public (Anyone with the link)
         if (docVisibility === 'public') {
           // User can access via public link
-          setUserPermission(docPublicPermission as 'viewer' | 'editor');
-          userPermissionRef.current = docPublicPermission as 'viewer' | 'editor';
+          setUserPermission(docPublicPermission as GrantableRole);
+          userPermissionRef.current = docPublicPermission as GrantableRole;
           return;
         }
 
@@ -342,7 +347,7 @@ export default function DocumentPage() {
   }), [session?.user?.id, session?.user?.name, session?.user?.email, userProfile?.displayName, userProfile?.cursorColor]);
 
   // Initialize Yjs provider for collaboration
-  const { ydoc, synced } = useYjsProvider({
+  const { ydoc, synced, shouldSeed, attribution } = useYjsProvider({
     socket,
     documentId,
     user: currentUser,
@@ -357,6 +362,36 @@ export default function DocumentPage() {
     }
   });
 
+  // Tabs live in the Yjs document, so collaborators see every change
+  const subscribeTabs = useCallback(
+    (onChange: () => void) => (ydoc ? subscribeTabList(ydoc, onChange) : () => {}),
+    [ydoc]
+  );
+  const tabs = useSyncExternalStore(
+    subscribeTabs,
+    () => (ydoc ? getTabList(ydoc) : DEFAULT_TABS),
+    () => DEFAULT_TABS
+  );
+  const [selectedTabId, setSelectedTabId] = useState(DEFAULT_TAB_ID);
+  // Falls back to the first tab when a collaborator deletes the open one
+  const activeTabId = tabs.some((tab) => tab.id === selectedTabId) ? selectedTabId : tabs[0].id;
+
+  // The client picked to seed a document without Yjs state fills in all its tabs
+  const seededRef = useRef(false);
+  useEffect(() => {
+    if (!editor || !ydoc || !synced || !shouldSeed || !savedTabs || seededRef.current) return;
+
+    seededRef.current = true;
+    console.log(`🌱 Seeding ${savedTabs.length} tab(s) from saved HTML`);
+    seedTabs(editor, ydoc, savedTabs);
+  }, [editor, ydoc, synced, shouldSeed, savedTabs]);
+
+  // Keep the attribution overlay of the open tab's editor up to date
+  useEffect(() => {
+    if (!editor) return;
+    setAttributionOverlay(editor, { attribution, enabled: showAttribution });
+  }, [editor, attribution, showAttribution]);
+
   /**
    * Socket.io chat event listeners
    */
@@ -370,10 +405,6 @@ export default function DocumentPage() {
     console.log('  - Socket ID:', socket.id);
     console.log('  - Socket connected:', socket.connected);
     console.log('  - Document ID:', documentId);
-    
-    // Test socket is working
-    socket.emit('test-event', { test: 'ping' });
-    console.log('  - Test event emitted to verify socket works');
 
     // Listen for incoming chat messages
     const handleChatMessage = (message: any) => {
@@ -442,10 +473,29 @@ export default function DocumentPage() {
     };
   }, [socket, isConnected, documentId, isChatOpen, currentUser.id]); // Added dependencies for unread tracking
 
+  /**
+   * Version restores - the server has already rewritten the Yjs document
+   */
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleDocumentRestored: ServerToClientEvents['document-restored'] = ({ versionNumber, title, restoredBy }) => {
+      console.log(`⏪ Document restored to v${versionNumber} by ${restoredBy.name}`);
+      setDocumentTitle(title);
+      documentTitleRef.current = title;
+      toast(`Restored to v${versionNumber} by ${restoredBy.email === currentUser.email ? 'you' : restoredBy.name}`, { icon: '⏪' });
+    };
+
+    socket.on('document-restored', handleDocumentRestored);
+    return () => {
+      socket.off('document-restored', handleDocumentRestored);
+    };
+  }, [socket, currentUser.email]);
+
   /**
    * Send chat message
    */
-  const handleSendChatMessage = async (message: string) => {
+  const handleSendChatMessage = async (message: string, mentions: PickedMention[] = []) => {
     if (!message.trim() || !socket) return;
 
     console.log('📤 Sending chat message:', message);
@@ -457,6 +507,7 @@ export default function DocumentPage() {
     const optimisticMessage = {
       id: `temp-${Date.now()}`, // Temporary ID
       message: message.trim(),
+      mentions,
       senderId: currentUser.id,
       senderName: currentUser.name,
       senderEmail: currentUser.email || session?.user?.email || '',
@@ -472,7 +523,8 @@ export default function DocumentPage() {
       // Emit via Socket.io for real-time delivery to others
       socket.emit('send-chat-message', {
         documentId,
-        message: message.trim()
+        message: message.trim(),
+        mentions
       });
       
       console.log('✅ Message emitted via Socket.io');
@@ -481,7 +533,7 @@ export default function DocumentPage() {
       const response = await fetch(`/api/documents/${documentId}/chat`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: message.trim() })
+        body: JSON.stringify({ message: message.trim(), mentions })
       });
 
       if (!response.ok) {
@@ -531,27 +583,29 @@ export default function DocumentPage() {
    * Auto-save document content
    */
   const handleAutoSave = async (editor: Editor) => {
-    // Don't auto-save if user only has viewer permission
+    // Don't auto-save if user only has viewer or commenter permission
     const currentPermission = userPermissionRef.current;
     console.log('💾 Auto-save check - current permission:', currentPermission);
     
-    if (currentPermission === 'viewer') {
-      console.log('⚠️ Skipping auto-save: user has viewer permission only');
+    if (!ydoc || currentPermission === 'viewer' || currentPermission === 'commenter') {
+      console.log('⚠️ Skipping auto-save: user has read-only permission');
       return;
     }
     
     try {
       setSaveStatus('saving');
       
-      // Get document content
-      const content = editor.getHTML();
+      // Get the content of every tab from the shared Yjs document
+      const tabContents = collectTabs(editor, ydoc);
+      const contentLength = tabContents.reduce((length, tab) => length + tab.content.length, 0);
       
       // Use ref to get current title (avoids stale closure issue)
       const currentTitle = documentTitleRef.current;
       
       console.log('💾 Auto-saving document:', { 
         title: currentTitle, 
-        contentLength: content.length,
+        tabCount: tabContents.length,
+        contentLength,
         wordCount,
         charCount 
       });
@@ -561,10 +615,12 @@ export default function DocumentPage() {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ 
-          content,
+          tabs: tabContents,
           title: currentTitle,
           wordCount,
-          charCount
+          charCount,
+          // Lets the server reject content from before a version restore
+          restoreCount: getRestoreCount(ydoc)
         })
       });
 
@@ -579,7 +635,10 @@ export default function DocumentPage() {
         });
         
         // Show user-friendly error message
-        if (response.status === 403) {
+        if (response.status === 409) {
+          // A version was restored meanwhile; its content is on the way through Yjs and saves again
+          console.warn('⏪ Skipped saving content from before a version restore');
+        } else if (response.status === 403) {
           console.error('🚫 Permission denied - Current permission:', userPermissionRef.current);
           toast.error('You do not have permission to edit this document');
         } else if (response.status === 401) {
@@ -600,7 +659,7 @@ export default function DocumentPage() {
       
       // Log confirmation with timestamp
       console.log('💾 Save confirmed at:', new Date().toISOString(), {
-        contentLength: content.length,
+        contentLength,
         wordCount,
         charCount
       });
@@ -610,6 +669,38 @@ export default function DocumentPage() {
     }
   };
 
+  // Latest handleAutoSave for the debounced save, so it sends the current counts and session
+  const handleAutoSaveRef = useRef(handleAutoSave);
+  useEffect(() => {
+    handleAutoSaveRef.current = handleAutoSave;
+  });
+
+  /**
+   * Debounced auto-save after the content or the tabs change
+   */
+  const scheduleAutoSave = useCallback((editor: Editor) => {
+    // Only trigger auto-save if user has edit permission (owner or editor)
+    const currentPermission = userPermissionRef.current;
+    if (currentPermission !== 'owner' && currentPermission !== 'editor') {
+      console.log('⚠️ Skipping auto-save - user does not have edit permission');
+      return;
+    }
+
+    // Trigger auto-save
+    setSaveStatus('unsaved');
+    
+    // Clear previous timeout
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    
+    // Debounce save
+    saveTimeoutRef.current = setTimeout(() => {
+      console.log('⏰ Auto-save timeout triggered, calling handleAutoSave');
+      handleAutoSaveRef.current(editor);
+    }, 2000); // Save after 2 seconds of inactivity
+  }, []);
+
   /**
    * Handle editor ready event - apply initial settings and setup listeners
    */
@@ -644,28 +735,11 @@ export default function DocumentPage() {
       setWordCount(words);
       setCharCount(chars);
 
-      // Only trigger auto-save if user has edit permission (owner or editor)
-      if (currentPermission === 'owner' || currentPermission === 'editor') {
-        // Trigger auto-save
-        setSaveStatus('unsaved');
-        
-        // Clear previous timeout
-        if (saveTimeoutRef.current) {
-          clearTimeout(saveTimeoutRef.current);
-        }
-        
-        // Debounce save
-        saveTimeoutRef.current = setTimeout(() => {
-          console.log('⏰ Auto-save timeout triggered, calling handleAutoSave');
-          handleAutoSave(editor);
-        }, 2000); // Save after 2 seconds of inactivity
-      } else {
-        console.log('⚠️ Skipping auto-save - user does not have edit permission');
-      }
+      scheduleAutoSave(editor);
     });
     
     console.log('✅ Editor ready - initial settings applied');
-  }, [editorSettings, ydoc]);
+  }, [editorSettings, scheduleAutoSave]);
 
   // Cleanup auto-save timeout on unmount
   useEffect(() => {
@@ -683,9 +757,9 @@ export default function DocumentPage() {
   const handleTitleChange = async (newTitle: string) => {
     console.log('📝 Title change requested:', { oldTitle: documentTitle, newTitle });
     
-    // Don't allow title change if user only has viewer permission
-    if (userPermission === 'viewer') {
-      console.log('⚠️ Skipping title change: user has viewer permission only');
+    // Don't allow title change if user only has viewer or commenter permission
+    if (isReadOnly) {
+      console.log('⚠️ Skipping title change: user has read-only permission');
       toast.error('You do not have permission to edit this document');
       return;
     }
@@ -763,75 +837,68 @@ export default function DocumentPage() {
   };
 
   /**
-   * Tab management functions
+   * Tab management functions - changes go through Yjs so every collaborator
+   * sees them, and are saved like content edits
    */
   const handleTabChange = (tabId: string) => {
-    // Save current tab content before switching
-    saveCurrentTabContent();
-    
-    // Switch to new tab
-    setActiveTabId(tabId);
-    
-    // Load the new tab's content into editor
-    const newTab = tabs.find(t => t.id === tabId);
-    if (newTab && editor) {
-      editor.commands.setContent(newTab.content || '');
-    }
+    setSelectedTabId(tabId);
   };
 
   const handleTabAdd = () => {
-    // Save current tab content first
-    saveCurrentTabContent();
-    
-    const newTabId = `tab-${Date.now()}`; // Use timestamp for unique ID
-    const newTab: Tab = {
-      id: newTabId,
-      name: `Tab ${tabs.length + 1}`,
-      content: '' // Empty content for new tab
-    };
-    
-    setTabs([...tabs, newTab]);
-    setActiveTabId(newTabId);
-    
-    // Clear editor for new tab
-    if (editor) {
-      editor.commands.setContent('');
+    if (!ydoc || !editor) return;
+    if (tabs.length >= MAX_TABS) {
+      toast.error(`A document can have at most ${MAX_TABS} tabs`);
+      return;
     }
-  };
 
-  /**
-   * Periodically save tab content (auto-save for tabs)
-   */
-  useEffect(() => {
-    const interval = setInterval(() => {
-      saveCurrentTabContent();
-    }, 5000); // Save every 5 seconds
-
-    return () => clearInterval(interval);
-  }, [saveCurrentTabContent]);
+    const newTabId = addTab(ydoc, `Tab ${tabs.length + 1}`);
+    setSelectedTabId(newTabId);
+    scheduleAutoSave(editor);
+  };
 
   const handleTabRename = (tabId: string, newName: string) => {
-    setTabs(tabs.map(tab => 
-      tab.id === tabId ? { ...tab, name: newName } : tab
-    ));
+    if (!ydoc || !editor) return;
+    renameTab(ydoc, tabId, newName);
+    scheduleAutoSave(editor);
   };
 
   const handleTabDelete = (tabId: string) => {
-    if (tabs.length === 1) return; // Don't delete last tab
-    
-    const newTabs = tabs.filter(tab => tab.id !== tabId);
-    setTabs(newTabs);
-    
-    // Switch to first tab if deleting active tab
-    if (activeTabId === tabId) {
-      const firstTab = newTabs[0];
-      setActiveTabId(firstTab.id);
-      
-      // Load first tab's content
-      if (editor) {
-        editor.commands.setContent(firstTab.content || '');
-      }
+    if (!ydoc || !editor || tabs.length === 1) return; // Don't delete last tab
+    deleteTab(ydoc, tabId);
+    scheduleAutoSave(editor);
+  };
+
+  const handleTabMove = (tabId: string, toIndex: number) => {
+    if (!ydoc || !editor) return;
+    moveTab(ydoc, tabId, toIndex);
+    scheduleAutoSave(editor);
+  };
+
+  /**
+   * Restore a version; the server rewrites the shared Yjs document and
+   * announces it to the room (see handleDocumentRestored)
+   */
+  const handleRestoreVersion = async (versionId: string) => {
+    const response = await fetch(`/api/documents/${documentId}/versions/${versionId}/restore`, {
+      method: 'POST'
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      toast.error(data.error || 'Failed to restore version');
+      return;
     }
+
+    // No realtime server next to the API (standalone socket server): the
+    // restore reaches collaborators through this client's Yjs document
+    if (!data.live && editor && ydoc) {
+      restoreTabs(editor, ydoc, data.restoredContent.tabs, data.restoreCount);
+      setDocumentTitle(data.restoredContent.title);
+      documentTitleRef.current = data.restoredContent.title;
+      toast.success(data.message);
+    }
+
+    setShowVersionHistory(false);
   };
 
   /**
@@ -959,11 +1026,16 @@ export default function DocumentPage() {
         activeUsers={activeUsers}
         onShare={handleShare}
         onOpenSettings={() => setShowSettingsModal(true)}
+        onOpenHistory={() => setShowVersionHistory(true)}
+        showAttribution={showAttribution}
+        onToggleAttribution={() => setShowAttribution((shown) => !shown)}
         documentId={documentId}
         editor={editor}
-        isViewOnly={userPermission === 'viewer'}
+        ydoc={ydoc}
+        isViewOnly={isReadOnly}
         userPermission={userPermission}
         onRequestAccess={handleRequestAccess}
+        socket={socket}
       />
 
       {/* Fixed Editor Toolbar - 48px height */}
@@ -971,7 +1043,8 @@ export default function DocumentPage() {
         editor={editor} 
         currentFont={editorSettings.defaultFont}
         currentFontSize={editorSettings.defaultFontSize}
-        readOnly={userPermission === 'viewer'}
+        readOnly={isReadOnly}
+        documentId={documentId}
       />
 
       {/* Left Sidebar - Document Tabs */}
@@ -979,10 +1052,12 @@ export default function DocumentPage() {
         editor={editor}
         activeTabId={activeTabId}
         tabs={tabs}
+        readOnly={isReadOnly}
         onTabChange={handleTabChange}
         onTabAdd={handleTabAdd}
         onTabRename={handleTabRename}
         onTabDelete={handleTabDelete}
+        onTabMove={handleTabMove}
       />
 
       {/* Main Editor Area - ONLY SCROLLABLE PART */}
@@ -995,15 +1070,16 @@ export default function DocumentPage() {
           {/* White document card - Google Docs style */}
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg min-h-[calc(100vh-180px)] p-16">
             <TipTapEditor
-              key={documentId}
+              key={`${documentId}:${activeTabId}`}
               ydoc={ydoc}
               currentUser={currentUser}
               onReady={handleEditorReady}
               provider={null}
-              readOnly={userPermission === 'viewer'}
-              initialContent={documentContent}
+              readOnly={isReadOnly}
+              field={activeTabId}
               documentId={documentId}
             />
+            {showAttribution && <AttributionHoverCard editor={editor} attribution={attribution} />}
           </div>
         </div>
       </main>
@@ -1015,7 +1091,14 @@ export default function DocumentPage() {
         chatMessages={chatMessages}
         currentUserId={currentUser.id}
         onSendMessage={handleSendChatMessage}
-        canSendMessage={userPermission === 'editor' || userPermission === 'owner'}
+        canSendMessage={canEditDocument}
+        canComment={canComment}
+        canEditDocument={canEditDocument}
+        isOwner={isOwner}
+        editor={editor}
+        activeTabId={activeTabId}
+        tabs={tabs}
+        onSelectTab={handleTabChange}
         unreadCount={unreadChatCount}
         onChatOpen={handleChatOpen}
       />
@@ -1047,15 +1130,27 @@ export default function DocumentPage() {
         <DocumentSettings
           documentId={documentId}
           isOwner={isOwner}
-          isEditor={userPermission === 'editor' || userPermission === 'owner'}
+          isEditor={canEditDocument}
           onClose={() => setShowSettingsModal(false)}
           currentTitle={documentTitle}
           onTitleChange={handleTitleChange}
           editor={editor}
+          ydoc={ydoc}
+          attribution={attribution}
           onSettingsUpdate={handleSettingsUpdate}
         />
       )}
 
+      {/* Version History Modal */}
+      {showVersionHistory && (
+        <VersionHistory
+          documentId={documentId}
+          canEdit={canEditDocument}
+          onRestore={handleRestoreVersion}
+          onClose={() => setShowVersionHistory(false)}
+        />
+      )}
+
       {/* Connection Status - Professional & Subtle */}
       {!isConnected && isConnecting && (
         <div className="fixed top-4 right-4 bg-white dark:bg-gray-800 border border-yellow-200 dark:border-yellow-800 px-4 py-2 rounded-md shadow-sm z-50">
@@ -31,7 +31,9 @@ export default function LoginPage() {
       if (result?.error) {
         setError(result.error);
       } else {
-        router.push('/dashboard');
+        // Return to where sign-in was required (e.g. an approve link from an email)
+        const callbackUrl = new URLSearchParams(window.location.search).get('callbackUrl');
+        router.push(callbackUrl?.startsWith('/') && !callbackUrl.startsWith('//') ? callbackUrl : '/dashboard');
         router.refresh();
       }
     } catch (err) {
@@ -13,6 +13,8 @@ import CollaborationIdentity from '../components/profile/CollaborationIdentity';
 import SecuritySettings from '../components/profile/SecuritySettings';
 import ActivitySummary from '../components/profile/ActivitySummary';
 import DangerZone from '../components/profile/DangerZone';
+import EmailNotifications from '../components/profile/EmailNotifications';
+import { DEFAULT_EMAIL_PREFERENCES, EmailNotificationPreferences } from '@/lib/emailPreferences';
 
 export default function ProfilePage() {
   const { data: session, status } = useSession();
@@ -40,6 +42,9 @@ export default function ProfilePage() {
     autoSave: true
   });
 
+  // Email notification opt-outs
+  const [emailNotifications, setEmailNotifications] = useState<EmailNotificationPreferences>(DEFAULT_EMAIL_PREFERENCES);
+
   // Activity stats
   const [stats, setStats] = useState({
     documentsCreated: 0,
@@ -102,6 +107,8 @@ export default function ProfilePage() {
         autoSave: true
       });
       
+      setEmailNotifications(data.emailNotifications || DEFAULT_EMAIL_PREFERENCES);
+      
       setStats(data.stats || {
         documentsCreated: 0,
         documentsShared: 0,
@@ -207,22 +214,28 @@ export default function ProfilePage() {
 
   const handleAvatarChange = async (file: File) => {
     try {
-      // For now, we'll use a placeholder URL
-      // In production, upload to cloud storage (S3, Cloudinary, etc.)
-      const reader = new FileReader();
-      reader.onloadend = async () => {
-        const imageUrl = reader.result as string;
-        await updateProfile({ image: imageUrl });
-        toast.success('Profile photo updated successfully');
-      };
-      reader.readAsDataURL(file);
+      // Stored as an attachment; the profile image becomes its URL
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/profile/photo', { method: 'POST', body: formData });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update profile photo');
+      }
+
+      setProfile({ ...profile, image: data.image });
+      toast.success('Profile photo updated successfully');
     } catch (error) {
-      toast.error('Failed to update profile photo');
+      toast.error(error instanceof Error ? error.message : 'Failed to update profile photo');
     }
   };
   const handleAvatarDelete = async () => {
     try {
-      await updateProfile({ image: null });
+      const response = await fetch('/api/profile/photo', { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to delete profile photo');
+      }
+
       setProfile({ ...profile, image: '' });
       toast.success('Profile photo deleted successfully');
       await fetchProfile(false); // Don't reapply theme
@@ -241,6 +254,17 @@ export default function ProfilePage() {
     });
   };
 
+  const handleEmailNotificationsChange = async (newPreferences: EmailNotificationPreferences) => {
+    const previousPreferences = emailNotifications;
+    setEmailNotifications(newPreferences);
+    try {
+      await updateProfile({ emailNotifications: newPreferences });
+    } catch {
+      // updateProfile has already logged the error and shown it
+      setEmailNotifications(previousPreferences);
+    }
+  };
+
   const handleDisplayNameChange = async (displayName: string) => {
     // Client-side validation
     if (displayName && displayName.length > 100) {
@@ -325,20 +349,24 @@ export default function ProfilePage() {
     }
   };
 
-  const handleDeleteAccount = async () => {
+  const handleDeleteAccount = async (transferTo?: string) => {
     try {
       const response = await fetch('/api/profile', {
-        method: 'DELETE'
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ transferTo })
       });
 
+      const data = await response.json();
+
       if (!response.ok) {
-        throw new Error('Failed to delete account');
+        throw new Error(data.error || 'Failed to delete account');
       }
 
-      toast.success('Account deleted successfully');
+      toast.success(data.message || 'Account deleted successfully');
       router.push('/');
     } catch (error) {
-      toast.error('Failed to delete account');
+      toast.error(error instanceof Error ? error.message : 'Failed to delete account');
     }
   };
 
@@ -395,6 +423,11 @@ export default function ProfilePage() {
             onPreferencesChange={handlePreferencesChange}
           />
 
+          <EmailNotifications
+            preferences={emailNotifications}
+            onPreferencesChange={handleEmailNotificationsChange}
+          />
+
           <CollaborationIdentity
             displayName={profile.displayName}
             cursorColor={profile.cursorColor}
@@ -0,0 +1,162 @@
+'use client';
+
+import { use, useCallback, useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import ThemeToggle from '../../components/ThemeToggle';
+
+interface LinkInfo {
+  documentTitle: string;
+  role: 'viewer' | 'commenter' | 'editor';
+  requiresPassword: boolean;
+}
+
+const ROLE_LABELS: Record<LinkInfo['role'], string> = {
+  viewer: 'view',
+  commenter: 'comment on',
+  editor: 'edit'
+};
+
+export default function ShareLinkPage({ params }: { params: Promise<{ token: string }> }) {
+  const router = useRouter();
+  const { token } = use(params);
+  const { status } = useSession();
+  const [info, setInfo] = useState<LinkInfo | null>(null);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const openLink = useCallback(async (linkPassword?: string) => {
+    try {
+      const response = await fetch(`/api/share-links/${token}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: linkPassword })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        router.replace(`/document/${data.documentId}`);
+      } else {
+        setError(data.error || 'Failed to open link');
+        setLoading(false);
+      }
+    } catch (error) {
+      console.error('Failed to open share link:', error);
+      setError('An error occurred. Please try again.');
+      setLoading(false);
+    }
+  }, [token, router]);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push(`/login?callbackUrl=${encodeURIComponent(`/s/${token}`)}`);
+      return;
+    }
+
+    if (status !== 'authenticated') return;
+
+    // Look the link up, then open it straight away unless it needs a password
+    fetch(`/api/share-links/${token}`)
+      .then(async (response) => {
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || 'This link is invalid');
+          return;
+        }
+
+        setInfo(data);
+        if (!data.requiresPassword) {
+          await openLink();
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to load share link:', error);
+        setError('An error occurred. Please try again.');
+      });
+  }, [status, token, router, openLink]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    openLink(password);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center px-4 py-12">
+      {/* Theme Toggle - Fixed Position */}
+      <div className="fixed top-6 right-6 z-50">
+        <ThemeToggle />
+      </div>
+
+      <div className="max-w-md w-full">
+        {/* Logo */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center gap-2 mb-6">
+            <div className="w-12 h-12 bg-gradient-to-br from-indigo-500 to-purple-600 rounded-xl flex items-center justify-center">
+              <svg className="w-7 h-7 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+              </svg>
+            </div>
+            <span className="text-2xl font-bold text-gray-900 dark:text-white">NoteVerse</span>
+          </Link>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 p-8">
+          {error && !info?.requiresPassword ? (
+            <div className="text-center">
+              <h1 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Can&apos;t open this link</h1>
+              <p className="text-gray-600 dark:text-gray-300 mb-6">{error}</p>
+              <Link href="/dashboard" className="text-indigo-600 hover:text-indigo-700 font-semibold">
+                Go to your documents
+              </Link>
+            </div>
+          ) : info?.requiresPassword ? (
+            <form onSubmit={handleSubmit} className="space-y-5">
+              <div className="text-center">
+                <h1 className="text-xl font-bold text-gray-900 dark:text-white mb-2">{info.documentTitle}</h1>
+                <p className="text-gray-600 dark:text-gray-300">
+                  This link lets you {ROLE_LABELS[info.role]} the document. Enter its password to continue.
+                </p>
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+                  {error}
+                </div>
+              )}
+
+              <input
+                type="password"
+                required
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all outline-none"
+                placeholder="Link password"
+              />
+
+              <button
+                type="submit"
+                disabled={loading || !password}
+                className="w-full py-3 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-semibold rounded-lg hover:from-indigo-700 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                {loading ? 'Opening...' : 'Open document'}
+              </button>
+            </form>
+          ) : (
+            <div className="flex flex-col items-center gap-4 py-4">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+              <p className="text-gray-600 dark:text-gray-300">
+                {info ? `Opening "${info.documentTitle}"...` : 'Checking link...'}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,27 @@
 'use client';
 
-import { useState } from 'react';
+import { use, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { signIn } from 'next-auth/react';
 import Link from 'next/link';
 import ThemeToggle from '../components/ThemeToggle';
 
-export default function SignupPage() {
+// Only follow relative callback URLs (e.g. back to the document an invitation was for)
+function safeCallbackUrl(callbackUrl?: string) {
+  return callbackUrl?.startsWith('/') && !callbackUrl.startsWith('//') ? callbackUrl : '/dashboard';
+}
+
+export default function SignupPage({
+  searchParams
+}: {
+  searchParams: Promise<{ email?: string; callbackUrl?: string }>;
+}) {
   const router = useRouter();
+  // Invitation emails link here with the invited address filled in
+  const { email: invitedEmail, callbackUrl } = use(searchParams);
   const [formData, setFormData] = useState({
     name: '',
-    email: '',
+    email: invitedEmail || '',
     password: '',
     confirmPassword: '',
   });
@@ -67,7 +78,7 @@ export default function SignupPage() {
         setError('Account created but sign in failed. Please try logging in.');
         setLoading(false);
       } else {
-        router.push('/dashboard');
+        router.push(safeCallbackUrl(callbackUrl));
         router.refresh();
       }
     } catch (err) {
@@ -103,7 +114,7 @@ export default function SignupPage() {
           {/* Google Sign Up Button */}
           <button
             type="button"
-            onClick={() => signIn('google', { callbackUrl: '/dashboard' })}
+            onClick={() => signIn('google', { callbackUrl: safeCallbackUrl(callbackUrl) })}
             className="w-full flex items-center justify-center gap-3 bg-white dark:bg-gray-700 border-2 border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 py-3 rounded-lg font-semibold hover:bg-gray-50 dark:hover:bg-gray-600 hover:border-gray-400 transition-all duration-200 mb-4"
           >
             <svg className="w-5 h-5" viewBox="0 0 24 24">
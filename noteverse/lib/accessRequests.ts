@@ -0,0 +1,100 @@
+/**
+ * Access Requests
+ *
+ * Approving or rejecting an edit-access request, shared by the owner's
+ * in-app panel (PATCH) and the approve/deny links in the request email (GET).
+ * Email links carry a signed token so they can't be forged into a
+ * cross-site request; the owner still has to be signed in.
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { notifyUsers, displayName } from './notifications';
+import { setDocumentShare } from './sharing';
+
+export type AccessRequestAction = 'approve' | 'reject';
+
+export function isAccessRequestAction(value: unknown): value is AccessRequestAction {
+  return value === 'approve' || value === 'reject';
+}
+
+/**
+ * Token for an approve/deny email link
+ */
+export function signAccessRequestAction(requestId: string, action: AccessRequestAction): string {
+  return createHmac('sha256', process.env.NEXTAUTH_SECRET || '')
+    .update(`access-request:${requestId}:${action}`)
+    .digest('hex');
+}
+
+export function verifyAccessRequestAction(requestId: string, action: AccessRequestAction, token: string): boolean {
+  const expected = Buffer.from(signAccessRequestAction(requestId, action));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Link that approves or rejects a request from the owner's email
+ */
+export function accessRequestActionUrl(documentId: string, requestId: string, action: AccessRequestAction): string {
+  const token = signAccessRequestAction(requestId, action);
+  return `${process.env.NEXTAUTH_URL}/api/documents/${documentId}/access-request/${requestId}?action=${action}&token=${token}`;
+}
+
+/**
+ * Approve (share as editor) or reject a pending request and notify the requester
+ */
+export async function processAccessRequest(
+  db: Db,
+  {
+    accessRequest,
+    document,
+    owner,
+    action
+  }: {
+    accessRequest: WithId<MongoDocument>;
+    document: WithId<MongoDocument>;
+    owner: WithId<MongoDocument>;
+    action: AccessRequestAction;
+  }
+): Promise<void> {
+  // Ensure requesterId is an ObjectId
+  const requesterId = accessRequest.requesterId instanceof ObjectId
+    ? accessRequest.requesterId
+    : new ObjectId(accessRequest.requesterId);
+
+  if (action === 'approve') {
+    await setDocumentShare(db, {
+      document,
+      recipient: { _id: requesterId, email: accessRequest.requesterEmail },
+      role: 'editor'
+    });
+
+    console.log(`✅ Access request approved: ${accessRequest.requesterEmail} granted edit access to "${document.title}"`);
+  } else {
+    console.log(`❌ Access request rejected: ${accessRequest.requesterEmail} denied edit access to "${document.title}"`);
+  }
+
+  // Update request status
+  await db.collection('accessRequests').updateOne(
+    { _id: accessRequest._id },
+    {
+      $set: {
+        status: action === 'approve' ? 'approved' : 'rejected',
+        processedBy: owner._id,
+        processedAt: new Date(),
+        updatedAt: new Date()
+      }
+    }
+  );
+
+  await notifyUsers(db, [{
+    recipientId: requesterId,
+    type: action === 'approve' ? 'access_request_approved' : 'access_request_rejected',
+    actor: owner,
+    document,
+    message: action === 'approve'
+      ? `${displayName(owner)} gave you edit access to "${document.title || 'Untitled Document'}"`
+      : `${displayName(owner)} declined your request to edit "${document.title || 'Untitled Document'}"`
+  }]);
+}
@@ -0,0 +1,80 @@
+/**
+ * Attachment Storage
+ *
+ * Where the bytes of uploaded files live. lib/attachments.ts keeps the
+ * metadata and access rules and only talks to the AttachmentStore interface,
+ * so the store can be swapped with ATTACHMENT_STORAGE:
+ * - gridfs (default): the attachmentFiles GridFS bucket in MongoDB
+ * - disk: one file per attachment under ATTACHMENT_DIR (default ./uploads)
+ */
+
+import { Db, GridFSBucket, ObjectId } from 'mongodb';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+
+export interface AttachmentStore {
+  save(id: ObjectId, data: Buffer, contentType: string): Promise<void>;
+  read(id: ObjectId): Promise<Buffer | null>; // null when the file is missing
+  remove(id: ObjectId): Promise<void>;
+}
+
+function gridFsStore(db: Db): AttachmentStore {
+  const bucket = new GridFSBucket(db, { bucketName: 'attachmentFiles' });
+
+  return {
+    save: (id, data, contentType) => new Promise<void>((resolve, reject) => {
+      bucket.openUploadStreamWithId(id, id.toString(), { metadata: { contentType } })
+        .on('finish', () => resolve())
+        .on('error', reject)
+        .end(data);
+    }),
+
+    read: async (id) => {
+      if (!(await bucket.find({ _id: id }).hasNext())) return null;
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of bucket.openDownloadStream(id)) {
+        chunks.push(chunk);
+      }
+      return Buffer.concat(chunks);
+    },
+
+    remove: async (id) => {
+      if (await bucket.find({ _id: id }).hasNext()) {
+        await bucket.delete(id);
+      }
+    }
+  };
+}
+
+function diskStore(directory: string): AttachmentStore {
+  const filePath = (id: ObjectId) => path.join(directory, id.toString());
+
+  return {
+    save: async (id, data) => {
+      await mkdir(directory, { recursive: true });
+      await writeFile(filePath(id), data);
+    },
+
+    read: async (id) => {
+      try {
+        return await readFile(filePath(id));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    remove: (id) => rm(filePath(id), { force: true })
+  };
+}
+
+/**
+ * The configured attachment store
+ */
+export function getAttachmentStore(db: Db): AttachmentStore {
+  if (process.env.ATTACHMENT_STORAGE === 'disk') {
+    return diskStore(process.env.ATTACHMENT_DIR || path.join(process.cwd(), 'uploads'));
+  }
+  return gridFsStore(db);
+}
@@ -0,0 +1,388 @@
+/**
+ * Attachments
+ *
+ * Uploaded files (images in documents and profile photos) are stored once
+ * and referenced by a stable URL (/api/attachments/[id]) instead of being
+ * embedded as data URLs in document HTML, versions and Yjs updates.
+ * The bytes live in the configured store (lib/attachmentStorage.ts), the
+ * metadata in the attachments collection.
+ *
+ * Document attachments can be read by anyone who can view one of the
+ * documents they belong to. Copying or pasting an attachment URL into another
+ * document adds that document, if the user saving it can see the attachment
+ * (linkAttachments). Profile photos can be read by anyone.
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import { createHash } from 'crypto';
+import * as Y from 'yjs';
+import { getAttachmentStore } from './attachmentStorage';
+import { canView, getDocumentRole, getInheritedFolderRole } from './documentAccess';
+import { DEFAULT_TAB_ID, DocumentTab, TABS_LIST, getDocumentTabs } from './documentTabs';
+import { transformVersionTabs } from './versionStorage';
+import { loadPersistedDocument, storeUpdate } from './socket/yjsPersistence';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB
+
+export const ATTACHMENT_PATH = '/api/attachments/';
+
+export type AttachmentKind = 'document' | 'avatar';
+
+export interface AttachmentRecord {
+  _id?: ObjectId;
+  kind: AttachmentKind;
+  documents: ObjectId[]; // Documents that may show it (empty for profile photos)
+  uploadedBy: ObjectId;
+  filename: string;
+  contentType: string;
+  size: number;
+  sha256: string;
+  createdAt: Date;
+}
+
+// API format
+export interface Attachment {
+  id: string;
+  url: string;
+  filename: string;
+  contentType: string;
+  size: number;
+}
+
+// File signatures of the image types that can be uploaded
+const IMAGE_SIGNATURES: Array<{ contentType: string; matches: (data: Buffer) => boolean }> = [
+  { contentType: 'image/png', matches: (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { contentType: 'image/jpeg', matches: (data) => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { contentType: 'image/gif', matches: (data) => ['GIF87a', 'GIF89a'].includes(data.subarray(0, 6).toString('latin1')) },
+  { contentType: 'image/webp', matches: (data) => data.subarray(0, 4).toString('latin1') === 'RIFF' && data.subarray(8, 12).toString('latin1') === 'WEBP' },
+  { contentType: 'image/avif', matches: (data) => data.subarray(4, 12).toString('latin1') === 'ftypavif' }
+];
+
+// src attributes holding base64 image data URLs
+const DATA_URL_SRC_PATTERN = /(src\s*=\s*["'])(data:image\/[^;"']+;base64,[^"']+)(["'])/gi;
+const ATTACHMENT_URL_PATTERN = /\/api\/attachments\/([0-9a-f]{24})/gi;
+
+function attachments(db: Db) {
+  return db.collection<AttachmentRecord>('attachments');
+}
+
+export function attachmentUrl(id: ObjectId | string): string {
+  return `${ATTACHMENT_PATH}${id.toString()}`;
+}
+
+/**
+ * Convert a stored attachment to the API format
+ */
+export function formatAttachment(attachment: WithId<AttachmentRecord>): Attachment {
+  return {
+    id: attachment._id.toString(),
+    url: attachmentUrl(attachment._id),
+    filename: attachment.filename,
+    contentType: attachment.contentType,
+    size: attachment.size
+  };
+}
+
+/**
+ * The image type of a file from its first bytes (the type a browser sends
+ * can't be trusted); null for anything else
+ */
+export function detectImageType(data: Buffer): string | null {
+  return IMAGE_SIGNATURES.find((signature) => signature.matches(data))?.contentType || null;
+}
+
+/**
+ * Store an uploaded image
+ * A document gets the attachment it already has for identical bytes.
+ */
+export async function storeAttachment(
+  db: Db,
+  {
+    data,
+    filename,
+    kind,
+    uploadedBy,
+    document
+  }: {
+    data: Buffer;
+    filename: string;
+    kind: AttachmentKind;
+    uploadedBy: ObjectId;
+    document?: ObjectId;
+  }
+): Promise<WithId<AttachmentRecord> | { error: string; code: number }> {
+  if (data.length === 0) {
+    return { error: 'The file is empty', code: 400 };
+  }
+  if (data.length > MAX_ATTACHMENT_SIZE) {
+    return { error: `Files can be at most ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB`, code: 413 };
+  }
+
+  const contentType = detectImageType(data);
+  if (!contentType) {
+    return { error: 'Only PNG, JPEG, GIF, WebP and AVIF images can be uploaded', code: 415 };
+  }
+
+  const sha256 = createHash('sha256').update(data).digest('hex');
+  if (document) {
+    const existing = await attachments(db).findOne({ kind, documents: document, sha256 });
+    if (existing) return existing;
+  }
+
+  const attachment: WithId<AttachmentRecord> = {
+    _id: new ObjectId(),
+    kind,
+    documents: document ? [document] : [],
+    uploadedBy,
+    filename: filename.slice(0, 255) || 'image',
+    contentType,
+    size: data.length,
+    sha256,
+    createdAt: new Date()
+  };
+
+  await getAttachmentStore(db).save(attachment._id, data, contentType);
+  await attachments(db).insertOne(attachment);
+  console.log(`📎 Stored ${kind} attachment ${attachment._id} (${contentType}, ${data.length} bytes)`);
+
+  return attachment;
+}
+
+export async function findAttachment(db: Db, attachmentId: string): Promise<WithId<AttachmentRecord> | null> {
+  if (!ObjectId.isValid(attachmentId)) return null;
+  return attachments(db).findOne({ _id: new ObjectId(attachmentId) });
+}
+
+/**
+ * Whether a user (null for guests) may read an attachment: profile photos are
+ * public, document attachments need view access to one of their documents
+ */
+export async function canReadAttachment(
+  db: Db,
+  attachment: AttachmentRecord,
+  user: WithId<MongoDocument> | null
+): Promise<boolean> {
+  if (attachment.kind === 'avatar') return true;
+  if (attachment.documents.length === 0) return false;
+
+  const documents = await db.collection('documents')
+    .find({ _id: { $in: attachment.documents } })
+    .toArray();
+
+  for (const document of documents) {
+    const inheritedRole = await getInheritedFolderRole(db, document.folder, user);
+    if (canView(getDocumentRole(document, user, inheritedRole))) return true;
+  }
+  return false;
+}
+
+/**
+ * The bytes of an attachment (null when its file is missing from the store)
+ */
+export function readAttachmentData(db: Db, attachment: WithId<AttachmentRecord>): Promise<Buffer | null> {
+  return getAttachmentStore(db).read(attachment._id);
+}
+
+export async function deleteAttachment(db: Db, attachment: WithId<AttachmentRecord>): Promise<void> {
+  await getAttachmentStore(db).remove(attachment._id);
+  await attachments(db).deleteOne({ _id: attachment._id });
+  console.log(`🗑️ Deleted attachment ${attachment._id}`);
+}
+
+/**
+ * The profile photo a user uploaded, if their image is one
+ */
+export async function findProfilePhoto(db: Db, user: WithId<MongoDocument>): Promise<WithId<AttachmentRecord> | null> {
+  const [, id] = /^\/api\/attachments\/([0-9a-f]{24})$/i.exec(user.image || '') || [];
+  if (!id) return null;
+  return attachments(db).findOne({ _id: new ObjectId(id), kind: 'avatar', uploadedBy: user._id });
+}
+
+/**
+ * Ids of the attachments an HTML string refers to
+ */
+export function attachmentIdsIn(html: string): string[] {
+  return [...new Set([...html.matchAll(ATTACHMENT_URL_PATTERN)].map(([, id]) => id.toLowerCase()))];
+}
+
+/**
+ * Let a document show the attachments its tabs refer to (e.g. after a copy
+ * or a paste from another document), as far as the user saving them can see
+ * them. Returns the number of attachments added.
+ */
+export async function linkAttachments(
+  db: Db,
+  docObjectId: ObjectId,
+  tabs: DocumentTab[],
+  user: WithId<MongoDocument>
+): Promise<number> {
+  const ids = attachmentIdsIn(tabs.map((tab) => tab.content).join(''));
+  if (ids.length === 0) return 0;
+
+  const unlinked = await attachments(db)
+    .find({ _id: { $in: ids.map((id) => new ObjectId(id)) }, kind: 'document', documents: { $ne: docObjectId } })
+    .toArray();
+
+  let linked = 0;
+  for (const attachment of unlinked) {
+    if (!(await canReadAttachment(db, attachment, user))) continue;
+    await attachments(db).updateOne({ _id: attachment._id }, { $addToSet: { documents: docObjectId } });
+    linked++;
+  }
+
+  if (linked > 0) {
+    console.log(`📎 Linked ${linked} attachment(s) to document ${docObjectId}`);
+  }
+  return linked;
+}
+
+/**
+ * Detach a deleted document from its attachments and delete the ones no
+ * other document uses
+ */
+export async function releaseDocumentAttachments(db: Db, docObjectId: ObjectId): Promise<void> {
+  const used = await attachments(db).find({ documents: docObjectId }, { projection: { _id: 1 } }).toArray();
+  if (used.length === 0) return;
+
+  await attachments(db).updateMany({ documents: docObjectId }, { $pull: { documents: docObjectId } });
+
+  const orphans = await attachments(db)
+    .find({ _id: { $in: used.map((attachment) => attachment._id) }, documents: { $size: 0 } })
+    .toArray();
+  for (const orphan of orphans) {
+    await deleteAttachment(db, orphan);
+  }
+}
+
+/**
+ * Store the image of a data URL as an attachment of a document; null when
+ * it isn't an image that can be uploaded (it stays embedded)
+ */
+async function attachDataUrl(
+  db: Db,
+  dataUrl: string,
+  document: ObjectId,
+  uploadedBy: ObjectId
+): Promise<string | null> {
+  const data = Buffer.from(dataUrl.slice(dataUrl.indexOf(',') + 1).replace(/\s/g, ''), 'base64');
+  const attachment = await storeAttachment(db, { data, filename: 'image', kind: 'document', uploadedBy, document });
+  return '_id' in attachment ? attachmentUrl(attachment._id) : null;
+}
+
+/**
+ * Replace the embedded (data URL) images of some HTML with attachments of
+ * a document; urls caches the attachment URL of every data URL seen
+ */
+async function extractEmbeddedImages(
+  db: Db,
+  html: string,
+  document: WithId<MongoDocument>,
+  urls: Map<string, string | null>
+): Promise<string> {
+  for (const [, , dataUrl] of html.matchAll(DATA_URL_SRC_PATTERN)) {
+    if (!urls.has(dataUrl)) {
+      urls.set(dataUrl, await attachDataUrl(db, dataUrl, document._id, document.owner));
+    }
+  }
+
+  return html.replace(DATA_URL_SRC_PATTERN, (match, before: string, dataUrl: string, after: string) => {
+    const url = urls.get(dataUrl);
+    return url ? `${before}${url}${after}` : match;
+  });
+}
+
+/**
+ * Replace embedded images in the persisted Yjs state of a document room
+ * Rooms open on a running realtime server only pick this up once reloaded.
+ */
+async function extractYjsImages(
+  db: Db,
+  docName: string,
+  document: WithId<MongoDocument>,
+  urls: Map<string, string | null>
+): Promise<number> {
+  const { ydoc, hasPersistedState } = await loadPersistedDocument(docName);
+  if (!hasPersistedState) return 0;
+
+  const tabIds = new Set([
+    DEFAULT_TAB_ID,
+    ...ydoc.getArray<Y.Map<string>>(TABS_LIST).toArray().map((entry) => entry.get('id') || '')
+  ]);
+  const images: Y.XmlElement[] = [];
+  for (const tabId of tabIds) {
+    for (const node of ydoc.getXmlFragment(tabId).createTreeWalker((element) =>
+      element instanceof Y.XmlElement && element.nodeName === 'image' && /^data:image\//.test(String(element.getAttribute('src') || ''))
+    )) {
+      images.push(node as Y.XmlElement);
+    }
+  }
+
+  for (const image of images) {
+    const dataUrl = String(image.getAttribute('src'));
+    if (!urls.has(dataUrl)) {
+      urls.set(dataUrl, await attachDataUrl(db, dataUrl, document._id, document.owner));
+    }
+  }
+
+  const stateBefore = Y.encodeStateVector(ydoc);
+  let replaced = 0;
+  ydoc.transact(() => {
+    for (const image of images) {
+      const url = urls.get(String(image.getAttribute('src')));
+      if (!url) continue;
+      image.setAttribute('src', url);
+      replaced++;
+    }
+  });
+
+  if (replaced > 0) {
+    await storeUpdate(docName, Y.encodeStateAsUpdate(ydoc, stateBefore));
+  }
+  ydoc.destroy();
+  return replaced;
+}
+
+/**
+ * Move the images embedded in every document, its versions and its Yjs
+ * state into attachments (see scripts/migrate-attachments.ts)
+ */
+export async function migrateAttachments(db: Db): Promise<void> {
+  const cursor = db.collection('documents').find({});
+  let migratedDocuments = 0;
+
+  for await (const document of cursor) {
+    // Every copy of an image in the document becomes the same attachment
+    const urls = new Map<string, string | null>();
+    const extract = async (tabs: DocumentTab[]) => {
+      const result: DocumentTab[] = [];
+      for (const tab of tabs) {
+        result.push({ ...tab, content: await extractEmbeddedImages(db, tab.content, document, urls) });
+      }
+      return result;
+    };
+
+    const tabs = getDocumentTabs(document);
+    const extracted = await extract(tabs);
+    if (extracted.some((tab, index) => tab.content !== tabs[index].content)) {
+      await db.collection('documents').updateOne(
+        { _id: document._id },
+        { $set: { tabs: extracted, content: extracted[0].content } }
+      );
+    }
+
+    const versions = await transformVersionTabs(db, document._id, extract);
+
+    let yjsImages = 0;
+    for (const docName of [document._id.toString(), document.customId].filter(Boolean)) {
+      yjsImages += await extractYjsImages(db, docName, document, urls);
+    }
+
+    const images = [...urls.values()].filter(Boolean).length;
+    if (images > 0) {
+      migratedDocuments++;
+      console.log(`📦 Document ${document._id}: ${images} image(s) moved to attachments (${versions} version(s), ${yjsImages} live image(s) updated)`);
+    }
+  }
+
+  console.log(`✅ Moved embedded images of ${migratedDocuments} document(s) to attachments`);
+}
@@ -0,0 +1,9 @@
+/**
+ * Comment Reactions
+ *
+ * Emoji reactions allowed on comments. Kept free of server imports so the
+ * comments panel can use the same list as the API and the Comment model.
+ */
+
+export const COMMENT_REACTIONS = ['👍', '❤️', '😊', '🎉', '🤔', '👎'] as const;
+export type CommentReaction = typeof COMMENT_REACTIONS[number];
@@ -0,0 +1,202 @@
+/**
+ * Comment Threads
+ *
+ * Helpers shared by the comment API routes. They work on the raw `comments`
+ * collection with the same rules as the Comment model: replies point to a
+ * top-level comment through `parentComment`, deletes are soft, and each user
+ * has at most one reaction per comment.
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import { formatMentions, Mention, MentionRecord } from './mentions';
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+// Shape of a document in the `comments` collection (see lib/models/Comment.ts)
+export interface CommentRecord {
+  document: ObjectId;
+  author: ObjectId;
+  content: string;
+  parentComment: ObjectId | null;
+  replies: ObjectId[];
+  reactions: Array<{ user: ObjectId; emoji: string; createdAt: Date }>;
+  mentions?: MentionRecord[];
+  anchor?: { start: string; end: string; tabId?: string };
+  position?: { start: number; end: number; selectedText?: string };
+  isResolved: boolean;
+  resolvedBy?: ObjectId | null;
+  resolvedAt?: Date | null;
+  isDeleted: boolean;
+  deletedAt?: Date;
+  editedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FormattedComment {
+  id: string;
+  text: string;
+  content: string;
+  timestamp: Date;
+  updatedAt: Date;
+  isEdited: boolean;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  parentId: string | null;
+  anchor: { start: string; end: string; tabId?: string } | null;
+  selectedText: string | null;
+  isResolved: boolean;
+  resolvedBy: { id: string; name: string } | null;
+  resolvedAt: Date | null;
+  reactions: Array<{ emoji: string; userId: string }>;
+  mentions: Mention[];
+  replies: FormattedComment[];
+}
+
+type UserLookup = Map<string, WithId<MongoDocument>>;
+
+/**
+ * Load the users referenced by a set of comments (authors and resolvers)
+ */
+async function loadCommentUsers(db: Db, comments: WithId<MongoDocument>[]): Promise<UserLookup> {
+  const ids = new Map<string, ObjectId>();
+  comments.forEach((comment) => {
+    [comment.author, comment.resolvedBy].forEach((id) => {
+      if (id) ids.set(id.toString(), id);
+    });
+  });
+
+  const users = await db.collection('users')
+    .find({ _id: { $in: Array.from(ids.values()) } })
+    .project<WithId<MongoDocument>>({ name: 1, email: 1 })
+    .toArray();
+
+  return new Map(users.map((user) => [user._id.toString(), user]));
+}
+
+function formatComment(
+  comment: WithId<MongoDocument>,
+  users: UserLookup,
+  replies: FormattedComment[] = []
+): FormattedComment {
+  const author = comment.author ? users.get(comment.author.toString()) : undefined;
+  const resolver = comment.resolvedBy ? users.get(comment.resolvedBy.toString()) : undefined;
+
+  return {
+    id: comment._id.toString(),
+    text: comment.content,
+    content: comment.content,
+    timestamp: comment.createdAt,
+    updatedAt: comment.updatedAt,
+    isEdited: !!comment.editedAt,
+    user: author ? {
+      id: author._id.toString(),
+      name: author.name,
+      email: author.email
+    } : {
+      id: 'unknown',
+      name: 'Unknown User',
+      email: ''
+    },
+    parentId: comment.parentComment ? comment.parentComment.toString() : null,
+    anchor: comment.anchor || null,
+    selectedText: comment.position?.selectedText || null,
+    isResolved: comment.isResolved || false,
+    resolvedBy: resolver ? { id: resolver._id.toString(), name: resolver.name } : null,
+    resolvedAt: comment.resolvedAt || null,
+    reactions: (comment.reactions || []).map((reaction: { emoji: string; user: ObjectId }) => ({
+      emoji: reaction.emoji,
+      userId: reaction.user.toString()
+    })),
+    mentions: formatMentions(comment.mentions),
+    replies
+  };
+}
+
+/**
+ * Fetch top-level comments with their replies (newest threads first)
+ * Resolved threads are left out unless includeResolved is set
+ */
+export async function getCommentThreads(
+  db: Db,
+  docObjectId: ObjectId,
+  includeResolved: boolean = false
+): Promise<FormattedComment[]> {
+  const query: Record<string, unknown> = {
+    document: docObjectId,
+    parentComment: null, // Only top-level comments
+    isDeleted: { $ne: true }
+  };
+
+  if (!includeResolved) {
+    query.isResolved = { $ne: true };
+  }
+
+  const threads = await db.collection('comments')
+    .find(query)
+    .sort({ createdAt: -1 })
+    .toArray();
+
+  const replies = threads.length > 0
+    ? await db.collection('comments')
+        .find({
+          parentComment: { $in: threads.map((thread) => thread._id) },
+          isDeleted: { $ne: true }
+        })
+        .sort({ createdAt: 1 })
+        .toArray()
+    : [];
+
+  const users = await loadCommentUsers(db, [...threads, ...replies]);
+
+  return threads.map((thread) => formatComment(
+    thread,
+    users,
+    replies
+      .filter((reply) => reply.parentComment.equals(thread._id))
+      .map((reply) => formatComment(reply, users))
+  ));
+}
+
+/**
+ * Fetch a single comment (with replies if it is top-level) in API format
+ */
+export async function getFormattedComment(db: Db, commentId: ObjectId): Promise<FormattedComment | null> {
+  const comment = await db.collection('comments').findOne({ _id: commentId });
+  if (!comment) return null;
+
+  const replies = comment.parentComment ? [] : await db.collection('comments')
+    .find({ parentComment: comment._id, isDeleted: { $ne: true } })
+    .sort({ createdAt: 1 })
+    .toArray();
+
+  const users = await loadCommentUsers(db, [comment, ...replies]);
+  return formatComment(comment, users, replies.map((reply) => formatComment(reply, users)));
+}
+
+/**
+ * Find a non-deleted comment that belongs to the given document
+ */
+export async function findDocumentComment(
+  db: Db,
+  docObjectId: ObjectId,
+  commentId: string
+): Promise<WithId<MongoDocument> | null> {
+  if (!ObjectId.isValid(commentId)) return null;
+
+  return db.collection('comments').findOne({
+    _id: new ObjectId(commentId),
+    document: docObjectId,
+    isDeleted: { $ne: true }
+  });
+}
+
+/**
+ * Whether the user wrote the comment
+ */
+export function isCommentAuthor(comment: MongoDocument, user: WithId<MongoDocument> | null): boolean {
+  return !!user && !!comment.author?.equals(user._id);
+}
@@ -0,0 +1,214 @@
+/**
+ * Document Access Control
+ *
+ * Single place that decides what a user may do with a document.
+ * Every document API route and the realtime server call this instead of
+ * checking owner/sharedWith/public access by hand.
+ *
+ * Documents filed in a shared folder inherit the folder's shares (and those
+ * of the folders above it). A share on the document itself overrides what
+ * the folders grant that person.
+ *
+ * Roles (highest first):
+ * - owner: full control, including sharing and deletion
+ * - editor: can change content and comment
+ * - commenter: can read and comment
+ * - viewer: read only
+ * - none: no access
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import { connectToDatabase } from './mongodb';
+
+export type DocumentRole = 'owner' | 'editor' | 'commenter' | 'viewer' | 'none';
+
+// Roles that can be granted through sharedWith or public access (highest first)
+export type GrantableRole = 'editor' | 'commenter' | 'viewer';
+export const GRANTABLE_ROLES: GrantableRole[] = ['editor', 'commenter', 'viewer'];
+
+// SharePermission records (sharePermissions collection) store their own permission names
+export const SHARE_PERMISSION_BY_ROLE: Record<GrantableRole, string> = {
+  viewer: 'view',
+  commenter: 'comment',
+  editor: 'edit'
+};
+
+export interface DocumentAccess {
+  document: WithId<MongoDocument> | null; // null when the document doesn't exist (yet)
+  docObjectId: ObjectId | null;
+  user: WithId<MongoDocument> | null; // Current user record, null for guests
+  role: DocumentRole;
+}
+
+// Anything carrying the signed-in user's email - a NextAuth session or the socket user
+type AccessSession = { user?: { email?: string | null } } | null;
+
+/**
+ * Find a document by MongoDB ObjectId or custom ID (e.g. doc-1769406684982-dkluhj1r6)
+ */
+export async function findDocument(db: Db, documentId: string): Promise<WithId<MongoDocument> | null> {
+  if (ObjectId.isValid(documentId)) {
+    const document = await db.collection('documents').findOne({
+      _id: new ObjectId(documentId)
+    });
+    if (document) return document;
+  }
+
+  return db.collection('documents').findOne({
+    customId: documentId
+  });
+}
+
+/**
+ * Check that a value from a request body is a role that can be granted
+ */
+export function isGrantableRole(value: unknown): value is GrantableRole {
+  return typeof value === 'string' && (GRANTABLE_ROLES as string[]).includes(value);
+}
+
+/**
+ * Role granted by a SharePermission permission name
+ */
+export function roleFromSharePermission(permission: unknown): GrantableRole {
+  const role = GRANTABLE_ROLES.find((grantable) => SHARE_PERMISSION_BY_ROLE[grantable] === permission);
+  return role || 'viewer';
+}
+
+/**
+ * Highest of several granted roles, or null when there are none
+ */
+export function highestRole(roles: unknown[]): GrantableRole | null {
+  return GRANTABLE_ROLES.find((grantable) => roles.includes(grantable)) || null;
+}
+
+/**
+ * Role a user inherits from the shares of a folder and the folders above it
+ * (see lib/folders.ts)
+ */
+export async function getInheritedFolderRole(
+  db: Db,
+  folderId: ObjectId | null | undefined,
+  user: WithId<MongoDocument> | null
+): Promise<GrantableRole | null> {
+  if (!folderId || !user) return null;
+
+  const folder = await db.collection('folders').findOne({ _id: folderId });
+  if (!folder) return null;
+
+  const chain = await db.collection('folders')
+    .find({ _id: { $in: [folder._id, ...(folder.ancestors || [])] } })
+    .project({ sharedWith: 1 })
+    .toArray();
+
+  return highestRole(chain.flatMap((entry) =>
+    (entry.sharedWith || [])
+      .filter((share: { userId?: ObjectId }) => share.userId?.equals(user._id))
+      .map((share: { role?: unknown }) => share.role)
+  ));
+}
+
+/**
+ * Resolve a user's role on an already loaded document
+ * Checks ownership, then sharedWith (by userId or email), then the role
+ * inherited from its folders, then public access.
+ * Documents in the trash are only accessible to their owner.
+ * A user can have several sharedWith entries (a direct share and share-link
+ * grants); the highest one that hasn't expired wins.
+ */
+export function getDocumentRole(
+  document: MongoDocument,
+  user: WithId<MongoDocument> | null,
+  inheritedRole: GrantableRole | null = null
+): DocumentRole {
+  if (user && document.owner?.equals(user._id)) {
+    return 'owner';
+  }
+
+  // Trashed documents are only visible to their owner
+  if (document.deletedAt) {
+    return 'none';
+  }
+
+  if (user) {
+    const email = user.email?.toLowerCase();
+    const now = new Date();
+    const sharedWith = document.sharedWith || [];
+    const sharedRoles = sharedWith
+      .filter((share: { userId?: ObjectId; email?: string; expiresAt?: Date | null }) =>
+        (share.userId?.equals(user._id) || (email && share.email?.toLowerCase() === email)) &&
+        !(share.expiresAt && share.expiresAt <= now)
+      )
+      .map((share: { role?: unknown }) => share.role);
+
+    const sharedRole = highestRole(sharedRoles);
+    if (sharedRole) {
+      return sharedRole;
+    }
+
+    if (inheritedRole) {
+      return inheritedRole;
+    }
+  }
+
+  if (document.visibility === 'public') {
+    const publicRole = document.publicPermission || 'viewer';
+    return isGrantableRole(publicRole) ? publicRole : 'viewer';
+  }
+
+  return 'none';
+}
+
+/**
+ * Resolve the document and the session user's role on it
+ */
+export async function resolveDocumentAccess(
+  session: AccessSession,
+  documentId: string
+): Promise<DocumentAccess> {
+  const { db } = await connectToDatabase();
+
+  const document = await findDocument(db, documentId);
+
+  let user: WithId<MongoDocument> | null = null;
+  if (session?.user?.email) {
+    user = await db.collection('users').findOne({
+      email: session.user.email
+    });
+  }
+
+  if (!document) {
+    return { document: null, docObjectId: null, user, role: 'none' };
+  }
+
+  const inheritedRole = await getInheritedFolderRole(db, document.folder, user);
+
+  return {
+    document,
+    docObjectId: document._id,
+    user,
+    role: getDocumentRole(document, user, inheritedRole)
+  };
+}
+
+/**
+ * Capability checks
+ */
+export function canView(role: DocumentRole | undefined): boolean {
+  return !!role && role !== 'none';
+}
+
+export function canEdit(role: DocumentRole | undefined): boolean {
+  return role === 'owner' || role === 'editor';
+}
+
+export function canComment(role: DocumentRole | undefined): boolean {
+  return canEdit(role) || role === 'commenter';
+}
+
+export function canShare(role: DocumentRole | undefined): boolean {
+  return role === 'owner';
+}
+
+export function canViewHistory(role: DocumentRole | undefined): boolean {
+  return canView(role);
+}
@@ -0,0 +1,224 @@
+/**
+ * Document Export
+ *
+ * Converts the stored HTML of a document (all tabs, or one) to Markdown,
+ * DOCX or PDF on the server (GET /api/documents/[id]/export), for handing
+ * documents to people who don't use NoteVerse. The HTML is parsed into the
+ * export model (lib/exportModel.ts) that each format renders.
+ *
+ * Images of the document's own attachments and data URLs are embedded in
+ * DOCX and PDF. Other images are never fetched: the exports show their alt
+ * text, and Markdown links every image by its absolute URL.
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import { ATTACHMENT_PATH, detectImageType, findAttachment, readAttachmentData } from './attachments';
+import { getDocumentTabs } from './documentTabs';
+import { renderDocx } from './exportDocx';
+import { renderMarkdown } from './exportMarkdown';
+import { ExportBlock, ExportImage, PAGE_SIZES, PageSetup, PageSize, documentBlocks, imageSources } from './exportModel';
+import { renderPdf } from './exportPdf';
+
+export type ExportFormat = 'md' | 'docx' | 'pdf';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; contentType: string; extension: string }> = {
+  md: { label: 'Markdown', contentType: 'text/markdown; charset=utf-8', extension: 'md' },
+  docx: {
+    label: 'Word',
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    extension: 'docx'
+  },
+  pdf: { label: 'PDF', contentType: 'application/pdf', extension: 'pdf' }
+};
+
+export const DEFAULT_PAGE_SETUP: PageSetup = { size: 'a4', orientation: 'portrait', margin: 25 };
+export const MAX_PAGE_MARGIN = 60; // Millimetres
+
+// Images embedded in one export, at most
+const MAX_EXPORT_IMAGES = 100;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  tabId: string | null; // null for every tab
+  page: PageSetup;
+}
+
+export interface ExportedDocument {
+  data: Buffer;
+  contentType: string;
+  filename: string;
+}
+
+const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && Object.hasOwn(EXPORT_FORMATS, value);
+
+const isPageSize = (value: unknown): value is PageSize =>
+  typeof value === 'string' && Object.hasOwn(PAGE_SIZES, value);
+
+/**
+ * Read the export options of a request
+ * (format, tab, pageSize, orientation, margin in millimetres)
+ */
+export function parseExportOptions(params: URLSearchParams): ExportOptions | { error: string; code: number } {
+  const format = params.get('format');
+  if (!isExportFormat(format)) {
+    return { error: `Format must be one of: ${Object.keys(EXPORT_FORMATS).join(', ')}`, code: 400 };
+  }
+
+  const size = params.get('pageSize') ?? DEFAULT_PAGE_SETUP.size;
+  if (!isPageSize(size)) {
+    return { error: `Page size must be one of: ${Object.keys(PAGE_SIZES).join(', ')}`, code: 400 };
+  }
+
+  const orientation = params.get('orientation') ?? DEFAULT_PAGE_SETUP.orientation;
+  if (orientation !== 'portrait' && orientation !== 'landscape') {
+    return { error: 'Orientation must be portrait or landscape', code: 400 };
+  }
+
+  const margin = params.has('margin') ? Number(params.get('margin')) : DEFAULT_PAGE_SETUP.margin;
+  if (!Number.isFinite(margin) || margin < 0 || margin > MAX_PAGE_MARGIN) {
+    return { error: `Margin must be between 0 and ${MAX_PAGE_MARGIN} millimetres`, code: 400 };
+  }
+
+  return { format, tabId: params.get('tab') || null, page: { size, orientation, margin } };
+}
+
+/**
+ * The natural size of a PNG, JPEG or GIF image in pixels (null for other
+ * types, or when the file is damaged)
+ */
+function imageDimensions(data: Buffer, contentType: string): { width: number; height: number } | null {
+  try {
+    if (contentType === 'image/png') {
+      return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+    }
+    if (contentType === 'image/gif') {
+      return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+    }
+    if (contentType === 'image/jpeg') {
+      // The size is in the start-of-frame segment
+      let offset = 2;
+      while (offset + 9 < data.length && data[offset] === 0xff) {
+        const marker = data[offset + 1];
+        if (marker === 0xff) {
+          offset++;
+        } else if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+          return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+        } else {
+          offset += 2 + data.readUInt16BE(offset + 2);
+        }
+      }
+    }
+  } catch {
+    // Shorter than its header says
+  }
+  return null;
+}
+
+/**
+ * The bytes of an image src the export may embed: an attachment of this
+ * document or a data URL
+ */
+async function loadImageData(db: Db, docObjectId: ObjectId, src: string, origin: string): Promise<Buffer | null> {
+  if (src.startsWith('data:')) {
+    const match = /^data:image\/[\w.+-]+;base64,([^]*)$/.exec(src);
+    return match ? Buffer.from(match[1], 'base64') : null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(src, origin);
+  } catch {
+    return null;
+  }
+  if (url.origin !== origin || !url.pathname.startsWith(ATTACHMENT_PATH)) return null;
+
+  // Only attachments this document may show
+  const attachment = await findAttachment(db, url.pathname.slice(ATTACHMENT_PATH.length));
+  if (!attachment || !attachment.documents.some((id) => id.equals(docObjectId))) return null;
+
+  return readAttachmentData(db, attachment);
+}
+
+/**
+ * Load the images of some blocks that DOCX and PDF can embed, by src
+ */
+export async function loadExportImages(
+  db: Db,
+  docObjectId: ObjectId,
+  blocks: ExportBlock[],
+  origin: string
+): Promise<Map<string, ExportImage>> {
+  const images = new Map<string, ExportImage>();
+
+  for (const src of imageSources(blocks).slice(0, MAX_EXPORT_IMAGES)) {
+    try {
+      const data = await loadImageData(db, docObjectId, src, origin);
+      const contentType = data && detectImageType(data);
+      const dimensions = data && contentType && imageDimensions(data, contentType);
+      if (data && contentType && dimensions && dimensions.width > 0 && dimensions.height > 0) {
+        images.set(src, { data, contentType, ...dimensions });
+      }
+    } catch (error) {
+      console.error(`⚠️ Could not load image ${src.slice(0, 100)} for export:`, error);
+    }
+  }
+
+  return images;
+}
+
+/**
+ * A file name for a document title, without characters file systems reject
+ */
+function exportFilename(title: string, extension: string): string {
+  const name = title
+    .replace(/[\\/:*?"<>|\u0000-\u001f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 100);
+  return `${name || 'Untitled document'}.${extension}`;
+}
+
+/**
+ * Export a document in a format
+ * origin is the app's origin, to make relative URLs absolute.
+ */
+export async function exportDocument(
+  db: Db,
+  document: WithId<MongoDocument>,
+  options: ExportOptions,
+  origin: string
+): Promise<ExportedDocument | { error: string; code: number }> {
+  let tabs = getDocumentTabs(document);
+  if (options.tabId) {
+    tabs = tabs.filter((tab) => tab.id === options.tabId);
+    if (tabs.length === 0) {
+      return { error: 'Tab not found', code: 404 };
+    }
+  }
+
+  const title: string = document.title || 'Untitled document';
+  const blocks = documentBlocks(tabs);
+  const resolveUrl = (url: string) => {
+    try {
+      return new URL(url, origin).toString();
+    } catch {
+      return url;
+    }
+  };
+
+  const { contentType, extension } = EXPORT_FORMATS[options.format];
+  const filename = exportFilename(options.tabId ? `${title} - ${tabs[0].title}` : title, extension);
+
+  if (options.format === 'md') {
+    return { data: Buffer.from(renderMarkdown(blocks, { resolveUrl }), 'utf-8'), contentType, filename };
+  }
+
+  const images = await loadExportImages(db, document._id, blocks, origin);
+  const render = options.format === 'docx' ? renderDocx : renderPdf;
+  const data = await render(blocks, { title, page: options.page, images, resolveUrl });
+
+  console.log(`📤 Exported document ${document._id} as ${extension} (${data.length} bytes, ${images.size} images)`);
+
+  return { data, contentType, filename };
+}
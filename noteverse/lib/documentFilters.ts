@@ -0,0 +1,92 @@
+/**
+ * Document List Filters
+ *
+ * Views, sort orders and tag rules for the dashboard's document list
+ * (GET /api/documents). Kept free of server dependencies so the dashboard
+ * can use it too.
+ */
+
+// owned: my documents, shared: shared with me, recent: edited lately,
+// starred: starred by me, archived: archived documents I can open
+export type DocumentView = 'owned' | 'shared' | 'recent' | 'starred' | 'archived';
+export type DocumentSort = 'updated' | 'created' | 'title';
+export type OwnerFilter = 'anyone' | 'me' | 'others';
+
+export const DOCUMENT_VIEWS: DocumentView[] = ['owned', 'shared', 'recent', 'starred', 'archived'];
+
+export const DOCUMENT_SORT_OPTIONS: { value: DocumentSort; label: string }[] = [
+  { value: 'updated', label: 'Last edited' },
+  { value: 'created', label: 'Date created' },
+  { value: 'title', label: 'Title' }
+];
+
+export const OWNER_FILTER_OPTIONS: { value: OwnerFilter; label: string }[] = [
+  { value: 'anyone', label: 'Owned by anyone' },
+  { value: 'me', label: 'Owned by me' },
+  { value: 'others', label: 'Not owned by me' }
+];
+
+export const DOCUMENTS_PAGE_SIZE = 24;
+export const MAX_DOCUMENTS_PAGE_SIZE = 100;
+
+// The recent view covers documents edited within this many days
+export const RECENT_DAYS = 30;
+
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+// A page of the document list as returned by GET /api/documents
+export interface DocumentListItem {
+  id: string;
+  title: string;
+  preview: string; // Start of the content as plain text
+  folderId: string | null;
+  tags: string[];
+  starred: boolean;
+  isArchived: boolean;
+  createdAt: string;
+  updatedAt: string;
+  isOwner: boolean;
+  isShared: boolean;
+  role?: string; // Current user's role on shared documents
+  sharedAt?: string;
+  owner?: { name: string; email: string } | null;
+  deletedAt?: string; // Documents in the trash
+}
+
+export interface DocumentCounts {
+  owned: number;
+  shared: number;
+  starred: number;
+  archived: number;
+}
+
+export function isDocumentView(value: unknown): value is DocumentView {
+  return typeof value === 'string' && (DOCUMENT_VIEWS as string[]).includes(value);
+}
+
+export function isDocumentSort(value: unknown): value is DocumentSort {
+  return DOCUMENT_SORT_OPTIONS.some((option) => option.value === value);
+}
+
+export function isOwnerFilter(value: unknown): value is OwnerFilter {
+  return OWNER_FILTER_OPTIONS.some((option) => option.value === value);
+}
+
+/**
+ * Clean up tags from a request body: trimmed, lowercase, unique
+ * Returns null when the value isn't a valid tag list.
+ */
+export function normalizeTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every((tag) => typeof tag === 'string')) {
+    return null;
+  }
+
+  const tags = [...new Set(value.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean))];
+
+  if (tags.length > MAX_TAGS || tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    return null;
+  }
+
+  return tags;
+}
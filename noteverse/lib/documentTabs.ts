@@ -0,0 +1,98 @@
+/**
+ * Document Tabs
+ *
+ * A document is an ordered list of tabs (Document.tabs), each with its own
+ * content. Document.content mirrors the first tab so previews, search and
+ * older readers keep working; documents saved before tabs existed have no
+ * tabs list and read as a single tab holding their content.
+ *
+ * In the editor every tab is a Yjs XML fragment named after the tab id, and
+ * the tab list itself is the TABS_LIST Y.Array of { id, title } maps, so
+ * collaborators see tabs being added, renamed, moved and deleted live (see
+ * app/components/editor/tabFragments.ts). The first tab of older documents
+ * uses DEFAULT_TAB_ID, the fragment the editor used before tabs.
+ *
+ * Restoring a version replaces all tabs in one Yjs transaction that also
+ * bumps the RESTORE_STATE count, which autosaves send along so the server
+ * can reject content from before the restore (Document.restoreCount).
+ *
+ * Kept free of server dependencies so the editor can use it too.
+ */
+
+// Fragment TipTap's Collaboration extension edits by default
+export const DEFAULT_TAB_ID = 'default';
+export const DEFAULT_TAB_TITLE = 'Tab 1';
+
+// Name of the Y.Array listing the tabs in the Yjs document
+export const TABS_LIST = 'tabs';
+
+// Name of the Y.Map whose RESTORE_COUNT key counts the document's restores
+export const RESTORE_STATE = 'restore';
+export const RESTORE_COUNT = 'count';
+
+export const MAX_TABS = 50;
+export const MAX_TAB_TITLE_LENGTH = 100;
+
+export interface TabInfo {
+  id: string;
+  title: string;
+}
+
+export interface DocumentTab extends TabInfo {
+  content: string; // HTML
+}
+
+/**
+ * A fresh id for a new tab (also the name of its Yjs fragment)
+ */
+export function createTabId(): string {
+  return `tab-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isTabId(value: unknown): value is string {
+  return typeof value === 'string' && (value === DEFAULT_TAB_ID || /^tab-[a-z0-9]{1,32}$/.test(value));
+}
+
+/**
+ * The tabs of a stored document (or version), in order
+ */
+export function getDocumentTabs(document: Record<string, unknown>): DocumentTab[] {
+  const tabs = Array.isArray(document.tabs) ? (document.tabs as DocumentTab[]) : [];
+  if (tabs.length > 0) return tabs;
+
+  const content = typeof document.content === 'string' ? document.content : '';
+  return [{ id: DEFAULT_TAB_ID, title: DEFAULT_TAB_TITLE, content }];
+}
+
+/**
+ * Validate tabs sent by a client; returns null when they're malformed
+ */
+export function normalizeTabs(value: unknown): DocumentTab[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_TABS) return null;
+
+  const tabs: DocumentTab[] = [];
+  for (const tab of value) {
+    if (!tab || !isTabId(tab.id) || typeof tab.content !== 'string') return null;
+    if (tabs.some((existing) => existing.id === tab.id)) return null;
+
+    const title = typeof tab.title === 'string' ? tab.title.trim().slice(0, MAX_TAB_TITLE_LENGTH) : '';
+    tabs.push({ id: tab.id, title: title || `Tab ${tabs.length + 1}`, content: tab.content });
+  }
+
+  return tabs;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * All tabs as one HTML document body, for downloads and exports: a single
+ * tab is its content, several get a heading each
+ */
+export function combineTabsHtml(tabs: DocumentTab[]): string {
+  if (tabs.length === 1) return tabs[0].content;
+
+  return tabs
+    .map((tab) => `<section data-tab-id="${tab.id}"><h1>${escapeHtml(tab.title)}</h1>${tab.content}</section>`)
+    .join('\n');
+}
@@ -0,0 +1,409 @@
+/**
+ * Documents
+ *
+ * Whole-document operations shared by API routes, so every way a document
+ * can go away cleans up the same related data.
+ *
+ * listDocuments backs the dashboard's views, filters and pagination
+ * (see lib/documentFilters.ts); list entries carry a short plain-text
+ * preview instead of the full content.
+ *
+ * Deleting a document moves it to the trash first (Document.deletedAt).
+ * While trashed only the owner can open it; collaborators and public links
+ * lose access until it's restored. purgeTrash permanently deletes documents
+ * that have been in the trash longer than TRASH_RETENTION_DAYS.
+ */
+
+import { Db, ObjectId, WithId, Filter, Sort, Document as MongoDocument } from 'mongodb';
+import { deleteDocumentShares, getActiveShares } from './sharing';
+import { deletePersistedDocument } from './socket/yjsPersistence';
+import { refreshDocumentAccess } from './socket/liveAccess';
+import { releaseDocumentAttachments } from './attachments';
+import { TRASH_RETENTION_DAYS } from './trash';
+import { GrantableRole, getDocumentRole } from './documentAccess';
+import { getSharedFolderRoles } from './folders';
+import { DocumentTab } from './documentTabs';
+import { escapeRegExp } from './regex';
+import {
+  DocumentCounts,
+  DocumentListItem,
+  DocumentSort,
+  DocumentView,
+  OwnerFilter,
+  RECENT_DAYS
+} from './documentFilters';
+
+// Characters of HTML loaded per document to build its preview
+const PREVIEW_SOURCE_LENGTH = 1000;
+const PREVIEW_LENGTH = 200;
+
+const SORT_ORDERS: Record<DocumentSort, Sort> = {
+  updated: { updatedAt: -1, _id: -1 },
+  created: { createdAt: -1, _id: -1 },
+  title: { title: 1, _id: 1 }
+};
+
+// Fields the list needs; content is cut down to the start for the preview
+const LIST_PROJECTION = {
+  title: 1,
+  customId: 1,
+  owner: 1,
+  folder: 1,
+  sharedWith: 1,
+  visibility: 1,
+  publicPermission: 1,
+  tags: 1,
+  starredBy: 1,
+  isArchived: 1,
+  createdAt: 1,
+  updatedAt: 1,
+  deletedAt: 1,
+  content: { $substrCP: [{ $ifNull: ['$content', ''] }, 0, PREVIEW_SOURCE_LENGTH] }
+};
+
+/**
+ * Plain text of a document's HTML content, as stored in Document.plainText
+ * for search (see lib/search.ts). Block boundaries become spaces so words
+ * in adjacent paragraphs don't run together.
+ */
+export function extractPlainText(html: string): string {
+  return html
+    .replace(/<[^>]*(>|$)/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Fields to set when a document's tabs change: the tabs, the first tab
+ * mirrored into content and the plain text of every tab for search
+ */
+export function tabsUpdate(tabs: DocumentTab[]) {
+  return {
+    tabs,
+    content: tabs[0].content,
+    plainText: extractPlainText(tabs.map((tab) => tab.content).join(' '))
+  };
+}
+
+/**
+ * Plain-text start of a document's HTML content
+ */
+function contentPreview(html: string): string {
+  const text = extractPlainText(html);
+  return text.length > PREVIEW_LENGTH ? text.slice(0, PREVIEW_LENGTH) : text;
+}
+
+/**
+ * Documents a user can open from the dashboard: owned, shared with them
+ * through a share that hasn't expired, or filed in a folder shared with them.
+ * Trashed documents are left out.
+ */
+function accessibleDocumentsFilter(user: WithId<MongoDocument>, sharedFolderIds: ObjectId[]): Filter<MongoDocument> {
+  const now = new Date();
+
+  return {
+    deletedAt: null,
+    $or: [
+      { owner: user._id },
+      ...(sharedFolderIds.length > 0 ? [{ folder: { $in: sharedFolderIds } }] : []),
+      {
+        sharedWith: {
+          $elemMatch: {
+            $and: [
+              { $or: [{ userId: user._id }, { email: user.email?.toLowerCase() }] },
+              { $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] }
+            ]
+          }
+        }
+      }
+    ]
+  };
+}
+
+/**
+ * What the dashboard needs to know about a user's access: the filter for the
+ * documents they can open and their roles on folders shared with them
+ */
+export async function getDocumentAccessScope(db: Db, user: WithId<MongoDocument>) {
+  const folderRoles = await getSharedFolderRoles(db, user);
+  const sharedFolderIds = Array.from(folderRoles.keys()).map((id) => new ObjectId(id));
+
+  return {
+    folderRoles,
+    sharedFolderIds,
+    filter: accessibleDocumentsFilter(user, sharedFolderIds)
+  };
+}
+
+function viewFilter(view: DocumentView, user: WithId<MongoDocument>): Filter<MongoDocument> {
+  switch (view) {
+    case 'owned':
+      return { owner: user._id, isArchived: { $ne: true } };
+    case 'shared':
+      return { owner: { $ne: user._id }, isArchived: { $ne: true } };
+    case 'recent':
+      return {
+        isArchived: { $ne: true },
+        updatedAt: { $gte: new Date(Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000) }
+      };
+    case 'starred':
+      return { starredBy: user._id };
+    case 'archived':
+      return { isArchived: true };
+  }
+}
+
+/**
+ * A document as a dashboard list entry
+ */
+export function formatDocumentListItem(
+  document: WithId<MongoDocument>,
+  user: WithId<MongoDocument>,
+  owner?: WithId<MongoDocument> | null,
+  inheritedRole: GrantableRole | null = null
+): DocumentListItem {
+  const isOwner = !!document.owner?.equals(user._id);
+  // The current user's earliest share
+  const share = isOwner ? undefined : getActiveShares(document, user)[0];
+
+  return {
+    id: document.customId || document._id.toString(),
+    title: document.title,
+    preview: contentPreview(document.content || ''),
+    folderId: document.folder ? document.folder.toString() : null,
+    tags: document.tags || [],
+    starred: (document.starredBy || []).some((id: ObjectId) => id.equals(user._id)),
+    isArchived: !!document.isArchived,
+    createdAt: document.createdAt,
+    updatedAt: document.updatedAt,
+    isOwner,
+    isShared: !isOwner,
+    ...(isOwner ? {} : {
+      role: getDocumentRole(document, user, inheritedRole),
+      sharedAt: share?.sharedAt?.toISOString(),
+      owner: owner ? { name: owner.name, email: owner.email } : null
+    }),
+    ...(document.deletedAt ? { deletedAt: document.deletedAt } : {})
+  };
+}
+
+/**
+ * One page of the documents a user sees in a dashboard view
+ * folder narrows the list to one folder's contents (whatever the view), or
+ * with 'root' to the top level of the view: documents outside any folder for
+ * owned documents, documents outside the folders shared with the user for
+ * shared ones.
+ */
+export async function listDocuments(
+  db: Db,
+  user: WithId<MongoDocument>,
+  {
+    view,
+    sort,
+    owner,
+    tag,
+    query,
+    folder,
+    page,
+    limit
+  }: {
+    view: DocumentView;
+    sort: DocumentSort;
+    owner: OwnerFilter;
+    tag: string | null;
+    query: string | null;
+    folder?: ObjectId | 'root' | null;
+    page: number;
+    limit: number;
+  }
+): Promise<{ documents: DocumentListItem[]; total: number }> {
+  const scope = await getDocumentAccessScope(db, user);
+  const conditions: Filter<MongoDocument>[] = [scope.filter];
+
+  if (folder instanceof ObjectId) {
+    conditions.push({ folder, isArchived: { $ne: true } });
+  } else {
+    conditions.push(viewFilter(view, user));
+    if (folder === 'root') {
+      conditions.push(view === 'shared'
+        ? { folder: { $nin: scope.sharedFolderIds } }
+        : { folder: null });
+    }
+  }
+
+  if (owner === 'me') conditions.push({ owner: user._id });
+  if (owner === 'others') conditions.push({ owner: { $ne: user._id } });
+  if (tag) conditions.push({ tags: tag });
+  if (query) {
+    const pattern = new RegExp(escapeRegExp(query), 'i');
+    conditions.push({ $or: [{ title: pattern }, { plainText: pattern }] });
+  }
+
+  const filter = { $and: conditions };
+
+  const [documents, total] = await Promise.all([
+    db.collection('documents')
+      .find(filter, {
+        projection: LIST_PROJECTION,
+        sort: SORT_ORDERS[sort],
+        skip: (page - 1) * limit,
+        limit,
+        // Case-insensitive title sort
+        collation: { locale: 'en', strength: 2 }
+      })
+      .toArray(),
+    db.collection('documents').countDocuments(filter)
+  ]);
+
+  // Owners of shared documents, in one query
+  const ownerIds = documents
+    .filter((document) => document.owner && !document.owner.equals(user._id))
+    .map((document) => document.owner);
+  const owners = ownerIds.length > 0
+    ? await db.collection('users').find({ _id: { $in: ownerIds } }, { projection: { name: 1, email: 1 } }).toArray()
+    : [];
+
+  return {
+    documents: documents.map((document) => formatDocumentListItem(
+      document,
+      user,
+      owners.find((owner) => owner._id.equals(document.owner)),
+      document.folder ? scope.folderRoles.get(document.folder.toString()) : null
+    )),
+    total
+  };
+}
+
+/**
+ * Number of documents in each dashboard view
+ */
+export async function getDocumentCounts(db: Db, user: WithId<MongoDocument>): Promise<DocumentCounts> {
+  const { filter } = await getDocumentAccessScope(db, user);
+  const count = (view: DocumentView) =>
+    db.collection('documents').countDocuments({ $and: [filter, viewFilter(view, user)] });
+
+  const [owned, shared, starred, archived] = await Promise.all([
+    count('owned'),
+    count('shared'),
+    count('starred'),
+    count('archived')
+  ]);
+
+  return { owned, shared, starred, archived };
+}
+
+/**
+ * Every tag used on the documents a user can open, alphabetically
+ */
+export async function getDocumentTags(db: Db, user: WithId<MongoDocument>): Promise<string[]> {
+  const { filter } = await getDocumentAccessScope(db, user);
+  const tags = await db.collection('documents').distinct('tags', filter);
+  return tags.filter((tag): tag is string => typeof tag === 'string').sort();
+}
+
+/**
+ * Star or unstar a document for one user (stars are personal)
+ */
+export async function setDocumentStarred(
+  db: Db,
+  document: WithId<MongoDocument>,
+  user: WithId<MongoDocument>,
+  starred: boolean
+): Promise<void> {
+  await db.collection('documents').updateOne(
+    { _id: document._id },
+    starred ? { $addToSet: { starredBy: user._id } } : { $pull: { starredBy: user._id } as MongoDocument }
+  );
+}
+
+/**
+ * Whether a document is in the trash
+ */
+export function isTrashed(document: MongoDocument): boolean {
+  return !!document.deletedAt;
+}
+
+/**
+ * Move a document to the trash
+ * Collaborators editing it are removed from its rooms.
+ */
+export async function moveToTrash(
+  db: Db,
+  document: WithId<MongoDocument>,
+  user: WithId<MongoDocument>
+): Promise<void> {
+  await db.collection('documents').updateOne(
+    { _id: document._id },
+    { $set: { deletedAt: new Date(), deletedBy: user._id } }
+  );
+  await refreshDocumentAccess(document);
+
+  console.log(`🗑️ Moved document "${document.title}" (${document._id.toString()}) to trash`);
+}
+
+/**
+ * Take a document out of the trash, with the sharing it had before
+ */
+export async function restoreFromTrash(db: Db, document: WithId<MongoDocument>): Promise<void> {
+  await db.collection('documents').updateOne(
+    { _id: document._id },
+    { $set: { deletedAt: null, deletedBy: null } }
+  );
+
+  console.log(`♻️ Restored document "${document.title}" (${document._id.toString()}) from trash`);
+}
+
+/**
+ * A user's trashed documents, most recently trashed first
+ */
+export async function getTrashedDocuments(db: Db, ownerId: ObjectId): Promise<WithId<MongoDocument>[]> {
+  return db.collection('documents')
+    .find({ owner: ownerId, deletedAt: { $ne: null } })
+    .sort({ deletedAt: -1 })
+    .toArray();
+}
+
+/**
+ * Permanently delete a document with its versions, comments, share records
+ * and persisted Yjs state
+ * Ownership transfer records are kept as the audit trail.
+ */
+export async function deleteDocumentData(db: Db, document: WithId<MongoDocument>): Promise<void> {
+  await Promise.all([
+    db.collection('documents').deleteOne({ _id: document._id }),
+    db.collection('documentVersions').deleteMany({ document: document._id }),
+    deleteDocumentShares(db, document._id),
+    db.collection('comments').deleteMany({ document: document._id }),
+    deletePersistedDocument([document._id.toString(), document.customId].filter(Boolean)),
+    releaseDocumentAttachments(db, document._id)
+  ]);
+  await refreshDocumentAccess(document);
+
+  console.log(`🗑️ Deleted document "${document.title}" (${document._id.toString()})`);
+}
+
+/**
+ * Permanently delete documents trashed more than TRASH_RETENTION_DAYS ago
+ * (or every trashed document of one owner, for "Empty trash")
+ * Returns the number of documents deleted.
+ */
+export async function purgeTrash(db: Db, { ownerId }: { ownerId?: ObjectId } = {}): Promise<number> {
+  const filter = ownerId
+    ? { owner: ownerId, deletedAt: { $ne: null } }
+    : { deletedAt: { $lte: new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000) } };
+
+  const documents = await db.collection('documents').find(filter).toArray();
+
+  for (const document of documents) {
+    await deleteDocumentData(db, document);
+  }
+
+  console.log(`🧹 Purged ${documents.length} document(s) from trash`);
+  return documents.length;
+}
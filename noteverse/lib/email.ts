@@ -1,19 +1,100 @@
-import nodemailer from 'nodemailer';
-
-const transporter = nodemailer.createTransport({
-  host: process.env.EMAIL_SERVER_HOST,
-  port: Number(process.env.EMAIL_SERVER_PORT),
-  secure: false,
-  auth: {
-    user: process.env.EMAIL_SERVER_USER,
-    pass: process.env.EMAIL_SERVER_PASSWORD,
-  },
-  tls: {
-    rejectUnauthorized: false
-  },
-  debug: true,
-  logger: true
-});
+/**
+ * Email
+ *
+ * Sends templated emails (lib/emailTemplates.ts) through nodemailer.
+ * EMAIL_TRANSPORT picks the transport:
+ * - smtp (default): EMAIL_SERVER_HOST / PORT / USER / PASSWORD. Auth is
+ *   optional, so a local SMTP stand-in (e.g. Mailpit on port 1025) works
+ * - json: nothing is sent, each message is logged as JSON
+ * - file: nothing is sent, each message is written as JSON to
+ *   EMAIL_FILE_DIR (default .emails/)
+ */
+
+import nodemailer, { Transporter } from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  RenderedEmail,
+  passwordResetEmail,
+  mentionEmail,
+  shareEmail,
+  invitationEmail,
+  accessRequestEmail,
+  commentEmail,
+  digestEmail
+} from './emailTemplates';
+
+type EmailTransport = 'smtp' | 'json' | 'file';
+
+let transporter: Transporter | null = null;
+
+function getTransportType(): EmailTransport {
+  const type = process.env.EMAIL_TRANSPORT;
+  return type === 'json' || type === 'file' ? type : 'smtp';
+}
+
+function getTransporter(): Transporter {
+  if (transporter) return transporter;
+
+  if (getTransportType() !== 'smtp') {
+    transporter = nodemailer.createTransport({ jsonTransport: true });
+    return transporter;
+  }
+
+  transporter = nodemailer.createTransport({
+    host: process.env.EMAIL_SERVER_HOST,
+    port: Number(process.env.EMAIL_SERVER_PORT),
+    secure: process.env.EMAIL_SERVER_SECURE === 'true',
+    auth: process.env.EMAIL_SERVER_USER
+      ? {
+          user: process.env.EMAIL_SERVER_USER,
+          pass: process.env.EMAIL_SERVER_PASSWORD,
+        }
+      : undefined,
+    tls: {
+      rejectUnauthorized: false
+    },
+    debug: true,
+    logger: true
+  });
+  return transporter;
+}
+
+/**
+ * Check the SMTP connection (always succeeds for the json and file transports)
+ */
+export async function verifyEmailTransport() {
+  if (getTransportType() !== 'smtp') return true;
+  return getTransporter().verify();
+}
+
+/**
+ * Send a rendered email
+ */
+export async function sendEmail(to: string, { subject, html, text }: RenderedEmail) {
+  const transportType = getTransportType();
+  const info = await getTransporter().sendMail({
+    from: process.env.EMAIL_FROM,
+    to,
+    subject,
+    html,
+    text
+  });
+
+  if (transportType === 'file') {
+    const dir = process.env.EMAIL_FILE_DIR || path.join(process.cwd(), '.emails');
+    const file = path.join(dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`);
+    await mkdir(dir, { recursive: true });
+    await writeFile(file, info.message);
+    console.log(`📧 Email to ${to} written to ${file}`);
+  } else if (transportType === 'json') {
+    console.log(`📧 Email to ${to} (json transport):`, info.message);
+  } else {
+    console.log(`📧 Email sent to ${to}:`, info.messageId);
+  }
+
+  return info;
+}
 
 export async function sendPasswordResetEmail(email: string, resetToken: string) {
   const resetUrl = `${process.env.NEXTAUTH_URL}/reset-password/${resetToken}`;
@@ -21,54 +102,35 @@ export async function sendPasswordResetEmail(email: string, resetToken: string)
   console.log('Preparing to send password reset email to:', email);
   console.log('Reset URL:', resetUrl);
 
-  const mailOptions = {
-    from: process.env.EMAIL_FROM,
-    to: email,
-    subject: 'Reset Your NoteVerse Password',
-    html: `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
-            .header h1 { color: white; margin: 0; }
-            .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
-            .button { display: inline-block; padding: 15px 30px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; text-decoration: none; border-radius: 8px; margin: 20px 0; }
-            .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1>🔐 Reset Your Password</h1>
-            </div>
-            <div class="content">
-              <p>Hi there,</p>
-              <p>We received a request to reset your NoteVerse password. Click the button below to create a new password:</p>
-              <div style="text-align: center;">
-                <a href="${resetUrl}" class="button">Reset Password</a>
-              </div>
-              <p>Or copy and paste this link into your browser:</p>
-              <p style="word-break: break-all; background: #fff; padding: 10px; border-radius: 5px;">${resetUrl}</p>
-              <p><strong>This link will expire in 1 hour.</strong></p>
-              <p>If you didn't request this password reset, you can safely ignore this email. Your password will remain unchanged.</p>
-              <p>Best regards,<br>The NoteVerse Team</p>
-            </div>
-            <div class="footer">
-              <p>This is an automated email. Please do not reply.</p>
-            </div>
-          </div>
-        </body>
-      </html>
-    `,
-  };
-
-  console.log('Sending email...');
-  const info = await transporter.sendMail(mailOptions);
-  console.log('Email sent successfully:', info.messageId);
-  console.log('Server response:', info.response);
-  
-  return info;
+  return sendEmail(email, passwordResetEmail({ resetUrl }));
+}
+
+export async function sendMentionEmail(email: string, data: Parameters<typeof mentionEmail>[0]) {
+  console.log(`Preparing to send mention email to: ${email} (${data.source})`);
+  return sendEmail(email, mentionEmail(data));
+}
+
+export async function sendShareEmail(email: string, data: Parameters<typeof shareEmail>[0]) {
+  console.log(`Preparing to send share email to: ${email}`);
+  return sendEmail(email, shareEmail(data));
+}
+
+export async function sendInvitationEmail(email: string, data: Parameters<typeof invitationEmail>[0]) {
+  console.log(`Preparing to send invitation email to: ${email}`);
+  return sendEmail(email, invitationEmail(data));
+}
+
+export async function sendAccessRequestEmail(email: string, data: Parameters<typeof accessRequestEmail>[0]) {
+  console.log(`Preparing to send access request email to: ${email}`);
+  return sendEmail(email, accessRequestEmail(data));
+}
+
+export async function sendCommentEmail(email: string, data: Parameters<typeof commentEmail>[0]) {
+  console.log(`Preparing to send ${data.kind} email to: ${email}`);
+  return sendEmail(email, commentEmail(data));
+}
+
+export async function sendDigestEmail(email: string, data: Parameters<typeof digestEmail>[0]) {
+  console.log(`Preparing to send digest email to: ${email}`);
+  return sendEmail(email, digestEmail(data));
 }
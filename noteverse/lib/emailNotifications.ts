@@ -0,0 +1,219 @@
+/**
+ * Email Notifications
+ *
+ * Notification emails for shares, invitations, access requests, comment
+ * activity and mentions, plus the daily digest of unread in-app
+ * notifications. Every email to a user respects their
+ * User.emailNotifications opt-outs, and failures are logged, never
+ * thrown - routes call these without awaiting.
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import {
+  sendShareEmail,
+  sendInvitationEmail,
+  sendAccessRequestEmail,
+  sendCommentEmail,
+  sendDigestEmail
+} from './email';
+import { EmailNotificationKind, wantsEmail } from './emailPreferences';
+import { documentPath, displayName } from './notifications';
+import { accessRequestActionUrl } from './accessRequests';
+
+const DIGEST_INTERVAL = 24 * 60 * 60 * 1000; // 1 day
+// Lets a daily job that runs a little early still send
+const DIGEST_SLACK = 60 * 60 * 1000; // 1 hour
+const MAX_DIGEST_ITEMS = 50;
+
+function documentUrl(document: WithId<MongoDocument>) {
+  return `${process.env.NEXTAUTH_URL}${documentPath(document)}`;
+}
+
+/**
+ * Email each user who hasn't opted out of this kind of email
+ */
+export async function emailUsers(
+  db: Db,
+  userIds: ObjectId[],
+  kind: EmailNotificationKind,
+  send: (user: WithId<MongoDocument>) => Promise<unknown>
+): Promise<void> {
+  if (userIds.length === 0) return;
+
+  try {
+    const users = (await db.collection('users').find({ _id: { $in: userIds } }).toArray())
+      .filter((user) => user.email && user.isActive !== false && wantsEmail(user.emailNotifications, kind));
+
+    const results = await Promise.allSettled(users.map((user) => send(user)));
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        console.error(`❌ Failed to send ${kind} email to ${users[index].email}:`, result.reason);
+      }
+    });
+  } catch (error) {
+    console.error(`❌ Failed to send ${kind} emails:`, error);
+  }
+}
+
+/**
+ * "Document shared with you"
+ */
+export async function emailShare(db: Db, {
+  document,
+  sharedBy,
+  recipient,
+  role
+}: {
+  document: WithId<MongoDocument>;
+  sharedBy: WithId<MongoDocument>;
+  recipient: WithId<MongoDocument>;
+  role: string;
+}): Promise<void> {
+  await emailUsers(db, [recipient._id], 'shares', (user) => sendShareEmail(user.email, {
+    sharedBy: displayName(sharedBy),
+    documentTitle: document.title || 'Untitled Document',
+    documentUrl: documentUrl(document),
+    role
+  }));
+}
+
+/**
+ * "You were invited", for an email address without an account
+ * There are no preferences to respect yet; the signup link prefills the
+ * address and returns to the document afterwards.
+ */
+export async function emailInvitation({
+  document,
+  invitedBy,
+  email,
+  role
+}: {
+  document: WithId<MongoDocument>;
+  invitedBy: WithId<MongoDocument>;
+  email: string;
+  role: string;
+}): Promise<void> {
+  const signupUrl = `${process.env.NEXTAUTH_URL}/signup?${new URLSearchParams({
+    email,
+    callbackUrl: documentPath(document)
+  }).toString()}`;
+
+  try {
+    await sendInvitationEmail(email, {
+      invitedBy: displayName(invitedBy),
+      email,
+      documentTitle: document.title || 'Untitled Document',
+      signupUrl,
+      role
+    });
+  } catch (error) {
+    console.error(`❌ Failed to send invitation email to ${email}:`, error);
+  }
+}
+
+/**
+ * "X requested access", with approve/deny links for the owner
+ */
+export async function emailAccessRequest(db: Db, {
+  document,
+  requester,
+  requestId
+}: {
+  document: WithId<MongoDocument>;
+  requester: WithId<MongoDocument>;
+  requestId: ObjectId;
+}): Promise<void> {
+  if (!document.owner) return;
+
+  const documentId = document.customId || document._id.toString();
+
+  await emailUsers(db, [document.owner], 'accessRequests', (user) => sendAccessRequestEmail(user.email, {
+    requesterName: displayName(requester),
+    requesterEmail: requester.email,
+    documentTitle: document.title || 'Untitled Document',
+    documentUrl: documentUrl(document),
+    approveUrl: accessRequestActionUrl(documentId, requestId.toString(), 'approve'),
+    rejectUrl: accessRequestActionUrl(documentId, requestId.toString(), 'reject')
+  }));
+}
+
+/**
+ * "New comment on your document" / "new reply in your thread"
+ */
+export async function emailCommentActivity(db: Db, {
+  document,
+  author,
+  recipientIds,
+  text,
+  kind
+}: {
+  document: WithId<MongoDocument>;
+  author: WithId<MongoDocument>;
+  recipientIds: ObjectId[];
+  text: string;
+  kind: 'comment' | 'reply';
+}): Promise<void> {
+  const recipients = recipientIds.filter((id) => !id.equals(author._id));
+
+  await emailUsers(db, recipients, 'comments', (user) => sendCommentEmail(user.email, {
+    author: displayName(author),
+    documentTitle: document.title || 'Untitled Document',
+    documentUrl: documentUrl(document),
+    excerpt: text,
+    kind
+  }));
+}
+
+/**
+ * Email each digest subscriber their unread notifications from the last day
+ * Runs hourly in the scheduled jobs or daily from /api/notifications/digest,
+ * and only emails subscribers that are due one. Returns the number of
+ * digests sent.
+ */
+export async function sendDailyDigests(db: Db): Promise<number> {
+  const now = Date.now();
+  const users = await db.collection('users').find({
+    'emailNotifications.digest': true,
+    isActive: { $ne: false },
+    $or: [
+      { lastDigestSentAt: null },
+      { lastDigestSentAt: { $lte: new Date(now - DIGEST_INTERVAL + DIGEST_SLACK) } }
+    ]
+  }).toArray();
+
+  let sent = 0;
+
+  for (const user of users) {
+    try {
+      const dayAgo = new Date(now - DIGEST_INTERVAL);
+      const since = user.lastDigestSentAt && user.lastDigestSentAt > dayAgo ? user.lastDigestSentAt : dayAgo;
+
+      const notifications = await db.collection('notifications')
+        .find({ userId: user._id, read: false, createdAt: { $gt: since } })
+        .sort({ createdAt: -1 })
+        .limit(MAX_DIGEST_ITEMS)
+        .toArray();
+
+      if (notifications.length === 0) continue;
+
+      await sendDigestEmail(user.email, {
+        notifications: notifications.map((notification) => ({
+          message: notification.message,
+          link: notification.link
+        }))
+      });
+
+      await db.collection('users').updateOne(
+        { _id: user._id },
+        { $set: { lastDigestSentAt: new Date(now) } }
+      );
+      sent++;
+    } catch (error) {
+      console.error(`❌ Failed to send digest to ${user.email}:`, error);
+    }
+  }
+
+  console.log(`📬 Sent ${sent} daily digest(s) to ${users.length} subscriber(s)`);
+  return sent;
+}
@@ -0,0 +1,50 @@
+/**
+ * Email Notification Preferences
+ *
+ * Which notification emails a user receives (User.emailNotifications).
+ * Kept free of server dependencies so the profile page can use it too.
+ */
+
+export type EmailNotificationKind = 'shares' | 'accessRequests' | 'comments' | 'mentions' | 'digest';
+
+export type EmailNotificationPreferences = Record<EmailNotificationKind, boolean>;
+
+// Users without stored preferences get these
+export const DEFAULT_EMAIL_PREFERENCES: EmailNotificationPreferences = {
+  shares: true,
+  accessRequests: true,
+  comments: true,
+  mentions: true,
+  digest: false
+};
+
+export const EMAIL_NOTIFICATION_OPTIONS: { key: EmailNotificationKind; label: string; description: string }[] = [
+  { key: 'shares', label: 'Shared with me', description: 'When someone shares a document with you' },
+  { key: 'accessRequests', label: 'Access requests', description: 'When someone asks to edit one of your documents' },
+  { key: 'comments', label: 'Comments and replies', description: 'New comments on your documents and replies in your threads' },
+  { key: 'mentions', label: 'Mentions', description: 'When someone @mentions you' },
+  { key: 'digest', label: 'Daily digest', description: 'One email a day summarizing your unread notifications' }
+];
+
+export function isEmailNotificationKind(value: string): value is EmailNotificationKind {
+  return value in DEFAULT_EMAIL_PREFERENCES;
+}
+
+/**
+ * Stored preferences merged over the defaults
+ */
+export function getEmailPreferences(
+  stored?: Partial<EmailNotificationPreferences> | null
+): EmailNotificationPreferences {
+  return { ...DEFAULT_EMAIL_PREFERENCES, ...(stored || {}) };
+}
+
+/**
+ * Whether a user wants a kind of notification email, given their stored preferences
+ */
+export function wantsEmail(
+  stored: Partial<EmailNotificationPreferences> | null | undefined,
+  kind: EmailNotificationKind
+): boolean {
+  return getEmailPreferences(stored)[kind];
+}
@@ -0,0 +1,279 @@
+/**
+ * Email Templates
+ *
+ * Every email is rendered twice - HTML and plain text - from the same data.
+ * Templates only build content; lib/email.ts sends it.
+ */
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const MAX_EXCERPT_LENGTH = 300;
+
+const STYLES = `
+  body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+  .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+  .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
+  .header h1 { color: white; margin: 0; }
+  .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
+  .quote { background: #fff; padding: 10px 15px; border-left: 4px solid #667eea; border-radius: 5px; white-space: pre-wrap; }
+  .button { display: inline-block; padding: 15px 30px; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; text-decoration: none; border-radius: 8px; margin: 20px 10px; }
+  .button-secondary { background: #fff; color: #764ba2; border: 2px solid #764ba2; }
+  .list { padding-left: 20px; }
+  .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+`;
+
+/**
+ * Escape user-provided text before putting it in an email body
+ */
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function shorten(text: string) {
+  return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH)}…` : text;
+}
+
+function appUrl(path: string) {
+  return `${process.env.NEXTAUTH_URL}${path}`;
+}
+
+/**
+ * Wrap content in the shared layout
+ * `bodyHtml` must already be escaped; `bodyText` is the plain-text equivalent
+ */
+function renderEmail({
+  subject,
+  heading,
+  bodyHtml,
+  bodyText,
+  actions = [],
+  notificationFooter = true
+}: {
+  subject: string;
+  heading: string;
+  bodyHtml: string;
+  bodyText: string;
+  actions?: { label: string; url: string; secondary?: boolean }[];
+  notificationFooter?: boolean;
+}): RenderedEmail {
+  const footerHtml = notificationFooter
+    ? `<p>You're receiving this because of your NoteVerse notification settings. <a href="${appUrl('/profile')}">Manage email notifications</a></p>`
+    : '<p>This is an automated email. Please do not reply.</p>';
+  const footerText = notificationFooter
+    ? `Manage email notifications: ${appUrl('/profile')}`
+    : 'This is an automated email. Please do not reply.';
+
+  const actionsHtml = actions.length > 0
+    ? `<div style="text-align: center;">${actions
+      .map((action) => `<a href="${action.url}" class="button${action.secondary ? ' button-secondary' : ''}">${escapeHtml(action.label)}</a>`)
+      .join('')}</div>`
+    : '';
+  const actionsText = actions.map((action) => `${action.label}: ${action.url}`).join('\n');
+
+  const html = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <style>${STYLES}</style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${escapeHtml(heading)}</h1>
+            </div>
+            <div class="content">
+              ${bodyHtml}
+              ${actionsHtml}
+              <p>Best regards,<br>The NoteVerse Team</p>
+            </div>
+            <div class="footer">
+              ${footerHtml}
+            </div>
+          </div>
+        </body>
+      </html>
+    `;
+
+  const text = [bodyText, actionsText, 'The NoteVerse Team', '--', footerText]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return { subject, html, text };
+}
+
+export function passwordResetEmail({ resetUrl }: { resetUrl: string }): RenderedEmail {
+  return renderEmail({
+    subject: 'Reset Your NoteVerse Password',
+    heading: '🔐 Reset Your Password',
+    bodyHtml: `
+      <p>Hi there,</p>
+      <p>We received a request to reset your NoteVerse password. Click the button below to create a new password:</p>
+      <div style="text-align: center;">
+        <a href="${resetUrl}" class="button">Reset Password</a>
+      </div>
+      <p>Or copy and paste this link into your browser:</p>
+      <p style="word-break: break-all; background: #fff; padding: 10px; border-radius: 5px;">${resetUrl}</p>
+      <p><strong>This link will expire in 1 hour.</strong></p>
+      <p>If you didn't request this password reset, you can safely ignore this email. Your password will remain unchanged.</p>`,
+    bodyText: `Hi there,\n\nWe received a request to reset your NoteVerse password. Open this link to create a new password:\n\n${resetUrl}\n\nThis link will expire in 1 hour.\n\nIf you didn't request this password reset, you can safely ignore this email. Your password will remain unchanged.`,
+    notificationFooter: false
+  });
+}
+
+export function mentionEmail({
+  mentionedBy,
+  documentTitle,
+  documentUrl,
+  excerpt,
+  source
+}: {
+  mentionedBy: string;
+  documentTitle: string;
+  documentUrl: string;
+  excerpt: string;
+  source: 'comment' | 'chat';
+}): RenderedEmail {
+  const place = source === 'comment' ? 'a comment' : 'the chat';
+  const quote = shorten(excerpt);
+
+  return renderEmail({
+    subject: `${mentionedBy} mentioned you in "${documentTitle}"`,
+    heading: '💬 You were mentioned',
+    bodyHtml: `
+      <p><strong>${escapeHtml(mentionedBy)}</strong> mentioned you in ${place} on <strong>${escapeHtml(documentTitle)}</strong>:</p>
+      <p class="quote">${escapeHtml(quote)}</p>`,
+    bodyText: `${mentionedBy} mentioned you in ${place} on "${documentTitle}":\n\n${quote}`,
+    actions: [{ label: 'Open Document', url: documentUrl }]
+  });
+}
+
+export function shareEmail({
+  sharedBy,
+  documentTitle,
+  documentUrl,
+  role
+}: {
+  sharedBy: string;
+  documentTitle: string;
+  documentUrl: string;
+  role: string;
+}): RenderedEmail {
+  return renderEmail({
+    subject: `${sharedBy} shared "${documentTitle}" with you`,
+    heading: '📄 A document was shared with you',
+    bodyHtml: `<p><strong>${escapeHtml(sharedBy)}</strong> shared <strong>${escapeHtml(documentTitle)}</strong> with you as ${escapeHtml(role)}.</p>`,
+    bodyText: `${sharedBy} shared "${documentTitle}" with you as ${role}.`,
+    actions: [{ label: 'Open Document', url: documentUrl }]
+  });
+}
+
+export function invitationEmail({
+  invitedBy,
+  email,
+  documentTitle,
+  signupUrl,
+  role
+}: {
+  invitedBy: string;
+  email: string;
+  documentTitle: string;
+  signupUrl: string;
+  role: string;
+}): RenderedEmail {
+  return renderEmail({
+    subject: `${invitedBy} invited you to "${documentTitle}" on NoteVerse`,
+    heading: '✉️ You were invited to a document',
+    bodyHtml: `
+      <p><strong>${escapeHtml(invitedBy)}</strong> invited you to <strong>${escapeHtml(documentTitle)}</strong> as ${escapeHtml(role)}.</p>
+      <p>Create a free NoteVerse account with <strong>${escapeHtml(email)}</strong> to open it. The document will be waiting for you.</p>`,
+    bodyText: `${invitedBy} invited you to "${documentTitle}" as ${role}.\n\nCreate a free NoteVerse account with ${email} to open it. The document will be waiting for you.`,
+    actions: [{ label: 'Create Account', url: signupUrl }],
+    notificationFooter: false
+  });
+}
+
+export function accessRequestEmail({
+  requesterName,
+  requesterEmail,
+  documentTitle,
+  documentUrl,
+  approveUrl,
+  rejectUrl
+}: {
+  requesterName: string;
+  requesterEmail: string;
+  documentTitle: string;
+  documentUrl: string;
+  approveUrl: string;
+  rejectUrl: string;
+}): RenderedEmail {
+  return renderEmail({
+    subject: `${requesterName} requested edit access to "${documentTitle}"`,
+    heading: '🔑 Edit access requested',
+    bodyHtml: `
+      <p><strong>${escapeHtml(requesterName)}</strong> (${escapeHtml(requesterEmail)}) asked to edit <strong>${escapeHtml(documentTitle)}</strong>.</p>
+      <p>Approving makes them an editor. You may be asked to sign in first.</p>`,
+    bodyText: `${requesterName} (${requesterEmail}) asked to edit "${documentTitle}".\n\nApproving makes them an editor. You may be asked to sign in first.\n\nOpen the document: ${documentUrl}`,
+    actions: [
+      { label: 'Approve', url: approveUrl },
+      { label: 'Deny', url: rejectUrl, secondary: true }
+    ]
+  });
+}
+
+export function commentEmail({
+  author,
+  documentTitle,
+  documentUrl,
+  excerpt,
+  kind
+}: {
+  author: string;
+  documentTitle: string;
+  documentUrl: string;
+  excerpt: string;
+  kind: 'comment' | 'reply';
+}): RenderedEmail {
+  const action = kind === 'comment' ? 'commented on' : 'replied to a comment on';
+  const quote = shorten(excerpt);
+
+  return renderEmail({
+    subject: `${author} ${action} "${documentTitle}"`,
+    heading: kind === 'comment' ? '💬 New comment' : '💬 New reply',
+    bodyHtml: `
+      <p><strong>${escapeHtml(author)}</strong> ${action} <strong>${escapeHtml(documentTitle)}</strong>:</p>
+      <p class="quote">${escapeHtml(quote)}</p>`,
+    bodyText: `${author} ${action} "${documentTitle}":\n\n${quote}`,
+    actions: [{ label: 'Open Document', url: documentUrl }]
+  });
+}
+
+export function digestEmail({
+  notifications
+}: {
+  notifications: { message: string; link: string }[];
+}): RenderedEmail {
+  const count = notifications.length;
+  const summary = `You have ${count} unread notification${count === 1 ? '' : 's'} from the last day:`;
+
+  return renderEmail({
+    subject: `Your NoteVerse digest: ${count} unread notification${count === 1 ? '' : 's'}`,
+    heading: '📬 Your daily digest',
+    bodyHtml: `
+      <p>${summary}</p>
+      <ul class="list">
+        ${notifications.map((notification) => `<li><a href="${appUrl(notification.link)}">${escapeHtml(notification.message)}</a></li>`).join('\n        ')}
+      </ul>`,
+    bodyText: `${summary}\n\n${notifications.map((notification) => `- ${notification.message}\n  ${appUrl(notification.link)}`).join('\n')}`,
+    actions: [{ label: 'Open NoteVerse', url: appUrl('/dashboard') }]
+  });
+}
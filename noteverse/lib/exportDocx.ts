@@ -0,0 +1,319 @@
+/**
+ * DOCX Export
+ *
+ * Renders the export model (lib/exportModel.ts) as a Word document with the
+ * docx package. Images are embedded (PNG, JPEG and GIF; other images show
+ * their alt text), lists use Word numbering, task lists checkbox symbols.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ILevelsOptions,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageOrientation,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import {
+  Alignment,
+  ExportBlock,
+  ExportImage,
+  ExportInline,
+  PAGE_SIZES,
+  POINTS_PER_MM,
+  POINTS_PER_PIXEL,
+  PageSetup,
+  TextStyle,
+  imageDisplaySize,
+  pageDimensions
+} from './exportModel';
+
+interface DocxOptions {
+  title: string;
+  page: PageSetup;
+  images: Map<string, ExportImage>; // By src
+  resolveUrl: (url: string) => string;
+}
+
+// Where a block is rendered
+interface DocxContext {
+  depth: number; // List nesting
+  indent: number; // Twips
+  maxImageWidth: number; // Pixels
+  quote: boolean;
+}
+
+type NumberingConfig = { reference: string; levels: ILevelsOptions[] };
+
+interface DocxState {
+  options: DocxOptions;
+  numbering: NumberingConfig[]; // Filled while rendering, one per list
+}
+
+const TWIPS_PER_POINT = 20;
+const LIST_INDENT = 720; // Twips per list level
+const CODE_FONT = 'Courier New';
+
+const ALIGNMENTS: Record<Alignment, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+  justify: AlignmentType.JUSTIFIED
+};
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6
+];
+
+const IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp'
+};
+
+const hex = (color: string) => color.replace('#', '').toUpperCase();
+
+/**
+ * A numbering definition of its own for every list, so each one starts
+ * counting at its start
+ */
+function listReference(state: DocxState, kind: 'bullet' | 'ordered', start: number): string {
+  const reference = `list-${state.numbering.length + 1}`;
+  const bullets = ['•', '◦', '▪'];
+  const formats = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+
+  state.numbering.push({
+    reference,
+    levels: Array.from({ length: 9 }, (_, level) => ({
+      level,
+      format: kind === 'bullet' ? LevelFormat.BULLET : formats[level % 3],
+      text: kind === 'bullet' ? bullets[level % 3] : `%${level + 1}.`,
+      start,
+      alignment: AlignmentType.LEFT,
+      style: { paragraph: { indent: { left: LIST_INDENT * (level + 1), hanging: 360 } } }
+    }))
+  });
+
+  return reference;
+}
+
+function textRun(text: string, style: TextStyle, extra: { color?: string } = {}): TextRun {
+  return new TextRun({
+    text,
+    bold: style.bold,
+    italics: style.italic,
+    underline: style.underline ? {} : undefined,
+    strike: style.strike,
+    color: extra.color ?? (style.color ? hex(style.color) : undefined),
+    font: style.code ? CODE_FONT : style.fontFamily,
+    size: style.fontSize ? Math.round(style.fontSize * 2) : undefined,
+    shading: style.highlight ? { type: ShadingType.CLEAR, color: 'auto', fill: hex(style.highlight) } : undefined,
+    style: style.link ? 'Hyperlink' : undefined
+  });
+}
+
+function imageRun(state: DocxState, inline: Extract<ExportInline, { type: 'image' }>, context: DocxContext): ParagraphChild {
+  const image = state.options.images.get(inline.src);
+  const type = image && IMAGE_TYPES[image.contentType];
+  if (!image || !type) {
+    return textRun(`[${inline.alt || 'Image'}]`, { italic: true }, { color: '6B7280' });
+  }
+
+  return new ImageRun({
+    type,
+    data: image.data,
+    transformation: imageDisplaySize(inline, image, context.maxImageWidth),
+    altText: { name: inline.alt || 'Image', description: inline.alt, title: inline.alt }
+  });
+}
+
+function renderInlines(state: DocxState, inlines: ExportInline[], context: DocxContext): ParagraphChild[] {
+  const children: ParagraphChild[] = [];
+  let link: { url: string; children: ParagraphChild[] } | null = null;
+
+  const flushLink = () => {
+    if (link) children.push(new ExternalHyperlink({ link: state.options.resolveUrl(link.url), children: link.children }));
+    link = null;
+  };
+
+  for (const inline of inlines) {
+    const url = inline.type === 'text' ? inline.style.link : inline.type === 'image' ? inline.link : undefined;
+    const child = inline.type === 'text'
+      ? textRun(inline.text, inline.style)
+      : inline.type === 'image' ? imageRun(state, inline, context) : new TextRun({ break: 1 });
+
+    if (link && link.url !== url) flushLink();
+    if (url) {
+      link ??= { url, children: [] };
+      link.children.push(child);
+    } else {
+      children.push(child);
+    }
+  }
+  flushLink();
+
+  return children;
+}
+
+function renderParagraph(
+  children: ParagraphChild[],
+  context: DocxContext,
+  options: { align?: Alignment; heading?: number; pageBreakBefore?: boolean; numbering?: { reference: string; level: number } } = {}
+): Paragraph {
+  return new Paragraph({
+    children,
+    alignment: options.align ? ALIGNMENTS[options.align] : undefined,
+    heading: options.heading ? HEADING_LEVELS[options.heading - 1] : undefined,
+    pageBreakBefore: options.pageBreakBefore,
+    numbering: options.numbering,
+    // Numbered paragraphs are indented by their level
+    indent: !options.numbering && context.indent ? { left: context.indent } : undefined,
+    border: context.quote
+      ? { left: { style: BorderStyle.SINGLE, size: 18, color: 'D1D5DB', space: 12 } }
+      : undefined
+  });
+}
+
+function renderList(state: DocxState, block: Extract<ExportBlock, { type: 'list' }>, context: DocxContext): Array<Paragraph | Table> {
+  const reference = block.kind === 'task' ? null : listReference(state, block.kind, block.start);
+  const itemContext: DocxContext = {
+    ...context,
+    depth: context.depth + 1,
+    indent: context.indent + LIST_INDENT
+  };
+
+  return block.items.flatMap((item) => {
+    const [first, ...rest] = item.blocks;
+    const startsWithText = first?.type === 'paragraph' || first?.type === 'heading';
+    const firstContent = startsWithText ? first.content : [];
+    const checkbox = block.kind === 'task' ? [new TextRun({ text: item.checked ? '☒ ' : '☐ ', font: 'Segoe UI Symbol' })] : [];
+
+    // The marker goes on the item's first paragraph (or one of its own)
+    const marker = renderParagraph(
+      [...checkbox, ...renderInlines(state, firstContent, itemContext)],
+      itemContext,
+      {
+        align: first?.type === 'paragraph' ? first.align : undefined,
+        numbering: reference ? { reference, level: Math.min(context.depth, 8) } : undefined
+      }
+    );
+    return [marker, ...renderBlocks(state, startsWithText ? rest : item.blocks, itemContext)];
+  });
+}
+
+function renderTable(state: DocxState, block: Extract<ExportBlock, { type: 'table' }>, context: DocxContext): Table {
+  const columns = Math.max(...block.rows.map((row) => row.reduce((sum, cell) => sum + cell.colspan, 0)));
+  const cellContext: DocxContext = { depth: 0, indent: 0, maxImageWidth: context.maxImageWidth / columns, quote: false };
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: block.rows.map((row, rowIndex) => new TableRow({
+      tableHeader: rowIndex === 0 && row.every((cell) => cell.header),
+      children: row.map((cell) => {
+        const children = renderBlocks(state, cell.blocks, cellContext);
+        return new TableCell({
+          columnSpan: cell.colspan,
+          shading: cell.header ? { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' } : undefined,
+          // Word needs a paragraph in every cell
+          children: children.length > 0 ? children : [new Paragraph({})]
+        });
+      })
+    }))
+  });
+}
+
+function renderBlock(state: DocxState, block: ExportBlock, context: DocxContext): Array<Paragraph | Table> {
+  switch (block.type) {
+    case 'paragraph':
+      return [renderParagraph(renderInlines(state, block.content, context), context, { align: block.align })];
+    case 'heading':
+      return [renderParagraph(renderInlines(state, block.content, context), context, {
+        align: block.align,
+        heading: block.level,
+        pageBreakBefore: block.pageBreakBefore
+      })];
+    case 'list':
+      return renderList(state, block, context);
+    case 'blockquote':
+      return renderBlocks(state, block.blocks, { ...context, indent: context.indent + LIST_INDENT / 2, quote: true });
+    case 'codeBlock':
+      return [new Paragraph({
+        children: block.text.split('\n').map((line, index) =>
+          new TextRun({ text: line, font: CODE_FONT, size: 20, break: index > 0 ? 1 : undefined })
+        ),
+        shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' },
+        indent: context.indent ? { left: context.indent } : undefined
+      })];
+    case 'rule':
+      return [new Paragraph({
+        children: [],
+        border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D1D5DB', space: 1 } }
+      })];
+    case 'table':
+      return block.rows.length > 0 ? [renderTable(state, block, context), new Paragraph({})] : [];
+  }
+}
+
+function renderBlocks(state: DocxState, blocks: ExportBlock[], context: DocxContext): Array<Paragraph | Table> {
+  return blocks.flatMap((block) => renderBlock(state, block, context));
+}
+
+export async function renderDocx(blocks: ExportBlock[], options: DocxOptions): Promise<Buffer> {
+  const state: DocxState = { options, numbering: [] };
+  const { page, title } = options;
+  const margin = Math.round(page.margin * POINTS_PER_MM * TWIPS_PER_POINT);
+  const contentWidth = pageDimensions(page).width - 2 * page.margin * POINTS_PER_MM;
+
+  const children = renderBlocks(state, blocks, {
+    depth: 0,
+    indent: 0,
+    maxImageWidth: contentWidth / POINTS_PER_PIXEL,
+    quote: false
+  });
+
+  const document = new Document({
+    title,
+    creator: 'NoteVerse',
+    styles: {
+      default: {
+        document: { run: { font: 'Arial', size: 22 } },
+        hyperlink: { run: { color: '4F46E5', underline: {} } }
+      }
+    },
+    numbering: { config: state.numbering },
+    sections: [{
+      properties: {
+        page: {
+          // Given upright, docx turns them for landscape
+          size: {
+            width: Math.round(PAGE_SIZES[page.size].width * TWIPS_PER_POINT),
+            height: Math.round(PAGE_SIZES[page.size].height * TWIPS_PER_POINT),
+            orientation: page.orientation === 'landscape' ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT
+          },
+          margin: { top: margin, right: margin, bottom: margin, left: margin }
+        }
+      },
+      children
+    }]
+  });
+
+  return Packer.toBuffer(document);
+}
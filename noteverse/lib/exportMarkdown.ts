@@ -0,0 +1,183 @@
+/**
+ * Markdown Export
+ *
+ * Renders the export model (lib/exportModel.ts) as GitHub-flavored Markdown:
+ * task lists and tables use the GFM syntax; what Markdown has no syntax for
+ * (underline, highlights, alignment) uses the inline HTML that GFM renders.
+ * Colors and fonts are left out.
+ */
+
+import { ExportBlock, ExportInline, TextStyle, hasContent } from './exportModel';
+
+interface MarkdownOptions {
+  resolveUrl: (url: string) => string; // Makes relative links and image URLs absolute
+}
+
+// Formatting that changes the Markdown of a run
+const sameFormatting = (a: TextStyle, b: TextStyle) =>
+  !!a.bold === !!b.bold &&
+  !!a.italic === !!b.italic &&
+  !!a.strike === !!b.strike &&
+  !!a.underline === !!b.underline &&
+  !!a.code === !!b.code &&
+  a.highlight === b.highlight;
+
+const escapeText = (text: string) => text.replace(/([\\`*_[\]<>~|])/g, '\\$1');
+
+function codeSpan(text: string): string {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+function formatRun(text: string, style: TextStyle): string {
+  // Delimiters can't be next to the spaces inside them
+  const [, leading, inner, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text) || ['', '', text, ''];
+  if (!inner) return text;
+
+  let result = style.code ? codeSpan(inner) : escapeText(inner);
+  if (style.strike) result = `~~${result}~~`;
+  if (style.italic) result = `*${result}*`;
+  if (style.bold) result = `**${result}**`;
+  if (style.underline) result = `<u>${result}</u>`;
+  if (style.highlight) result = `<mark>${result}</mark>`;
+
+  return `${leading}${result}${trailing}`;
+}
+
+function renderInlines(inlines: ExportInline[], options: MarkdownOptions, lineBreak = '\\\n'): string {
+  let result = '';
+  let index = 0;
+
+  while (index < inlines.length) {
+    const inline = inlines[index];
+
+    if (inline.type === 'break') {
+      result += lineBreak;
+      index++;
+      continue;
+    }
+
+    if (inline.type === 'image') {
+      const image = `![${escapeText(inline.alt)}](${options.resolveUrl(inline.src)})`;
+      result += inline.link ? `[${image}](${options.resolveUrl(inline.link)})` : image;
+      index++;
+      continue;
+    }
+
+    // Neighbouring runs with the same link become one link, and runs with
+    // the same formatting one formatted span
+    const link = inline.style.link;
+    let text = '';
+    while (index < inlines.length) {
+      const run = inlines[index];
+      if (run.type !== 'text' || run.style.link !== link) break;
+
+      let merged = run.text;
+      index++;
+      while (index < inlines.length) {
+        const next = inlines[index];
+        if (next.type !== 'text' || next.style.link !== link || !sameFormatting(next.style, run.style)) break;
+        merged += next.text;
+        index++;
+      }
+      text += formatRun(merged, run.style);
+    }
+
+    result += link ? `[${text}](${options.resolveUrl(link)})` : text;
+  }
+
+  return result;
+}
+
+// Text that would start a heading, list, quote or rule
+function escapeLineStart(markdown: string): string {
+  return markdown
+    .replace(/^(\s*)([#+\-=>])/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])/, '$1\\$2');
+}
+
+function aligned(markdown: string, align: string | undefined): string {
+  return align && align !== 'left' ? `<div align="${align}">\n\n${markdown}\n\n</div>` : markdown;
+}
+
+const indent = (text: string, width: number) => text.replace(/\n(?=.)/g, `\n${' '.repeat(width)}`);
+
+function renderList(block: Extract<ExportBlock, { type: 'list' }>, options: MarkdownOptions): string {
+  return block.items.map((item, index) => {
+    const marker = block.kind === 'ordered'
+      ? `${block.start + index}. `
+      : block.kind === 'task' ? `- [${item.checked ? 'x' : ' '}] ` : '- ';
+    const width = block.kind === 'ordered' ? marker.length : 2;
+
+    // Paragraphs of one item need a blank line between them, nested lists don't
+    const content = item.blocks
+      .map((child, childIndex) => {
+        const markdown = renderBlock(child, options);
+        if (childIndex === 0 || !markdown) return markdown;
+        return child.type === 'list' ? `\n${markdown}` : `\n\n${markdown}`;
+      })
+      .join('');
+
+    return `${marker}${indent(content, width)}`;
+  }).join('\n');
+}
+
+function renderTable(block: Extract<ExportBlock, { type: 'table' }>, options: MarkdownOptions): string {
+  const columns = Math.max(...block.rows.map((row) => row.reduce((sum, cell) => sum + cell.colspan, 0)));
+  const lines = block.rows.map((row) => {
+    const cells = row.flatMap((cell) => [
+      cell.blocks
+        .map((child) => renderBlock(child, options))
+        .filter(Boolean)
+        .join('<br>')
+        .replace(/\\?\n/g, '<br>'),
+      ...Array<string>(cell.colspan - 1).fill('')
+    ]);
+    while (cells.length < columns) cells.push('');
+    return `| ${cells.join(' | ')} |`;
+  });
+
+  // GFM tables always have a header row: the first one
+  lines.splice(1, 0, `|${' --- |'.repeat(columns)}`);
+  return lines.join('\n');
+}
+
+function renderBlock(block: ExportBlock, options: MarkdownOptions): string {
+  switch (block.type) {
+    case 'paragraph':
+      return hasContent(block.content)
+        ? aligned(escapeLineStart(renderInlines(block.content, options)), block.align)
+        : '';
+    case 'heading':
+      return aligned(`${'#'.repeat(block.level)} ${renderInlines(block.content, options, ' ')}`, block.align);
+    case 'list':
+      return renderList(block, options);
+    case 'blockquote':
+      return renderBlocks(block.blocks, options)
+        .split('\n')
+        .map((line) => line ? `> ${line}` : '>')
+        .join('\n');
+    case 'codeBlock': {
+      const longestRun = Math.max(2, ...(block.text.match(/`+/g) || []).map((run) => run.length));
+      const fence = '`'.repeat(longestRun + 1);
+      return `${fence}${block.language || ''}\n${block.text}\n${fence}`;
+    }
+    case 'rule':
+      return '---';
+    case 'table':
+      return block.rows.length > 0 ? renderTable(block, options) : '';
+  }
+}
+
+function renderBlocks(blocks: ExportBlock[], options: MarkdownOptions): string {
+  return blocks
+    .map((block) => renderBlock(block, options))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+export function renderMarkdown(blocks: ExportBlock[], options: MarkdownOptions): string {
+  return `${renderBlocks(blocks, options)}\n`;
+}
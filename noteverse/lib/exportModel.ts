@@ -0,0 +1,491 @@
+/**
+ * Export Model
+ *
+ * The stored HTML of a document, parsed into the blocks and inline runs the
+ * Markdown, DOCX and PDF exporters render (lib/exportMarkdown.ts,
+ * lib/exportDocx.ts, lib/exportPdf.ts). It understands the HTML our TipTap
+ * extensions produce: headings and paragraphs with text-align, bullet,
+ * ordered and task lists, blockquotes, code blocks, rules, tables, images
+ * (with their resized width/height), links, highlights (<mark data-color>)
+ * and textStyle spans (color, font family, font size).
+ */
+
+import { Parser } from 'htmlparser2';
+import { DocumentTab } from './documentTabs';
+
+export type Alignment = 'left' | 'center' | 'right' | 'justify';
+
+export interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  color?: string; // #rrggbb
+  highlight?: string; // #rrggbb
+  fontFamily?: string;
+  fontSize?: number; // points
+  link?: string;
+}
+
+export type ExportInline =
+  | { type: 'text'; text: string; style: TextStyle }
+  | { type: 'image'; src: string; alt: string; width: number | null; height: number | null; link?: string } // CSS pixels
+  | { type: 'break' };
+
+export interface ExportListItem {
+  checked?: boolean; // Task list items only
+  blocks: ExportBlock[];
+}
+
+export interface ExportTableCell {
+  header: boolean;
+  colspan: number;
+  blocks: ExportBlock[];
+}
+
+export type ExportBlock =
+  | { type: 'paragraph'; align?: Alignment; content: ExportInline[] }
+  | { type: 'heading'; level: number; align?: Alignment; content: ExportInline[]; pageBreakBefore?: boolean }
+  | { type: 'list'; kind: 'bullet' | 'ordered' | 'task'; start: number; items: ExportListItem[] }
+  | { type: 'blockquote'; blocks: ExportBlock[] }
+  | { type: 'codeBlock'; language: string | null; text: string }
+  | { type: 'rule' }
+  | { type: 'table'; rows: ExportTableCell[][] };
+
+// An image the exporters can embed, by src (see loadExportImages in lib/documentExport.ts)
+export interface ExportImage {
+  data: Buffer;
+  contentType: string;
+  width: number; // Natural size in pixels
+  height: number;
+}
+
+export type PageSize = 'a4' | 'letter' | 'legal';
+
+// Portrait sizes in points
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+  legal: { width: 612, height: 1008 }
+};
+
+// Page setup of the paged formats (DOCX and PDF)
+export interface PageSetup {
+  size: PageSize;
+  orientation: 'portrait' | 'landscape';
+  margin: number; // Millimetres, on every side
+}
+
+export const POINTS_PER_MM = 72 / 25.4;
+export const POINTS_PER_PIXEL = 0.75;
+
+/**
+ * The size of a page in points, turned for landscape
+ */
+export function pageDimensions(page: PageSetup): { width: number; height: number } {
+  const { width, height } = PAGE_SIZES[page.size];
+  return page.orientation === 'landscape' ? { width: height, height: width } : { width, height };
+}
+
+// Used when a highlight has no color of its own, like in the editor
+export const DEFAULT_HIGHLIGHT = '#fef08a';
+
+interface HtmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'hr', 'table',
+  'div', 'section', 'article', 'header', 'footer', 'main', 'figure'
+]);
+
+function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { name: '', attributes: {}, children: [] };
+  const stack = [root];
+
+  const parser = new Parser({
+    onopentag: (name, attributes) => {
+      const element: HtmlElement = { name, attributes, children: [] };
+      stack[stack.length - 1].children.push(element);
+      stack.push(element);
+    },
+    ontext: (text) => {
+      stack[stack.length - 1].children.push(text);
+    },
+    onclosetag: () => {
+      if (stack.length > 1) stack.pop();
+    }
+  }, { decodeEntities: true });
+  parser.write(html);
+  parser.end();
+
+  return root.children;
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === 'string') return node;
+  if (node.name === 'br') return '\n';
+  return node.children.map(textContent).join('');
+}
+
+function parseCss(style: string | undefined): Map<string, string> {
+  const properties = new Map<string, string>();
+  for (const declaration of (style || '').split(';')) {
+    const colon = declaration.indexOf(':');
+    if (colon === -1) continue;
+    properties.set(declaration.slice(0, colon).trim().toLowerCase(), declaration.slice(colon + 1).trim());
+  }
+  return properties;
+}
+
+/**
+ * A CSS color as #rrggbb (null for transparent, inherited and named colors)
+ */
+export function toHexColor(value: string | undefined): string | null {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+
+  if (/^#[0-9a-f]{6}$/.test(color)) return color;
+  if (/^#[0-9a-f]{3}$/.test(color)) return `#${[...color.slice(1)].map((digit) => digit + digit).join('')}`;
+
+  const rgb = /^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)(?:[\s,/]+([\d.]+%?))?\s*\)$/.exec(color);
+  if (rgb) {
+    if (rgb[4] !== undefined && parseFloat(rgb[4]) === 0) return null;
+    return `#${rgb.slice(1, 4).map((channel) => Math.min(255, Number(channel)).toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  return null;
+}
+
+// A CSS font size in points
+function toPoints(value: string | undefined): number | null {
+  const match = /^([\d.]+)(px|pt)$/.exec(value?.trim().toLowerCase() || '');
+  if (!match) return null;
+  const size = parseFloat(match[1]) * (match[2] === 'px' ? 0.75 : 1);
+  return size > 0 ? size : null;
+}
+
+function toPixels(value: string | undefined): number | null {
+  const size = parseFloat(value || '');
+  return Number.isFinite(size) && size > 0 ? size : null;
+}
+
+function alignmentOf(element: HtmlElement): Alignment | undefined {
+  const align = parseCss(element.attributes.style).get('text-align') || element.attributes.align;
+  return align === 'center' || align === 'right' || align === 'justify' ? align : undefined;
+}
+
+// What an element adds to the style of the text inside it
+function elementStyle(element: HtmlElement, style: TextStyle): TextStyle {
+  const next: TextStyle = { ...style };
+
+  switch (element.name) {
+    case 'strong':
+    case 'b':
+      next.bold = true;
+      break;
+    case 'em':
+    case 'i':
+      next.italic = true;
+      break;
+    case 'u':
+      next.underline = true;
+      break;
+    case 's':
+    case 'strike':
+    case 'del':
+      next.strike = true;
+      break;
+    case 'code':
+    case 'kbd':
+      next.code = true;
+      break;
+    case 'a':
+      if (element.attributes.href && !/^\s*(javascript|data|vbscript):/i.test(element.attributes.href)) {
+        next.link = element.attributes.href;
+      }
+      break;
+    case 'mark':
+      next.highlight = toHexColor(element.attributes['data-color']) || DEFAULT_HIGHLIGHT;
+      break;
+  }
+
+  const css = parseCss(element.attributes.style);
+  const color = toHexColor(css.get('color'));
+  if (color) next.color = color;
+  const background = toHexColor(css.get('background-color'));
+  if (background) next.highlight = background;
+  const fontSize = toPoints(css.get('font-size'));
+  if (fontSize) next.fontSize = fontSize;
+  const fontFamily = css.get('font-family')?.split(',')[0].trim().replace(/^["']|["']$/g, '');
+  if (fontFamily) next.fontFamily = fontFamily;
+  if (css.get('font-weight') === 'bold' || Number(css.get('font-weight')) >= 600) next.bold = true;
+  if (css.get('font-style') === 'italic') next.italic = true;
+  if (css.get('text-decoration')?.includes('underline')) next.underline = true;
+  if (css.get('text-decoration')?.includes('line-through')) next.strike = true;
+
+  return next;
+}
+
+function parseInlines(nodes: HtmlNode[], style: TextStyle): ExportInline[] {
+  const inlines: ExportInline[] = [];
+
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      const text = node.replace(/[ \t\n\r\f]+/g, ' ');
+      if (text) inlines.push({ type: 'text', text, style });
+      continue;
+    }
+
+    if (node.name === 'br') {
+      inlines.push({ type: 'break' });
+    } else if (node.name === 'img') {
+      if (!node.attributes.src) continue;
+      const css = parseCss(node.attributes.style);
+      inlines.push({
+        type: 'image',
+        src: node.attributes.src,
+        alt: node.attributes.alt || node.attributes.title || '',
+        width: toPixels(node.attributes.width || css.get('width')),
+        height: toPixels(node.attributes.height || css.get('height')),
+        ...(style.link ? { link: style.link } : {})
+      });
+    } else if (node.name !== 'input') {
+      inlines.push(...parseInlines(node.children, elementStyle(node, style)));
+    }
+  }
+
+  return inlines;
+}
+
+/**
+ * Collapse the spaces between runs and trim the start and end of every line
+ */
+function normalizeInlines(inlines: ExportInline[]): ExportInline[] {
+  const result: ExportInline[] = [];
+  let atLineStart = true;
+
+  for (const inline of inlines) {
+    if (inline.type !== 'text') {
+      if (inline.type === 'break') trimLineEnd(result);
+      result.push(inline);
+      atLineStart = inline.type === 'break';
+      continue;
+    }
+
+    const text = atLineStart || endsWithSpace(result) ? inline.text.replace(/^ /, '') : inline.text;
+    if (!text) continue;
+    result.push({ ...inline, text });
+    atLineStart = false;
+  }
+  trimLineEnd(result);
+
+  return result;
+}
+
+function endsWithSpace(inlines: ExportInline[]): boolean {
+  const last = inlines[inlines.length - 1];
+  return last?.type === 'text' && last.text.endsWith(' ');
+}
+
+function trimLineEnd(inlines: ExportInline[]) {
+  const last = inlines[inlines.length - 1];
+  if (last?.type !== 'text' || !last.text.endsWith(' ')) return;
+
+  const text = last.text.replace(/ $/, '');
+  if (text) inlines[inlines.length - 1] = { ...last, text };
+  else inlines.pop();
+}
+
+export function hasContent(inlines: ExportInline[]): boolean {
+  return inlines.some((inline) => inline.type === 'image' || (inline.type === 'text' && inline.text.trim() !== ''));
+}
+
+function parseListItem(element: HtmlElement, isTask: boolean): ExportListItem {
+  if (!isTask) return { blocks: parseBlocks(element.children) };
+
+  // <li data-checked><label><input type="checkbox"><span></span></label><div>…</div></li>
+  const checkbox = element.children
+    .filter((child): child is HtmlElement => typeof child !== 'string' && child.name === 'label')
+    .flatMap((label) => label.children)
+    .find((child): child is HtmlElement => typeof child !== 'string' && child.name === 'input');
+
+  return {
+    checked: element.attributes['data-checked'] === 'true' || checkbox?.attributes.checked !== undefined,
+    blocks: parseBlocks(element.children.filter((child) => typeof child === 'string' || child.name !== 'label'))
+  };
+}
+
+function parseTableRows(element: HtmlElement): ExportTableCell[][] {
+  const rows: ExportTableCell[][] = [];
+
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    if (['thead', 'tbody', 'tfoot'].includes(child.name)) {
+      rows.push(...parseTableRows(child));
+    } else if (child.name === 'tr') {
+      rows.push(child.children
+        .filter((cell): cell is HtmlElement => typeof cell !== 'string' && (cell.name === 'td' || cell.name === 'th'))
+        .map((cell) => ({
+          header: cell.name === 'th',
+          colspan: Math.max(1, parseInt(cell.attributes.colspan, 10) || 1),
+          blocks: parseBlocks(cell.children)
+        })));
+    }
+  }
+
+  return rows.filter((row) => row.length > 0);
+}
+
+function parseBlock(element: HtmlElement): ExportBlock[] {
+  switch (element.name) {
+    case 'p':
+      return [{ type: 'paragraph', align: alignmentOf(element), content: normalizeInlines(parseInlines(element.children, elementStyle(element, {}))) }];
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+      return [{
+        type: 'heading',
+        level: Number(element.name[1]),
+        align: alignmentOf(element),
+        content: normalizeInlines(parseInlines(element.children, elementStyle(element, {})))
+      }];
+    case 'ul':
+    case 'ol': {
+      const isTask = element.attributes['data-type'] === 'taskList';
+      return [{
+        type: 'list',
+        kind: isTask ? 'task' : element.name === 'ol' ? 'ordered' : 'bullet',
+        start: parseInt(element.attributes.start, 10) || 1,
+        items: element.children
+          .filter((child): child is HtmlElement => typeof child !== 'string' && child.name === 'li')
+          .map((item) => parseListItem(item, isTask))
+      }];
+    }
+    case 'blockquote':
+      return [{ type: 'blockquote', blocks: parseBlocks(element.children) }];
+    case 'pre': {
+      const code = element.children.find((child): child is HtmlElement => typeof child !== 'string' && child.name === 'code');
+      const language = /(?:^|\s)language-(\S+)/.exec(code?.attributes.class || '')?.[1] || null;
+      return [{ type: 'codeBlock', language, text: textContent(element).replace(/\n$/, '') }];
+    }
+    case 'hr':
+      return [{ type: 'rule' }];
+    case 'table':
+      return [{ type: 'table', rows: parseTableRows(element) }];
+    default:
+      return parseBlocks(element.children);
+  }
+}
+
+function parseBlocks(nodes: HtmlNode[]): ExportBlock[] {
+  const blocks: ExportBlock[] = [];
+  let inline: HtmlNode[] = [];
+
+  // Loose inline content between blocks becomes a paragraph
+  const flush = () => {
+    const content = normalizeInlines(parseInlines(inline, {}));
+    if (hasContent(content)) blocks.push({ type: 'paragraph', content });
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node === 'string' || !BLOCK_ELEMENTS.has(node.name)) {
+      inline.push(node);
+      continue;
+    }
+    flush();
+    blocks.push(...parseBlock(node));
+  }
+  flush();
+
+  return blocks;
+}
+
+export function parseExportHtml(html: string): ExportBlock[] {
+  return parseBlocks(parseHtml(html));
+}
+
+/**
+ * The blocks of a document's tabs; with several tabs, every tab starts with
+ * its title (and, in paged formats, on a new page) like combineTabsHtml
+ */
+export function documentBlocks(tabs: DocumentTab[]): ExportBlock[] {
+  if (tabs.length === 1) return parseExportHtml(tabs[0].content);
+
+  return tabs.flatMap((tab, index): ExportBlock[] => [
+    {
+      type: 'heading',
+      level: 1,
+      content: [{ type: 'text', text: tab.title, style: {} }],
+      pageBreakBefore: index > 0
+    },
+    ...parseExportHtml(tab.content)
+  ]);
+}
+
+/**
+ * The text of some inline runs, without formatting
+ */
+export function inlineText(inlines: ExportInline[]): string {
+  return inlines
+    .map((inline) => inline.type === 'text' ? inline.text : inline.type === 'break' ? '\n' : inline.alt)
+    .join('');
+}
+
+/**
+ * The src of every image in some blocks
+ */
+export function imageSources(blocks: ExportBlock[]): string[] {
+  const sources = new Set<string>();
+
+  const visit = (block: ExportBlock) => {
+    switch (block.type) {
+      case 'paragraph':
+      case 'heading':
+        block.content.forEach((inline) => inline.type === 'image' && sources.add(inline.src));
+        break;
+      case 'list':
+        block.items.forEach((item) => item.blocks.forEach(visit));
+        break;
+      case 'blockquote':
+        block.blocks.forEach(visit);
+        break;
+      case 'table':
+        block.rows.forEach((row) => row.forEach((cell) => cell.blocks.forEach(visit)));
+        break;
+    }
+  };
+  blocks.forEach(visit);
+
+  return [...sources];
+}
+
+/**
+ * The size an image is shown at in pixels: as resized in the editor (or its
+ * natural size), scaled down to fit maxWidth
+ */
+export function imageDisplaySize(
+  inline: { width: number | null; height: number | null },
+  image: ExportImage,
+  maxWidth: number
+): { width: number; height: number } {
+  const ratio = image.height / image.width;
+  let width = inline.width ?? (inline.height ? inline.height / ratio : image.width);
+  let height = inline.height ?? width * ratio;
+
+  if (width > maxWidth) {
+    height = height * (maxWidth / width);
+    width = maxWidth;
+  }
+
+  return { width: Math.round(width), height: Math.round(height) };
+}
@@ -0,0 +1,540 @@
+/**
+ * PDF Export
+ *
+ * Renders the export model (lib/exportModel.ts) as a PDF with pdfkit, on the
+ * page size and margins asked for. Lines are laid out here rather than by
+ * pdfkit so runs with different fonts, sizes and highlights can share a line:
+ * every word is measured in its own font, placed, and drawn with its
+ * decorations (highlight, underline, strike, link).
+ *
+ * Text uses the standard PDF fonts (Helvetica, Times, Courier), which only
+ * cover Western European characters; others are shown as "?". PNG and JPEG
+ * images are embedded, other images show their alt text.
+ */
+
+import PDFDocument from 'pdfkit';
+import {
+  Alignment,
+  ExportBlock,
+  ExportImage,
+  ExportInline,
+  POINTS_PER_MM,
+  POINTS_PER_PIXEL,
+  PageSetup,
+  TextStyle,
+  imageDisplaySize,
+  pageDimensions
+} from './exportModel';
+
+interface PdfOptions {
+  title: string;
+  page: PageSetup;
+  images: Map<string, ExportImage>; // By src
+  resolveUrl: (url: string) => string;
+}
+
+// A word, or the spaces between words, placed on a line
+interface Piece {
+  text: string;
+  style: TextStyle;
+  font: string;
+  size: number;
+  width: number;
+  isSpace: boolean;
+}
+
+interface Line {
+  pieces: Piece[];
+  width: number;
+  height: number;
+  size: number; // Largest font size on the line
+  image?: { src: string; alt: string; width: number; height: number; link?: string };
+}
+
+type Atom =
+  | { type: 'text'; text: string; style: TextStyle }
+  | { type: 'break' }
+  | { type: 'image'; inline: Extract<ExportInline, { type: 'image' }>; natural: ExportImage };
+
+// Where a block is rendered
+interface PdfContext {
+  left: number;
+  width: number;
+  quotes: number[]; // x of the bar of every blockquote around it
+}
+
+interface PdfState {
+  doc: PDFKit.PDFDocument;
+  options: PdfOptions;
+  y: number;
+  top: number;
+  bottom: number;
+  marker: ((baseline: number) => void) | null; // List marker waiting for the item's first line
+}
+
+const BASE_SIZE = 11;
+const LINE_HEIGHT = 1.35;
+const PARAGRAPH_SPACING = 6;
+const LIST_INDENT = 18;
+const QUOTE_INDENT = 14;
+const CELL_PADDING = 4;
+const TEXT_COLOR = '#111827';
+const LINK_COLOR = '#4f46e5';
+const MUTED_COLOR = '#6b7280';
+const BORDER_COLOR = '#d1d5db';
+const CODE_BACKGROUND = '#f3f4f6';
+const HEADING_SIZES = [22, 18, 15, 13, 12, 11];
+
+// Image types pdfkit can embed
+const EMBEDDED_TYPES = ['image/png', 'image/jpeg'];
+
+const FONTS = {
+  sans: ['Helvetica', 'Helvetica-Bold', 'Helvetica-Oblique', 'Helvetica-BoldOblique'],
+  serif: ['Times-Roman', 'Times-Bold', 'Times-Italic', 'Times-BoldItalic'],
+  mono: ['Courier', 'Courier-Bold', 'Courier-Oblique', 'Courier-BoldOblique']
+};
+
+// Characters the standard fonts have besides Latin-1 (WinAnsiEncoding)
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+const toWinAnsi = (text: string) =>
+  text.replace(/\t/g, '    ').replace(/[^\x20-\x7e\xa0-\xff]/gu, (char) => WIN_ANSI_EXTRAS.includes(char) ? char : '?');
+
+function fontFor(style: TextStyle): string {
+  const family = style.fontFamily?.toLowerCase() || '';
+  const fonts = style.code || /courier|mono|consolas/.test(family)
+    ? FONTS.mono
+    : /times|georgia|garamond|palatino|cambria|serif/.test(family) && !family.includes('sans')
+      ? FONTS.serif
+      : FONTS.sans;
+  return fonts[(style.bold ? 1 : 0) + (style.italic ? 2 : 0)];
+}
+
+function toAtoms(state: PdfState, inlines: ExportInline[], baseStyle: TextStyle): Atom[] {
+  return inlines.flatMap((inline): Atom[] => {
+    if (inline.type === 'break') return [inline];
+
+    if (inline.type === 'image') {
+      const natural = state.options.images.get(inline.src);
+      if (natural && EMBEDDED_TYPES.includes(natural.contentType)) return [{ type: 'image', inline, natural }];
+      return [{ type: 'text', text: `[${inline.alt || 'Image'}]`, style: { ...baseStyle, italic: true, color: MUTED_COLOR } }];
+    }
+
+    return [{ type: 'text', text: toWinAnsi(inline.text), style: { ...baseStyle, ...inline.style } }];
+  });
+}
+
+/**
+ * Break atoms into lines of at most width points; spaces at the start of a
+ * line are dropped unless preserveSpaces (code)
+ */
+function layoutLines(
+  state: PdfState,
+  atoms: Atom[],
+  { width, size, preserveSpaces = false }: { width: number; size: number; preserveSpaces?: boolean }
+): Line[] {
+  const { doc } = state;
+  const maxImageHeight = state.bottom - state.top;
+  const lines: Line[] = [];
+  let line: Line = { pieces: [], width: 0, height: size * LINE_HEIGHT, size };
+
+  const finishLine = () => {
+    while (!preserveSpaces && line.pieces[line.pieces.length - 1]?.isSpace) {
+      line.width -= line.pieces.pop()?.width || 0;
+    }
+    lines.push(line);
+    line = { pieces: [], width: 0, height: size * LINE_HEIGHT, size };
+  };
+
+  const addPiece = (piece: Piece) => {
+    line.pieces.push(piece);
+    line.width += piece.width;
+    line.size = Math.max(line.size, piece.size);
+    line.height = line.size * LINE_HEIGHT;
+  };
+
+  for (const atom of atoms) {
+    if (atom.type === 'break') {
+      finishLine();
+      continue;
+    }
+
+    if (atom.type === 'image') {
+      if (line.pieces.length > 0) finishLine();
+      let { width: imageWidth, height: imageHeight } = imageDisplaySize(atom.inline, atom.natural, width / POINTS_PER_PIXEL);
+      imageWidth *= POINTS_PER_PIXEL;
+      imageHeight *= POINTS_PER_PIXEL;
+      if (imageHeight > maxImageHeight) {
+        imageWidth *= maxImageHeight / imageHeight;
+        imageHeight = maxImageHeight;
+      }
+      lines.push({
+        pieces: [],
+        width: imageWidth,
+        height: imageHeight + 4,
+        size,
+        image: { src: atom.inline.src, alt: atom.inline.alt, width: imageWidth, height: imageHeight, link: atom.inline.link }
+      });
+      continue;
+    }
+
+    const font = fontFor(atom.style);
+    const pieceSize = atom.style.fontSize || size;
+    doc.font(font).fontSize(pieceSize);
+
+    for (const text of atom.text.split(/( +)/)) {
+      if (!text) continue;
+      const isSpace = text.startsWith(' ');
+      if (isSpace && line.pieces.length === 0 && !preserveSpaces) continue;
+
+      let rest = text;
+      while (rest) {
+        const textWidth = doc.widthOfString(rest);
+        const fits = line.width + textWidth <= width;
+        if (fits || isSpace) {
+          addPiece({ text: rest, style: atom.style, font, size: pieceSize, width: textWidth, isSpace });
+          break;
+        }
+        if (line.pieces.some((piece) => !piece.isSpace)) {
+          finishLine();
+          continue;
+        }
+
+        // A word longer than the line is split where it has to
+        let end = rest.length;
+        while (end > 1 && doc.widthOfString(rest.slice(0, end)) > width) end--;
+        const part = rest.slice(0, end);
+        addPiece({ text: part, style: atom.style, font, size: pieceSize, width: doc.widthOfString(part), isSpace: false });
+        finishLine();
+        rest = rest.slice(end);
+      }
+    }
+  }
+
+  if (line.pieces.length > 0 || lines.length === 0) finishLine();
+  return lines;
+}
+
+function drawQuoteBars(state: PdfState, context: PdfContext, top: number, height: number) {
+  for (const x of context.quotes) {
+    state.doc.rect(x, top, 2.5, height).fill(BORDER_COLOR);
+  }
+}
+
+/**
+ * Move down by height, onto a new page when it doesn't fit on this one
+ */
+function reserve(state: PdfState, context: PdfContext, height: number): number {
+  if (state.y + height > state.bottom && state.y > state.top) {
+    state.doc.addPage();
+    state.y = state.top;
+  }
+  const top = state.y;
+  drawQuoteBars(state, context, top, height);
+  state.y += height;
+  return top;
+}
+
+// Space between blocks, which doesn't carry over to a new page
+function addSpacing(state: PdfState, context: PdfContext, height: number) {
+  const space = Math.min(height, state.bottom - state.y);
+  if (space <= 0) return;
+  drawQuoteBars(state, context, state.y, space);
+  state.y += space;
+}
+
+function drawLine(state: PdfState, line: Line, left: number, top: number, width: number, align: Alignment, isLast: boolean) {
+  const { doc } = state;
+  const baseline = top + (line.height - line.size) / 2 + line.size * 0.8;
+
+  const marker = state.marker;
+  state.marker = null;
+  marker?.(line.image ? top + line.size : baseline);
+
+  let x = left + (align === 'center' ? (width - line.width) / 2 : align === 'right' ? width - line.width : 0);
+
+  if (line.image) {
+    const image = state.options.images.get(line.image.src);
+    try {
+      if (image) doc.image(image.data, x, top, { width: line.image.width, height: line.image.height });
+    } catch (error) {
+      // An image pdfkit can't read (like an interlaced PNG) leaves a frame
+      console.error(`⚠️ Could not embed image ${line.image.src} in PDF:`, error);
+      doc.lineWidth(0.5).rect(x, top, line.image.width, line.image.height).strokeColor(BORDER_COLOR).stroke();
+    }
+    if (line.image.link) doc.link(x, top, line.image.width, line.image.height, state.options.resolveUrl(line.image.link));
+    return;
+  }
+
+  // Justified lines spread their spaces (but not the paragraph's last line)
+  const spaces = line.pieces.filter((piece) => piece.isSpace).length;
+  const extraSpace = align === 'justify' && !isLast && spaces > 0 ? (width - line.width) / spaces : 0;
+
+  for (const piece of line.pieces) {
+    const pieceWidth = piece.width + (piece.isSpace ? extraSpace : 0);
+    const { style, size } = piece;
+    const color = style.color || (style.link ? LINK_COLOR : TEXT_COLOR);
+
+    const background = style.highlight || (style.code ? CODE_BACKGROUND : null);
+    if (background) {
+      doc.rect(x, baseline - size * 0.85, pieceWidth, size * 1.1).fill(background);
+    }
+
+    doc.font(piece.font).fontSize(size).fillColor(color)
+      .text(piece.text, x, baseline, { lineBreak: false, baseline: 'alphabetic' });
+
+    const decorations = [
+      ...(style.underline || style.link ? [baseline + size * 0.12] : []),
+      ...(style.strike ? [baseline - size * 0.28] : [])
+    ];
+    for (const lineY of decorations) {
+      doc.moveTo(x, lineY).lineTo(x + pieceWidth, lineY).lineWidth(Math.max(0.5, size / 18)).strokeColor(color).stroke();
+    }
+
+    if (style.link) {
+      doc.link(x, top, pieceWidth, line.height, state.options.resolveUrl(style.link));
+    }
+    x += pieceWidth;
+  }
+}
+
+function renderLines(
+  state: PdfState,
+  context: PdfContext,
+  lines: Line[],
+  { align = 'left', background }: { align?: Alignment; background?: string } = {}
+) {
+  lines.forEach((line, index) => {
+    const top = reserve(state, context, line.height);
+    if (background) state.doc.rect(context.left, top, context.width, line.height).fill(background);
+    const inset = background ? CELL_PADDING : 0;
+    drawLine(state, line, context.left + inset, top, context.width - 2 * inset, align, index === lines.length - 1);
+  });
+}
+
+function renderParagraph(
+  state: PdfState,
+  context: PdfContext,
+  inlines: ExportInline[],
+  { align, size = BASE_SIZE, style = {} }: { align?: Alignment; size?: number; style?: TextStyle }
+) {
+  const lines = layoutLines(state, toAtoms(state, inlines, style), { width: context.width, size });
+  renderLines(state, context, lines, { align });
+}
+
+function listMarker(
+  state: PdfState,
+  kind: 'bullet' | 'ordered' | 'task',
+  number: number,
+  checked: boolean,
+  right: number
+): (baseline: number) => void {
+  const { doc } = state;
+
+  return (baseline) => {
+    if (kind === 'task') {
+      const boxSize = BASE_SIZE * 0.8;
+      const x = right - boxSize - 2;
+      const y = baseline - boxSize;
+      doc.lineWidth(0.8).rect(x, y, boxSize, boxSize).strokeColor(MUTED_COLOR).stroke();
+      if (checked) {
+        doc.moveTo(x + boxSize * 0.2, y + boxSize * 0.55)
+          .lineTo(x + boxSize * 0.42, y + boxSize * 0.78)
+          .lineTo(x + boxSize * 0.82, y + boxSize * 0.22)
+          .lineWidth(1.2).strokeColor(TEXT_COLOR).stroke();
+      }
+      return;
+    }
+
+    const text = kind === 'ordered' ? `${number}.` : '•';
+    doc.font(FONTS.sans[0]).fontSize(BASE_SIZE).fillColor(TEXT_COLOR);
+    const textWidth = doc.widthOfString(text);
+    doc.text(text, right - textWidth - 4, baseline, { lineBreak: false, baseline: 'alphabetic' });
+  };
+}
+
+/**
+ * The text of table cell blocks as paragraphs (cells hold no other blocks)
+ */
+function cellParagraphs(blocks: ExportBlock[]): Array<{ inlines: ExportInline[]; style: TextStyle }> {
+  return blocks.flatMap((block): Array<{ inlines: ExportInline[]; style: TextStyle }> => {
+    switch (block.type) {
+      case 'paragraph':
+        return [{ inlines: block.content, style: {} }];
+      case 'heading':
+        return [{ inlines: block.content, style: { bold: true } }];
+      case 'list':
+        return block.items.flatMap((item, index) => {
+          const prefix = block.kind === 'ordered' ? `${block.start + index}. ` : block.kind === 'task' ? (item.checked ? '[x] ' : '[ ] ') : '• ';
+          const [first, ...rest] = cellParagraphs(item.blocks);
+          return [
+            { inlines: [{ type: 'text' as const, text: prefix, style: {} }, ...(first?.inlines || [])], style: first?.style || {} },
+            ...rest
+          ];
+        });
+      case 'blockquote':
+        return cellParagraphs(block.blocks);
+      case 'codeBlock':
+        return [{
+          inlines: block.text.split('\n').flatMap((text, index): ExportInline[] => [
+            ...(index > 0 ? [{ type: 'break' as const }] : []),
+            { type: 'text', text, style: { code: true } }
+          ]),
+          style: {}
+        }];
+      case 'table':
+        return block.rows.flatMap((row) => row.flatMap((cell) => cellParagraphs(cell.blocks)));
+      case 'rule':
+        return [];
+    }
+  });
+}
+
+function renderTable(state: PdfState, context: PdfContext, block: Extract<ExportBlock, { type: 'table' }>) {
+  const { doc } = state;
+  const columns = Math.max(...block.rows.map((row) => row.reduce((sum, cell) => sum + cell.colspan, 0)));
+  const columnWidth = context.width / columns;
+
+  for (const row of block.rows) {
+    let x = context.left;
+    const cells = row.map((cell) => {
+      const width = columnWidth * cell.colspan;
+      const lines = cellParagraphs(cell.blocks).flatMap(({ inlines, style }) =>
+        layoutLines(state, toAtoms(state, inlines, { ...style, bold: style.bold || cell.header }), {
+          width: width - 2 * CELL_PADDING,
+          size: BASE_SIZE - 1
+        })
+      );
+      const cellX = x;
+      x += width;
+      return { cell, x: cellX, width, lines };
+    });
+
+    const height = Math.max(...cells.map(({ lines }) => lines.reduce((sum, line) => sum + line.height, 0))) + 2 * CELL_PADDING;
+    const top = reserve(state, context, height);
+
+    for (const { cell, x: cellX, width, lines } of cells) {
+      if (cell.header) doc.rect(cellX, top, width, height).fill(CODE_BACKGROUND);
+      doc.lineWidth(0.5).rect(cellX, top, width, height).strokeColor(BORDER_COLOR).stroke();
+
+      let lineTop = top + CELL_PADDING;
+      for (const [index, line] of lines.entries()) {
+        // Rows taller than a page are cut off
+        if (lineTop + line.height > state.bottom) break;
+        drawLine(state, line, cellX + CELL_PADDING, lineTop, width - 2 * CELL_PADDING, 'left', index === lines.length - 1);
+        lineTop += line.height;
+      }
+    }
+  }
+}
+
+function renderBlock(state: PdfState, context: PdfContext, block: ExportBlock, spacing: number) {
+  switch (block.type) {
+    case 'paragraph':
+      renderParagraph(state, context, block.content, { align: block.align });
+      addSpacing(state, context, spacing);
+      break;
+
+    case 'heading': {
+      if (block.pageBreakBefore && state.y > state.top) {
+        state.doc.addPage();
+        state.y = state.top;
+      }
+      const size = HEADING_SIZES[block.level - 1];
+      if (state.y > state.top) addSpacing(state, context, size * 0.6);
+      renderParagraph(state, context, block.content, { align: block.align, size, style: { bold: true } });
+      addSpacing(state, context, spacing);
+      break;
+    }
+
+    case 'list': {
+      const itemContext: PdfContext = { ...context, left: context.left + LIST_INDENT, width: context.width - LIST_INDENT };
+      block.items.forEach((item, index) => {
+        const marker = listMarker(state, block.kind, block.start + index, !!item.checked, itemContext.left);
+        state.marker = marker;
+        renderBlocks(state, itemContext, item.blocks, true);
+        // An empty item still shows its marker
+        if (state.marker === marker) renderParagraph(state, itemContext, [], {});
+      });
+      addSpacing(state, context, spacing);
+      break;
+    }
+
+    case 'blockquote':
+      renderBlocks(state, {
+        left: context.left + QUOTE_INDENT,
+        width: context.width - QUOTE_INDENT,
+        quotes: [...context.quotes, context.left + 2]
+      }, block.blocks);
+      break;
+
+    case 'codeBlock': {
+      const lines = layoutLines(
+        state,
+        toAtoms(state, block.text.split('\n').flatMap((text, index): ExportInline[] => [
+          ...(index > 0 ? [{ type: 'break' as const }] : []),
+          // Courier without the inline code background, the lines get one
+          { type: 'text', text, style: { fontFamily: 'Courier' } }
+        ]), {}),
+        { width: context.width - 2 * CELL_PADDING, size: BASE_SIZE - 1.5, preserveSpaces: true }
+      );
+      renderLines(state, context, lines, { background: CODE_BACKGROUND });
+      addSpacing(state, context, spacing);
+      break;
+    }
+
+    case 'rule': {
+      const top = reserve(state, context, 12);
+      state.doc.moveTo(context.left, top + 6).lineTo(context.left + context.width, top + 6)
+        .lineWidth(0.75).strokeColor(BORDER_COLOR).stroke();
+      break;
+    }
+
+    case 'table':
+      if (block.rows.length > 0) {
+        renderTable(state, context, block);
+        addSpacing(state, context, spacing);
+      }
+      break;
+  }
+}
+
+function renderBlocks(state: PdfState, context: PdfContext, blocks: ExportBlock[], tight = false) {
+  blocks.forEach((block, index) => {
+    // Items of a list follow each other without space
+    renderBlock(state, context, block, tight && index === blocks.length - 1 ? 0 : PARAGRAPH_SPACING);
+  });
+}
+
+export function renderPdf(blocks: ExportBlock[], options: PdfOptions): Promise<Buffer> {
+  const { width, height } = pageDimensions(options.page);
+  const margin = options.page.margin * POINTS_PER_MM;
+
+  const doc = new PDFDocument({
+    size: [width, height],
+    margins: { top: margin, right: margin, bottom: margin, left: margin },
+    info: { Title: options.title, Creator: 'NoteVerse' }
+  });
+
+  return new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    try {
+      const state: PdfState = {
+        doc,
+        options,
+        y: margin,
+        top: margin,
+        bottom: height - margin,
+        marker: null
+      };
+      renderBlocks(state, { left: margin, width: width - 2 * margin, quotes: [] }, blocks);
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
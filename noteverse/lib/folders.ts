@@ -0,0 +1,500 @@
+/**
+ * Folders
+ *
+ * Users file their documents in nested folders (folders collection,
+ * Document.folder). Every folder keeps the ids of the folders above it in
+ * `ancestors`, root first, so a whole subtree can be found in one query.
+ *
+ * A folder and everything in it belong to the folder's owner: documents can
+ * only be filed in folders owned by the document's owner. Sharing a folder
+ * gives people access to every folder and document inside it; the role is
+ * resolved by getInheritedFolderRole / getDocumentRole in
+ * lib/documentAccess.ts, where a share on the document itself overrides the
+ * inherited one.
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import { GrantableRole, highestRole, DocumentRole } from './documentAccess';
+import { notifyUsers, displayName } from './notifications';
+import { connectToDatabase } from './mongodb';
+
+export const MAX_FOLDER_NAME_LENGTH = 100;
+export const MAX_FOLDER_DEPTH = 10;
+
+export interface FolderShare {
+  userId: ObjectId;
+  email: string;
+  role: GrantableRole;
+  sharedAt: Date;
+}
+
+// Stored in the folders collection
+export interface FolderRecord {
+  _id?: ObjectId;
+  name: string;
+  owner: ObjectId;
+  parent: ObjectId | null; // null at the top level
+  ancestors: ObjectId[]; // Root first, parent last
+  sharedWith: FolderShare[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// API format
+export interface Folder {
+  id: string;
+  name: string;
+  parentId: string | null;
+  isOwner: boolean;
+  role: DocumentRole;
+  sharedWith: { email: string; role: GrantableRole }[]; // Only shown to the owner
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FolderBreadcrumb {
+  id: string;
+  name: string;
+}
+
+function folders(db: Db) {
+  return db.collection<FolderRecord>('folders');
+}
+
+/**
+ * Clean up a folder name from a request body
+ * Returns null when it isn't a usable name.
+ */
+export function normalizeFolderName(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const name = value.trim();
+  return name && name.length <= MAX_FOLDER_NAME_LENGTH ? name : null;
+}
+
+export function formatFolder(folder: WithId<FolderRecord>, role: DocumentRole): Folder {
+  return {
+    id: folder._id.toString(),
+    name: folder.name,
+    parentId: folder.parent ? folder.parent.toString() : null,
+    isOwner: role === 'owner',
+    role,
+    sharedWith: role === 'owner'
+      ? (folder.sharedWith || []).map((share) => ({ email: share.email, role: share.role }))
+      : [],
+    createdAt: folder.createdAt.toISOString(),
+    updatedAt: folder.updatedAt.toISOString()
+  };
+}
+
+export async function findFolder(db: Db, folderId: string): Promise<WithId<FolderRecord> | null> {
+  if (!ObjectId.isValid(folderId)) return null;
+  return folders(db).findOne({ _id: new ObjectId(folderId) });
+}
+
+/**
+ * Resolve a folder and the session user's role on it
+ */
+export async function resolveFolderAccess(
+  session: { user?: { email?: string | null } } | null,
+  folderId: string
+): Promise<{ folder: WithId<FolderRecord> | null; user: WithId<MongoDocument> | null; role: DocumentRole }> {
+  const { db } = await connectToDatabase();
+
+  const [folder, user] = await Promise.all([
+    findFolder(db, folderId),
+    session?.user?.email ? db.collection('users').findOne({ email: session.user.email }) : null
+  ]);
+
+  if (!folder || !user) {
+    return { folder, user, role: 'none' };
+  }
+
+  return { folder, user, role: await getFolderRole(db, folder, user) };
+}
+
+/**
+ * A user's role on a folder: owner, or the highest share on it or a folder above it
+ */
+export async function getFolderRole(
+  db: Db,
+  folder: WithId<FolderRecord>,
+  user: WithId<MongoDocument>
+): Promise<DocumentRole> {
+  if (folder.owner.equals(user._id)) return 'owner';
+
+  const chain = await folders(db)
+    .find({ _id: { $in: [folder._id, ...folder.ancestors] } })
+    .project<Pick<FolderRecord, 'sharedWith'>>({ sharedWith: 1 })
+    .toArray();
+
+  return highestRole(chain.flatMap((entry) =>
+    (entry.sharedWith || [])
+      .filter((share) => share.userId.equals(user._id))
+      .map((share) => share.role)
+  )) || 'none';
+}
+
+/**
+ * Every folder shared with a user, directly or through a folder above it,
+ * with the role they have there
+ */
+export async function getSharedFolderRoles(db: Db, user: WithId<MongoDocument>): Promise<Map<string, GrantableRole>> {
+  const shared = await folders(db).find({ 'sharedWith.userId': user._id }).toArray();
+  if (shared.length === 0) return new Map();
+
+  const directRoles = new Map<string, GrantableRole>();
+  shared.forEach((folder) => {
+    const role = highestRole(folder.sharedWith
+      .filter((share) => share.userId.equals(user._id))
+      .map((share) => share.role));
+    if (role) directRoles.set(folder._id.toString(), role);
+  });
+
+  const descendants = await folders(db)
+    .find({ ancestors: { $in: shared.map((folder) => folder._id) } })
+    .project<Pick<WithId<FolderRecord>, '_id' | 'ancestors'>>({ ancestors: 1 })
+    .toArray();
+
+  const roles = new Map<string, GrantableRole>();
+  [...shared, ...descendants].forEach((folder) => {
+    const role = highestRole([folder._id, ...folder.ancestors]
+      .map((id) => directRoles.get(id.toString()))
+      .filter(Boolean));
+    if (role) roles.set(folder._id.toString(), role);
+  });
+
+  return roles;
+}
+
+/**
+ * Folders inside a folder (or a user's top-level folders), by name
+ */
+export async function getChildFolders(
+  db: Db,
+  { parent, owner }: { parent: WithId<FolderRecord> | null; owner: ObjectId }
+): Promise<WithId<FolderRecord>[]> {
+  return folders(db)
+    .find(parent ? { parent: parent._id } : { owner, parent: null })
+    .collation({ locale: 'en', strength: 2 })
+    .sort({ name: 1 })
+    .toArray();
+}
+
+/**
+ * Folders shared directly with a user that aren't inside another folder
+ * shared with them (the top level of their "Shared with me" view)
+ */
+export async function getSharedRootFolders(db: Db, user: WithId<MongoDocument>): Promise<WithId<FolderRecord>[]> {
+  const shared = await folders(db)
+    .find({ 'sharedWith.userId': user._id, owner: { $ne: user._id } })
+    .collation({ locale: 'en', strength: 2 })
+    .sort({ name: 1 })
+    .toArray();
+
+  const sharedIds = new Set(shared.map((folder) => folder._id.toString()));
+  return shared.filter((folder) => !folder.ancestors.some((id) => sharedIds.has(id.toString())));
+}
+
+/**
+ * Path from the top to a folder, for breadcrumbs
+ * People the folder is shared with only see the part of the path they can open.
+ */
+export async function getFolderPath(
+  db: Db,
+  folder: WithId<FolderRecord>,
+  user: WithId<MongoDocument>
+): Promise<FolderBreadcrumb[]> {
+  const ancestors = await folders(db)
+    .find({ _id: { $in: folder.ancestors } })
+    .project<Pick<WithId<FolderRecord>, '_id' | 'name' | 'sharedWith'>>({ name: 1, sharedWith: 1 })
+    .toArray();
+
+  const chain = [
+    ...folder.ancestors
+      .map((id) => ancestors.find((ancestor) => ancestor._id.equals(id)))
+      .filter((ancestor): ancestor is Pick<WithId<FolderRecord>, '_id' | 'name' | 'sharedWith'> => !!ancestor),
+    folder
+  ];
+
+  const visibleFrom = folder.owner.equals(user._id)
+    ? 0
+    : Math.max(0, chain.findIndex((entry) =>
+        (entry.sharedWith || []).some((share) => share.userId.equals(user._id))
+      ));
+
+  return chain.slice(visibleFrom).map((entry) => ({ id: entry._id.toString(), name: entry.name }));
+}
+
+export async function createFolder(
+  db: Db,
+  { name, owner, parent }: { name: string; owner: ObjectId; parent: WithId<FolderRecord> | null }
+): Promise<WithId<FolderRecord>> {
+  const folder: FolderRecord = {
+    name,
+    owner,
+    parent: parent ? parent._id : null,
+    ancestors: parent ? [...parent.ancestors, parent._id] : [],
+    sharedWith: [],
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  const result = await folders(db).insertOne(folder);
+  console.log(`📁 Created folder "${name}"`);
+  return { ...folder, _id: result.insertedId };
+}
+
+export async function renameFolder(db: Db, folder: WithId<FolderRecord>, name: string): Promise<void> {
+  await folders(db).updateOne(
+    { _id: folder._id },
+    { $set: { name, updatedAt: new Date() } }
+  );
+}
+
+/**
+ * Check that a folder can receive a folder or documents of an owner
+ * Returns an error message, or null when it can.
+ */
+export function checkFolderTarget(
+  target: WithId<FolderRecord> | null,
+  owner: ObjectId,
+  moving?: WithId<FolderRecord>
+): string | null {
+  if (!target) return null;
+
+  if (!target.owner.equals(owner)) {
+    return 'Documents can only be filed in folders owned by the same person';
+  }
+
+  if (moving && (target._id.equals(moving._id) || target.ancestors.some((id) => id.equals(moving._id)))) {
+    return 'A folder cannot be moved into itself';
+  }
+
+  return null;
+}
+
+/**
+ * Move a folder (with everything in it) into another folder or to the top level
+ */
+export async function moveFolder(
+  db: Db,
+  folder: WithId<FolderRecord>,
+  parent: WithId<FolderRecord> | null
+): Promise<void> {
+  const ancestors = parent ? [...parent.ancestors, parent._id] : [];
+
+  await folders(db).updateOne(
+    { _id: folder._id },
+    { $set: { parent: parent ? parent._id : null, ancestors, updatedAt: new Date() } }
+  );
+
+  // Re-root the subtree: keep each descendant's path below the moved folder
+  const descendants = await folders(db).find({ ancestors: folder._id }).toArray();
+  for (const descendant of descendants) {
+    const below = descendant.ancestors.slice(descendant.ancestors.findIndex((id) => id.equals(folder._id)));
+    await folders(db).updateOne(
+      { _id: descendant._id },
+      { $set: { ancestors: [...ancestors, ...below] } }
+    );
+  }
+
+  console.log(`📁 Moved folder "${folder.name}" to ${parent ? `"${parent.name}"` : 'the top level'}`);
+}
+
+/**
+ * Depth of the deepest folder in a subtree, counting the folder itself
+ */
+export async function getSubtreeDepth(db: Db, folder: WithId<FolderRecord>): Promise<number> {
+  const deepest = await folders(db)
+    .find({ ancestors: folder._id })
+    .project<Pick<FolderRecord, 'ancestors'>>({ ancestors: 1 })
+    .toArray();
+
+  return 1 + Math.max(0, ...deepest.map((descendant) =>
+    descendant.ancestors.length - descendant.ancestors.findIndex((id) => id.equals(folder._id))
+  ));
+}
+
+/**
+ * File documents in a folder (null for the top level)
+ */
+export async function moveDocumentsToFolder(
+  db: Db,
+  documents: WithId<MongoDocument>[],
+  folder: WithId<FolderRecord> | null
+): Promise<void> {
+  await db.collection('documents').updateMany(
+    { _id: { $in: documents.map((document) => document._id) } },
+    { $set: { folder: folder ? folder._id : null } }
+  );
+
+  console.log(`📁 Moved ${documents.length} document(s) to ${folder ? `"${folder.name}"` : 'the top level'}`);
+}
+
+/**
+ * Copy documents into a folder (null for the top level) as new documents of
+ * the given owner; shares aren't copied
+ */
+export async function copyDocumentsToFolder(
+  db: Db,
+  documents: WithId<MongoDocument>[],
+  folder: WithId<FolderRecord> | null,
+  owner: ObjectId,
+  { keepTitles = false }: { keepTitles?: boolean } = {}
+): Promise<ObjectId[]> {
+  if (documents.length === 0) return [];
+
+  const copies = documents.map((document) => ({
+    title: keepTitles ? document.title : `${document.title || 'Untitled Document'} (Copy)`,
+    content: document.content || '',
+    ...(document.tabs ? { tabs: document.tabs } : {}),
+    // Documents saved before search get theirs from the search migration
+    ...('plainText' in document ? { plainText: document.plainText } : {}),
+    owner,
+    folder: folder ? folder._id : null,
+    tags: document.tags || [],
+    visibility: 'restricted',
+    publicPermission: 'viewer',
+    createdAt: new Date(),
+    updatedAt: new Date()
+  }));
+
+  const result = await db.collection('documents').insertMany(copies);
+  return Object.values(result.insertedIds);
+}
+
+/**
+ * Copy a folder with its subfolders and documents (trashed ones are skipped)
+ * Returns the new folder.
+ */
+export async function copyFolder(
+  db: Db,
+  folder: WithId<FolderRecord>,
+  parent: WithId<FolderRecord> | null,
+  owner: ObjectId,
+  name = `${folder.name} (Copy)`
+): Promise<WithId<FolderRecord>> {
+  const copy = await createFolder(db, { name, owner, parent });
+
+  const documents = await db.collection('documents')
+    .find({ folder: folder._id, deletedAt: null })
+    .toArray();
+  await copyDocumentsToFolder(db, documents, copy, owner, { keepTitles: true });
+
+  const children = await folders(db).find({ parent: folder._id }).toArray();
+  for (const child of children) {
+    await copyFolder(db, child, copy, owner, child.name);
+  }
+
+  return copy;
+}
+
+/**
+ * Delete a folder and its subfolders; the documents inside go to the trash
+ * (at the top level, so restoring them doesn't need the folder)
+ * Returns the number of documents moved to the trash.
+ */
+export async function deleteFolder(
+  db: Db,
+  folder: WithId<FolderRecord>,
+  user: WithId<MongoDocument>
+): Promise<number> {
+  const subtree = [folder._id, ...(await folders(db).find({ ancestors: folder._id }).toArray()).map((f) => f._id)];
+
+  const trashed = await db.collection('documents').updateMany(
+    { folder: { $in: subtree }, deletedAt: null },
+    { $set: { deletedAt: new Date(), deletedBy: user._id, folder: null } }
+  );
+
+  // Documents that were already in the trash
+  await db.collection('documents').updateMany(
+    { folder: { $in: subtree } },
+    { $set: { folder: null } }
+  );
+
+  await folders(db).deleteMany({ _id: { $in: subtree } });
+
+  console.log(`🗑️ Deleted folder "${folder.name}" and moved ${trashed.modifiedCount} document(s) to trash`);
+  return trashed.modifiedCount;
+}
+
+/**
+ * Share a folder with a user, replacing their earlier share of it
+ */
+export async function setFolderShare(
+  db: Db,
+  {
+    folder,
+    recipient,
+    role,
+    sharedBy
+  }: {
+    folder: WithId<FolderRecord>;
+    recipient: WithId<MongoDocument>;
+    role: GrantableRole;
+    sharedBy: WithId<MongoDocument>;
+  }
+): Promise<void> {
+  const previous = folder.sharedWith.find((share) => share.userId.equals(recipient._id));
+
+  await folders(db).updateOne(
+    { _id: folder._id },
+    { $pull: { sharedWith: { userId: recipient._id } } }
+  );
+
+  await folders(db).updateOne(
+    { _id: folder._id },
+    {
+      $push: {
+        sharedWith: {
+          userId: recipient._id,
+          email: recipient.email.toLowerCase(),
+          role,
+          sharedAt: new Date()
+        }
+      },
+      $set: { updatedAt: new Date() }
+    }
+  );
+
+  if (!previous) {
+    await notifyUsers(db, [{
+      recipientId: recipient._id,
+      type: 'share',
+      actor: sharedBy,
+      document: null,
+      message: `${displayName(sharedBy)} shared the folder "${folder.name}" with you`,
+      link: '/dashboard'
+    }]);
+  }
+
+  console.log(`✅ ${previous ? 'Updated' : 'Shared'} folder "${folder.name}" with ${recipient.email} as ${role}`);
+}
+
+/**
+ * Take away a person's share of a folder
+ * Returns false when the folder wasn't shared with them.
+ */
+export async function removeFolderShare(db: Db, folder: WithId<FolderRecord>, email: string): Promise<boolean> {
+  const result = await folders(db).updateOne(
+    { _id: folder._id },
+    {
+      $pull: { sharedWith: { email: email.toLowerCase() } },
+      $set: { updatedAt: new Date() }
+    }
+  );
+
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Delete a user's folders and remove them from folders shared with them
+ * (account deletion; their documents are dealt with separately)
+ */
+export async function removeUserFromFolders(db: Db, user: { _id: ObjectId }): Promise<void> {
+  await folders(db).deleteMany({ owner: user._id });
+  await folders(db).updateMany(
+    { 'sharedWith.userId': user._id },
+    { $pull: { sharedWith: { userId: user._id } } }
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * Mentions
+ *
+ * @mentions in comments and chat. The client sends the emails of the people it
+ * picked; the server keeps the ones that can see the document, stores them on
+ * the comment or chat message and notifies each mentioned user (in-app and
+ * by email).
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import { getDocumentRole, getInheritedFolderRole, canView } from './documentAccess';
+import { sendMentionEmail } from './email';
+import { notifyUsers, documentPath, displayName } from './notifications';
+import { emailUsers } from './emailNotifications';
+
+const MAX_MENTIONS = 20;
+
+// Stored on comments and chat messages
+export interface MentionRecord {
+  user: ObjectId;
+  name: string;
+  email: string;
+}
+
+// API / socket format
+export interface Mention {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+/**
+ * Resolve mentions sent by the client ([{ email }]) to users with access
+ * The author and anyone who can't see the document are dropped
+ */
+export async function resolveMentions(
+  db: Db,
+  document: WithId<MongoDocument>,
+  mentions: unknown,
+  author: WithId<MongoDocument>
+): Promise<MentionRecord[]> {
+  if (!Array.isArray(mentions)) return [];
+
+  const emails = Array.from(new Set(
+    mentions
+      .map((mention) => (mention && typeof mention.email === 'string' ? mention.email.toLowerCase() : null))
+      .filter((email): email is string => !!email && email !== author.email?.toLowerCase())
+  )).slice(0, MAX_MENTIONS);
+
+  if (emails.length === 0) return [];
+
+  const users = await db.collection('users')
+    .find({ email: { $in: emails } })
+    .toArray();
+
+  // Folder shares count too
+  const inheritedRoles = await Promise.all(
+    users.map((user) => getInheritedFolderRole(db, document.folder, user))
+  );
+
+  return users
+    .filter((user, index) => canView(getDocumentRole(document, user, inheritedRoles[index])))
+    .map((user) => ({
+      user: user._id,
+      name: user.name || user.email,
+      email: user.email
+    }));
+}
+
+/**
+ * Convert stored mentions to the API format
+ */
+export function formatMentions(mentions: MentionRecord[] | undefined): Mention[] {
+  return (mentions || []).map((mention) => ({
+    userId: mention.user.toString(),
+    name: mention.name,
+    email: mention.email
+  }));
+}
+
+/**
+ * Notify each mentioned user in-app and, unless they opted out, by email
+ * (failures are logged, never thrown)
+ */
+export async function notifyMentions(db: Db, {
+  document,
+  author,
+  mentions,
+  text,
+  source
+}: {
+  document: WithId<MongoDocument>;
+  author: WithId<MongoDocument>;
+  mentions: MentionRecord[];
+  text: string;
+  source: 'comment' | 'chat';
+}): Promise<void> {
+  if (mentions.length === 0) return;
+
+  const documentTitle = document.title || 'Untitled Document';
+  const documentUrl = `${process.env.NEXTAUTH_URL}${documentPath(document)}`;
+
+  await notifyUsers(db, mentions.map((mention) => ({
+    recipientId: mention.user,
+    type: 'mention' as const,
+    actor: author,
+    document,
+    message: `${displayName(author)} mentioned you in ${source === 'comment' ? 'a comment' : 'the chat'} on "${documentTitle}"`
+  })));
+
+  await emailUsers(db, mentions.map((mention) => mention.user), 'mentions', (user) => sendMentionEmail(user.email, {
+    mentionedBy: displayName(author),
+    documentTitle,
+    documentUrl,
+    excerpt: text,
+    source
+  }));
+
+  console.log(`📣 Notified ${mentions.length} mentioned user(s) on document ${document._id.toString()}`);
+}
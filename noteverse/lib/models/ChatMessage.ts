@@ -6,6 +6,7 @@
  */
 
 import { ObjectId } from 'mongodb';
+import type { MentionRecord } from '../mentions';
 
 export interface ChatMessage {
   _id?: ObjectId;
@@ -14,6 +15,7 @@ export interface ChatMessage {
   senderName: string;
   senderEmail: string;
   message: string;
+  mentions?: MentionRecord[]; // Users @mentioned in the message
   createdAt: Date;
   updatedAt: Date;
   isDeleted?: boolean;
@@ -27,7 +29,8 @@ export function createChatMessage(
   senderId: ObjectId,
   senderName: string,
   senderEmail: string,
-  message: string
+  message: string,
+  mentions: MentionRecord[] = []
 ): ChatMessage {
   const now = new Date();
   
@@ -37,6 +40,7 @@ export function createChatMessage(
     senderName,
     senderEmail,
     message: message.trim(),
+    mentions,
     createdAt: now,
     updatedAt: now,
     isDeleted: false
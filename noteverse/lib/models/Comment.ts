@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { COMMENT_REACTIONS } from '../commentReactions';
 
 /**
  * Comment Interface
@@ -22,6 +23,20 @@ export interface IComment extends Document {
     selectedText?: string;
   };
   
+  // Yjs relative positions (base64) that keep inline comments attached through edits
+  anchor?: {
+    start: string;
+    end: string;
+    tabId?: string; // The tab whose fragment the positions are in
+  };
+  
+  // Users @mentioned in the content
+  mentions: Array<{
+    user: mongoose.Types.ObjectId | string;
+    name: string;
+    email: string;
+  }>;
+  
   // Comment status
   isResolved: boolean;
   resolvedBy?: mongoose.Types.ObjectId | string;
@@ -98,6 +113,32 @@ const CommentSchema = new Schema<IComment>(
       }
     },
     
+    // Yjs anchor for inline comments
+    anchor: {
+      start: {
+        type: String,
+        maxlength: [256, 'Anchor cannot exceed 256 characters']
+      },
+      end: {
+        type: String,
+        maxlength: [256, 'Anchor cannot exceed 256 characters']
+      },
+      tabId: {
+        type: String
+      }
+    },
+    
+    // @mentions
+    mentions: [{
+      user: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true
+      },
+      name: String,
+      email: String
+    }],
+    
     // Comment status
     isResolved: {
       type: Boolean,
@@ -124,7 +165,7 @@ const CommentSchema = new Schema<IComment>(
       emoji: {
         type: String,
         required: true,
-        enum: ['👍', '❤️', '😊', '🎉', '🤔', '👎']
+        enum: COMMENT_REACTIONS
       },
       createdAt: {
         type: Date,
@@ -154,6 +195,7 @@ CommentSchema.index({ document: 1, createdAt: -1 });
 CommentSchema.index({ document: 1, isResolved: 1, isDeleted: 1 });
 CommentSchema.index({ parentComment: 1 });
 CommentSchema.index({ author: 1, createdAt: -1 });
+CommentSchema.index({ 'mentions.user': 1, createdAt: -1 });
 
 // Virtual for reply count
 CommentSchema.virtual('replyCount').get(function() {
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document as MongooseDocument, Model } from 'mongoose';
+import type { DocumentTab } from '../documentTabs';
 
 /**
  * Document Interface
@@ -6,35 +7,46 @@ import mongoose, { Schema, Document as MongooseDocument, Model } from 'mongoose'
  */
 export interface IDocument extends MongooseDocument {
   title: string;
-  content: string;
+  content: string; // first tab's content
+  tabs?: DocumentTab[]; // unset on documents saved before tabs (see lib/documentTabs.ts)
+  plainText: string; // content without markup, for search (see lib/search.ts)
+  restoreCount?: number; // Versions restored so far; autosaves from before a restore are rejected
   
   // Ownership
   owner: mongoose.Types.ObjectId | string;
-  
-  // Collaboration
-  collaborators: Array<{
-    user: mongoose.Types.ObjectId | string;
-    role: 'editor' | 'viewer';
-    addedAt: Date;
+  ownershipHistory: Array<{
+    from: mongoose.Types.ObjectId | string;
+    to: mongoose.Types.ObjectId | string;
+    transferId: mongoose.Types.ObjectId | string; // ownershipTransfers record, see lib/ownershipTransfers.ts
+    transferredAt: Date;
   }>;
   
-  // Email-based sharing (Google Docs style)
+  // Folder the document is filed in (null at the top level), see lib/folders.ts
+  folder: mongoose.Types.ObjectId | string | null;
+  
+  // Sharing (Google Docs style) - the only record of collaborators, see lib/sharing.ts
   sharedWith: Array<{
-    userId: mongoose.Types.ObjectId | string;
+    userId: mongoose.Types.ObjectId | string | null; // null for pending invitations
     email: string;
-    role: 'editor' | 'viewer';
+    role: 'editor' | 'commenter' | 'viewer';
     sharedAt: Date;
+    linkId?: mongoose.Types.ObjectId | string; // Share-link grants only
+    expiresAt?: Date | null;
   }>;
   
   // Document metadata
   isPublic: boolean;
   isArchived: boolean;
-  isFavorite: boolean;
-  tags: string[];
+  starredBy: mongoose.Types.ObjectId[]; // Users who starred it (stars are personal)
+  tags: string[]; // Lowercase, see normalizeTags in lib/documentFilters.ts
+  
+  // Trash (see lib/documents.ts) - set while the document is in the trash
+  deletedAt: Date | null;
+  deletedBy: mongoose.Types.ObjectId | string | null;
   
   // Google Docs-style sharing
   visibility: 'restricted' | 'public'; // Restricted or Anyone with the link
-  publicPermission: 'viewer' | 'editor'; // Permission for public access
+  publicPermission: 'viewer' | 'commenter' | 'editor'; // Permission for public access
   
   // Document Settings - Editor Preferences
   chatEnabled: boolean; // Enable/disable document chat
@@ -77,6 +89,29 @@ const DocumentSchema = new Schema<IDocument>(
       default: '',
       maxlength: [5000000, 'Content cannot exceed 5MB'] // ~5MB limit
     },
+    // Ordered tabs; content mirrors the first one
+    tabs: {
+      type: [
+      {
+        _id: false,
+        id: { type: String, required: true },
+        title: { type: String, trim: true, maxlength: 100 },
+        content: { type: String, default: '' }
+      }
+    ],
+      default: undefined
+    },
+    // Text of all tabs without HTML; kept in step with every content write
+    plainText: {
+      type: String,
+      default: ''
+    },
+    // Bumped by every version restore, together with the Yjs RESTORE_STATE
+    // count (see lib/documentTabs.ts)
+    restoreCount: {
+      type: Number,
+      default: 0
+    },
     
     // Ownership
     owner: {
@@ -85,34 +120,32 @@ const DocumentSchema = new Schema<IDocument>(
       required: [true, 'Document must have an owner'],
       index: true
     },
-    
-    // Collaboration
-    collaborators: [
+    // Completed ownership transfers, oldest first
+    ownershipHistory: [
       {
-        user: {
-          type: Schema.Types.ObjectId,
-          ref: 'User',
-          required: true
-        },
-        role: {
-          type: String,
-          enum: ['editor', 'viewer'],
-          default: 'viewer'
-        },
-        addedAt: {
-          type: Date,
-          default: Date.now
-        }
+        from: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        to: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+        transferId: { type: Schema.Types.ObjectId, required: true },
+        transferredAt: { type: Date, default: Date.now }
       }
     ],
+    // Parent folder; always one of the owner's folders. Folder shares are
+    // inherited unless the document has its own share for that person
+    folder: {
+      type: Schema.Types.ObjectId,
+      ref: 'Folder',
+      default: null,
+      index: true
+    },
     
-    // Email-based sharing (Google Docs style)
+    // Sharing (Google Docs style) - the only record of collaborators, see lib/sharing.ts
     sharedWith: [
       {
+        // null until an invited email address signs up (pending invitation)
         userId: {
           type: Schema.Types.ObjectId,
           ref: 'User',
-          required: true
+          default: null
         },
         email: {
           type: String,
@@ -122,13 +155,22 @@ const DocumentSchema = new Schema<IDocument>(
         },
         role: {
           type: String,
-          enum: ['editor', 'viewer'],
+          enum: ['editor', 'commenter', 'viewer'],
           default: 'viewer',
           required: true
         },
         sharedAt: {
           type: Date,
           default: Date.now
+        },
+        // Share-link grants only
+        linkId: {
+          type: Schema.Types.ObjectId,
+          ref: 'SharePermission'
+        },
+        expiresAt: {
+          type: Date,
+          default: null
         }
       }
     ],
@@ -144,9 +186,20 @@ const DocumentSchema = new Schema<IDocument>(
       default: false,
       index: true
     },
-    isFavorite: {
-      type: Boolean,
-      default: false
+    starredBy: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    
+    // Trash - purged TRASH_RETENTION_DAYS after deletedAt
+    deletedAt: {
+      type: Date,
+      default: null
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
     },
     tags: {
       type: [String],
@@ -168,7 +221,7 @@ const DocumentSchema = new Schema<IDocument>(
     },
     publicPermission: {
       type: String,
-      enum: ['viewer', 'editor'],
+      enum: ['viewer', 'commenter', 'editor'],
       default: 'viewer'
     },
     
@@ -236,11 +289,15 @@ const DocumentSchema = new Schema<IDocument>(
 // Compound indexes for efficient queries
 DocumentSchema.index({ owner: 1, createdAt: -1 });
 DocumentSchema.index({ owner: 1, isArchived: 1 });
-DocumentSchema.index({ 'collaborators.user': 1 });
+DocumentSchema.index({ deletedAt: 1 }, { partialFilterExpression: { deletedAt: { $type: 'date' } } }); // Trash purge
 DocumentSchema.index({ 'sharedWith.userId': 1 }); // For shared document queries
 DocumentSchema.index({ 'sharedWith.email': 1 }); // For email-based sharing
-DocumentSchema.index({ title: 'text', content: 'text' }); // Full-text search
+DocumentSchema.index( // Full-text search, created by npm run migrate:search
+  { title: 'text', plainText: 'text' },
+  { name: 'document_search', weights: { title: 5, plainText: 1 } }
+);
 DocumentSchema.index({ tags: 1 });
+DocumentSchema.index({ starredBy: 1 }); // Starred view
 DocumentSchema.index({ lastEditedAt: -1 });
 
 // Virtual for share permissions
@@ -275,22 +332,24 @@ DocumentSchema.pre('save', function(next) {
   next();
 });
 
+// Active (not expired) sharedWith entries of a user
+function activeSharesOf(sharedWith: IDocument['sharedWith'], userId: string) {
+  const now = new Date();
+  return sharedWith.filter(
+    (share) => share.userId?.toString() === userId.toString() && !(share.expiresAt && share.expiresAt <= now)
+  );
+}
+
 // Method to check if user is collaborator
 DocumentSchema.methods.isCollaborator = function(userId: string) {
-  return this.collaborators.some(
-    (collab: any) => collab.user.toString() === userId.toString()
-  );
+  return activeSharesOf(this.sharedWith, userId).length > 0;
 };
 
 // Method to check if user can edit
 DocumentSchema.methods.canEdit = function(userId: string) {
   if (this.owner.toString() === userId.toString()) return true;
   
-  const collaborator = this.collaborators.find(
-    (collab: any) => collab.user.toString() === userId.toString()
-  );
-  
-  return collaborator && collaborator.role === 'editor';
+  return activeSharesOf(this.sharedWith, userId).some((share) => share.role === 'editor');
 };
 
 // Static method to find user's documents
@@ -298,21 +357,23 @@ DocumentSchema.statics.findByUser = function(userId: string) {
   return this.find({
     $or: [
       { owner: userId },
-      { 'collaborators.user': userId }
+      { 'sharedWith.userId': userId }
     ],
-    isArchived: false
+    isArchived: false,
+    deletedAt: null
   }).sort({ lastEditedAt: -1 });
 };
 
-// Static method to search documents
+// Static method to search documents (the API searches through lib/search.ts)
 DocumentSchema.statics.searchDocuments = function(userId: string, query: string) {
   return this.find({
     $or: [
       { owner: userId },
-      { 'collaborators.user': userId }
+      { 'sharedWith.userId': userId }
     ],
     $text: { $search: query },
-    isArchived: false
+    isArchived: false,
+    deletedAt: null
   }).sort({ score: { $meta: 'textScore' } });
 };
 
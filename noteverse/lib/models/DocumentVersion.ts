@@ -1,4 +1,6 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import type { DocumentTab } from '../documentTabs';
+import type { TabDelta } from '../versionStorage';
 
 /**
  * DocumentVersion Interface
@@ -8,16 +10,23 @@ export interface IDocumentVersion extends Document {
   document: mongoose.Types.ObjectId | string;
   versionNumber: number;
   
-  // Content snapshot
+  // Content: a snapshot (content/tabs) or changes against one (baseVersion/delta),
+  // see lib/versionStorage.ts
   title: string;
-  content: string;
+  content?: string;
+  tabs?: DocumentTab[];
+  baseVersion?: mongoose.Types.ObjectId | string;
+  delta?: TabDelta[];
   
   // Version metadata
   createdBy: mongoose.Types.ObjectId | string;
+  name?: string; // e.g. "Sent to client"
   description?: string;
-  changeType: 'auto' | 'manual' | 'restore';
+  pinned?: boolean;
+  changeType: 'auto' | 'manual' | 'restore'; // Only unnamed, unpinned auto versions are pruned
   
-  // Content diff (optional - for showing changes)
+  // Words added/removed and blocks reformatted against the previous version, as JSON DiffStats
+  // (see lib/versions.ts); missing on versions saved before it was stored
   contentDiff?: string;
   
   // Metadata at time of version
@@ -52,10 +61,32 @@ const DocumentVersionSchema = new Schema<IDocumentVersion>(
       required: [true, 'Version must have a title'],
       trim: true
     },
+    // Snapshots only
     content: {
       type: String,
-      required: [true, 'Version must have content'],
-      default: ''
+      default: undefined
+    },
+    tabs: {
+      type: [
+      {
+        _id: false,
+        id: { type: String, required: true },
+        title: { type: String, trim: true, maxlength: 100 },
+        content: { type: String, default: '' }
+      }
+    ],
+      default: undefined
+    },
+    // Deltas only: the snapshot version and the changes of every tab against it
+    baseVersion: {
+      type: Schema.Types.ObjectId,
+      ref: 'DocumentVersion',
+      default: undefined,
+      index: true
+    },
+    delta: {
+      type: [Schema.Types.Mixed],
+      default: undefined
     },
     
     // Version metadata
@@ -65,18 +96,28 @@ const DocumentVersionSchema = new Schema<IDocumentVersion>(
       required: [true, 'Version must have a creator'],
       index: true
     },
+    name: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Name cannot exceed 100 characters']
+    },
     description: {
       type: String,
       trim: true,
       maxlength: [500, 'Description cannot exceed 500 characters']
     },
+    // Kept by the retention policy (lib/versionRetention.ts)
+    pinned: {
+      type: Boolean,
+      default: false
+    },
     changeType: {
       type: String,
       enum: ['auto', 'manual', 'restore'],
       default: 'auto'
     },
     
-    // Content diff (optional)
+    // Change stats against the previous version (optional)
     contentDiff: {
       type: String,
       default: null
@@ -111,6 +152,7 @@ DocumentVersionSchema.index({ document: 1, versionNumber: 1 }, { unique: true })
 // Pre-save middleware to calculate metadata
 DocumentVersionSchema.pre('save', function(next) {
   // Update word and character counts
+  if (this.content === undefined) return next();
   this.characterCount = this.content.length;
   this.wordCount = this.content.split(/\s+/).filter(word => word.length > 0).length;
   next();
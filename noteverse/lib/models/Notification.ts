@@ -0,0 +1,100 @@
+/**
+ * Notification Model
+ *
+ * An in-app notification for a single user (the bell in the dashboard and
+ * document header). Created through lib/notifications.ts, which also
+ * delivers them in realtime to the user's socket room.
+ */
+
+import { ObjectId } from 'mongodb';
+
+export type NotificationType =
+  | 'mention'
+  | 'comment'
+  | 'reply'
+  | 'share'
+  | 'access_request'
+  | 'access_request_approved'
+  | 'access_request_rejected'
+  | 'document_opened'
+  | 'document_edited'
+  | 'ownership_transfer'
+  | 'ownership_transfer_accepted'
+  | 'ownership_transfer_declined';
+
+export interface Notification {
+  _id?: ObjectId;
+  userId: ObjectId; // Recipient
+  type: NotificationType;
+  actorId: ObjectId | null; // User whose action caused the notification
+  actorName: string;
+  documentId: ObjectId | null;
+  documentTitle: string;
+  message: string;
+  link: string; // Where clicking the notification goes
+  read: boolean;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Notification as sent to clients (API and socket)
+ */
+export interface NotificationPayload {
+  id: string;
+  type: NotificationType;
+  actorName: string;
+  documentId: string | null;
+  documentTitle: string;
+  message: string;
+  link: string;
+  read: boolean;
+  createdAt: string;
+}
+
+/**
+ * Create a new notification document
+ */
+export function createNotification(
+  userId: ObjectId,
+  type: NotificationType,
+  fields: {
+    actorId?: ObjectId | null;
+    actorName?: string;
+    documentId?: ObjectId | null;
+    documentTitle?: string;
+    message: string;
+    link?: string;
+  }
+): Notification {
+  return {
+    userId,
+    type,
+    actorId: fields.actorId || null,
+    actorName: fields.actorName || '',
+    documentId: fields.documentId || null,
+    documentTitle: fields.documentTitle || '',
+    message: fields.message,
+    link: fields.link || '/dashboard',
+    read: false,
+    readAt: null,
+    createdAt: new Date()
+  };
+}
+
+/**
+ * Convert a stored notification to the client format
+ */
+export function formatNotification(notification: Notification & { _id: ObjectId }): NotificationPayload {
+  return {
+    id: notification._id.toString(),
+    type: notification.type,
+    actorName: notification.actorName,
+    documentId: notification.documentId ? notification.documentId.toString() : null,
+    documentTitle: notification.documentTitle,
+    message: notification.message,
+    link: notification.link,
+    read: notification.read,
+    createdAt: notification.createdAt.toISOString()
+  };
+}
@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { randomBytes } from 'crypto';
 
 /**
  * SharePermission Interface
@@ -21,9 +22,10 @@ export interface ISharePermission extends Document {
   shareType: 'user' | 'email' | 'link' | 'public';
   
   // Link sharing
-  shareToken?: string; // Unique token for shareable links
+  shareToken?: string; // Unique token for shareable links (/s/[token])
+  label?: string; // Shown to the owner, e.g. "Client review"
   linkExpiry?: Date;
-  linkPassword?: string; // Optional password protection
+  linkPassword?: string; // Optional password protection (bcrypt hash)
   
   // Access control
   isActive: boolean;
@@ -105,6 +107,11 @@ const SharePermissionSchema = new Schema<ISharePermission>(
       sparse: true, // Only unique if not null
       index: true
     },
+    label: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Label cannot exceed 100 characters']
+    },
     linkExpiry: {
       type: Date,
       default: null
@@ -170,7 +177,11 @@ const SharePermissionSchema = new Schema<ISharePermission>(
 );
 
 // Compound indexes for efficient queries
-SharePermissionSchema.index({ document: 1, sharedWith: 1 }, { unique: true, sparse: true });
+// One record per user and document; link records (no sharedWith) are excluded
+SharePermissionSchema.index(
+  { document: 1, sharedWith: 1 },
+  { unique: true, partialFilterExpression: { sharedWith: { $type: 'objectId' } } }
+);
 SharePermissionSchema.index({ document: 1, shareType: 1, isActive: 1 });
 SharePermissionSchema.index({ sharedWith: 1, isActive: 1 });
 SharePermissionSchema.index({ shareToken: 1, isActive: 1 });
@@ -191,8 +202,8 @@ SharePermissionSchema.virtual('isLinkExpired').get(function() {
 // Pre-save middleware to generate share token
 SharePermissionSchema.pre('save', function(next) {
   if (this.shareType === 'link' && !this.shareToken) {
-    // Generate unique token
-    this.shareToken = `share_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+    // Generate an unguessable token
+    this.shareToken = randomBytes(24).toString('base64url');
   }
   next();
 });
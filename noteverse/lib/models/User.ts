@@ -1,4 +1,5 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
+import { DEFAULT_EMAIL_PREFERENCES, EmailNotificationPreferences } from '../emailPreferences';
 
 /**
  * User Interface
@@ -25,6 +26,10 @@ export interface IUser extends Document {
   lineSpacing: string;
   autoSave: boolean;
   
+  // Email notifications (opt-outs)
+  emailNotifications: EmailNotificationPreferences;
+  lastDigestSentAt?: Date;
+  
   // Account status
   isActive: boolean;
   lastLogin?: Date;
@@ -117,6 +122,19 @@ const UserSchema = new Schema<IUser>(
       default: true
     },
     
+    // Email notifications (opt-outs)
+    emailNotifications: {
+      shares: { type: Boolean, default: DEFAULT_EMAIL_PREFERENCES.shares },
+      accessRequests: { type: Boolean, default: DEFAULT_EMAIL_PREFERENCES.accessRequests },
+      comments: { type: Boolean, default: DEFAULT_EMAIL_PREFERENCES.comments },
+      mentions: { type: Boolean, default: DEFAULT_EMAIL_PREFERENCES.mentions },
+      digest: { type: Boolean, default: DEFAULT_EMAIL_PREFERENCES.digest }
+    },
+    lastDigestSentAt: {
+      type: Date,
+      default: null
+    },
+    
     // Account status
     isActive: {
       type: Boolean,
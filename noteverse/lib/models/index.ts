@@ -8,4 +8,3 @@ export { default as Document, type IDocument } from './Document';
 export { default as DocumentVersion, type IDocumentVersion } from './DocumentVersion';
 export { default as Comment, type IComment } from './Comment';
 export { default as SharePermission, type ISharePermission } from './SharePermission';
-export { default as DocumentShare, type IDocumentShare } from './DocumentShare';
@@ -0,0 +1,217 @@
+/**
+ * Notifications
+ *
+ * Creates in-app notifications and pushes them to the recipient's socket
+ * room. Routes call notifyUsers for direct events (shares, access requests,
+ * comments, mentions) and notifyDocumentActivity when a collaborator opens
+ * or edits a document, which is governed by the share's SharePermission
+ * notifyOnAccess / notifyOnEdit settings.
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import {
+  createNotification,
+  formatNotification,
+  Notification,
+  NotificationType
+} from './models/Notification';
+import { GrantableRole, SHARE_PERMISSION_BY_ROLE } from './documentAccess';
+import { emitToUser } from './socket/userRooms';
+import { findDirectShare } from './sharing';
+
+// Don't repeat "opened" / "edited" notifications for the same person and document more often than this
+const ACCESS_NOTIFICATION_INTERVAL = 12 * 60 * 60 * 1000; // 12 hours
+const EDIT_NOTIFICATION_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+// SharePermission schema defaults, used for shares without a sharePermissions record
+const DEFAULT_SHARE_NOTIFICATIONS = { notifyOnAccess: false, notifyOnEdit: true };
+
+export interface NotificationInput {
+  recipientId: ObjectId;
+  type: NotificationType;
+  actor: WithId<MongoDocument> | null;
+  document: WithId<MongoDocument> | null;
+  message: string;
+  link?: string;
+}
+
+export interface ShareNotificationSettings {
+  notifyOnAccess: boolean;
+  notifyOnEdit: boolean;
+}
+
+/**
+ * App path of a document
+ */
+export function documentPath(document: WithId<MongoDocument>): string {
+  return `/document/${document.customId || document._id.toString()}`;
+}
+
+/**
+ * Display name of a user for notification messages
+ */
+export function displayName(user: WithId<MongoDocument> | null): string {
+  return user?.name || user?.email || 'Someone';
+}
+
+/**
+ * Store notifications and deliver them in realtime
+ * Users are never notified about their own actions, and each recipient gets
+ * at most one notification of a given type per call. Failures are logged,
+ * never thrown, so a notification problem can't fail the action itself.
+ */
+export async function notifyUsers(db: Db, inputs: NotificationInput[]): Promise<void> {
+  const seen = new Set<string>();
+
+  const notifications = inputs
+    .filter((input) => {
+      const key = `${input.recipientId.toString()}:${input.type}`;
+      if (input.actor?._id.equals(input.recipientId) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map((input) => createNotification(input.recipientId, input.type, {
+      actorId: input.actor?._id,
+      actorName: displayName(input.actor),
+      documentId: input.document?._id,
+      documentTitle: input.document?.title || '',
+      message: input.message,
+      link: input.link || (input.document ? documentPath(input.document) : undefined)
+    }));
+
+  if (notifications.length === 0) return;
+
+  try {
+    const result = await db.collection<Notification>('notifications').insertMany(notifications);
+
+    notifications.forEach((notification, index) => {
+      emitToUser(
+        notification.userId.toString(),
+        'notification',
+        formatNotification({ ...notification, _id: result.insertedIds[index] })
+      );
+    });
+
+    console.log(`🔔 Created ${notifications.length} notification(s): ${notifications[0].type}`);
+  } catch (error) {
+    console.error('❌ Failed to create notifications:', error);
+  }
+}
+
+/**
+ * Save the sharer's notification settings for a share (sharePermissions record)
+ */
+export async function saveShareNotificationSettings(
+  db: Db,
+  {
+    document,
+    sharedBy,
+    recipient,
+    role,
+    settings
+  }: {
+    document: WithId<MongoDocument>;
+    sharedBy: WithId<MongoDocument>;
+    recipient: { _id: ObjectId | null; email: string }; // null _id for pending invitations
+    role: GrantableRole;
+    settings: Partial<ShareNotificationSettings>;
+  }
+): Promise<void> {
+  // Only overwrite the settings that were sent, so changing a role keeps earlier choices
+  const setSettings: Partial<ShareNotificationSettings> = {};
+  const insertSettings: Partial<ShareNotificationSettings> = {};
+  (['notifyOnAccess', 'notifyOnEdit'] as const).forEach((key) => {
+    if (typeof settings[key] === 'boolean') {
+      setSettings[key] = settings[key];
+    } else {
+      insertSettings[key] = DEFAULT_SHARE_NOTIFICATIONS[key];
+    }
+  });
+
+  // Invitations are keyed by email until claimed (see claimPendingInvites)
+  const email = recipient.email.toLowerCase();
+  await db.collection('sharePermissions').updateOne(
+    recipient._id
+      ? { document: document._id, sharedWith: recipient._id }
+      : { document: document._id, email, shareType: 'email' },
+    {
+      $set: {
+        sharedBy: sharedBy._id,
+        email,
+        permission: SHARE_PERMISSION_BY_ROLE[role],
+        shareType: recipient._id ? 'user' : 'email',
+        isActive: true,
+        isRevoked: false,
+        ...setSettings,
+        updatedAt: new Date()
+      },
+      $setOnInsert: {
+        ...insertSettings,
+        accessCount: 0,
+        createdAt: new Date()
+      }
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Tell whoever shared a document that a collaborator opened or edited it,
+ * if the share asks for it (notifyOnAccess / notifyOnEdit)
+ * Like notifyUsers, this never throws
+ */
+export async function notifyDocumentActivity(
+  db: Db,
+  {
+    document,
+    user,
+    activity
+  }: {
+    document: WithId<MongoDocument>;
+    user: WithId<MongoDocument> | null;
+    activity: 'opened' | 'edited';
+  }
+): Promise<void> {
+  if (!user || document.owner?.equals(user._id)) return;
+
+  // Only people the document was shared with directly
+  if (!findDirectShare(document, user)) return;
+
+  try {
+    const share = await db.collection('sharePermissions').findOne({
+      document: document._id,
+      sharedWith: user._id,
+      isActive: { $ne: false },
+      isRevoked: { $ne: true }
+    });
+
+    const enabled = activity === 'opened'
+      ? share?.notifyOnAccess ?? DEFAULT_SHARE_NOTIFICATIONS.notifyOnAccess
+      : share?.notifyOnEdit ?? DEFAULT_SHARE_NOTIFICATIONS.notifyOnEdit;
+
+    const recipientId: ObjectId | undefined = share?.sharedBy || document.owner;
+    if (!enabled || !recipientId) return;
+
+    const type: NotificationType = activity === 'opened' ? 'document_opened' : 'document_edited';
+    const interval = activity === 'opened' ? ACCESS_NOTIFICATION_INTERVAL : EDIT_NOTIFICATION_INTERVAL;
+
+    const recent = await db.collection('notifications').findOne({
+      userId: recipientId,
+      type,
+      actorId: user._id,
+      documentId: document._id,
+      createdAt: { $gt: new Date(Date.now() - interval) }
+    });
+    if (recent) return;
+
+    await notifyUsers(db, [{
+      recipientId,
+      type,
+      actor: user,
+      document,
+      message: `${displayName(user)} ${activity} "${document.title || 'Untitled Document'}"`
+    }]);
+  } catch (error) {
+    console.error(`❌ Failed to notify about document ${activity}:`, error);
+  }
+}
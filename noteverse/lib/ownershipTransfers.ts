@@ -0,0 +1,353 @@
+/**
+ * Ownership Transfers
+ *
+ * An owner offers a document (or all of their documents) to another user,
+ * who has to accept before Document.owner changes. On acceptance the
+ * previous owner stays on as an editor. Transfer records are never deleted:
+ * together with Document.ownershipHistory they are the audit trail of who
+ * owned a document when.
+ *
+ * Transfers offered while deleting an account outlive the account; if the
+ * recipient declines one of those, the document is deleted as the account
+ * deletion would have done.
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import { notifyUsers, displayName } from './notifications';
+import { setDocumentShare, removeDocumentShare } from './sharing';
+import { deleteDocumentData } from './documents';
+import { refreshDocumentAccess } from './socket/liveAccess';
+
+export type TransferStatus = 'pending' | 'accepted' | 'declined' | 'cancelled';
+export type TransferAction = 'accept' | 'decline' | 'cancel';
+
+// Stored in the ownershipTransfers collection
+export interface OwnershipTransferRecord {
+  _id?: ObjectId;
+  document: ObjectId;
+  documentTitle: string;
+  fromUser: ObjectId;
+  fromEmail: string;
+  toUser: ObjectId;
+  toEmail: string;
+  status: TransferStatus;
+  accountDeletion: boolean; // Offered while the previous owner deleted their account
+  createdAt: Date;
+  respondedAt: Date | null;
+  respondedBy: ObjectId | null;
+}
+
+// API format
+export interface OwnershipTransfer {
+  id: string;
+  documentId: string;
+  documentTitle: string;
+  fromEmail: string;
+  toEmail: string;
+  status: TransferStatus;
+  accountDeletion: boolean;
+  createdAt: string;
+  respondedAt: string | null;
+}
+
+export function isTransferAction(value: unknown): value is TransferAction {
+  return value === 'accept' || value === 'decline' || value === 'cancel';
+}
+
+function ownershipTransfers(db: Db) {
+  return db.collection<OwnershipTransferRecord>('ownershipTransfers');
+}
+
+export function formatOwnershipTransfer(transfer: WithId<OwnershipTransferRecord>): OwnershipTransfer {
+  return {
+    id: transfer._id.toString(),
+    documentId: transfer.document.toString(),
+    documentTitle: transfer.documentTitle,
+    fromEmail: transfer.fromEmail,
+    toEmail: transfer.toEmail,
+    status: transfer.status,
+    accountDeletion: transfer.accountDeletion,
+    createdAt: transfer.createdAt.toISOString(),
+    respondedAt: transfer.respondedAt ? transfer.respondedAt.toISOString() : null
+  };
+}
+
+/**
+ * Look up who documents are being offered to
+ * The new owner needs an account; pending invitations can't own documents.
+ */
+export async function findTransferRecipient(
+  db: Db,
+  email: unknown,
+  owner: WithId<MongoDocument>
+): Promise<{ recipient: WithId<MongoDocument> } | { error: string; code: number }> {
+  if (typeof email !== 'string' || !email.trim()) {
+    return { error: 'Email is required', code: 400 };
+  }
+
+  const normalizedEmail = email.trim().toLowerCase();
+  if (normalizedEmail === owner.email?.toLowerCase()) {
+    return { error: 'You already own these documents', code: 400 };
+  }
+
+  const recipient = await db.collection('users').findOne({ email: normalizedEmail });
+  if (!recipient) {
+    return { error: 'No NoteVerse account uses this email', code: 404 };
+  }
+
+  return { recipient };
+}
+
+/**
+ * Offer documents to another user
+ * A document can only have one pending transfer; offering it again replaces
+ * the earlier offer. Sends the recipient a single notification.
+ */
+export async function requestOwnershipTransfers(
+  db: Db,
+  {
+    documents,
+    from,
+    to,
+    accountDeletion = false
+  }: {
+    documents: WithId<MongoDocument>[];
+    from: WithId<MongoDocument>;
+    to: WithId<MongoDocument>;
+    accountDeletion?: boolean;
+  }
+): Promise<WithId<OwnershipTransferRecord>[]> {
+  if (documents.length === 0) return [];
+
+  await ownershipTransfers(db).updateMany(
+    { document: { $in: documents.map((document) => document._id) }, status: 'pending' },
+    { $set: { status: 'cancelled', respondedAt: new Date(), respondedBy: from._id } }
+  );
+
+  const transfers: OwnershipTransferRecord[] = documents.map((document) => ({
+    document: document._id,
+    documentTitle: document.title || 'Untitled Document',
+    fromUser: from._id,
+    fromEmail: from.email,
+    toUser: to._id,
+    toEmail: to.email,
+    status: 'pending',
+    accountDeletion,
+    createdAt: new Date(),
+    respondedAt: null,
+    respondedBy: null
+  }));
+
+  const result = await ownershipTransfers(db).insertMany(transfers);
+
+  await notifyUsers(db, [{
+    recipientId: to._id,
+    type: 'ownership_transfer',
+    actor: from,
+    document: documents.length === 1 ? documents[0] : null,
+    message: documents.length === 1
+      ? `${displayName(from)} wants to make you the owner of "${documents[0].title || 'Untitled Document'}"`
+      : `${displayName(from)} wants to make you the owner of ${documents.length} documents`,
+    link: '/dashboard'
+  }]);
+
+  console.log(`🔁 ${from.email} offered ${documents.length} document(s) to ${to.email}`);
+
+  return transfers.map((transfer, index) => ({ ...transfer, _id: result.insertedIds[index] }));
+}
+
+export async function findOwnershipTransfer(db: Db, transferId: ObjectId): Promise<WithId<OwnershipTransferRecord> | null> {
+  return ownershipTransfers(db).findOne({ _id: transferId });
+}
+
+/**
+ * Pending transfers offered to or by a user, newest first
+ */
+export async function getPendingTransfers(
+  db: Db,
+  userId: ObjectId
+): Promise<{ incoming: WithId<OwnershipTransferRecord>[]; outgoing: WithId<OwnershipTransferRecord>[] }> {
+  const transfers = await ownershipTransfers(db)
+    .find({ status: 'pending', $or: [{ toUser: userId }, { fromUser: userId }] })
+    .sort({ createdAt: -1 })
+    .toArray();
+
+  return {
+    incoming: transfers.filter((transfer) => transfer.toUser.equals(userId)),
+    outgoing: transfers.filter((transfer) => transfer.fromUser.equals(userId))
+  };
+}
+
+/**
+ * Every transfer of a document, newest first (the audit trail)
+ */
+export async function getTransferHistory(db: Db, documentId: ObjectId): Promise<WithId<OwnershipTransferRecord>[]> {
+  return ownershipTransfers(db)
+    .find({ document: documentId })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/**
+ * Accept or decline (recipient) or cancel (previous owner) a pending transfer
+ * Returns the new status, or an error message when the user can't do that.
+ */
+export async function respondToTransfer(
+  db: Db,
+  {
+    transfer,
+    user,
+    action
+  }: {
+    transfer: WithId<OwnershipTransferRecord>;
+    user: WithId<MongoDocument>;
+    action: TransferAction;
+  }
+): Promise<{ status: TransferStatus } | { error: string; code: number }> {
+  if (transfer.status !== 'pending') {
+    return { error: `This transfer was already ${transfer.status}`, code: 409 };
+  }
+
+  const isRecipient = transfer.toUser.equals(user._id);
+  const isSender = transfer.fromUser.equals(user._id);
+  if (action === 'cancel' ? !isSender : !isRecipient) {
+    return { error: 'You cannot respond to this transfer', code: 403 };
+  }
+
+  const status: TransferStatus = action === 'accept' ? 'accepted' : action === 'decline' ? 'declined' : 'cancelled';
+
+  // The document may have been deleted or given away since
+  const document = await db.collection('documents').findOne({ _id: transfer.document, owner: transfer.fromUser });
+  if (!document) {
+    await closeTransfer(db, transfer, 'cancelled', user);
+    return { error: 'This document is no longer owned by the sender', code: 410 };
+  }
+
+  const previousOwner = await db.collection('users').findOne({ _id: transfer.fromUser });
+
+  if (action === 'accept' && document.deletedAt) {
+    return { error: 'This document is in the trash', code: 409 };
+  }
+
+  // Claim the transfer before acting on it, so a concurrent response can't apply too
+  if (!(await closeTransfer(db, transfer, status, user))) {
+    return { error: 'This transfer was already answered', code: 409 };
+  }
+
+  if (action === 'accept') {
+    if (!(await completeTransfer(db, { transfer, document, previousOwner, newOwner: user }))) {
+      // Given away by another transfer in the meantime
+      await ownershipTransfers(db).updateOne({ _id: transfer._id }, { $set: { status: 'cancelled' } });
+      return { error: 'This document is no longer owned by the sender', code: 410 };
+    }
+  } else if (action === 'decline' && !previousOwner) {
+    // The sender deleted their account; nobody is left to own it
+    await deleteDocumentData(db, document);
+  }
+
+  if (previousOwner && action !== 'cancel') {
+    await notifyUsers(db, [{
+      recipientId: previousOwner._id,
+      type: action === 'accept' ? 'ownership_transfer_accepted' : 'ownership_transfer_declined',
+      actor: user,
+      document: action === 'accept' ? document : null,
+      message: action === 'accept'
+        ? `${displayName(user)} is now the owner of "${transfer.documentTitle}"`
+        : `${displayName(user)} declined ownership of "${transfer.documentTitle}"`
+    }]);
+  }
+
+  console.log(`🔁 Transfer of "${transfer.documentTitle}" to ${transfer.toEmail} ${status}`);
+  return { status };
+}
+
+/**
+ * Settle a user's pending transfers before their account is deleted
+ * Transfers offered to them are declined; their own offers are cancelled
+ * (account deletion offers its documents again if asked to).
+ */
+export async function withdrawPendingTransfers(db: Db, user: WithId<MongoDocument>): Promise<void> {
+  const { incoming, outgoing } = await getPendingTransfers(db, user._id);
+
+  for (const transfer of incoming) {
+    await respondToTransfer(db, { transfer, user, action: 'decline' });
+  }
+
+  for (const transfer of outgoing) {
+    await closeTransfer(db, transfer, 'cancelled', user);
+  }
+}
+
+/**
+ * Close a pending transfer
+ * Returns false when it was no longer pending (someone answered it first).
+ */
+async function closeTransfer(
+  db: Db,
+  transfer: WithId<OwnershipTransferRecord>,
+  status: TransferStatus,
+  user: WithId<MongoDocument>
+): Promise<boolean> {
+  const result = await ownershipTransfers(db).updateOne(
+    { _id: transfer._id, status: 'pending' },
+    { $set: { status, respondedAt: new Date(), respondedBy: user._id } }
+  );
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Hand the document over: the new owner loses their share (owners don't
+ * need one), the previous owner becomes an editor
+ * Returns false when the sender no longer owns the document.
+ */
+async function completeTransfer(
+  db: Db,
+  {
+    transfer,
+    document,
+    previousOwner,
+    newOwner
+  }: {
+    transfer: WithId<OwnershipTransferRecord>;
+    document: WithId<MongoDocument>;
+    previousOwner: WithId<MongoDocument> | null;
+    newOwner: WithId<MongoDocument>;
+  }
+): Promise<boolean> {
+  const result = await db.collection('documents').updateOne(
+    { _id: document._id, owner: transfer.fromUser },
+    {
+      // The previous owner's folders stay with them
+      $set: { owner: newOwner._id, folder: null, updatedAt: new Date() },
+      $push: {
+        ownershipHistory: {
+          from: transfer.fromUser,
+          to: newOwner._id,
+          transferId: transfer._id,
+          transferredAt: new Date()
+        }
+      } as MongoDocument
+    }
+  );
+  if (result.matchedCount === 0) return false;
+
+  await removeDocumentShare(db, { document, recipient: { _id: newOwner._id, email: newOwner.email } });
+
+  // Activity notifications for existing shares now go to the new owner
+  await db.collection('sharePermissions').updateMany(
+    { document: document._id, sharedBy: transfer.fromUser, shareType: { $in: ['user', 'email'] } },
+    { $set: { sharedBy: newOwner._id, updatedAt: new Date() } }
+  );
+
+  if (previousOwner) {
+    await setDocumentShare(db, {
+      document,
+      recipient: { _id: previousOwner._id, email: previousOwner.email },
+      role: 'editor'
+    });
+  }
+
+  // The new owner may already be in the room with their old role
+  await refreshDocumentAccess(document);
+  return true;
+}
@@ -0,0 +1,14 @@
+/**
+ * Regular Expressions
+ *
+ * For matching user input literally, in RegExps and MongoDB $regex filters
+ * (regex characters in it could make slow or invalid patterns). Kept free of
+ * server dependencies.
+ */
+
+/**
+ * Escape the characters that have a meaning in a regular expression
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
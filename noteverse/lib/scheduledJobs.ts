@@ -0,0 +1,66 @@
+/**
+ * Scheduled Jobs
+ *
+ * Periodic maintenance run inside the custom server (server.ts). Every job
+ * only acts on what is due, so they run hourly and a restart never skips a
+ * day. Deployments without the custom server (Vercel) call the same jobs
+ * through their cron routes instead, scheduled in vercel.json.
+ *
+ * Jobs:
+ * - Purge documents that have been in the trash too long
+ * - Send the daily email digests that are due
+ */
+
+import { Db } from 'mongodb';
+import { connectToDatabase } from './mongodb';
+import { purgeTrash } from './documents';
+import { sendDailyDigests } from './emailNotifications';
+
+const JOB_INTERVAL = 60 * 60 * 1000; // Hourly
+
+interface ScheduledJob {
+  name: string;
+  run: (db: Db) => Promise<unknown>;
+}
+
+const JOBS: ScheduledJob[] = [
+  { name: 'trash purge', run: (db) => purgeTrash(db) },
+  { name: 'daily digest', run: (db) => sendDailyDigests(db) }
+];
+
+/**
+ * Run the jobs now and then every JOB_INTERVAL
+ * Returns a function that stops them.
+ */
+export function startScheduledJobs(): () => void {
+  let running = false;
+
+  const runJobs = async () => {
+    // A slow run (e.g. a large purge) is never overlapped by the next one
+    if (running) return;
+    running = true;
+
+    try {
+      const { db } = await connectToDatabase();
+      for (const job of JOBS) {
+        try {
+          await job.run(db);
+        } catch (error) {
+          console.error(`❌ Scheduled ${job.name} failed:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Could not run scheduled jobs:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  runJobs();
+  const timer = setInterval(runJobs, JOB_INTERVAL);
+  // Don't keep the process alive just for the jobs
+  timer.unref();
+
+  console.log(`⏰ Scheduled jobs: ${JOBS.map((job) => job.name).join(', ')}`);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,334 @@
+/**
+ * Full-text Search
+ *
+ * Search runs over the plain text of documents (Document.plainText: all
+ * tabs, see tabsUpdate in lib/documents.ts) rather than their HTML, so
+ * markup never matches. Every write that changes content stores the plain text
+ * next to it; `npm run migrate:search` backfills older documents and
+ * creates the text index.
+ *
+ * Queries are words, "quoted phrases" and prefix* terms:
+ * - words and phrases go through the text index (stemmed, ranked by
+ *   MongoDB's text score; phrases must all appear)
+ * - prefix terms must all match the start of a word in the title or text
+ * Results are ranked among the first MAX_SEARCH_CANDIDATES matches and come
+ * with a highlighted snippet of the text around the first match.
+ */
+
+import { Db, WithId, Filter, Document as MongoDocument } from 'mongodb';
+import {
+  extractPlainText,
+  formatDocumentListItem,
+  getDocumentAccessScope
+} from './documents';
+import { getDocumentTabs } from './documentTabs';
+import { escapeRegExp } from './regex';
+import { DocumentListItem, OwnerFilter } from './documentFilters';
+
+export const SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+// Matches ranked per search; more specific queries narrow the rest down
+const MAX_SEARCH_CANDIDATES = 200;
+const SNIPPET_LENGTH = 160;
+const TEXT_INDEX_NAME = 'document_search';
+
+// A prefix match in the title counts as much as this many in the text
+const TITLE_WEIGHT = 5;
+
+export interface SearchTerm {
+  type: 'word' | 'phrase' | 'prefix';
+  text: string;
+}
+
+// [start, end) character ranges to highlight
+export type HighlightRange = [number, number];
+
+export interface HighlightedText {
+  text: string;
+  highlights: HighlightRange[];
+}
+
+export interface SearchResult extends DocumentListItem {
+  titleHighlights: HighlightRange[];
+  snippet: HighlightedText;
+  score: number;
+}
+
+export interface SearchFilters {
+  owner: OwnerFilter;
+  tag: string | null;
+  // Last edited within [from, to]
+  from: Date | null;
+  to: Date | null;
+}
+
+// Word boundary next to a character, for terms that start or end with one
+const boundary = (char: string) => (/\w/.test(char) ? '\\b' : '');
+
+/**
+ * Split a query into words, "quoted phrases" and prefix* terms
+ */
+export function parseSearchQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+
+  for (const match of query.slice(0, MAX_SEARCH_QUERY_LENGTH).matchAll(pattern)) {
+    if (match[1] !== undefined) {
+      const phrase = match[1].trim().replace(/\s+/g, ' ').toLowerCase();
+      if (phrase) terms.push({ type: phrase.includes(' ') ? 'phrase' : 'word', text: phrase });
+      continue;
+    }
+
+    const word = match[2].toLowerCase();
+    if (word.length > 1 && word.endsWith('*')) {
+      terms.push({ type: 'prefix', text: word.replace(/\*+$/, '') });
+    } else if (word !== '*') {
+      terms.push({ type: 'word', text: word });
+    }
+  }
+
+  return terms.filter((term) => term.text.length > 0);
+}
+
+/**
+ * Regex source matching a term where it starts a word. Words match as
+ * prefixes too, so stemmed matches ("edit" in "edited") get highlighted.
+ */
+function termPattern(term: SearchTerm): string {
+  const source = term.text.split(' ').map(escapeRegExp).join('\\W+');
+  const end = term.type === 'phrase' ? boundary(term.text[term.text.length - 1]) : '';
+
+  return `${boundary(term.text[0])}${source}${end}`;
+}
+
+/**
+ * Ranges of a text matched by any of the terms, merged and in order
+ */
+export function findHighlights(text: string, terms: SearchTerm[]): HighlightRange[] {
+  if (!text || terms.length === 0) return [];
+
+  const pattern = new RegExp(terms.map(termPattern).join('|'), 'gi');
+  const ranges: HighlightRange[] = [];
+
+  for (const match of text.matchAll(pattern)) {
+    if (!match[0]) continue;
+    const start = match.index;
+    const end = start + match[0].length;
+    const last = ranges[ranges.length - 1];
+
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * The part of a document's text around its first match, cut at word
+ * boundaries, with the matches in it highlighted
+ */
+export function buildSnippet(text: string, terms: SearchTerm[]): HighlightedText {
+  const ranges = findHighlights(text, terms);
+  const firstMatch = ranges[0]?.[0] ?? 0;
+
+  let start = Math.max(0, firstMatch - Math.floor(SNIPPET_LENGTH / 3));
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < firstMatch ? space + 1 : start;
+  }
+
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: ranges
+      .filter(([from, to]) => to > start && from < end)
+      .map(([from, to]): HighlightRange => [
+        Math.max(from, start) - start + prefix.length,
+        Math.min(to, end) - start + prefix.length
+      ])
+  };
+}
+
+/**
+ * Relevance of a document for the prefix terms: matches in the title count
+ * TITLE_WEIGHT times, repeated matches in the text with diminishing returns
+ */
+function prefixScore(title: string, text: string, terms: SearchTerm[]): number {
+  const prefixTerms = terms.filter((term) => term.type === 'prefix');
+  if (prefixTerms.length === 0) return 0;
+
+  return prefixTerms.reduce((score, term) => {
+    const titleMatches = findHighlights(title, [term]).length;
+    const textMatches = findHighlights(text, [term]).length;
+    return score + TITLE_WEIGHT * titleMatches + Math.log1p(textMatches);
+  }, 0);
+}
+
+/**
+ * Filter for the documents matching the terms
+ */
+function searchFilter(terms: SearchTerm[]): Filter<MongoDocument> {
+  const words = terms.filter((term) => term.type === 'word').map((term) => term.text);
+  const phrases = terms.filter((term) => term.type === 'phrase').map((term) => `"${term.text}"`);
+  const prefixes = terms.filter((term) => term.type === 'prefix');
+
+  const filter: Filter<MongoDocument> = {};
+
+  if (words.length > 0 || phrases.length > 0) {
+    filter.$text = { $search: [...words, ...phrases].join(' ') };
+  }
+
+  if (prefixes.length > 0) {
+    filter.$and = prefixes.map((term) => {
+      const pattern = new RegExp(termPattern(term), 'i');
+      return { $or: [{ title: pattern }, { plainText: pattern }] };
+    });
+  }
+
+  return filter;
+}
+
+/**
+ * One page of the documents a user can open (owned, shared, or in a folder
+ * shared with them; not trashed) matching a search, best matches first
+ */
+export async function searchDocuments(
+  db: Db,
+  user: WithId<MongoDocument>,
+  query: string,
+  { filters, page, limit }: { filters: SearchFilters; page: number; limit: number }
+): Promise<{ results: SearchResult[]; total: number }> {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) return { results: [], total: 0 };
+
+  const scope = await getDocumentAccessScope(db, user);
+  const conditions: Filter<MongoDocument>[] = [scope.filter];
+
+  if (filters.owner === 'me') conditions.push({ owner: user._id });
+  if (filters.owner === 'others') conditions.push({ owner: { $ne: user._id } });
+  if (filters.tag) conditions.push({ tags: filters.tag });
+  if (filters.from || filters.to) {
+    conditions.push({
+      updatedAt: {
+        ...(filters.from ? { $gte: filters.from } : {}),
+        ...(filters.to ? { $lte: filters.to } : {})
+      }
+    });
+  }
+
+  const matchFilter = searchFilter(terms);
+  const filter: Filter<MongoDocument> = {
+    ...matchFilter,
+    $and: [...conditions, ...(matchFilter.$and || [])]
+  };
+  const usesTextIndex = !!filter.$text;
+
+  const [candidates, total] = await Promise.all([
+    db.collection('documents')
+      .find(filter, {
+        projection: {
+          title: 1,
+          customId: 1,
+          owner: 1,
+          folder: 1,
+          sharedWith: 1,
+          visibility: 1,
+          publicPermission: 1,
+          tags: 1,
+          starredBy: 1,
+          isArchived: 1,
+          createdAt: 1,
+          updatedAt: 1,
+          plainText: 1,
+          ...(usesTextIndex ? { score: { $meta: 'textScore' } } : {})
+        },
+        sort: usesTextIndex ? { score: { $meta: 'textScore' }, updatedAt: -1 } : { updatedAt: -1 },
+        limit: MAX_SEARCH_CANDIDATES
+      })
+      .toArray(),
+    db.collection('documents').countDocuments(filter)
+  ]);
+
+  const ranked = candidates
+    .map((document) => ({
+      document,
+      score: (document.score || 0) + prefixScore(document.title || '', document.plainText || '', terms)
+    }))
+    .sort((a, b) => b.score - a.score || b.document.updatedAt - a.document.updatedAt)
+    .slice((page - 1) * limit, page * limit);
+
+  // Owners of shared documents, in one query
+  const ownerIds = ranked
+    .map(({ document }) => document.owner)
+    .filter((owner) => owner && !owner.equals(user._id));
+  const owners = ownerIds.length > 0
+    ? await db.collection('users').find({ _id: { $in: ownerIds } }, { projection: { name: 1, email: 1 } }).toArray()
+    : [];
+
+  return {
+    results: ranked.map(({ document, score }) => ({
+      ...formatDocumentListItem(
+        document,
+        user,
+        owners.find((owner) => owner._id.equals(document.owner)),
+        document.folder ? scope.folderRoles.get(document.folder.toString()) : null
+      ),
+      titleHighlights: findHighlights(document.title || '', terms),
+      snippet: buildSnippet(document.plainText || '', terms),
+      score
+    })),
+    total: Math.min(total, MAX_SEARCH_CANDIDATES)
+  };
+}
+
+/**
+ * Backfill Document.plainText and (re)create the text index over title and
+ * plainText, replacing the old one over the HTML content. Idempotent.
+ */
+export async function migrateSearch(db: Db) {
+  const documents = db.collection('documents');
+  let backfilled = 0;
+
+  const cursor = documents.find(
+    { plainText: { $exists: false } },
+    { projection: { content: 1, tabs: 1 } }
+  );
+
+  for await (const document of cursor) {
+    const text = getDocumentTabs(document).map((tab) => tab.content).join(' ');
+    await documents.updateOne(
+      { _id: document._id },
+      { $set: { plainText: extractPlainText(text) } }
+    );
+    backfilled++;
+  }
+
+  // A collection can only have one text index
+  const indexes = await documents.indexes();
+  for (const index of indexes) {
+    if (index.name && index.name !== TEXT_INDEX_NAME && Object.values(index.key).includes('text')) {
+      await documents.dropIndex(index.name);
+    }
+  }
+
+  await documents.createIndex(
+    { title: 'text', plainText: 'text' },
+    { name: TEXT_INDEX_NAME, weights: { title: TITLE_WEIGHT, plainText: 1 }, default_language: 'english' }
+  );
+
+  console.log(`📦 Search migration finished: ${backfilled} document(s) backfilled`);
+  return { backfilled };
+}
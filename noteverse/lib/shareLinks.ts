@@ -0,0 +1,254 @@
+/**
+ * Share Links
+ *
+ * Tokenized links (/s/[token]) stored as SharePermission records with
+ * shareType 'link'. Each link has its own role, optional expiry, optional
+ * password and an access counter; a document can have several.
+ *
+ * Opening a link (signed in) grants the visitor the link's role through a
+ * sharedWith entry tagged with the link id and its expiry, so access checks
+ * stay in getDocumentRole. Revoking a link removes those entries again.
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import {
+  GrantableRole,
+  GRANTABLE_ROLES,
+  SHARE_PERMISSION_BY_ROLE,
+  getDocumentRole,
+  roleFromSharePermission
+} from './documentAccess';
+import { refreshDocumentAccess } from './socket/liveAccess';
+
+export const MAX_SHARE_LINKS = 50;
+export const MAX_LINK_LABEL_LENGTH = 100;
+export const MIN_LINK_PASSWORD_LENGTH = 4;
+
+// Stored in the sharePermissions collection
+export interface ShareLinkRecord {
+  _id?: ObjectId;
+  document: ObjectId;
+  sharedBy: ObjectId;
+  shareType: 'link';
+  permission: string; // SharePermission name (view / comment / edit)
+  shareToken: string;
+  label: string;
+  linkExpiry: Date | null;
+  linkPassword: string | null; // bcrypt hash
+  isActive: boolean;
+  isRevoked: boolean;
+  revokedAt: Date | null;
+  revokedBy: ObjectId | null;
+  accessCount: number;
+  lastAccessedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// API format (owner only - includes the token)
+export interface ShareLink {
+  id: string;
+  token: string;
+  path: string;
+  label: string;
+  role: GrantableRole;
+  expiresAt: string | null;
+  isExpired: boolean;
+  hasPassword: boolean;
+  accessCount: number;
+  lastAccessedAt: string | null;
+  createdAt: string;
+}
+
+function sharePermissions(db: Db) {
+  return db.collection<ShareLinkRecord>('sharePermissions');
+}
+
+export function isShareLinkExpired(link: Pick<ShareLinkRecord, 'linkExpiry'>): boolean {
+  return !!link.linkExpiry && link.linkExpiry <= new Date();
+}
+
+/**
+ * Convert a stored link to the API format
+ */
+export function formatShareLink(link: WithId<ShareLinkRecord>): ShareLink {
+  return {
+    id: link._id.toString(),
+    token: link.shareToken,
+    path: `/s/${link.shareToken}`,
+    label: link.label || '',
+    role: roleFromSharePermission(link.permission),
+    expiresAt: link.linkExpiry ? link.linkExpiry.toISOString() : null,
+    isExpired: isShareLinkExpired(link),
+    hasPassword: !!link.linkPassword,
+    accessCount: link.accessCount || 0,
+    lastAccessedAt: link.lastAccessedAt ? link.lastAccessedAt.toISOString() : null,
+    createdAt: link.createdAt.toISOString()
+  };
+}
+
+/**
+ * Active (not revoked) links of a document, newest first
+ */
+export async function getShareLinks(db: Db, documentId: ObjectId): Promise<WithId<ShareLinkRecord>[]> {
+  return sharePermissions(db)
+    .find({ document: documentId, shareType: 'link', isActive: true, isRevoked: false })
+    .sort({ createdAt: -1 })
+    .toArray();
+}
+
+/**
+ * Create a link; the password (if any) is stored as a bcrypt hash
+ */
+export async function createShareLink(
+  db: Db,
+  {
+    document,
+    createdBy,
+    role,
+    label,
+    expiresAt,
+    password
+  }: {
+    document: WithId<MongoDocument>;
+    createdBy: WithId<MongoDocument>;
+    role: GrantableRole;
+    label: string;
+    expiresAt: Date | null;
+    password: string | null;
+  }
+): Promise<WithId<ShareLinkRecord>> {
+  const link: ShareLinkRecord = {
+    document: document._id,
+    sharedBy: createdBy._id,
+    shareType: 'link',
+    permission: SHARE_PERMISSION_BY_ROLE[role],
+    shareToken: randomBytes(24).toString('base64url'),
+    label,
+    linkExpiry: expiresAt,
+    linkPassword: password ? await bcrypt.hash(password, 12) : null,
+    isActive: true,
+    isRevoked: false,
+    revokedAt: null,
+    revokedBy: null,
+    accessCount: 0,
+    lastAccessedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  const result = await sharePermissions(db).insertOne(link);
+  return { ...link, _id: result.insertedId };
+}
+
+/**
+ * Revoke a link and take away the access it granted
+ * Returns false when the document has no such active link
+ */
+export async function revokeShareLink(
+  db: Db,
+  {
+    document,
+    linkId,
+    revokedBy
+  }: {
+    document: WithId<MongoDocument>;
+    linkId: ObjectId;
+    revokedBy: WithId<MongoDocument>;
+  }
+): Promise<boolean> {
+  const result = await sharePermissions(db).updateOne(
+    { _id: linkId, document: document._id, shareType: 'link', isRevoked: false },
+    {
+      $set: {
+        isActive: false,
+        isRevoked: true,
+        revokedAt: new Date(),
+        revokedBy: revokedBy._id,
+        updatedAt: new Date()
+      }
+    }
+  );
+
+  if (result.matchedCount === 0) return false;
+
+  await db.collection('documents').updateOne(
+    { _id: document._id },
+    { $pull: { sharedWith: { linkId } } as MongoDocument }
+  );
+  await refreshDocumentAccess(document);
+
+  return true;
+}
+
+/**
+ * Find an active link by token (expired links are returned; check isShareLinkExpired)
+ */
+export async function findShareLinkByToken(db: Db, token: string): Promise<WithId<ShareLinkRecord> | null> {
+  return sharePermissions(db).findOne({
+    shareToken: token,
+    shareType: 'link',
+    isActive: true,
+    isRevoked: false
+  });
+}
+
+export async function checkShareLinkPassword(link: ShareLinkRecord, password: unknown): Promise<boolean> {
+  if (!link.linkPassword) return true;
+  return typeof password === 'string' && bcrypt.compare(password, link.linkPassword);
+}
+
+/**
+ * Record a visit and grant the visitor the link's role
+ * Nothing is granted when the visitor already has that role or higher
+ * through a share (or owns the document).
+ */
+export async function redeemShareLink(
+  db: Db,
+  {
+    link,
+    document,
+    user
+  }: {
+    link: WithId<ShareLinkRecord>;
+    document: WithId<MongoDocument>;
+    user: WithId<MongoDocument>;
+  }
+): Promise<void> {
+  await sharePermissions(db).updateOne(
+    { _id: link._id },
+    { $inc: { accessCount: 1 }, $set: { lastAccessedAt: new Date() } }
+  );
+
+  const linkRole = roleFromSharePermission(link.permission);
+  // Public access can be switched off, so only count shares
+  const sharedRole = getDocumentRole({ ...document, visibility: 'restricted' }, user);
+
+  if (sharedRole === 'owner') return;
+  if (sharedRole !== 'none' && GRANTABLE_ROLES.indexOf(sharedRole) <= GRANTABLE_ROLES.indexOf(linkRole)) return;
+
+  await db.collection('documents').updateOne(
+    { _id: document._id },
+    { $pull: { sharedWith: { userId: user._id, linkId: link._id } } as MongoDocument }
+  );
+
+  await db.collection('documents').updateOne(
+    { _id: document._id },
+    {
+      $push: {
+        sharedWith: {
+          userId: user._id,
+          email: user.email.toLowerCase(),
+          role: linkRole,
+          sharedAt: new Date(),
+          linkId: link._id,
+          expiresAt: link.linkExpiry
+        }
+      } as MongoDocument
+    }
+  );
+
+  console.log(`🔗 ${user.email} joined "${document.title}" as ${linkRole} via share link ${link._id.toString()}`);
+}
@@ -0,0 +1,522 @@
+/**
+ * Document Sharing
+ *
+ * Document.sharedWith is the one authoritative record of who a document is
+ * shared with and in which role. Every route that grants, changes, removes
+ * or lists shares goes through this module; access checks read the same
+ * array through getDocumentRole.
+ *
+ * Entries are either direct shares (one per person, made by the owner or by
+ * approving an access request) or share-link grants (tagged with linkId and
+ * the link's expiry, see lib/shareLinks.ts). A direct share to an email
+ * address without an account is a pending invitation (userId null); it is
+ * claimed when an account with that address is created. The
+ * sharePermissions collection only keeps share links and the per-share
+ * notification settings.
+ *
+ * Older data also lived in the documentshares collection and in
+ * Document.collaborators; migrateSharing folds it into sharedWith
+ * (npm run migrate:sharing).
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import {
+  GrantableRole,
+  GRANTABLE_ROLES,
+  SHARE_PERMISSION_BY_ROLE,
+  isGrantableRole
+} from './documentAccess';
+import { refreshDocumentAccess } from './socket/liveAccess';
+
+export interface SharedWithEntry {
+  userId: ObjectId | null; // null for pending invitations
+  email: string;
+  role: GrantableRole;
+  sharedAt: Date;
+  linkId?: ObjectId; // Share-link grants only
+  expiresAt?: Date | null;
+}
+
+export interface SharedDocumentSummary {
+  documentId: ObjectId;
+  documentTitle: string;
+  email: string;
+  role: GrantableRole;
+  sharedAt: Date;
+}
+
+export interface SharingMigrationStats {
+  documentsScanned: number;
+  documentsUpdated: number;
+  legacySharesMigrated: number;
+  legacySharesSkipped: number;
+  duplicatesRemoved: number;
+  expiredGrantsRemoved: number;
+  staleSettingsRemoved: number;
+}
+
+// Person an entry belongs to: userId or email
+type ShareRecipient = { _id?: ObjectId | null; email?: string | null };
+
+function documents(db: Db) {
+  return db.collection('documents');
+}
+
+function recipientFilter(recipient: ShareRecipient): MongoDocument[] {
+  const filter: MongoDocument[] = [];
+  if (recipient._id) filter.push({ userId: recipient._id });
+  if (recipient.email) filter.push({ email: recipient.email.toLowerCase() });
+  return filter;
+}
+
+function isHigherRole(role: GrantableRole, than: GrantableRole): boolean {
+  return GRANTABLE_ROLES.indexOf(role) < GRANTABLE_ROLES.indexOf(than);
+}
+
+export function isShareExpired(entry: Pick<SharedWithEntry, 'expiresAt'>, now = new Date()): boolean {
+  return !!entry.expiresAt && entry.expiresAt <= now;
+}
+
+export function isPendingInvite(entry: Pick<SharedWithEntry, 'userId' | 'linkId'>): boolean {
+  return !entry.userId && !entry.linkId;
+}
+
+/**
+ * Settings record (sharePermissions) of a person's share
+ * Pending invitations are keyed by email until they're claimed.
+ */
+function shareSettingsFilter(documentId: ObjectId, recipient: ShareRecipient): MongoDocument {
+  return recipient._id
+    ? { document: documentId, sharedWith: recipient._id, shareType: 'user' }
+    : { document: documentId, email: recipient.email?.toLowerCase(), shareType: 'email' };
+}
+
+export function isShareFor(entry: Pick<SharedWithEntry, 'userId' | 'email'>, recipient: ShareRecipient): boolean {
+  const email = recipient.email?.toLowerCase();
+  return (!!recipient._id && !!entry.userId?.equals(recipient._id)) ||
+    (!!email && entry.email?.toLowerCase() === email);
+}
+
+/**
+ * Entries of a document that still grant access (expired link grants are skipped)
+ */
+export function getActiveShares(document: MongoDocument, recipient?: ShareRecipient): SharedWithEntry[] {
+  const now = new Date();
+  return ((document.sharedWith || []) as SharedWithEntry[]).filter((entry) =>
+    !isShareExpired(entry, now) && (!recipient || isShareFor(entry, recipient))
+  );
+}
+
+/**
+ * The direct (not share-link) share of a person, if any
+ */
+export function findDirectShare(document: MongoDocument, recipient: ShareRecipient): SharedWithEntry | null {
+  return getActiveShares(document, recipient).find((entry) => !entry.linkId) || null;
+}
+
+/**
+ * One entry per collaborator: their highest active role, preferring a
+ * direct share over a link grant of the same role
+ */
+export function getCollaborators(document: MongoDocument): SharedWithEntry[] {
+  const byPerson = new Map<string, SharedWithEntry>();
+
+  getActiveShares(document).forEach((entry) => {
+    const key = entry.email?.toLowerCase() || entry.userId?.toString();
+    if (!key || !isGrantableRole(entry.role)) return;
+
+    const existing = byPerson.get(key);
+    if (
+      !existing ||
+      isHigherRole(entry.role, existing.role) ||
+      (entry.role === existing.role && existing.linkId && !entry.linkId)
+    ) {
+      byPerson.set(key, entry);
+    }
+  });
+
+  return Array.from(byPerson.values());
+}
+
+/**
+ * Give a person a role on a document, replacing their direct share if they
+ * already have one (share-link grants are left alone)
+ * Pass a null _id to invite an email address that has no account yet.
+ * Returns the replaced share, or null for a new share.
+ */
+export async function setDocumentShare(
+  db: Db,
+  {
+    document,
+    recipient,
+    role
+  }: {
+    document: WithId<MongoDocument>;
+    recipient: { _id: ObjectId | null; email: string };
+    role: GrantableRole;
+  }
+): Promise<SharedWithEntry | null> {
+  const previous = findDirectShare(document, recipient);
+  const email = recipient.email.toLowerCase();
+
+  await documents(db).updateOne(
+    { _id: document._id },
+    {
+      $pull: {
+        sharedWith: { $or: recipientFilter(recipient), linkId: { $exists: false } }
+      } as MongoDocument
+    }
+  );
+
+  const entry: SharedWithEntry = {
+    userId: recipient._id,
+    email,
+    role,
+    sharedAt: new Date()
+  };
+
+  await documents(db).updateOne(
+    { _id: document._id },
+    {
+      $push: { sharedWith: entry } as MongoDocument,
+      $set: { updatedAt: new Date() }
+    }
+  );
+
+  // Keep the notification settings record in step with the role
+  await db.collection('sharePermissions').updateOne(
+    shareSettingsFilter(document._id, recipient),
+    { $set: { permission: SHARE_PERMISSION_BY_ROLE[role], updatedAt: new Date() } }
+  );
+
+  await refreshDocumentAccess(document);
+
+  const action = previous ? '✅ Updated' : recipient._id ? '✅ Shared' : '✉️ Invited';
+  console.log(`${action} "${document.title}" with ${email} as ${role}`);
+  return previous;
+}
+
+/**
+ * Take away all of a person's access to a document, including share-link
+ * grants, and drop their notification settings
+ * Returns false when they had no entries.
+ */
+export async function removeDocumentShare(
+  db: Db,
+  {
+    document,
+    recipient
+  }: {
+    document: WithId<MongoDocument>;
+    recipient: ShareRecipient;
+  }
+): Promise<boolean> {
+  // Fill in the other half of the identity so every entry and the settings record are found
+  const entry = ((document.sharedWith || []) as SharedWithEntry[]).find((share) => isShareFor(share, recipient));
+  const userId = recipient._id || entry?.userId;
+  const email = recipient.email || entry?.email;
+  const filter = recipientFilter({ _id: userId, email });
+  if (filter.length === 0) return false;
+
+  const result = await documents(db).updateOne(
+    { _id: document._id },
+    {
+      $pull: { sharedWith: { $or: filter } } as MongoDocument,
+      $set: { updatedAt: new Date() }
+    }
+  );
+
+  if (result.modifiedCount === 0) return false;
+
+  await db.collection('sharePermissions').deleteMany(
+    shareSettingsFilter(document._id, { _id: userId, email })
+  );
+  await refreshDocumentAccess(document);
+
+  console.log(`🗑️ Removed ${email || userId?.toString()} from "${document.title}"`);
+  return true;
+}
+
+/**
+ * Turn the pending invitations for a new account's email address into
+ * shares of that account (signup and first OAuth sign-in)
+ * Returns the number of documents claimed.
+ */
+export async function claimPendingInvites(db: Db, user: { _id: ObjectId; email: string }): Promise<number> {
+  const email = user.email.toLowerCase();
+
+  const result = await documents(db).updateMany(
+    { sharedWith: { $elemMatch: { email, userId: null, linkId: { $exists: false } } } },
+    { $set: { 'sharedWith.$[invite].userId': user._id } },
+    { arrayFilters: [{ 'invite.email': email, 'invite.userId': null, 'invite.linkId': { $exists: false } }] }
+  );
+
+  await db.collection('sharePermissions').updateMany(
+    { email, shareType: 'email' },
+    { $set: { sharedWith: user._id, shareType: 'user', updatedAt: new Date() } }
+  );
+
+  if (result.modifiedCount > 0) {
+    console.log(`✉️ ${email} claimed ${result.modifiedCount} pending invitation(s)`);
+  }
+
+  return result.modifiedCount;
+}
+
+/**
+ * Shares a user has made: direct shares on the documents they own
+ */
+export async function getSharesByOwner(db: Db, ownerId: ObjectId): Promise<SharedDocumentSummary[]> {
+  const owned = await documents(db)
+    .find({ owner: ownerId, 'sharedWith.0': { $exists: true } })
+    .project({ title: 1, sharedWith: 1 })
+    .toArray();
+
+  return owned.flatMap((document) =>
+    ((document.sharedWith || []) as SharedWithEntry[])
+      .filter((entry) => !entry.linkId)
+      .map((entry) => ({
+        documentId: document._id,
+        documentTitle: document.title || 'Untitled Document',
+        email: entry.email,
+        role: entry.role,
+        sharedAt: entry.sharedAt
+      }))
+  );
+}
+
+/**
+ * Remove a user from every document shared with them and drop the share
+ * records they made or received (account deletion)
+ */
+export async function removeUserFromShares(db: Db, user: { _id: ObjectId; email: string }): Promise<void> {
+  await documents(db).updateMany(
+    { $or: [{ 'sharedWith.userId': user._id }, { 'sharedWith.email': user.email.toLowerCase() }] },
+    { $pull: { sharedWith: { $or: recipientFilter(user) } } as MongoDocument }
+  );
+
+  await db.collection('sharePermissions').deleteMany({
+    $or: [{ sharedWith: user._id }, { sharedBy: user._id }]
+  });
+}
+
+/**
+ * Drop a document's share links and notification settings (document deletion)
+ */
+export async function deleteDocumentShares(db: Db, documentId: ObjectId): Promise<void> {
+  await db.collection('sharePermissions').deleteMany({ document: documentId });
+}
+
+/**
+ * Normalize a sharedWith array
+ * - one direct share per person, keeping the highest role
+ * - one grant per person and share link; expired grants are dropped
+ * - entries for the owner, without an email or with an unknown role are dropped
+ * - missing userIds are filled in from userIdsByEmail
+ */
+export function normalizeSharedWith(
+  entries: SharedWithEntry[],
+  {
+    ownerId,
+    userIdsByEmail
+  }: {
+    ownerId?: ObjectId | null;
+    userIdsByEmail: Map<string, ObjectId>;
+  }
+): { sharedWith: SharedWithEntry[]; duplicatesRemoved: number; expiredRemoved: number } {
+  const now = new Date();
+  const byKey = new Map<string, SharedWithEntry>();
+  let expiredRemoved = 0;
+
+  entries.forEach((entry) => {
+    if (isShareExpired(entry, now)) {
+      expiredRemoved++;
+      return;
+    }
+
+    const email = entry.email?.toLowerCase();
+    if (!email || !isGrantableRole(entry.role)) return;
+
+    const userId = entry.userId || userIdsByEmail.get(email) || null;
+    if (ownerId && userId?.equals(ownerId)) return;
+
+    const key = `${email}:${entry.linkId?.toString() || 'direct'}`;
+    const existing = byKey.get(key);
+    if (!existing || isHigherRole(entry.role, existing.role)) {
+      byKey.set(key, { ...entry, userId, email });
+    }
+  });
+
+  const sharedWith = Array.from(byKey.values());
+  return {
+    sharedWith,
+    duplicatesRemoved: entries.length - expiredRemoved - sharedWith.length,
+    expiredRemoved
+  };
+}
+
+/**
+ * Move legacy shares into sharedWith and clean up every sharedWith array
+ * Safe to run any number of times: legacy records are only merged in when
+ * they'd raise someone's role, and normalizing is idempotent.
+ */
+export async function migrateSharing(db: Db): Promise<SharingMigrationStats> {
+  const stats: SharingMigrationStats = {
+    documentsScanned: 0,
+    documentsUpdated: 0,
+    legacySharesMigrated: 0,
+    legacySharesSkipped: 0,
+    duplicatesRemoved: 0,
+    expiredGrantsRemoved: 0,
+    staleSettingsRemoved: 0
+  };
+
+  const users = await db.collection('users').find({}, { projection: { email: 1 } }).toArray();
+  const userIdsByEmail = new Map<string, ObjectId>();
+  const emailsByUserId = new Map<string, string>();
+  users.forEach((user) => {
+    if (!user.email) return;
+    userIdsByEmail.set(user.email.toLowerCase(), user._id);
+    emailsByUserId.set(user._id.toString(), user.email.toLowerCase());
+  });
+
+  // Legacy shares per document id
+  // sharePermissions 'user' records are not merged: they only ever mirrored
+  // shares, and collaborators removed from sharedWith kept theirs. Step 5
+  // drops the ones left without a share instead.
+  const legacyShares = new Map<string, SharedWithEntry[]>();
+  const addLegacyShare = (documentId: ObjectId | undefined, entry: Partial<SharedWithEntry>) => {
+    const email = entry.email?.toLowerCase() || (entry.userId && emailsByUserId.get(entry.userId.toString()));
+    if (!documentId || !email || !entry.role) {
+      stats.legacySharesSkipped++;
+      return;
+    }
+
+    const key = documentId.toString();
+    legacyShares.set(key, [
+      ...(legacyShares.get(key) || []),
+      { userId: entry.userId || null, email, role: entry.role, sharedAt: entry.sharedAt || new Date() }
+    ]);
+  };
+
+  // 1. documentshares (DocumentShare model): view / edit (owner rows never granted anything)
+  const documentShares = await db.collection('documentshares').find({}).toArray();
+  documentShares.forEach((share) => {
+    if (share.permission === 'owner') {
+      stats.legacySharesSkipped++;
+      return;
+    }
+
+    addLegacyShare(share.documentId, {
+      userId: share.sharedWith || null,
+      email: share.sharedWithEmail,
+      role: share.permission === 'edit' ? 'editor' : 'viewer',
+      sharedAt: share.createdAt
+    });
+  });
+
+  // 2. Document.collaborators (old mongoose schema)
+  const withCollaborators = await db.collection('documents')
+    .find({ 'collaborators.0': { $exists: true } })
+    .project({ collaborators: 1 })
+    .toArray();
+  withCollaborators.forEach((document) => {
+    (document.collaborators as { user?: ObjectId; role?: string; addedAt?: Date }[]).forEach((collaborator) => {
+      addLegacyShare(document._id, {
+        userId: collaborator.user || null,
+        role: isGrantableRole(collaborator.role) ? collaborator.role : 'viewer',
+        sharedAt: collaborator.addedAt
+      });
+    });
+  });
+
+  // 3. Merge and normalize every document that has (or should have) shares
+  const cursor = documents(db).find({
+    $or: [
+      { 'sharedWith.0': { $exists: true } },
+      { collaborators: { $exists: true } },
+      { _id: { $in: Array.from(legacyShares.keys()).map((id) => new ObjectId(id)) } }
+    ]
+  });
+
+  for await (const document of cursor) {
+    stats.documentsScanned++;
+
+    const current = (document.sharedWith || []) as SharedWithEntry[];
+    const legacy = (legacyShares.get(document._id.toString()) || []).filter((entry) => {
+      const direct = findDirectShare(document, { _id: entry.userId, email: entry.email });
+      return !direct || isHigherRole(entry.role, direct.role);
+    });
+
+    const { sharedWith, duplicatesRemoved, expiredRemoved } = normalizeSharedWith(
+      [...current, ...legacy],
+      { ownerId: document.owner, userIdsByEmail }
+    );
+
+    // Normalizing keeps the order, so same length means nothing was dropped
+    const changed = legacy.length > 0 ||
+      sharedWith.length !== current.length ||
+      document.collaborators !== undefined ||
+      sharedWith.some((entry, index) => entry.userId && !current[index].userId);
+
+    if (!changed) continue;
+
+    await documents(db).updateOne(
+      { _id: document._id },
+      { $set: { sharedWith }, $unset: { collaborators: '' } }
+    );
+
+    stats.documentsUpdated++;
+    stats.legacySharesMigrated += legacy.length;
+    stats.duplicatesRemoved += duplicatesRemoved;
+    stats.expiredGrantsRemoved += expiredRemoved;
+    console.log(`✅ "${document.title}": ${sharedWith.length} share(s) after migration`);
+  }
+
+  // 4. The legacy collection is fully merged now
+  if (documentShares.length > 0) {
+    await db.collection('documentshares').deleteMany({
+      _id: { $in: documentShares.map((share) => share._id) }
+    });
+  }
+
+  // 5. Notification settings for people who no longer have a share
+  const settings = await db.collection('sharePermissions')
+    .find({ shareType: { $in: ['user', 'email'] } })
+    .project({ document: 1, sharedWith: 1, email: 1 })
+    .toArray();
+  const documentIds = Array.from(new Set(settings.map((setting) => setting.document?.toString()).filter(Boolean)));
+  const sharedDocuments = await documents(db)
+    .find({ _id: { $in: documentIds.map((id) => new ObjectId(id)) } })
+    .project({ sharedWith: 1 })
+    .toArray();
+  const documentsById = new Map(sharedDocuments.map((document) => [document._id.toString(), document]));
+
+  const stale = settings.filter((setting) => {
+    const document = documentsById.get(setting.document?.toString());
+    return !document || !findDirectShare(document, { _id: setting.sharedWith, email: setting.email });
+  });
+
+  if (stale.length > 0) {
+    await db.collection('sharePermissions').deleteMany({ _id: { $in: stale.map((setting) => setting._id) } });
+    stats.staleSettingsRemoved = stale.length;
+  }
+
+  // 6. Indexes the access checks and shared-with-me queries rely on
+  await documents(db).createIndex({ 'sharedWith.userId': 1 });
+  await documents(db).createIndex({ 'sharedWith.email': 1 });
+
+  const sharePermissionIndexes = await db.collection('sharePermissions').indexes();
+  const recipientIndex = sharePermissionIndexes.find((index) => index.name === 'document_1_sharedWith_1');
+  if (recipientIndex && !recipientIndex.partialFilterExpression) {
+    // Older deployments made this unique over link records too (all with sharedWith: null)
+    await db.collection('sharePermissions').dropIndex('document_1_sharedWith_1');
+  }
+  await db.collection('sharePermissions').createIndex(
+    { document: 1, sharedWith: 1 },
+    { unique: true, partialFilterExpression: { sharedWith: { $type: 'objectId' } } }
+  );
+
+  console.log('📦 Sharing migration finished:', stats);
+  return stats;
+}
@@ -0,0 +1,148 @@
+/**
+ * Realtime Event Map
+ *
+ * Typed Socket.io events shared by the realtime server (socketServer.ts)
+ * and the client hooks (useSocket.ts, useYjsProvider.ts).
+ * Add new events here first so both sides stay in sync.
+ */
+
+import type { DocumentRole } from '../documentAccess';
+import type { Mention } from '../mentions';
+import type { NotificationPayload } from '../models/Notification';
+
+/**
+ * User identity attached to a socket when it joins a document
+ */
+export interface SocketUser {
+  id: string;
+  name: string;
+  email: string;
+  cursorColor?: string;
+  image?: string;
+}
+
+// A user's access level on a document (resolved by lib/documentAccess)
+export type { DocumentRole };
+
+/**
+ * A socket currently present in a document room
+ */
+export interface PresenceEntry {
+  socketId: string;
+  user: SocketUser;
+}
+
+export interface CursorSelection {
+  start: number;
+  end: number;
+}
+
+// Mentions are relayed for highlighting only - the chat API resolves and notifies them
+export type ChatMention = Pick<Mention, 'name' | 'email'>;
+
+export interface ChatMessagePayload {
+  id: string;
+  senderId: string;
+  senderName: string;
+  senderEmail: string;
+  message: string;
+  mentions?: ChatMention[];
+  timestamp: string; // ISO string - Socket.io serializes dates anyway
+}
+
+/**
+ * Sent to a document room after a version was restored; the restored content
+ * arrives as a sync-update in the same room
+ */
+export interface DocumentRestoredPayload {
+  versionNumber: number; // The version that was restored
+  title: string; // Restored with the content, but not part of the Yjs document
+  restoreCount: number;
+  restoredBy: SocketUser;
+}
+
+/**
+ * Who wrote a run of a Yjs client's content: everything the client added from
+ * clock on, up to the client's next entry, was sent by the user at time
+ */
+export interface AttributionEntry {
+  client: number; // Yjs client id
+  clock: number;
+  userId: string;
+  time: string; // ISO string
+}
+
+/**
+ * The attribution of a document room and the authors its entries refer to
+ */
+export interface DocumentAttribution {
+  entries: AttributionEntry[];
+  authors: SocketUser[];
+}
+
+/**
+ * Events emitted by clients and handled by the server
+ */
+export interface ClientToServerEvents {
+  // The user is derived from the authenticated session, not sent by the client
+  // stateVector (base64 Yjs state vector) is what the client already has, after a reconnect
+  'join-document': (payload: { documentId: string; stateVector?: string }) => void;
+  'leave-document': (payload: { documentId: string }) => void;
+  'sync-update': (payload: { documentId: string; update: string }) => void;
+  'cursor-update': (payload: {
+    documentId: string;
+    position: number | null;
+    selection: CursorSelection | null;
+  }) => void;
+  'awareness-update': (payload: { documentId: string; status: string }) => void;
+  'typing-start': (payload: { documentId: string }) => void;
+  'typing-stop': (payload: { documentId: string }) => void;
+  'send-chat-message': (payload: { documentId: string; message: string; mentions?: ChatMention[] }) => void;
+}
+
+/**
+ * Events emitted by the server and handled by clients
+ */
+export interface ServerToClientEvents {
+  'connection-confirmed': (payload: { socketId: string }) => void;
+  'document-state': (payload: {
+    state: string; // base64 encoded Yjs update
+    stateVector: string; // base64 Yjs state vector of the server - the client sends back what it lacks
+    users: PresenceEntry[];
+    seed: boolean; // Client should seed the document from its saved HTML
+    role: DocumentRole;
+    attribution: DocumentAttribution;
+  }) => void;
+  'permission-denied': (payload: { documentId: string; action: keyof ClientToServerEvents; error: string }) => void;
+  'document-load-failed': (payload: { documentId: string }) => void; // The client joins again after a while
+  'sync-update': (payload: { update: string; origin?: SocketUser }) => void;
+  'user-joined': (payload: { user: SocketUser; socketId: string; users: PresenceEntry[] }) => void;
+  'user-left': (payload: { user?: SocketUser; socketId: string; users: PresenceEntry[] }) => void;
+  'cursor-update': (payload: {
+    socketId: string;
+    user: SocketUser;
+    position: number | null;
+    selection: CursorSelection | null;
+  }) => void;
+  'awareness-update': (payload: { socketId: string; user: SocketUser; status: string }) => void;
+  'user-typing': (payload: { socketId: string; user: SocketUser; isTyping: boolean }) => void;
+  'receive-chat-message': (payload: ChatMessagePayload) => void;
+  'document-restored': (payload: DocumentRestoredPayload) => void;
+  'attribution-update': (payload: DocumentAttribution) => void; // Only the new entries and their authors
+  'notification': (payload: NotificationPayload) => void; // Sent to the recipient's user room
+}
+
+// No server-to-server events - a single instance serves every room
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface InterServerEvents {}
+
+/**
+ * Per-socket state stored in socket.data
+ */
+export interface SocketData {
+  userId?: string; // MongoDB _id of the authenticated user
+  user?: SocketUser;
+  documentId?: string;
+  role?: DocumentRole; // Role on the joined document
+  awaitingDocument?: boolean; // Joined before the document was created by its first save
+}
@@ -0,0 +1,323 @@
+/**
+ * HTML to Yjs for the Realtime Server
+ *
+ * Builds the Yjs XML content of a tab from the HTML the editor saved, so the
+ * server can rewrite a live document (e.g. when a version is restored)
+ * without a browser. There is no DOM or ProseMirror schema on the server, so
+ * the HTML is parsed here and written the way y-prosemirror stores the
+ * editor's nodes:
+ * - every node is a Y.XmlElement named after its node type, with its attrs
+ * - text is a Y.XmlText whose formatting attributes are the marks
+ *
+ * Only the nodes and marks the editor uses (app/components/document/TipTapEditor.tsx)
+ * are mapped; other elements keep their text. Attributes left out get the
+ * schema defaults when the editor reads the fragment.
+ */
+
+import * as Y from 'yjs';
+
+interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+type Marks = Record<string, Record<string, unknown>>;
+
+// Inline content of a paragraph: runs of marked text and inline nodes
+type InlineItem = { text: string; marks: Marks } | Y.XmlElement;
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input', 'wbr', 'col', 'source']);
+const INLINE_TAGS = new Set([
+  'a', 'b', 'br', 'code', 'del', 'em', 'i', 'img', 'mark', 's', 'span', 'strike',
+  'strong', 'sub', 'sup', 'u'
+]);
+const SIMPLE_MARKS: Record<string, string> = {
+  b: 'bold',
+  strong: 'bold',
+  em: 'italic',
+  i: 'italic',
+  u: 'underline',
+  s: 'strike',
+  strike: 'strike',
+  del: 'strike',
+  code: 'code'
+};
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<\/?[a-z][^>]*>|[^<]+|</gi;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Parse HTML into a tree; unclosed elements are closed by their parent
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attributes: {}, children: [] };
+  const stack = [root];
+
+  for (const [token] of html.matchAll(TOKEN_PATTERN)) {
+    const current = stack[stack.length - 1];
+
+    if (token.startsWith('<!--')) continue;
+
+    const tag = /^<(\/?)([a-z][a-z0-9]*)([^>]*)>$/i.exec(token);
+    if (!tag) {
+      current.children.push(decodeEntities(token));
+      continue;
+    }
+
+    const [, closing, rawName, rest] = tag;
+    const name = rawName.toLowerCase();
+
+    if (closing) {
+      const index = stack.map((element) => element.tag).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [, attribute, double, single, bare] of rest.matchAll(ATTRIBUTE_PATTERN)) {
+      attributes[attribute.toLowerCase()] = decodeEntities(double ?? single ?? bare ?? '');
+    }
+
+    const element: HtmlElement = { tag: name, attributes, children: [] };
+    current.children.push(element);
+    if (!VOID_TAGS.has(name) && !rest.trim().endsWith('/')) stack.push(element);
+  }
+
+  return root;
+}
+
+function parseStyle(style: string | undefined): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const declaration of (style || '').split(';')) {
+    const separator = declaration.indexOf(':');
+    if (separator === -1) continue;
+    properties[declaration.slice(0, separator).trim().toLowerCase()] = declaration.slice(separator + 1).trim();
+  }
+  return properties;
+}
+
+// Attribute values as TipTap parses them from HTML (numbers become numbers)
+function attributeValue(value: string): string | number {
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+}
+
+function textContent(node: HtmlNode): string {
+  return typeof node === 'string' ? node : node.children.map(textContent).join('');
+}
+
+function createElement(name: string, attributes: Record<string, unknown> = {}, children: Array<Y.XmlElement | Y.XmlText> = []) {
+  const element = new Y.XmlElement(name);
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined && value !== null && value !== '') {
+      element.setAttribute(key, value as string);
+    }
+  }
+  if (children.length > 0) element.insert(0, children);
+  return element;
+}
+
+function textAlign(element: HtmlElement) {
+  return { textAlign: parseStyle(element.attributes.style)['text-align'] };
+}
+
+/**
+ * The marks an inline element adds to the text inside it
+ */
+function elementMarks(element: HtmlElement, marks: Marks): Marks {
+  const simple = SIMPLE_MARKS[element.tag];
+  if (simple) return { ...marks, [simple]: {} };
+
+  const { attributes } = element;
+  const style = parseStyle(attributes.style);
+
+  if (element.tag === 'a' && attributes.href) {
+    return {
+      ...marks,
+      link: { href: attributes.href, target: attributes.target, rel: attributes.rel, class: attributes.class }
+    };
+  }
+  if (element.tag === 'mark') {
+    return { ...marks, highlight: { color: attributes['data-color'] || style['background-color'] || null } };
+  }
+  if (element.tag === 'span') {
+    const textStyle = Object.fromEntries(
+      Object.entries({ color: style.color, fontFamily: style['font-family'], fontSize: style['font-size'] })
+        .filter(([, value]) => value)
+    );
+    if (Object.keys(textStyle).length > 0) {
+      return { ...marks, textStyle: { ...marks.textStyle, ...textStyle } };
+    }
+  }
+  return marks;
+}
+
+function collectInline(nodes: HtmlNode[], marks: Marks, items: InlineItem[]) {
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      const text = node.replace(/\s+/g, ' ');
+      if (text) items.push({ text, marks });
+      continue;
+    }
+
+    if (node.tag === 'br') {
+      items.push(createElement('hardBreak'));
+    } else if (node.tag === 'img') {
+      const { src, alt, title, width, height } = node.attributes;
+      if (src) {
+        items.push(createElement('image', {
+          src,
+          alt,
+          title,
+          width: width && attributeValue(width),
+          height: height && attributeValue(height)
+        }));
+      }
+    } else if (node.tag !== 'input') {
+      collectInline(node.children, elementMarks(node, marks), items);
+    }
+  }
+}
+
+/**
+ * Inline nodes as Y.XmlText runs (formatted with their marks) and elements
+ */
+function inlineContent(nodes: HtmlNode[], marks: Marks = {}): Array<Y.XmlElement | Y.XmlText> {
+  const items: InlineItem[] = [];
+  collectInline(nodes, marks, items);
+
+  // Whitespace at the edges of a block isn't content
+  const first = items[0];
+  if (first && !(first instanceof Y.XmlElement)) first.text = first.text.trimStart();
+  const last = items[items.length - 1];
+  if (last && !(last instanceof Y.XmlElement)) last.text = last.text.trimEnd();
+
+  const content: Array<Y.XmlElement | Y.XmlText> = [];
+  let delta: Array<{ insert: string; attributes: Marks }> = [];
+  const flush = () => {
+    if (delta.length === 0) return;
+    const text = new Y.XmlText();
+    text.applyDelta(delta);
+    content.push(text);
+    delta = [];
+  };
+
+  for (const item of items) {
+    if (item instanceof Y.XmlElement) {
+      flush();
+      content.push(item);
+    } else if (item.text) {
+      delta.push({ insert: item.text, attributes: item.marks });
+    }
+  }
+  flush();
+
+  return content;
+}
+
+function listItems(element: HtmlElement, itemName: 'listItem' | 'taskItem'): Y.XmlElement[] {
+  return element.children
+    .filter((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'li')
+    .map((item) => {
+      // A list item starts with a paragraph
+      const content = blockContent(item.children.filter((child) => typeof child === 'string' || child.tag !== 'label'));
+      if (content[0]?.nodeName !== 'paragraph') content.unshift(createElement('paragraph'));
+
+      const attributes = itemName === 'taskItem'
+        ? { checked: item.attributes['data-checked'] === 'true' || item.attributes['data-checked'] === '' }
+        : {};
+      return createElement(itemName, attributes, content);
+    });
+}
+
+/**
+ * The node(s) for a block-level element; unknown wrappers are unwrapped
+ */
+function blockElement(element: HtmlElement): Y.XmlElement[] {
+  const { tag, attributes } = element;
+
+  if (tag === 'p') {
+    return [createElement('paragraph', textAlign(element), inlineContent(element.children))];
+  }
+  if (/^h[1-6]$/.test(tag)) {
+    return [createElement('heading', { level: Number(tag[1]), ...textAlign(element) }, inlineContent(element.children))];
+  }
+  if (tag === 'ul' && attributes['data-type'] === 'taskList') {
+    return [createElement('taskList', {}, listItems(element, 'taskItem'))];
+  }
+  if (tag === 'ul') {
+    return [createElement('bulletList', {}, listItems(element, 'listItem'))];
+  }
+  if (tag === 'ol') {
+    return [createElement('orderedList', { start: attributes.start && attributeValue(attributes.start) }, listItems(element, 'listItem'))];
+  }
+  if (tag === 'blockquote') {
+    const content = blockContent(element.children);
+    return [createElement('blockquote', {}, content.length > 0 ? content : [createElement('paragraph')])];
+  }
+  if (tag === 'pre') {
+    const code = element.children.find((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'code');
+    const language = /(?:^|\s)language-(\S+)/.exec(code?.attributes.class || '')?.[1];
+    const text = textContent(element);
+    const content = text ? [new Y.XmlText(text)] : [];
+    return [createElement('codeBlock', { language }, content)];
+  }
+  if (tag === 'hr') {
+    return [createElement('horizontalRule')];
+  }
+  return blockContent(element.children);
+}
+
+/**
+ * Block nodes for the children of a block container; loose inline content is
+ * wrapped in paragraphs
+ */
+function blockContent(nodes: HtmlNode[]): Y.XmlElement[] {
+  const blocks: Y.XmlElement[] = [];
+  let inline: HtmlNode[] = [];
+
+  const flush = () => {
+    const content = inlineContent(inline);
+    if (content.length > 0) blocks.push(createElement('paragraph', {}, content));
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node === 'string' || INLINE_TAGS.has(node.tag)) {
+      inline.push(node);
+      continue;
+    }
+    flush();
+    blocks.push(...blockElement(node));
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Yjs XML content for the HTML of a tab, ready to insert into its fragment
+ */
+export function htmlToYjsContent(html: string): Y.XmlElement[] {
+  return blockContent(parseHtml(html).children);
+}
@@ -0,0 +1,51 @@
+/**
+ * Live Access Changes
+ *
+ * Sockets keep the role they joined a document with, so whatever changes who
+ * can open a document (trashing or deleting it, shares, share links,
+ * ownership transfers) asks the realtime server to resolve access again for
+ * everyone in its rooms. Sockets that lost access are removed from the room,
+ * the others get their new role. The server is reached through a global,
+ * like ./liveRestore. When the realtime server runs standalone
+ * (socket-server.ts) it can't be reached and refreshDocumentAccess returns
+ * false - sockets then keep their role until they join again.
+ */
+
+import type { ObjectId } from 'mongodb';
+
+type AccessRefreshHandler = (roomIds: string[]) => Promise<void>;
+
+declare global {
+  var _accessRefreshHandler: AccessRefreshHandler | undefined;
+}
+
+/**
+ * Every room id a document can be joined with (ObjectId string and customId)
+ */
+export function documentRoomIds(document: { _id: ObjectId; customId?: string | null }): string[] {
+  return [document._id.toString(), ...(document.customId ? [document.customId] : [])];
+}
+
+/**
+ * Make the realtime server's access refresh reachable from API routes in the same process
+ */
+export function registerAccessRefreshHandler(handler: AccessRefreshHandler) {
+  global._accessRefreshHandler = handler;
+}
+
+/**
+ * Resolve access again for every socket in a document's rooms
+ * Returns false when no realtime server runs in this process (failures are
+ * logged, never thrown)
+ */
+export async function refreshDocumentAccess(document: { _id: ObjectId; customId?: string | null }): Promise<boolean> {
+  const handler = global._accessRefreshHandler;
+  if (!handler) return false;
+
+  try {
+    await handler(documentRoomIds(document));
+  } catch (error) {
+    console.error(`❌ Error refreshing live access to document ${document._id.toString()}:`, error);
+  }
+  return true;
+}
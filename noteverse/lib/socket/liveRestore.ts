@@ -0,0 +1,45 @@
+/**
+ * Live Version Restore
+ *
+ * Restoring a version has to rewrite the document's Yjs state on the
+ * realtime server, otherwise collaborators keep editing the old state and
+ * their next autosave undoes the restore. The restore API route reaches the
+ * server through a global, like ./userRooms does with the Socket.io server.
+ * When the realtime server runs standalone (socket-server.ts) the route can't
+ * reach it and restoreLiveDocument returns false - the restoring client then
+ * applies the restore to its own Yjs document, which syncs to the room.
+ */
+
+import type { DocumentTab } from '../documentTabs';
+import type { DocumentRestoredPayload } from './events';
+
+export interface LiveRestore {
+  roomIds: string[]; // Every room id the document is joined with (ObjectId string and customId)
+  tabs: DocumentTab[];
+  notice: DocumentRestoredPayload;
+}
+
+type RestoreHandler = (restore: LiveRestore) => Promise<void>;
+
+declare global {
+  var _liveRestoreHandler: RestoreHandler | undefined;
+}
+
+/**
+ * Make the realtime server's restore reachable from API routes in the same process
+ */
+export function registerRestoreHandler(handler: RestoreHandler) {
+  global._liveRestoreHandler = handler;
+}
+
+/**
+ * Replace the live Yjs state of a document with restored tabs and tell the room
+ * Returns false when no realtime server runs in this process
+ */
+export async function restoreLiveDocument(restore: LiveRestore): Promise<boolean> {
+  const handler = global._liveRestoreHandler;
+  if (!handler) return false;
+
+  await handler(restore);
+  return true;
+}
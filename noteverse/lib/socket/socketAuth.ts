@@ -0,0 +1,102 @@
+/**
+ * Socket.io Authentication
+ *
+ * Handshake middleware for the realtime server:
+ * - Validates the NextAuth JWT from the session cookie, or from the
+ *   short-lived token sent in the handshake auth (split deployments,
+ *   where the socket server lives on another domain and never sees the cookie)
+ * - Derives the user from MongoDB, never from what the client sends
+ */
+
+import { decode, getToken, JWT } from 'next-auth/jwt';
+import { connectToDatabase } from '../mongodb';
+import type { RealtimeSocket } from './socketServer';
+
+/**
+ * Parse a Cookie header into a name -> value map
+ */
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator === -1) continue;
+    const name = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Read the NextAuth JWT for a connecting socket
+ * The handshake token wins over the cookie when both are present
+ */
+async function readSessionToken(socket: RealtimeSocket, secret: string): Promise<JWT | null> {
+  const handshakeToken = socket.handshake.auth?.token;
+  if (typeof handshakeToken === 'string' && handshakeToken) {
+    try {
+      return await decode({ token: handshakeToken, secret });
+    } catch {
+      return null;
+    }
+  }
+
+  // getToken() reads (possibly chunked) session cookies from req.cookies
+  const req = Object.assign(socket.request, {
+    cookies: parseCookies(socket.request.headers.cookie)
+  });
+  return getToken({ req, secret });
+}
+
+/**
+ * Socket.io middleware: reject connections without a valid NextAuth session
+ */
+export async function authenticateSocket(
+  socket: RealtimeSocket,
+  next: (err?: Error) => void
+) {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    console.error('❌ NEXTAUTH_SECRET is not set - cannot authenticate sockets');
+    return next(new Error('Server misconfigured'));
+  }
+
+  try {
+    const token = await readSessionToken(socket, secret);
+    if (!token?.email) {
+      console.warn(`🚫 Rejected unauthenticated socket ${socket.id}`);
+      return next(new Error('Unauthorized'));
+    }
+
+    const { db } = await connectToDatabase();
+    const user = await db.collection('users').findOne({
+      email: token.email.toLowerCase()
+    });
+
+    if (!user) {
+      console.warn(`🚫 Rejected socket ${socket.id}: no user for ${token.email}`);
+      return next(new Error('Unauthorized'));
+    }
+
+    socket.data.userId = user._id.toString();
+    socket.data.user = {
+      // Same id the client sees as session.user.id, so presence/chat can recognise "me"
+      id: token.id || user._id.toString(),
+      name: user.displayName || user.name || token.name || user.email,
+      email: user.email,
+      cursorColor: user.cursorColor
+    };
+
+    console.log(`🔐 Authenticated socket ${socket.id} as ${user.email}`);
+    next();
+  } catch (error) {
+    console.error('❌ Error authenticating socket:', error);
+    next(new Error('Authentication failed'));
+  }
+}
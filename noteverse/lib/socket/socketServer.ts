@@ -3,10 +3,22 @@
  * 
  * This server handles:
  * - WebSocket connections for real-time communication
+ * - Authentication of every connection with the NextAuth session
+ * - Per-document access checks (viewers receive updates but can't send them)
  * - Document synchronization using Yjs CRDT
+ * - Persistence of the Yjs update log in MongoDB
  * - User presence tracking
  * - Cursor position broadcasting
  * - Awareness information (user name, color, cursor)
+ * - Document chat messages
+ * - Per-user rooms for notifications (./userRooms)
+ * - Version restores applied to the live Yjs state (./liveRestore)
+ * - Access changes applied to the sockets already in a room (./liveAccess)
+ * - Attribution of every update to the authenticated user who sent it
+ *
+ * This is the only realtime implementation - both the custom Next.js
+ * server (server.ts) and the standalone server (socket-server.ts) boot it.
+ * Event payloads are typed in ./events and shared with the client hooks.
  */
 
 import { Server as HTTPServer } from 'http';
@@ -14,33 +26,128 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import * as Y from 'yjs';
 import { connectToDatabase } from '../mongodb';
 import { ObjectId } from 'mongodb';
+import {
+  loadPersistedDocument,
+  storeUpdate,
+  loadAttribution,
+  storeAttribution,
+  compactDocument,
+  COMPACTION_THRESHOLD
+} from './yjsPersistence';
+import { authenticateSocket } from './socketAuth';
+import { registerRealtimeServer, userRoom } from './userRooms';
+import { LiveRestore, registerRestoreHandler } from './liveRestore';
+import { registerAccessRefreshHandler } from './liveAccess';
+import { htmlToYjsContent } from './htmlToYjs';
+import { resolveDocumentAccess, canEdit, DocumentRole } from '../documentAccess';
+import { resolveMentions } from '../mentions';
+import {
+  DEFAULT_TAB_ID,
+  RESTORE_COUNT,
+  RESTORE_STATE,
+  TABS_LIST,
+  getDocumentTabs
+} from '../documentTabs';
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData,
+  PresenceEntry,
+  CursorSelection,
+  SocketUser,
+  AttributionEntry,
+  DocumentAttribution,
+  ChatMention
+} from './events';
+
+export type RealtimeServer = SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+export type RealtimeSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+// Origins allowed to connect when ALLOWED_ORIGINS is not set
+const DEFAULT_ALLOWED_ORIGINS = [
+  'http://localhost:3000',
+  'http://localhost:3001',
+  'https://note-verse-zeta.vercel.app',
+  'https://noteverse.vercel.app'
+];
 
 // Store for Yjs documents
 // Each document has a unique Yjs document instance
 const documents = new Map<string, Y.Doc>();
 
+// In-flight loads, so concurrent joins share a single Y.Doc
+const loadingDocuments = new Map<string, Promise<Y.Doc>>();
+
+// Updates persisted since the last compaction, per document
+const pendingUpdateCounts = new Map<string, number>();
+const compactingDocuments = new Set<string>();
+
+// Legacy documents that have HTML content but no Yjs state yet,
+// and the socket chosen to seed each of them
+const documentsAwaitingSeed = new Set<string>();
+const documentSeeders = new Map<string, string>();
+
+// Rooms loaded before their document was created, so without its saved content
+const documentsLoadedMissing = new Set<string>();
+
+// Origin of the transactions that restore a version
+const RESTORE_ORIGIN = 'version-restore';
+
+// Who wrote what in each loaded document
+const attributions = new Map<string, DocumentAttribution>();
+
+// A client's content gets a new attribution entry (and time) this often
+const ATTRIBUTION_INTERVAL = 5 * 60 * 1000;
+
 // Store for user presence per document
 // Tracks which users are currently viewing/editing each document
 const documentUsers = new Map<string, Set<string>>();
 
 // Store for cursor positions
-// Maps documentId -> userId -> cursor position
+// Maps documentId -> socketId -> cursor position
 interface CursorData {
-  position: { line: number; column: number } | null;
-  selection: { start: { line: number; column: number }; end: { line: number; column: number } } | null;
-  user: { name: string; email?: string; image?: string };
+  position: number | null;
+  selection: CursorSelection | null;
+  user: SocketUser;
 }
 
 const cursorPositions = new Map<string, Map<string, CursorData>>();
 
 /**
- * Initialize Socket.io server with Next.js
- * @param httpServer - HTTP server instance
+ * Get the origins allowed to connect to the realtime server
+ * Configured with a comma separated ALLOWED_ORIGINS, NEXTAUTH_URL is always allowed
  */
-export function initializeSocketServer(httpServer: HTTPServer) {
-  const io = new SocketIOServer(httpServer, {
+export function getAllowedOrigins(): string[] {
+  const origins = process.env.ALLOWED_ORIGINS
+    ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim()).filter(Boolean)
+    : [...DEFAULT_ALLOWED_ORIGINS];
+
+  if (process.env.NEXTAUTH_URL && !origins.includes(process.env.NEXTAUTH_URL)) {
+    origins.push(process.env.NEXTAUTH_URL);
+  }
+  return origins;
+}
+
+/**
+ * Initialize the realtime Socket.io server on an HTTP server
+ * @param httpServer - HTTP server instance (Next.js custom server or standalone)
+ */
+export function initializeSocketServer(httpServer: HTTPServer): RealtimeServer {
+  const allowedOrigins = getAllowedOrigins();
+  console.log('🔒 CORS allowed origins:', allowedOrigins);
+
+  const io: RealtimeServer = new SocketIOServer(httpServer, {
     cors: {
-      origin: process.env.NEXTAUTH_URL || 'http://localhost:3001',
+      origin: (origin, callback) => {
+        // Allow requests with no origin (same-origin, curl, mobile apps)
+        if (!origin || allowedOrigins.includes(origin)) {
+          callback(null, true);
+        } else {
+          console.warn(`⚠️ Blocked CORS request from: ${origin}`);
+          callback(new Error('Not allowed by CORS'));
+        }
+      },
       methods: ['GET', 'POST'],
       credentials: true
     },
@@ -48,7 +155,29 @@ export function initializeSocketServer(httpServer: HTTPServer) {
     transports: ['websocket', 'polling'],
     // Connection timeout
     pingTimeout: 60000,
-    pingInterval: 25000
+    pingInterval: 25000,
+    connectTimeout: 45000,
+    maxHttpBufferSize: 1e6 // 1MB
+  });
+
+  io.engine.on('connection_error', (err: { code: number; message: string; context?: unknown }) => {
+    console.error('❌ Connection error:', {
+      code: err.code,
+      message: err.message,
+      context: err.context
+    });
+  });
+
+  // Every connection must carry a valid NextAuth session
+  io.use(authenticateSocket);
+
+  // Let API routes in this process emit to user rooms, restore versions and change access
+  registerRealtimeServer(io);
+  registerRestoreHandler((restore) => restoreDocument(io, restore));
+  registerAccessRefreshHandler(async (roomIds) => {
+    for (const documentId of roomIds) {
+      await refreshRoomAccess(io, documentId);
+    }
   });
 
   console.log('✅ Socket.io server initialized');
@@ -62,70 +191,71 @@ export function initializeSocketServer(httpServer: HTTPServer) {
     // Send immediate confirmation to client
     socket.emit('connection-confirmed', { socketId: socket.id });
 
+    // Personal room for notifications across all of the user's tabs
+    if (socket.data.userId) {
+      socket.join(userRoom(socket.data.userId));
+    }
+
     /**
      * JOIN DOCUMENT ROOM
      * When a user opens a document, they join its room
      */
-    socket.on('join-document', async ({ documentId, user }) => {
+    socket.on('join-document', async ({ documentId, stateVector }) => {
+      const user = socket.data.user!;
       console.log(`📄 User ${user.name} (${socket.id}) joining document ${documentId}`);
 
+      // Check access with the same rules as the document API routes
+      // Documents that don't exist yet are created by their first save. Until
+      // then nobody owns the room: it can be joined but not edited, and access
+      // is resolved again once the document exists (settleRoomAccess)
+      const resolved = await resolveRole(user, documentId);
+      const awaitingDocument = resolved === null;
+      const role: DocumentRole = resolved ?? 'viewer';
+
+      // Sockets that joined before the document was created lose or get access first
+      if (!awaitingDocument) {
+        await settleRoomAccess(io, documentId);
+      }
+
+      if (role === 'none') {
+        console.warn(`🚫 User ${user.email} has no access to document ${documentId}`);
+        socket.emit('permission-denied', {
+          documentId,
+          action: 'join-document',
+          error: 'Access denied. You do not have permission to view this document.'
+        });
+        return;
+      }
+
+      // Load the Yjs document (persisted state or legacy HTML content)
+      // When that fails nothing is served: an empty state would look like the
+      // real one, and the first autosave would overwrite the saved content
+      let ydoc: Y.Doc;
+      try {
+        ydoc = await getOrLoadDocument(documentId);
+      } catch {
+        socket.emit('document-load-failed', { documentId });
+        return;
+      }
+
       // Join the Socket.io room for this document
       socket.join(documentId);
-      console.log(`  ✅ Socket ${socket.id} joined room: ${documentId}`);
+      console.log(`  ✅ Socket ${socket.id} joined room: ${documentId} as ${role}`);
 
-      // Store user info on socket for later use
+      // Store the joined document and role on the socket for later checks
       socket.data.documentId = documentId;
-      socket.data.user = user;
-
-      // Initialize document if it doesn't exist
-      if (!documents.has(documentId)) {
-        const ydoc = new Y.Doc();
-        
-        // 🔥 FETCH CONTENT FROM MONGODB AND LOAD INTO YOJS
-        try {
-          console.log(`🔍 Loading document ${documentId} from MongoDB...`);
-          console.log(`  - Is valid ObjectId: ${ObjectId.isValid(documentId)}`);
-          const { db } = await connectToDatabase();
-          console.log(`  ✅ Connected to MongoDB`);
-          
-          // Try to find document by MongoDB ObjectId or custom ID
-          let document;
-          if (ObjectId.isValid(documentId)) {
-            console.log(`  - Searching by _id (ObjectId)`);
-            document = await db.collection('documents').findOne({
-              _id: new ObjectId(documentId)
-            });
-          } else {
-            console.log(`  - Searching by customId (string)`);
-            document = await db.collection('documents').findOne({
-              customId: documentId
-            });
-          }
-          
-          console.log(`  - Document found: ${!!document}`);
-          if (document) {
-            console.log(`  - Document title: ${document.title}`);
-            console.log(`  - Content length: ${document.content?.length || 0}`);
-            console.log(`  - Content preview: ${document.content?.substring(0, 100) || 'empty'}`);
-          }
-          
-          if (document && document.content && document.content.trim()) {
-            const savedContent = document.content;
-            console.log(`✅ Found document with ${savedContent.length} characters of content`);
-            
-            // Store the HTML content as metadata for the client to use
-            ydoc.getMap('metadata').set('initialContent', savedContent);
-            console.log(`📦 Stored content in Yjs metadata`);
-          } else {
-            console.log(`ℹ️ Document ${documentId} has no saved content, starting fresh`);
-          }
-        } catch (error) {
-          console.error(`❌ Error loading document content from MongoDB:`, error);
-          // Continue with empty document on error
+      socket.data.role = role;
+      socket.data.awaitingDocument = awaitingDocument;
+
+      // A legacy document without Yjs state is seeded from its HTML by exactly one editor
+      let seed = false;
+      if (documentsAwaitingSeed.has(documentId) && canEdit(role)) {
+        const currentSeeder = documentSeeders.get(documentId);
+        if (!currentSeeder || !io.sockets.sockets.has(currentSeeder)) {
+          documentSeeders.set(documentId, socket.id);
+          seed = true;
+          console.log(`🌱 Socket ${socket.id} will seed document ${documentId} from saved HTML`);
         }
-        
-        documents.set(documentId, ydoc);
-        console.log(`📝 Created new Yjs document: ${documentId}`);
       }
 
       // Initialize user set for this document
@@ -142,14 +272,13 @@ export function initializeSocketServer(httpServer: HTTPServer) {
       // Get current users in document
       const usersInDocument = await getUsersInDocument(io, documentId);
 
-      // Send current document state to the new user
-      const ydoc = documents.get(documentId)!;
-      const state = Y.encodeStateAsUpdate(ydoc);
-
-      socket.emit('document-state', {
-        state: Buffer.from(state).toString('base64'),
-        users: usersInDocument
-      });
+      // Send the document state the user doesn't have yet (all of it, unless rejoining)
+      socket.emit('document-state', documentState(documentId, ydoc, {
+        users: usersInDocument,
+        seed,
+        role,
+        clientStateVector: stateVector
+      }));
 
       // Notify other users that someone joined
       socket.to(documentId).emit('user-joined', {
@@ -161,13 +290,76 @@ export function initializeSocketServer(httpServer: HTTPServer) {
       console.log(`✅ User ${user.name} joined document ${documentId}. Total users: ${usersInDocument.length}`);
     });
 
+    /**
+     * SYNC UPDATE
+     * Apply a Yjs update to the server document and relay it to the room
+     */
+    socket.on('sync-update', async ({ documentId, update }) => {
+      // E.g. a socket that reconnected but hasn't joined again yet
+      if (!isInDocument(socket, documentId)) {
+        console.warn(`🚫 Rejected sync-update from ${socket.id}, which has not joined ${documentId}`);
+        socket.emit('permission-denied', {
+          documentId,
+          action: 'sync-update',
+          error: 'Join the document before editing it'
+        });
+        return;
+      }
+
+      // The first save may have created the document since this socket joined
+      if (socket.data.awaitingDocument) {
+        await settleRoomAccess(io, documentId);
+        // Settled sockets resync, which sends this update again
+        if (!socket.data.awaitingDocument) return;
+      }
+
+      // Read-only users still receive updates, but can't send them
+      if (!canEdit(socket.data.role)) {
+        console.warn(`🚫 Rejected sync-update from ${socket.data.user?.email} (${socket.data.role}) on ${documentId}`);
+        socket.emit('permission-denied', {
+          documentId,
+          action: 'sync-update',
+          error: socket.data.awaitingDocument
+            ? 'The document has not been saved yet'
+            : 'You have view-only access to this document'
+        });
+        return;
+      }
+
+      const ydoc = documents.get(documentId);
+      if (!ydoc) {
+        console.warn(`⚠️ Document ${documentId} not loaded for sync-update`);
+        return;
+      }
+
+      try {
+        const updateBuffer = Buffer.from(update, 'base64');
+        const stateBefore = getStateVector(ydoc);
+        // The socket is the origin so the persistence observer knows it's a client edit
+        Y.applyUpdate(ydoc, updateBuffer, socket.id);
+        attributeChanges(io, documentId, ydoc, stateBefore, { ...socket.data.user!, id: socket.data.userId! });
+
+        // Seeding writes the first tab, or the tab list for documents with several
+        const seeded = ydoc.getXmlFragment(DEFAULT_TAB_ID).length > 0 || ydoc.getArray(TABS_LIST).length > 0;
+        if (documentSeeders.get(documentId) === socket.id && seeded) {
+          documentsAwaitingSeed.delete(documentId);
+          documentSeeders.delete(documentId);
+          console.log(`🌱 Document ${documentId} seeded by ${socket.id}`);
+        }
+
+        socket.to(documentId).emit('sync-update', { update, origin: socket.data.user });
+      } catch (error) {
+        console.error('❌ Error applying Yjs update:', error);
+      }
+    });
+
     /**
      * CURSOR POSITION UPDATE
      * Broadcast cursor position to other users
      */
     socket.on('cursor-update', ({ documentId, position, selection }) => {
       const user = socket.data.user;
-      if (!user || !documentId) return;
+      if (!user || !isInDocument(socket, documentId)) return;
 
       // Store cursor position
       const docCursors = cursorPositions.get(documentId);
@@ -190,7 +382,7 @@ export function initializeSocketServer(httpServer: HTTPServer) {
      */
     socket.on('awareness-update', ({ documentId, status }) => {
       const user = socket.data.user;
-      if (!user || !documentId) return;
+      if (!user || !isInDocument(socket, documentId)) return;
 
       // Broadcast awareness to other users
       socket.to(documentId).emit('awareness-update', {
@@ -206,7 +398,7 @@ export function initializeSocketServer(httpServer: HTTPServer) {
      */
     socket.on('typing-start', ({ documentId }) => {
       const user = socket.data.user;
-      if (!user) return;
+      if (!user || !isInDocument(socket, documentId)) return;
 
       socket.to(documentId).emit('user-typing', {
         socketId: socket.id,
@@ -217,7 +409,7 @@ export function initializeSocketServer(httpServer: HTTPServer) {
 
     socket.on('typing-stop', ({ documentId }) => {
       const user = socket.data.user;
-      if (!user) return;
+      if (!user || !isInDocument(socket, documentId)) return;
 
       socket.to(documentId).emit('user-typing', {
         socketId: socket.id,
@@ -230,7 +422,7 @@ export function initializeSocketServer(httpServer: HTTPServer) {
      * CHAT MESSAGE
      * Handle real-time chat messages in document
      */
-    socket.on('send-chat-message', ({ documentId, message }) => {
+    socket.on('send-chat-message', async ({ documentId, message, mentions }) => {
       const user = socket.data.user;
       
       console.log(`\ud83d\udcac Received send-chat-message event`);
@@ -245,12 +437,26 @@ export function initializeSocketServer(httpServer: HTTPServer) {
         console.error(`  - DocumentId:`, documentId);
         return;
       }
-      // Verify socket is in the room
-      const rooms = Array.from(socket.rooms);
-      console.log(`  - Socket rooms:`, rooms);
-      console.log(`  - Is in document room: ${rooms.includes(documentId)}`);
+      // Verify socket joined the room
+      if (!isInDocument(socket, documentId)) {
+        console.error(`\u274c Socket ${socket.id} is not in document room ${documentId}`);
+        return;
+      }
+
+      // Same rule as POST /api/documents/[id]/chat: editors and owners only
+      if (!canEdit(socket.data.role)) {
+        socket.emit('permission-denied', {
+          documentId,
+          action: 'send-chat-message',
+          error: 'Only editors and owners can send messages'
+        });
+        return;
+      }
       console.log(`\ud83d\udce3 Broadcasting chat message to room ${documentId}`);
 
+      // Only relay mentions of people who can see the document
+      const resolvedMentions = await resolveChatMentions(user, documentId, mentions);
+
       // Broadcast chat message to all users in the document (including sender)
       const chatMessage = {
         id: `temp-${Date.now()}-${socket.id}`,
@@ -258,7 +464,8 @@ export function initializeSocketServer(httpServer: HTTPServer) {
         senderName: user.name,
         senderEmail: user.email,
         message: message,
-        timestamp: new Date()
+        mentions: resolvedMentions,
+        timestamp: new Date().toISOString()
       };
       
       console.log(`  - Message object:`, chatMessage);
@@ -285,6 +492,7 @@ export function initializeSocketServer(httpServer: HTTPServer) {
      * Handle user leaving a document
      */
     socket.on('leave-document', async ({ documentId }) => {
+      if (!isInDocument(socket, documentId)) return;
       await handleUserLeave(io, socket, documentId);
     });
 
@@ -318,8 +526,8 @@ export function initializeSocketServer(httpServer: HTTPServer) {
  * Helper: Handle user leaving a document
  */
 async function handleUserLeave(
-  io: SocketIOServer,
-  socket: Socket,
+  io: RealtimeServer,
+  socket: RealtimeSocket,
   documentId: string
 ) {
   const user = socket.data.user;
@@ -334,12 +542,11 @@ async function handleUserLeave(
       documentUsers.delete(documentId);
       cursorPositions.delete(documentId);
       
-      // Optional: Clean up Yjs document after some time
-      // You might want to persist it first
+      // Compact and unload the Yjs document after some time
+      // Every update is already persisted, so nothing is lost on unload
       setTimeout(() => {
-        if (documentUsers.get(documentId)?.size === 0) {
-          documents.delete(documentId);
-          console.log(`🗑️ Cleaned up document ${documentId}`);
+        if (!documentUsers.has(documentId)) {
+          unloadDocument(documentId);
         }
       }, 60000); // 1 minute delay
     }
@@ -363,22 +570,445 @@ async function handleUserLeave(
 
   // Leave the room
   socket.leave(documentId);
+  if (socket.data.documentId === documentId) {
+    socket.data.documentId = undefined;
+    socket.data.role = undefined;
+    socket.data.awaitingDocument = undefined;
+  }
 
   console.log(`👋 User ${user?.name} left document ${documentId}. Remaining: ${usersInDocument.length}`);
 }
 
+/**
+ * Helper: Whether the socket has joined (and was granted access to) a document
+ */
+function isInDocument(socket: RealtimeSocket, documentId: string): boolean {
+  return !!documentId && socket.data.documentId === documentId;
+}
+
+/**
+ * Helper: A user's role on a room's document, null when the document doesn't
+ * exist (yet)
+ */
+async function resolveRole(user: SocketUser, documentId: string): Promise<DocumentRole | null> {
+  try {
+    const access = await resolveDocumentAccess({ user: { email: user.email } }, documentId);
+    return access.document ? access.role : null;
+  } catch (error) {
+    console.error(`❌ Error checking access to document ${documentId}:`, error);
+    return 'none';
+  }
+}
+
+/**
+ * Helper: Resolve the mentions a client sent with a chat message to users
+ * who can see the document (like POST /api/documents/[id]/chat)
+ */
+async function resolveChatMentions(user: SocketUser, documentId: string, mentions: unknown): Promise<ChatMention[]> {
+  if (!Array.isArray(mentions) || mentions.length === 0) return [];
+
+  try {
+    const { db } = await connectToDatabase();
+    const access = await resolveDocumentAccess({ user: { email: user.email } }, documentId);
+    if (!access.document || !access.user) return [];
+
+    const resolved = await resolveMentions(db, access.document, mentions, access.user);
+    return resolved.map(({ name, email }) => ({ name, email }));
+  } catch (error) {
+    console.error(`❌ Error resolving chat mentions on document ${documentId}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Helper: The document-state a socket gets on joining (or resyncing)
+ * Only the updates missing from clientStateVector are sent, when it's valid.
+ */
+function documentState(
+  documentId: string,
+  ydoc: Y.Doc,
+  { users, seed, role, clientStateVector }: {
+    users: PresenceEntry[];
+    seed: boolean;
+    role: DocumentRole;
+    clientStateVector?: string;
+  }
+): Parameters<ServerToClientEvents['document-state']>[0] {
+  let state: Uint8Array;
+  try {
+    state = clientStateVector
+      ? Y.encodeStateAsUpdate(ydoc, Buffer.from(clientStateVector, 'base64'))
+      : Y.encodeStateAsUpdate(ydoc);
+  } catch {
+    state = Y.encodeStateAsUpdate(ydoc);
+  }
+
+  return {
+    state: Buffer.from(state).toString('base64'),
+    stateVector: Buffer.from(Y.encodeStateVector(ydoc)).toString('base64'),
+    users,
+    seed,
+    role,
+    attribution: attributions.get(documentId) || { entries: [], authors: [] }
+  };
+}
+
+/**
+ * Helper: Resolve access again for the sockets that joined a room before its
+ * document existed. Those without access are removed from the room, the
+ * others get their role and resync (their updates were rejected until now).
+ */
+async function settleRoomAccess(io: RealtimeServer, documentId: string) {
+  let resynced = false;
+
+  for (const socketId of [...(documentUsers.get(documentId) || [])]) {
+    const socket = io.sockets.sockets.get(socketId);
+    if (!socket?.data.awaitingDocument || !socket.data.user) continue;
+
+    // Claimed before resolving, so concurrent calls settle a socket once
+    socket.data.awaitingDocument = false;
+    const role = await resolveRole(socket.data.user, documentId);
+    if (socket.data.documentId !== documentId) continue;
+
+    if (role === null) {
+      socket.data.awaitingDocument = true;
+      continue;
+    }
+
+    if (role === 'none') {
+      console.warn(`🚫 User ${socket.data.user.email} has no access to created document ${documentId}`);
+      socket.emit('permission-denied', {
+        documentId,
+        action: 'join-document',
+        error: 'Access denied. You do not have permission to view this document.'
+      });
+      await handleUserLeave(io, socket, documentId);
+      continue;
+    }
+
+    socket.data.role = role;
+    resynced ||= canEdit(role);
+    const ydoc = documents.get(documentId);
+    if (ydoc) {
+      socket.emit('document-state', documentState(documentId, ydoc, {
+        users: await getUsersInDocument(io, documentId),
+        seed: false,
+        role
+      }));
+    }
+    console.log(`🔐 Socket ${socket.id} settled on created document ${documentId} as ${role}`);
+  }
+
+  // Editors who were in the room send its content with their resync,
+  // otherwise the content the document was created with is seeded
+  if (!documentsLoadedMissing.has(documentId)) return;
+  if (resynced) {
+    documentsLoadedMissing.delete(documentId);
+  } else {
+    try {
+      if (await checkSavedContent(documentId)) documentsLoadedMissing.delete(documentId);
+    } catch (error) {
+      console.error(`❌ Error checking saved content of ${documentId}:`, error);
+    }
+  }
+}
+
+/**
+ * Helper: Resolve access again for everyone in a room after it changed
+ * (see ./liveAccess). Sockets that lost access are removed from the room,
+ * the others get their new role and the document state with it.
+ */
+async function refreshRoomAccess(io: RealtimeServer, documentId: string) {
+  for (const socketId of [...(documentUsers.get(documentId) || [])]) {
+    const socket = io.sockets.sockets.get(socketId);
+    // Sockets waiting for the document are settled once it exists
+    if (!socket?.data.user || socket.data.awaitingDocument) continue;
+
+    const role = await resolveRole(socket.data.user, documentId);
+    if (socket.data.documentId !== documentId || role === socket.data.role) continue;
+
+    // Deleted, trashed or no longer shared with this user
+    if (role === null || role === 'none') {
+      console.warn(`🚫 User ${socket.data.user.email} lost access to document ${documentId}`);
+      socket.emit('permission-denied', {
+        documentId,
+        action: 'join-document',
+        error: 'Access denied. You no longer have permission to view this document.'
+      });
+      await handleUserLeave(io, socket, documentId);
+      continue;
+    }
+
+    socket.data.role = role;
+    const ydoc = documents.get(documentId);
+    if (ydoc) {
+      socket.emit('document-state', documentState(documentId, ydoc, {
+        users: await getUsersInDocument(io, documentId),
+        seed: false,
+        role
+      }));
+    }
+    console.log(`🔐 Socket ${socket.id} is now ${role} on document ${documentId}`);
+  }
+}
+
 /**
  * Helper: Get all users currently in a document
  */
 async function getUsersInDocument(
-  io: SocketIOServer,
+  io: RealtimeServer,
   documentId: string
-): Promise<Array<{ socketId: string; user: { name: string; email?: string; image?: string } }>> {
+): Promise<PresenceEntry[]> {
   const sockets = await io.in(documentId).fetchSockets();
-  return sockets.map(s => ({
-    socketId: s.id,
-    user: s.data.user
-  }));
+  return sockets
+    .filter(s => s.data.user)
+    .map(s => ({
+      socketId: s.id,
+      user: s.data.user!
+    }));
+}
+
+/**
+ * Helper: Get the in-memory Yjs document for a room, loading it if needed
+ * Concurrent joins share the same load so the room only gets one Y.Doc
+ */
+function getOrLoadDocument(documentId: string): Promise<Y.Doc> {
+  const loaded = documents.get(documentId);
+  if (loaded) return Promise.resolve(loaded);
+
+  let loading = loadingDocuments.get(documentId);
+  if (!loading) {
+    loading = loadDocument(documentId).finally(() => {
+      loadingDocuments.delete(documentId);
+    });
+    loadingDocuments.set(documentId, loading);
+  }
+  return loading;
+}
+
+/**
+ * Helper: Rebuild a Yjs document from MongoDB
+ * Throws when it can't be read; only loaded documents are kept.
+ */
+async function loadDocument(documentId: string): Promise<Y.Doc> {
+  let ydoc: Y.Doc;
+  let pending: number;
+  let attribution: DocumentAttribution;
+
+  try {
+    console.log(`🔍 Loading Yjs state for document ${documentId}...`);
+    const persisted = await loadPersistedDocument(documentId);
+    ydoc = persisted.ydoc;
+    pending = persisted.pendingUpdates;
+    attribution = await loadAttribution(documentId);
+
+    if (persisted.hasPersistedState) {
+      console.log(`✅ Restored Yjs state for ${documentId} (${pending} pending updates)`);
+    } else if (!(await checkSavedContent(documentId))) {
+      documentsLoadedMissing.add(documentId);
+    }
+  } catch (error) {
+    console.error(`❌ Error loading Yjs state of ${documentId} from MongoDB:`, error);
+    throw error;
+  }
+
+  pendingUpdateCounts.set(documentId, pending);
+  attributions.set(documentId, attribution);
+
+  // Persist every update applied from now on
+  ydoc.on('update', (update: Uint8Array) => {
+    storeUpdate(documentId, update)
+      .then(() => {
+        const count = (pendingUpdateCounts.get(documentId) || 0) + 1;
+        pendingUpdateCounts.set(documentId, count);
+        if (count >= COMPACTION_THRESHOLD) {
+          compact(documentId);
+        }
+      })
+      .catch((error) => {
+        console.error(`❌ Error persisting Yjs update for ${documentId}:`, error);
+      });
+  });
+
+  documents.set(documentId, ydoc);
+  console.log(`📝 Loaded Yjs document: ${documentId}`);
+  return ydoc;
+}
+
+/**
+ * Helper: Seed a room without Yjs state from the HTML content of its
+ * document (saved before persistence existed, or by the save that created it)
+ * Returns whether the document exists.
+ */
+async function checkSavedContent(documentId: string): Promise<boolean> {
+  const { db } = await connectToDatabase();
+  const document = ObjectId.isValid(documentId)
+    ? await db.collection('documents').findOne({ _id: new ObjectId(documentId) })
+    : await db.collection('documents').findOne({ customId: documentId });
+
+  const tabs = document ? getDocumentTabs(document) : [];
+  if (tabs.length > 1 || tabs.some((tab) => tab.content.trim())) {
+    documentsAwaitingSeed.add(documentId);
+    console.log(`📦 Document ${documentId} has ${tabs.length} tab(s) of HTML awaiting seed`);
+  } else {
+    console.log(`ℹ️ Document ${documentId} has no saved content, starting fresh`);
+  }
+  return !!document;
+}
+
+/**
+ * Helper: The next clock of every Yjs client in a document
+ */
+function getStateVector(ydoc: Y.Doc): Map<number, number> {
+  return Y.decodeStateVector(Y.encodeStateVector(ydoc));
+}
+
+/**
+ * Helper: Attribute the content a change added to the user it came from
+ * Every Yjs client whose clock moved past stateBefore wrote that content.
+ * Entries cover everything a client adds after them, so a new one is only
+ * stored for a new client, another user or after ATTRIBUTION_INTERVAL.
+ */
+function attributeChanges(
+  io: RealtimeServer,
+  documentId: string,
+  ydoc: Y.Doc,
+  stateBefore: Map<number, number>,
+  author: SocketUser
+) {
+  const attribution = attributions.get(documentId);
+  if (!attribution) return;
+
+  const now = new Date();
+  const entries: AttributionEntry[] = [];
+
+  for (const [client, clock] of getStateVector(ydoc)) {
+    const before = stateBefore.get(client) || 0;
+    if (clock <= before) continue;
+
+    const latest = [...attribution.entries].reverse().find((entry) => entry.client === client);
+    if (latest && latest.userId === author.id && now.getTime() - new Date(latest.time).getTime() < ATTRIBUTION_INTERVAL) {
+      continue;
+    }
+    entries.push({ client, clock: before, userId: author.id, time: now.toISOString() });
+  }
+
+  if (entries.length === 0) return;
+
+  attribution.entries.push(...entries);
+  attribution.authors = [...attribution.authors.filter((known) => known.id !== author.id), author];
+  io.to(documentId).emit('attribution-update', { entries, authors: [author] });
+
+  storeAttribution(documentId, entries).catch((error) => {
+    console.error(`❌ Error persisting attribution for ${documentId}:`, error);
+  });
+}
+
+/**
+ * Helper: Replace every tab of a room's Yjs document with restored ones, in
+ * a single transaction that also bumps the restore count
+ */
+function applyRestore(ydoc: Y.Doc, { tabs, notice }: LiveRestore): Uint8Array {
+  const stateBefore = Y.encodeStateVector(ydoc);
+
+  ydoc.transact(() => {
+    const list = ydoc.getArray<Y.Map<string>>(TABS_LIST);
+    const tabIds = new Set([
+      DEFAULT_TAB_ID,
+      ...list.toArray().map((entry) => entry.get('id') || ''),
+      ...tabs.map((tab) => tab.id)
+    ]);
+    for (const tabId of tabIds) {
+      const fragment = ydoc.getXmlFragment(tabId);
+      fragment.delete(0, fragment.length);
+    }
+
+    // An empty list stands for the single default tab
+    list.delete(0, list.length);
+    if (tabs.length > 1 || tabs[0].id !== DEFAULT_TAB_ID) {
+      list.push(tabs.map((tab) => {
+        const entry = new Y.Map<string>();
+        entry.set('id', tab.id);
+        entry.set('title', tab.title);
+        return entry;
+      }));
+    }
+
+    for (const tab of tabs) {
+      ydoc.getXmlFragment(tab.id).insert(0, htmlToYjsContent(tab.content));
+    }
+    ydoc.getMap<number>(RESTORE_STATE).set(RESTORE_COUNT, notice.restoreCount);
+  }, RESTORE_ORIGIN);
+
+  return Y.encodeStateAsUpdate(ydoc, stateBefore);
+}
+
+/**
+ * Helper: Restore a version into every room of a document and tell the users
+ * in them. Rooms nobody is in are loaded, restored and unloaded again, so
+ * their persisted state is restored too.
+ */
+async function restoreDocument(io: RealtimeServer, restore: LiveRestore) {
+  for (const documentId of restore.roomIds) {
+    const ydoc = await getOrLoadDocument(documentId);
+    const stateBefore = getStateVector(ydoc);
+    const update = applyRestore(ydoc, restore);
+    attributeChanges(io, documentId, ydoc, stateBefore, restore.notice.restoredBy);
+
+    // The restored HTML is already saved, so there is nothing left to seed
+    documentsAwaitingSeed.delete(documentId);
+    documentSeeders.delete(documentId);
+
+    io.to(documentId).emit('sync-update', {
+      update: Buffer.from(update).toString('base64'),
+      origin: restore.notice.restoredBy
+    });
+    io.to(documentId).emit('document-restored', restore.notice);
+    console.log(`⏪ Restored document ${documentId} to v${restore.notice.versionNumber} for ${documentUsers.get(documentId)?.size || 0} user(s)`);
+
+    if (!documentUsers.has(documentId)) {
+      await unloadDocument(documentId);
+    }
+  }
+}
+
+/**
+ * Helper: Compact a document's update log into a snapshot
+ */
+async function compact(documentId: string) {
+  if (compactingDocuments.has(documentId)) return;
+  compactingDocuments.add(documentId);
+
+  try {
+    const merged = await compactDocument(documentId);
+    pendingUpdateCounts.set(documentId, Math.max(0, (pendingUpdateCounts.get(documentId) || 0) - merged));
+    if (merged > 0) {
+      console.log(`🗜️ Compacted ${merged} updates for document ${documentId}`);
+    }
+  } catch (error) {
+    console.error(`❌ Error compacting document ${documentId}:`, error);
+  } finally {
+    compactingDocuments.delete(documentId);
+  }
+}
+
+/**
+ * Helper: Compact and drop an idle document from memory
+ */
+async function unloadDocument(documentId: string) {
+  await compact(documentId);
+
+  // Someone may have re-joined while compacting
+  if (documentUsers.has(documentId)) return;
+
+  documents.get(documentId)?.destroy();
+  documents.delete(documentId);
+  pendingUpdateCounts.delete(documentId);
+  attributions.delete(documentId);
+  documentsAwaitingSeed.delete(documentId);
+  documentSeeders.delete(documentId);
+  documentsLoadedMissing.delete(documentId);
+  console.log(`🗑️ Unloaded document ${documentId}`);
 }
 
 export { documents, documentUsers, cursorPositions };
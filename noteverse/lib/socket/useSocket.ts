@@ -9,6 +9,10 @@
 
 import { useEffect, useState, useRef } from 'react';
 import { io, Socket } from 'socket.io-client';
+import type { ClientToServerEvents, ServerToClientEvents } from './events';
+
+// Socket typed with the shared realtime event map
+export type RealtimeClientSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
 
 interface UseSocketOptions {
   autoConnect?: boolean;
@@ -20,8 +24,8 @@ interface UseSocketOptions {
 export function useSocket(options: UseSocketOptions = {}) {
   const [isConnected, setIsConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [socket, setSocket] = useState<Socket | null>(null);
-  const socketRef = useRef<Socket | null>(null);
+  const [socket, setSocket] = useState<RealtimeClientSocket | null>(null);
+  const socketRef = useRef<RealtimeClientSocket | null>(null);
 
   useEffect(() => {
     // Get Socket.io server URL from environment variable
@@ -31,7 +35,7 @@ export function useSocket(options: UseSocketOptions = {}) {
     console.log('🔌 Connecting to Socket.io server:', socketUrl);
 
     // Initialize socket connection
-    const socketInstance = io(socketUrl, {
+    const socketInstance: RealtimeClientSocket = io(socketUrl, {
       transports: ['websocket', 'polling'], // Try WebSocket first, fallback to polling
       autoConnect: options.autoConnect !== false,
       reconnection: options.reconnection !== false,
@@ -42,6 +46,14 @@ export function useSocket(options: UseSocketOptions = {}) {
       forceNew: false,
       // Production settings
       withCredentials: true,
+      // Short-lived session token for the handshake - the socket server may be
+      // on another domain and not receive the session cookie
+      auth: (cb) => {
+        fetch('/api/socket/token')
+          .then((response) => (response.ok ? response.json() : null))
+          .then((data: { token?: string } | null) => cb(data?.token ? { token: data.token } : {}))
+          .catch(() => cb({}));
+      },
       extraHeaders: {
         'Access-Control-Allow-Origin': '*'
       }
@@ -77,18 +89,19 @@ export function useSocket(options: UseSocketOptions = {}) {
       setIsConnected(false);
     });
 
-    socketInstance.on('reconnect_attempt', (attemptNumber) => {
+    // Reconnection events are emitted by the manager, not the socket
+    socketInstance.io.on('reconnect_attempt', (attemptNumber) => {
       console.log(`🔄 Socket reconnecting... (attempt ${attemptNumber})`);
       setIsConnecting(true);
     });
 
-    socketInstance.on('reconnect', (attemptNumber) => {
+    socketInstance.io.on('reconnect', (attemptNumber) => {
       console.log(`✅ Socket reconnected after ${attemptNumber} attempts`);
       setIsConnected(true);
       setIsConnecting(false);
     });
 
-    socketInstance.on('reconnect_failed', () => {
+    socketInstance.io.on('reconnect_failed', () => {
       console.error('❌ Socket reconnection failed');
       setIsConnecting(false);
     });
@@ -3,13 +3,15 @@
  * 
  * Manages Yjs document synchronization with Socket.io
  * Handles CRDT operations and real-time updates
+ * Keeps the document's attribution (who wrote what) up to date
  */
 
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
-import { Socket } from 'socket.io-client';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import * as Y from 'yjs';
+import type { RealtimeClientSocket } from './useSocket';
+import type { DocumentAttribution, DocumentRole, PresenceEntry, ServerToClientEvents } from './events';
 
 interface User {
   id: string;
@@ -19,17 +21,20 @@ interface User {
 }
 
 interface YjsProviderOptions {
-  socket: Socket | null;
+  socket: RealtimeClientSocket | null;
   documentId: string;
   user: User;
   onSync?: (ydoc: Y.Doc) => void;
-  onUsersChange?: (users: User[]) => void;
+  onUsersChange?: (users: PresenceEntry[]) => void;
 }
 
-interface DocumentState {
-  state: string;
-  users: User[];
-}
+type DocumentState = Parameters<ServerToClientEvents['document-state']>[0];
+
+// Transaction origin for updates received from the server, so they aren't echoed back
+const REMOTE_ORIGIN = 'remote';
+
+// Wait before joining again when the server couldn't load the document
+const JOIN_RETRY_DELAY = 3000;
 
 export function useYjsProvider({
   socket,
@@ -40,7 +45,13 @@ export function useYjsProvider({
 }: YjsProviderOptions) {
   const [ydoc] = useState<Y.Doc>(() => new Y.Doc());
   const [synced, setSynced] = useState(false);
-  const [activeUsers, setActiveUsers] = useState<User[]>([]);
+  const [shouldSeed, setShouldSeed] = useState(false);
+  const [role, setRole] = useState<DocumentRole | null>(null);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [activeUsers, setActiveUsers] = useState<PresenceEntry[]>([]);
+  const [attribution, setAttribution] = useState<DocumentAttribution>({ entries: [], authors: [] });
+  // Whether a document-state arrived before - later ones are resyncs after a reconnect
+  const hasSyncedRef = useRef(false);
 
   /**
    * Initialize Yjs document
@@ -52,22 +63,38 @@ export function useYjsProvider({
     console.log(`  - Socket ID: ${socket.id}`);
     console.log(`  - User: ${user.name} (${user.id})`);
 
-    // Join document room
-    socket.emit('join-document', {
-      documentId,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        cursorColor: user.cursorColor
-      }
-    });
+    // Join document room - the server identifies the user from the session
+    // A reconnect gets a new server socket that has to join again; the state
+    // vector lets the server send only what this client missed meanwhile
+    const joinDocument = () => {
+      socket.emit('join-document', {
+        documentId,
+        stateVector: hasSyncedRef.current ? Buffer.from(Y.encodeStateVector(ydoc)).toString('base64') : undefined
+      });
+      console.log(`\u2705 Emitted join-document event`);
+    };
 
-    console.log(`\u2705 Emitted join-document event`);
+    // The server couldn't load the document (e.g. the database was unreachable)
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const handleLoadFailed: ServerToClientEvents['document-load-failed'] = ({ documentId: failedId }) => {
+      if (failedId !== documentId) return;
+      console.warn(`⚠️ Server could not load document ${documentId}, joining again`);
+      clearTimeout(retryTimer);
+      retryTimer = setTimeout(joinDocument, JOIN_RETRY_DELAY);
+    };
+
+    if (socket.connected) {
+      joinDocument();
+    }
+    socket.on('connect', joinDocument);
+    socket.on('document-load-failed', handleLoadFailed);
 
     return () => {
       // Leave document on cleanup
       console.log(`\ud83d\udeaa Leaving document room: ${documentId}`);
+      clearTimeout(retryTimer);
+      socket.off('connect', joinDocument);
+      socket.off('document-load-failed', handleLoadFailed);
       socket.emit('leave-document', { documentId });
       ydoc.destroy();
     };
@@ -79,23 +106,34 @@ export function useYjsProvider({
   useEffect(() => {
     if (!socket || !ydoc) return;
 
-    const handleDocumentState = ({ state, users }: DocumentState) => {
+    const handleDocumentState = ({ state, stateVector, users, seed, role, attribution }: DocumentState) => {
       try {
-        // Apply initial state from server
+        // Apply persisted state from server
         const stateBuffer = Buffer.from(state, 'base64');
-        Y.applyUpdate(ydoc, stateBuffer);
+        Y.applyUpdate(ydoc, stateBuffer, REMOTE_ORIGIN);
+
+        // On a resync, send the edits the server missed while disconnected
+        // (the first sync sends nothing, the editor has no edits of its own yet)
+        if (hasSyncedRef.current && (role === 'owner' || role === 'editor')) {
+          const missing = Y.encodeStateAsUpdate(ydoc, Buffer.from(stateVector, 'base64'));
+          socket.emit('sync-update', {
+            documentId,
+            update: Buffer.from(missing).toString('base64')
+          });
+          console.log('🔄 Resynced local changes with server');
+        }
+        hasSyncedRef.current = true;
         
         setSynced(true);
+        setShouldSeed(seed);
+        setRole(role);
+        setAccessError(null);
         setActiveUsers(users);
+        setAttribution(attribution);
         
-        // Check if there's initial content to load
-        const metadata = ydoc.getMap('metadata');
-        const initialContent = metadata.get('initialContent');
-        
-        if (initialContent && typeof initialContent === 'string') {
-          console.log(`📄 Loading ${initialContent.length} characters of initial content from MongoDB`);
-          // The content will be loaded by the TipTap editor when it initializes
-          // We'll pass this through the onSync callback
+        if (seed) {
+          // Only one client is chosen to load the saved HTML, so content is never duplicated
+          console.log('🌱 This client will seed the document from saved content');
         }
         
         if (onSync) {
@@ -111,12 +149,22 @@ export function useYjsProvider({
       }
     };
 
+    const handlePermissionDenied: ServerToClientEvents['permission-denied'] = ({ documentId: deniedId, action, error }) => {
+      if (deniedId !== documentId) return;
+      console.warn(`🚫 Server rejected ${action}:`, error);
+      if (action === 'join-document') {
+        setAccessError(error);
+      }
+    };
+
     socket.on('document-state', handleDocumentState);
+    socket.on('permission-denied', handlePermissionDenied);
 
     return () => {
       socket.off('document-state', handleDocumentState);
+      socket.off('permission-denied', handlePermissionDenied);
     };
-  }, [socket, ydoc, onSync, onUsersChange]);
+  }, [socket, ydoc, documentId, onSync, onUsersChange]);
 
   /**
    * Handle incoming updates from other clients
@@ -124,13 +172,13 @@ export function useYjsProvider({
   useEffect(() => {
     if (!socket || !ydoc) return;
 
-    const handleSyncUpdate = ({ update, origin }: { update: string; origin?: User }) => {
+    const handleSyncUpdate: ServerToClientEvents['sync-update'] = ({ update, origin }) => {
       try {
         const updateBuffer = Buffer.from(update, 'base64');
         
         // Apply update from other client
         // Yjs automatically handles conflict resolution
-        Y.applyUpdate(ydoc, updateBuffer, origin);
+        Y.applyUpdate(ydoc, updateBuffer, REMOTE_ORIGIN);
         
         console.log('📥 Received update from:', origin?.name);
       } catch (error) {
@@ -145,6 +193,29 @@ export function useYjsProvider({
     };
   }, [socket, ydoc]);
 
+  /**
+   * Handle attribution of new content (including this client's)
+   */
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleAttributionUpdate: ServerToClientEvents['attribution-update'] = ({ entries, authors }) => {
+      setAttribution((current) => ({
+        entries: [...current.entries, ...entries],
+        authors: [
+          ...current.authors.filter((author) => !authors.some((updated) => updated.id === author.id)),
+          ...authors
+        ]
+      }));
+    };
+
+    socket.on('attribution-update', handleAttributionUpdate);
+
+    return () => {
+      socket.off('attribution-update', handleAttributionUpdate);
+    };
+  }, [socket]);
+
   /**
    * Observe local changes and send to server
    */
@@ -153,14 +224,16 @@ export function useYjsProvider({
 
     const updateHandler = (update: Uint8Array, origin: unknown) => {
       // Don't send updates that came from the server
-      if (origin !== ydoc) return;
+      // (local editor changes carry the y-prosemirror plugin key as origin)
+      if (origin === REMOTE_ORIGIN) return;
+      // Edits made while disconnected are sent by the resync after rejoining
+      if (!socket.connected) return;
 
       // Send update to server
       const updateBase64 = Buffer.from(update).toString('base64');
       socket.emit('sync-update', {
         documentId,
-        update: updateBase64,
-        origin: user
+        update: updateBase64
       });
 
       console.log('📤 Sent update to server');
@@ -180,7 +253,7 @@ export function useYjsProvider({
   useEffect(() => {
     if (!socket) return;
 
-    const handleUserJoined = ({ user: newUser, users }: { user: User; users: User[] }) => {
+    const handleUserJoined: ServerToClientEvents['user-joined'] = ({ user: newUser, users }) => {
       setActiveUsers(users);
       if (onUsersChange) {
         onUsersChange(users);
@@ -188,7 +261,7 @@ export function useYjsProvider({
       console.log('👤 User joined:', newUser.name);
     };
 
-    const handleUserLeft = ({ user: leftUser, users }: { user: User; users: User[] }) => {
+    const handleUserLeft: ServerToClientEvents['user-left'] = ({ user: leftUser, users }) => {
       setActiveUsers(users);
       if (onUsersChange) {
         onUsersChange(users);
@@ -232,7 +305,11 @@ export function useYjsProvider({
   return {
     ydoc,
     synced,
+    shouldSeed,
+    role,
+    accessError,
     activeUsers,
+    attribution,
     getText,
     getMap,
     getArray
@@ -0,0 +1,49 @@
+/**
+ * Per-user Socket.io Rooms
+ *
+ * Every authenticated socket joins a room for its user, so server code can
+ * reach all of a user's tabs (e.g. to deliver notifications).
+ *
+ * Next.js compiles API routes separately from the modules server.ts loads,
+ * so the Socket.io server is shared through a global rather than a module
+ * variable. When the realtime server runs standalone (socket-server.ts) the
+ * API routes can't reach it and emitToUser is a no-op - clients fall back to
+ * fetching.
+ */
+
+import type { RealtimeServer } from './socketServer';
+import type { ServerToClientEvents } from './events';
+
+declare global {
+  var _realtimeServer: RealtimeServer | undefined;
+}
+
+/**
+ * Room name for a user's sockets (MongoDB user id)
+ */
+export function userRoom(userId: string): string {
+  return `user:${userId}`;
+}
+
+/**
+ * Make the realtime server reachable from API routes in the same process
+ */
+export function registerRealtimeServer(io: RealtimeServer) {
+  global._realtimeServer = io;
+}
+
+/**
+ * Emit an event to every socket of a user
+ * Returns false when no realtime server runs in this process
+ */
+export function emitToUser<E extends keyof ServerToClientEvents>(
+  userId: string,
+  event: E,
+  ...args: Parameters<ServerToClientEvents[E]>
+): boolean {
+  const io = global._realtimeServer;
+  if (!io) return false;
+
+  io.to(userRoom(userId)).emit(event, ...args);
+  return true;
+}
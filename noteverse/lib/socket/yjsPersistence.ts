@@ -0,0 +1,191 @@
+/**
+ * Yjs Persistence for the Realtime Server
+ *
+ * Stores the binary Yjs state of every document room in MongoDB so the
+ * server stays authoritative across restarts and room unloads:
+ * - yjsSnapshots: one merged state update per document
+ * - yjsUpdates: incremental updates received since the last snapshot
+ * - yjsAttributions: who sent the content of each Yjs client (see
+ *   AttributionEntry in ./events)
+ *
+ * Rooms are keyed by the same id the clients join with (ObjectId string
+ * or customId), because new documents only get an _id on their first save.
+ */
+
+import * as Y from 'yjs';
+import { Binary, ObjectId } from 'mongodb';
+import { connectToDatabase } from '../mongodb';
+import type { AttributionEntry, DocumentAttribution } from './events';
+
+// Number of pending updates after which a document is compacted
+export const COMPACTION_THRESHOLD = 100;
+
+interface YjsSnapshotRecord {
+  _id?: ObjectId;
+  docName: string;
+  state: Binary;
+  updatedAt: Date;
+}
+
+interface YjsUpdateRecord {
+  _id?: ObjectId;
+  docName: string;
+  update: Binary;
+  createdAt: Date;
+}
+
+interface YjsAttributionRecord {
+  _id?: ObjectId;
+  docName: string;
+  client: number;
+  clock: number;
+  userId: ObjectId;
+  createdAt: Date;
+}
+
+/**
+ * Load the persisted state of a document into a fresh Y.Doc
+ * Returns the number of pending (not yet compacted) updates as well
+ */
+export async function loadPersistedDocument(docName: string): Promise<{
+  ydoc: Y.Doc;
+  hasPersistedState: boolean;
+  pendingUpdates: number;
+}> {
+  const { db } = await connectToDatabase();
+  const ydoc = new Y.Doc();
+
+  const snapshot = await db.collection<YjsSnapshotRecord>('yjsSnapshots').findOne({ docName });
+  const updates = await db.collection<YjsUpdateRecord>('yjsUpdates')
+    .find({ docName })
+    .sort({ _id: 1 })
+    .toArray();
+
+  if (snapshot) {
+    Y.applyUpdate(ydoc, snapshot.state.buffer);
+  }
+  for (const record of updates) {
+    Y.applyUpdate(ydoc, record.update.buffer);
+  }
+
+  return {
+    ydoc,
+    hasPersistedState: !!snapshot || updates.length > 0,
+    pendingUpdates: updates.length
+  };
+}
+
+/**
+ * Append a single Yjs update to the document's update log
+ */
+export async function storeUpdate(docName: string, update: Uint8Array): Promise<void> {
+  const { db } = await connectToDatabase();
+  await db.collection<YjsUpdateRecord>('yjsUpdates').insertOne({
+    docName,
+    update: new Binary(Buffer.from(update)),
+    createdAt: new Date()
+  });
+}
+
+/**
+ * Merge the snapshot and all pending updates into a new snapshot
+ * Only updates that were read are removed, so updates stored while
+ * compacting are kept for the next run.
+ */
+export async function compactDocument(docName: string): Promise<number> {
+  const { db } = await connectToDatabase();
+
+  const snapshot = await db.collection<YjsSnapshotRecord>('yjsSnapshots').findOne({ docName });
+  const updates = await db.collection<YjsUpdateRecord>('yjsUpdates')
+    .find({ docName })
+    .sort({ _id: 1 })
+    .toArray();
+
+  if (updates.length === 0) return 0;
+
+  const merged = Y.mergeUpdates([
+    ...(snapshot ? [snapshot.state.buffer] : []),
+    ...updates.map(record => record.update.buffer)
+  ]);
+
+  await db.collection<YjsSnapshotRecord>('yjsSnapshots').updateOne(
+    { docName },
+    {
+      $set: {
+        state: new Binary(Buffer.from(merged)),
+        updatedAt: new Date()
+      }
+    },
+    { upsert: true }
+  );
+
+  const lastUpdateId = updates[updates.length - 1]._id!;
+  await db.collection<YjsUpdateRecord>('yjsUpdates').deleteMany({
+    docName,
+    _id: { $lte: lastUpdateId }
+  });
+
+  return updates.length;
+}
+
+/**
+ * Load the attribution of a document with its authors' current profiles
+ */
+export async function loadAttribution(docName: string): Promise<DocumentAttribution> {
+  const { db } = await connectToDatabase();
+
+  const records = await db.collection<YjsAttributionRecord>('yjsAttributions')
+    .find({ docName })
+    .sort({ _id: 1 })
+    .toArray();
+
+  const userIds = [...new Set(records.map(record => record.userId.toString()))].map(id => new ObjectId(id));
+  const users = userIds.length === 0 ? [] : await db.collection('users')
+    .find({ _id: { $in: userIds } }, { projection: { name: 1, displayName: 1, email: 1, image: 1, cursorColor: 1 } })
+    .toArray();
+
+  return {
+    entries: records.map(record => ({
+      client: record.client,
+      clock: record.clock,
+      userId: record.userId.toString(),
+      time: record.createdAt.toISOString()
+    })),
+    // Named like the users of ./socketAuth
+    authors: users.map(user => ({
+      id: user._id.toString(),
+      name: user.displayName || user.name || user.email,
+      email: user.email,
+      cursorColor: user.cursorColor,
+      image: user.image
+    }))
+  };
+}
+
+/**
+ * Append new attribution entries to a document
+ */
+export async function storeAttribution(docName: string, entries: AttributionEntry[]): Promise<void> {
+  const { db } = await connectToDatabase();
+  await db.collection<YjsAttributionRecord>('yjsAttributions').insertMany(
+    entries.map(entry => ({
+      docName,
+      client: entry.client,
+      clock: entry.clock,
+      userId: new ObjectId(entry.userId),
+      createdAt: new Date(entry.time)
+    }))
+  );
+}
+
+/**
+ * Remove all persisted Yjs state for the given room names
+ */
+export async function deletePersistedDocument(docNames: string[]): Promise<void> {
+  const { db } = await connectToDatabase();
+  await Promise.all([
+    db.collection('yjsSnapshots').deleteMany({ docName: { $in: docNames } }),
+    db.collection('yjsUpdates').deleteMany({ docName: { $in: docNames } }),
+    db.collection('yjsAttributions').deleteMany({ docName: { $in: docNames } })
+  ]);
+}
@@ -0,0 +1,16 @@
+/**
+ * Trash
+ *
+ * How long trashed documents are kept (see lib/documents.ts for moving
+ * documents in and out of the trash). Kept free of server dependencies so
+ * the dashboard and document settings can use it too.
+ */
+
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * When a document trashed at deletedAt will be purged
+ */
+export function trashPurgeDate(deletedAt: Date | string): Date {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,517 @@
+/**
+ * Version Diff
+ *
+ * Rich-text diff of the HTML of two versions of a document, tab by tab.
+ * HTML is split into tags, words, whitespace and punctuation, grouped into
+ * blocks (paragraphs, headings, list items, ...) and diffed with Myers'
+ * algorithm: first the blocks, then the words of each edited block. It is
+ * rendered back as HTML with <ins>/<del> around the changed text, whole added
+ * or removed blocks marked with diff-added/diff-removed and blocks whose
+ * formatting changed with diff-format:
+ * - inline: one document with insertions and deletions marked
+ * - before/after: each side on its own, for side-by-side viewing
+ *
+ * Tags are rebuilt from a whitelist while tokenizing, so the rendered diff
+ * is safe to show as HTML. Kept free of server dependencies so the types can
+ * be shared with the history view.
+ */
+
+import type { DocumentTab, TabInfo } from './documentTabs';
+
+// Beyond this many changed tokens the changed middle is shown as replaced
+const MAX_EDIT_DISTANCE = 2000;
+
+export interface DiffStats {
+  insertedWords: number;
+  deletedWords: number;
+  formatChanges: number; // Blocks whose formatting changed, but not (only) their words
+}
+
+export interface TabDiff extends TabInfo {
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  inline: string;
+  before: string;
+  after: string;
+  stats: DiffStats;
+}
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  op: DiffOp;
+  tokens: string[];
+}
+
+const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote',
+  'pre', 'code', 'strong', 'b', 'em', 'i', 'u', 's', 'strike', 'mark', 'span', 'a',
+  'img', 'div', 'section', 'label', 'input', 'table', 'thead', 'tbody', 'tr', 'th',
+  'td', 'sub', 'sup'
+]);
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'input']);
+// Blocks whose children are diffed one by one
+const CONTAINER_TAGS = new Set(['ul', 'ol', 'blockquote', 'div', 'section', 'table', 'thead', 'tbody', 'tr']);
+const ALLOWED_ATTRIBUTES = new Set([
+  'class', 'style', 'href', 'src', 'alt', 'title', 'width', 'height', 'target', 'rel',
+  'colspan', 'rowspan', 'type', 'checked', 'disabled'
+]);
+
+const TOKEN_PATTERN = /<[^>]*>|&[a-z0-9#]+;|[\p{L}\p{N}_]+|\s+|[^<]/giu;
+const ATTRIBUTE_PATTERN = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+const WORD_PATTERN = /^[\p{L}\p{N}_]+$/u;
+
+const isTag = (token: string) => token.startsWith('<');
+
+function safeAttribute(name: string, value: string): boolean {
+  if (!ALLOWED_ATTRIBUTES.has(name) && !name.startsWith('data-')) return false;
+  if (name === 'href') return /^(https?:|mailto:|#|\/)/i.test(value.trim());
+  if (name === 'src') return /^(https?:|\/|data:image\/)/i.test(value.trim());
+  if (name === 'style') return !/url\s*\(|expression|javascript:/i.test(value);
+  return true;
+}
+
+const escapeAttribute = (value: string) => value.replace(/&(?![a-z0-9#]+;)/gi, '&amp;').replace(/"/g, '&quot;');
+
+/**
+ * A tag rebuilt with only whitelisted attributes, or null to drop it
+ */
+function cleanTag(token: string): string | null {
+  const match = /^<(\/?)([a-z][a-z0-9]*)([^>]*)>$/i.exec(token);
+  if (!match) return null;
+
+  const [, closing, rawName, rest] = match;
+  const name = rawName.toLowerCase();
+  if (!ALLOWED_TAGS.has(name)) return null;
+  if (closing) return VOID_TAGS.has(name) ? null : `</${name}>`;
+
+  const attributes: string[] = [];
+  for (const [, rawAttribute, double, single, bare] of rest.matchAll(ATTRIBUTE_PATTERN)) {
+    const attribute = rawAttribute.toLowerCase();
+    const value = double ?? single ?? bare ?? '';
+    if (!safeAttribute(attribute, value)) continue;
+    attributes.push(value ? `${attribute}="${escapeAttribute(value)}"` : attribute);
+  }
+
+  if (name === 'input' && !attributes.includes('type="checkbox"')) return null;
+  return `<${[name, ...attributes].join(' ')}>`;
+}
+
+/**
+ * Split HTML into tags (cleaned), entities, words, whitespace and punctuation
+ */
+export function tokenizeHtml(html: string): string[] {
+  const tokens: string[] = [];
+
+  for (const [token] of html.matchAll(TOKEN_PATTERN)) {
+    if (!isTag(token)) {
+      tokens.push(token === '>' ? '&gt;' : token);
+      continue;
+    }
+    const tag = cleanTag(token);
+    if (tag) tokens.push(tag);
+  }
+
+  return tokens;
+}
+
+/**
+ * Myers' diff of two token lists, after trimming their common ends (also
+ * used to store versions as deltas, see lib/versionStorage.ts)
+ */
+export function diffTokens(before: string[], after: string[]): DiffPart[] {
+  let prefix = 0;
+  while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) suffix++;
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+
+  const parts: DiffPart[] = [];
+  const push = (op: DiffOp, token: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.op === op) last.tokens.push(token);
+    else parts.push({ op, tokens: [token] });
+  };
+
+  before.slice(0, prefix).forEach((token) => push('equal', token));
+  for (const [op, token] of middleDiff(a, b)) push(op, token);
+  before.slice(before.length - suffix).forEach((token) => push('equal', token));
+
+  return parts;
+}
+
+function middleDiff(a: string[], b: string[]): Array<[DiffOp, string]> {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let distance = -1;
+  for (let d = 0; d <= max && distance === -1; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        distance = d;
+        break;
+      }
+    }
+  }
+
+  // Too different to diff in reasonable time: everything was replaced
+  if (distance === -1) {
+    return [
+      ...a.map((token): [DiffOp, string] => ['delete', token]),
+      ...b.map((token): [DiffOp, string] => ['insert', token])
+    ];
+  }
+
+  // Walk the trace back from the end
+  const edits: Array<[DiffOp, string]> = [];
+  let x = n;
+  let y = m;
+  for (let d = distance; d > 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const previousX = previous[offset + previousK];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push(['equal', a[--x]]);
+      y--;
+    }
+    if (x === previousX) edits.push(['insert', b[--y]]);
+    else edits.push(['delete', a[--x]]);
+  }
+  while (x > 0 && y > 0) {
+    edits.push(['equal', a[--x]]);
+    y--;
+  }
+
+  return edits.reverse();
+}
+
+const countWords = (tokens: string[]) => tokens.filter((token) => WORD_PATTERN.test(token)).length;
+
+const tagName = (token: string) => /^<\/?([a-z][a-z0-9]*)/i.exec(token)?.[1].toLowerCase() ?? null;
+const isOpeningTag = (token: string) => isTag(token) && !token.startsWith('</');
+
+/**
+ * An opening tag with a class added
+ */
+function withClass(tag: string, className: string): string {
+  if (!isOpeningTag(tag)) return tag;
+  const existing = /\sclass="([^"]*)"/.exec(tag);
+  return existing
+    ? tag.replace(existing[0], ` class="${existing[1]} ${className}"`)
+    : tag.replace(/^<([a-z][a-z0-9]*)/i, `<$1 class="${className}"`);
+}
+
+/**
+ * Split tokens into top-level blocks: an element with everything inside it,
+ * or a run of text between elements
+ */
+function splitBlocks(tokens: string[]): string[][] {
+  const blocks: string[][] = [];
+  let current: string[] = [];
+  let depth = 0;
+  const close = () => {
+    if (current.length > 0) blocks.push(current);
+    current = [];
+  };
+
+  for (const token of tokens) {
+    if (!isTag(token)) {
+      current.push(token);
+    } else if (token.startsWith('</')) {
+      current.push(token);
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) close();
+    } else {
+      if (depth === 0) close();
+      current.push(token);
+      if (!VOID_TAGS.has(tagName(token) || '')) depth++;
+      else if (depth === 0) close();
+    }
+  }
+  close();
+
+  return blocks;
+}
+
+/**
+ * Whether a removed and an added block are most likely the same block edited
+ * (half of the words of the shorter one are in both, or the same element
+ * without words, like an image)
+ */
+function similarBlocks(before: string[], after: string[]): boolean {
+  const beforeWords = new Set(before.filter((token) => WORD_PATTERN.test(token)));
+  const afterWords = new Set(after.filter((token) => WORD_PATTERN.test(token)));
+  if (beforeWords.size === 0 || afterWords.size === 0) {
+    return tagName(before[0]) === tagName(after[0]);
+  }
+
+  const shared = [...beforeWords].filter((word) => afterWords.has(word)).length;
+  return shared * 2 >= Math.min(beforeWords.size, afterWords.size);
+}
+
+/**
+ * Tokens as HTML with runs of text wrapped in the given mark; tags are left
+ * as they are so the markup stays balanced
+ */
+function markText(tokens: string[], mark: 'ins' | 'del'): string {
+  let html = '';
+  let run = '';
+  const flush = () => {
+    if (run.trim()) html += `<${mark} class="diff-${mark === 'ins' ? 'insert' : 'delete'}">${run}</${mark}>`;
+    else html += run;
+    run = '';
+  };
+
+  for (const token of tokens) {
+    if (isTag(token)) {
+      flush();
+      html += token;
+    } else {
+      run += token;
+    }
+  }
+  flush();
+
+  return html;
+}
+
+interface DiffOutput {
+  inline: string;
+  before: string;
+  after: string;
+  stats: DiffStats;
+}
+
+/**
+ * A whole block that was added or removed, marked on its own element
+ */
+function addBlock(output: DiffOutput, tokens: string[], op: 'insert' | 'delete') {
+  const [first, ...rest] = tokens;
+  const marked = op === 'insert'
+    ? markText([withClass(first, 'diff-added'), ...rest], 'ins')
+    : markText([withClass(first, 'diff-removed'), ...rest], 'del');
+
+  output.inline += marked;
+  if (op === 'insert') {
+    output.after += marked;
+    output.stats.insertedWords += countWords(tokens);
+  } else {
+    output.before += marked;
+    output.stats.deletedWords += countWords(tokens);
+  }
+}
+
+/**
+ * Word diff of two versions of a block
+ * The inline view keeps the newer markup, with removed text marked inside it.
+ * Blocks whose markup changed (formatting, links, a paragraph that became a
+ * heading) get the diff-format class.
+ */
+function diffBlock(output: DiffOutput, before: string[], after: string[]) {
+  const open = isOpeningTag(before[0]) && isOpeningTag(after[0]) && before.length > 1 && after.length > 1;
+  const name = open ? tagName(after[0]) : null;
+
+  // Lists, tables and quotes are diffed item by item
+  if (open && name && CONTAINER_TAGS.has(name) && before[0] === after[0]) {
+    output.inline += after[0];
+    output.before += before[0];
+    output.after += after[0];
+    diffBlocks(output, splitBlocks(before.slice(1, -1)), splitBlocks(after.slice(1, -1)));
+    output.inline += after[after.length - 1];
+    output.before += before[before.length - 1];
+    output.after += after[after.length - 1];
+    return;
+  }
+
+  // The block's own tags stay around the diff of what's inside
+  const parts = open
+    ? diffTokens(before.slice(1, -1), after.slice(1, -1))
+    : diffTokens(before, after);
+
+  let inline = '';
+  let beforeHtml = '';
+  let afterHtml = '';
+  for (const { op, tokens } of parts) {
+    if (op === 'equal') {
+      const html = tokens.join('');
+      inline += html;
+      beforeHtml += html;
+      afterHtml += html;
+    } else if (op === 'insert') {
+      inline += markText(tokens, 'ins');
+      afterHtml += markText(tokens, 'ins');
+      output.stats.insertedWords += countWords(tokens);
+    } else {
+      // Deleted tags would unbalance the inline view, so only their text shows
+      inline += markText(tokens.filter((token) => !isTag(token)), 'del');
+      beforeHtml += markText(tokens, 'del');
+      output.stats.deletedWords += countWords(tokens);
+    }
+  }
+
+  const formatChanged = before.filter(isTag).join('') !== after.filter(isTag).join('');
+  if (formatChanged) output.stats.formatChanges++;
+
+  if (open) {
+    const openBefore = formatChanged ? withClass(before[0], 'diff-format') : before[0];
+    const openAfter = formatChanged ? withClass(after[0], 'diff-format') : after[0];
+    inline = `${openAfter}${inline}${after[after.length - 1]}`;
+    beforeHtml = `${openBefore}${beforeHtml}${before[before.length - 1]}`;
+    afterHtml = `${openAfter}${afterHtml}${after[after.length - 1]}`;
+  }
+
+  output.inline += inline;
+  output.before += beforeHtml;
+  output.after += afterHtml;
+}
+
+/**
+ * Diff two lists of blocks: unchanged blocks are matched first, then the
+ * removed and added blocks between them are paired up as edits where they
+ * look alike and shown as whole removed or added blocks otherwise
+ */
+function diffBlocks(output: DiffOutput, before: string[][], after: string[][]) {
+  const parts = diffTokens(before.map((block) => block.join('')), after.map((block) => block.join('')));
+
+  let beforeIndex = 0;
+  let afterIndex = 0;
+  let removed: string[][] = [];
+  let added: string[][] = [];
+
+  const flush = () => {
+    let i = 0;
+    let j = 0;
+    while (i < removed.length || j < added.length) {
+      const extraRemoved = (removed.length - i) - (added.length - j);
+      const similar = i < removed.length && j < added.length && similarBlocks(removed[i], added[j]);
+      if (j >= added.length || (extraRemoved > 0 && !similar)) {
+        addBlock(output, removed[i++], 'delete');
+      } else if (i >= removed.length || (extraRemoved < 0 && !similar)) {
+        addBlock(output, added[j++], 'insert');
+      } else {
+        diffBlock(output, removed[i++], added[j++]);
+      }
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const { op, tokens } of parts) {
+    if (op === 'equal') {
+      flush();
+      const html = tokens.join('');
+      output.inline += html;
+      output.before += html;
+      output.after += html;
+      beforeIndex += tokens.length;
+      afterIndex += tokens.length;
+    } else if (op === 'delete') {
+      removed.push(...before.slice(beforeIndex, beforeIndex + tokens.length));
+      beforeIndex += tokens.length;
+    } else {
+      added.push(...after.slice(afterIndex, afterIndex + tokens.length));
+      afterIndex += tokens.length;
+    }
+  }
+  flush();
+}
+
+/**
+ * Diff two HTML strings
+ */
+export function diffHtml(beforeHtml: string, afterHtml: string) {
+  const output: DiffOutput = {
+    inline: '',
+    before: '',
+    after: '',
+    stats: { insertedWords: 0, deletedWords: 0, formatChanges: 0 }
+  };
+
+  diffBlocks(output, splitBlocks(tokenizeHtml(beforeHtml)), splitBlocks(tokenizeHtml(afterHtml)));
+
+  return output;
+}
+
+/**
+ * Diff every tab of two versions; tabs are matched by id, in the order of
+ * the newer side with removed tabs after them
+ */
+export function diffTabs(beforeTabs: DocumentTab[], afterTabs: DocumentTab[]): TabDiff[] {
+  const diffs: TabDiff[] = afterTabs.map((tab) => {
+    const previous = beforeTabs.find((candidate) => candidate.id === tab.id);
+    const changed = previous && (previous.content !== tab.content || previous.title !== tab.title);
+
+    return {
+      id: tab.id,
+      title: tab.title,
+      status: !previous ? 'added' : changed ? 'changed' : 'unchanged',
+      ...diffHtml(previous?.content || '', tab.content)
+    };
+  });
+
+  for (const tab of beforeTabs) {
+    if (afterTabs.some((candidate) => candidate.id === tab.id)) continue;
+    diffs.push({ id: tab.id, title: tab.title, status: 'removed', ...diffHtml(tab.content, '') });
+  }
+
+  return diffs;
+}
+
+export function sumDiffStats(stats: DiffStats[]): DiffStats {
+  return stats.reduce(
+    (total, item) => ({
+      insertedWords: total.insertedWords + item.insertedWords,
+      deletedWords: total.deletedWords + item.deletedWords,
+      formatChanges: total.formatChanges + item.formatChanges
+    }),
+    { insertedWords: 0, deletedWords: 0, formatChanges: 0 }
+  );
+}
+
+/**
+ * Words added and removed between two versions, stored with each version as
+ * IDocumentVersion.contentDiff (JSON) against the one before it
+ */
+export function tabsDiffStats(beforeTabs: DocumentTab[], afterTabs: DocumentTab[]): DiffStats {
+  return sumDiffStats(diffTabs(beforeTabs, afterTabs).map((tab) => tab.stats));
+}
+
+export function parseDiffStats(contentDiff: unknown): DiffStats | null {
+  if (typeof contentDiff !== 'string') return null;
+  try {
+    const stats = JSON.parse(contentDiff);
+    return typeof stats?.insertedWords === 'number' && typeof stats?.deletedWords === 'number'
+      ? {
+          insertedWords: stats.insertedWords,
+          deletedWords: stats.deletedWords,
+          // Not counted for versions saved before formatting changes were
+          formatChanges: typeof stats.formatChanges === 'number' ? stats.formatChanges : 0
+        }
+      : null;
+  } catch {
+    return null;
+  }
+}
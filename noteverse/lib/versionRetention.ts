@@ -0,0 +1,94 @@
+/**
+ * Version Retention
+ *
+ * Automatic versions are thinned out as they age: all of them are kept for a
+ * day, the newest of every hour for a week and the newest of every day after
+ * that. Named, pinned, manual and restore versions are never deleted, and
+ * neither is a document's latest version.
+ *
+ * The words a deleted version added and removed are added to the next
+ * version's contentDiff, so the per-author counts of lib/versions.ts still
+ * add up, and versions stored against a deleted snapshot are rebased first
+ * (see lib/versionStorage.ts).
+ */
+
+import { Db, ObjectId } from 'mongodb';
+import { parseDiffStats, sumDiffStats, DiffStats } from './versionDiff';
+import { rebaseVersions } from './versionStorage';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const KEEP_ALL_FOR = DAY;
+const KEEP_HOURLY_FOR = 7 * DAY;
+
+/**
+ * Delete the automatic versions of a document the policy no longer keeps
+ * Returns the number of deleted versions
+ */
+export async function pruneVersions(db: Db, docObjectId: ObjectId, now: Date = new Date()): Promise<number> {
+  const versions = await db.collection('documentVersions')
+    .find(
+      { document: docObjectId },
+      {
+        projection: { versionNumber: 1, createdAt: 1, changeType: 1, name: 1, pinned: 1, baseVersion: 1, contentDiff: 1 },
+        sort: { versionNumber: -1 }
+      }
+    )
+    .toArray();
+
+  // Newest first, so the first version seen in an hour or day is kept
+  const keptPeriods = new Set<string>();
+  const expired = new Set<string>();
+  for (const [index, version] of versions.entries()) {
+    if (index === 0 || version.changeType !== 'auto' || version.name || version.pinned) continue;
+
+    const createdAt = new Date(version.createdAt).getTime();
+    const age = now.getTime() - createdAt;
+    if (age < KEEP_ALL_FOR) continue;
+
+    const period = age < KEEP_HOURLY_FOR ? `hour:${Math.floor(createdAt / HOUR)}` : `day:${Math.floor(createdAt / DAY)}`;
+    if (keptPeriods.has(period)) expired.add(version._id.toString());
+    else keptPeriods.add(period);
+  }
+
+  if (expired.size === 0) return 0;
+
+  const expiredIds = [...expired].map((id) => new ObjectId(id));
+  const isExpired = (id: ObjectId) => expired.has(id.toString());
+  const collection = db.collection('documentVersions');
+
+  // Fold the changes of expired versions into the next version that stays
+  const diffUpdates = [];
+  let carried: DiffStats[] = [];
+  for (const version of [...versions].reverse()) {
+    const stats = parseDiffStats(version.contentDiff);
+    if (isExpired(version._id)) {
+      if (stats) carried.push(stats);
+      continue;
+    }
+    // Versions without stored stats are diffed against their predecessor when needed
+    if (carried.length > 0 && stats) {
+      diffUpdates.push({
+        updateOne: {
+          filter: { _id: version._id },
+          update: { $set: { contentDiff: JSON.stringify(sumDiffStats([...carried, stats])) } }
+        }
+      });
+    }
+    carried = [];
+  }
+  if (diffUpdates.length > 0) await collection.bulkWrite(diffUpdates);
+
+  // Versions still stored against an expired snapshot get a new one
+  for (const snapshot of versions.filter((version) => isExpired(version._id) && !version.baseVersion)) {
+    const dependents = await collection
+      .find({ baseVersion: snapshot._id, _id: { $nin: expiredIds } })
+      .toArray();
+    await rebaseVersions(db, dependents);
+  }
+
+  const result = await collection.deleteMany({ _id: { $in: expiredIds } });
+  console.log(`🧹 Pruned ${result.deletedCount} old version(s) of document ${docObjectId}`);
+  return result.deletedCount;
+}
@@ -0,0 +1,268 @@
+/**
+ * Version Storage
+ *
+ * Versions are stored as snapshots plus deltas. A snapshot keeps the full
+ * HTML of every tab (tabs, with content mirroring the first one); the
+ * versions after it only keep their changes against that snapshot
+ * (baseVersion + delta), so any version is at most one snapshot and one delta
+ * away. A new snapshot starts after SNAPSHOT_INTERVAL deltas, or when a delta
+ * would be more than half the size of a full copy. Versions saved before
+ * deltas are snapshots.
+ *
+ * A tab's delta is an edit script over its HTML: retain n characters (n > 0),
+ * delete n characters (n < 0) or insert a string; whatever follows the last
+ * op is retained.
+ */
+
+import { Db, ObjectId, Document as MongoDocument } from 'mongodb';
+import { DocumentTab, TabInfo, getDocumentTabs } from './documentTabs';
+import { diffTokens } from './versionDiff';
+
+// Deltas stored against one snapshot before the next version is a snapshot again
+export const SNAPSHOT_INTERVAL = 20;
+
+type DeltaOp = number | string;
+
+export interface TabDelta extends TabInfo {
+  ops: DeltaOp[];
+}
+
+// The fields a version keeps its content in
+export type VersionContent =
+  | { tabs: DocumentTab[]; content: string }
+  | { baseVersion: ObjectId; delta: TabDelta[] };
+
+// Lossless split of HTML into tags, words and whitespace
+const SPLIT_PATTERN = /<[^>]*>|[^<\s]+|\s+|</g;
+
+export const isDeltaVersion = (version: MongoDocument) => Array.isArray(version.delta);
+
+function diffText(before: string, after: string): DeltaOp[] {
+  const ops: DeltaOp[] = [];
+  const push = (op: DeltaOp) => {
+    const last = ops[ops.length - 1];
+    if (typeof op === 'string' && typeof last === 'string') ops[ops.length - 1] = last + op;
+    else if (typeof op === 'number' && typeof last === 'number' && Math.sign(op) === Math.sign(last)) ops[ops.length - 1] = last + op;
+    else ops.push(op);
+  };
+
+  for (const { op, tokens } of diffTokens(before.match(SPLIT_PATTERN) || [], after.match(SPLIT_PATTERN) || [])) {
+    const text = tokens.join('');
+    if (op === 'insert') push(text);
+    else if (op === 'delete') push(-text.length);
+    else push(text.length);
+  }
+
+  // Trailing retains are implied
+  if (typeof ops[ops.length - 1] === 'number' && (ops[ops.length - 1] as number) > 0) ops.pop();
+  return ops;
+}
+
+function applyOps(base: string, ops: DeltaOp[]): string {
+  let result = '';
+  let index = 0;
+
+  for (const op of ops) {
+    if (typeof op === 'string') {
+      result += op;
+    } else if (op > 0) {
+      result += base.slice(index, index + op);
+      index += op;
+    } else {
+      index -= op;
+    }
+  }
+
+  return result + base.slice(index);
+}
+
+/**
+ * Changes of every tab against the snapshot's tab with the same id (or an
+ * empty tab); tabs missing from the delta were removed
+ */
+export function encodeDelta(baseTabs: DocumentTab[], tabs: DocumentTab[]): TabDelta[] {
+  return tabs.map((tab) => ({
+    id: tab.id,
+    title: tab.title,
+    ops: diffText(baseTabs.find((base) => base.id === tab.id)?.content || '', tab.content)
+  }));
+}
+
+export function applyDelta(baseTabs: DocumentTab[], delta: TabDelta[]): DocumentTab[] {
+  return delta.map((tab) => ({
+    id: tab.id,
+    title: tab.title,
+    content: applyOps(baseTabs.find((base) => base.id === tab.id)?.content || '', tab.ops)
+  }));
+}
+
+const snapshotContent = (tabs: DocumentTab[]): VersionContent => ({ tabs, content: tabs[0]?.content || '' });
+
+// The delta of tabs against a snapshot, unless a full copy is about as small
+function smallDelta(baseTabs: DocumentTab[], tabs: DocumentTab[]): TabDelta[] | null {
+  const delta = encodeDelta(baseTabs, tabs);
+  return JSON.stringify(delta).length > JSON.stringify(tabs).length / 2 ? null : delta;
+}
+
+/**
+ * How to store a new version with these tabs, saved after latestVersion
+ * (the full record, as stored)
+ */
+export async function encodeVersionContent(
+  db: Db,
+  latestVersion: MongoDocument | null,
+  tabs: DocumentTab[]
+): Promise<VersionContent> {
+  if (!latestVersion) return snapshotContent(tabs);
+
+  const baseId: ObjectId = isDeltaVersion(latestVersion) ? latestVersion.baseVersion : latestVersion._id;
+  const [base, deltas] = await Promise.all([
+    isDeltaVersion(latestVersion)
+      ? db.collection('documentVersions').findOne({ _id: baseId }, { projection: { content: 1, tabs: 1 } })
+      : latestVersion,
+    db.collection('documentVersions').countDocuments({ baseVersion: baseId })
+  ]);
+  if (!base || deltas >= SNAPSHOT_INTERVAL) return snapshotContent(tabs);
+
+  const delta = smallDelta(getDocumentTabs(base), tabs);
+  return delta ? { baseVersion: baseId, delta } : snapshotContent(tabs);
+}
+
+/**
+ * The tabs of versions however they're stored, by version id; their
+ * snapshots are loaded in one query
+ */
+export async function loadVersionTabs(db: Db, versions: MongoDocument[]): Promise<Map<string, DocumentTab[]>> {
+  const baseIds = versions.filter(isDeltaVersion).map((version) => version.baseVersion as ObjectId);
+  const bases = baseIds.length === 0 ? [] : await db.collection('documentVersions')
+    .find({ _id: { $in: baseIds } }, { projection: { content: 1, tabs: 1 } })
+    .toArray();
+
+  const tabs = new Map<string, DocumentTab[]>();
+  for (const version of versions) {
+    if (!isDeltaVersion(version)) {
+      tabs.set(version._id.toString(), getDocumentTabs(version));
+      continue;
+    }
+    const base = bases.find((candidate) => candidate._id.equals(version.baseVersion));
+    tabs.set(version._id.toString(), applyDelta(base ? getDocumentTabs(base) : [], version.delta));
+  }
+
+  return tabs;
+}
+
+export async function versionTabs(db: Db, version: MongoDocument): Promise<DocumentTab[]> {
+  return (await loadVersionTabs(db, [version])).get(version._id.toString()) || [];
+}
+
+/**
+ * Make versions independent of a snapshot that is about to be deleted: the
+ * oldest of them becomes a snapshot and the others are stored against it
+ */
+export async function rebaseVersions(db: Db, dependents: MongoDocument[]) {
+  if (dependents.length === 0) return;
+
+  const tabs = await loadVersionTabs(db, dependents);
+  const [first, ...rest] = [...dependents].sort((a, b) => a.versionNumber - b.versionNumber);
+  const firstTabs = tabs.get(first._id.toString()) || [];
+
+  await db.collection('documentVersions').bulkWrite([
+    {
+      updateOne: {
+        filter: { _id: first._id },
+        update: { $set: snapshotContent(firstTabs), $unset: { baseVersion: '', delta: '' } }
+      }
+    },
+    ...rest.map((version) => ({
+      updateOne: {
+        filter: { _id: version._id },
+        update: {
+          $set: {
+            baseVersion: first._id,
+            delta: encodeDelta(firstTabs, tabs.get(version._id.toString()) || [])
+          }
+        }
+      }
+    }))
+  ]);
+}
+
+/**
+ * Store the versions of a document that were saved as full copies as deltas
+ * where new versions would be; returns how many were converted
+ */
+export async function compactVersions(db: Db, docObjectId: ObjectId): Promise<number> {
+  const collection = db.collection('documentVersions');
+  const cursor = collection.find({ document: docObjectId }, { sort: { versionNumber: 1 } });
+
+  let base: { id: ObjectId; tabs: DocumentTab[] } | null = null;
+  let deltas = 0;
+  let converted = 0;
+
+  for await (const version of cursor) {
+    // Deltas are always stored against the latest snapshot before them
+    if (isDeltaVersion(version)) {
+      deltas++;
+      continue;
+    }
+
+    const tabs = getDocumentTabs(version);
+    const delta = base && deltas < SNAPSHOT_INTERVAL ? smallDelta(base.tabs, tabs) : null;
+    if (base && delta) {
+      await collection.updateOne(
+        { _id: version._id },
+        { $set: { baseVersion: base.id, delta }, $unset: { content: '', tabs: '' } }
+      );
+      deltas++;
+      converted++;
+      continue;
+    }
+
+    base = { id: version._id, tabs };
+    deltas = 0;
+  }
+
+  return converted;
+}
+
+/**
+ * Rewrite the content of a document's versions (e.g. to move embedded images
+ * out of it), keeping which ones are snapshots; returns how many changed
+ */
+export async function transformVersionTabs(
+  db: Db,
+  docObjectId: ObjectId,
+  transform: (tabs: DocumentTab[]) => Promise<DocumentTab[]>
+): Promise<number> {
+  const collection = db.collection('documentVersions');
+  const versions = await collection.find({ document: docObjectId }, { sort: { versionNumber: 1 } }).toArray();
+  const tabs = await loadVersionTabs(db, versions);
+
+  const transformed = new Map<string, DocumentTab[]>();
+  const changed = new Set<string>();
+  for (const version of versions) {
+    const id = version._id.toString();
+    const before = tabs.get(id) || [];
+    const after = await transform(before);
+    transformed.set(id, after);
+    if (JSON.stringify(after) !== JSON.stringify(before)) changed.add(id);
+  }
+  if (changed.size === 0) return 0;
+
+  // Deltas are re-encoded whenever they or their snapshot changed
+  const updates = versions
+    .filter((version) => changed.has(version._id.toString()) || (isDeltaVersion(version) && changed.has(version.baseVersion.toString())))
+    .map((version) => ({
+      updateOne: {
+        filter: { _id: version._id },
+        update: {
+          $set: isDeltaVersion(version)
+            ? { delta: encodeDelta(transformed.get(version.baseVersion.toString()) || [], transformed.get(version._id.toString()) || []) }
+            : snapshotContent(transformed.get(version._id.toString()) || [])
+        }
+      }
+    }));
+  await collection.bulkWrite(updates);
+
+  return changed.size;
+}
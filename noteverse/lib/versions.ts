@@ -0,0 +1,410 @@
+/**
+ * Document Versions
+ *
+ * Version history lists metadata only; content is loaded per version, and
+ * two versions (or a version and the current document) are compared with
+ * lib/versionDiff.ts. Each version stores how many words it added and
+ * removed against the version before it (contentDiff), which the compare
+ * view sums up per author.
+ *
+ * Versions can be named, described and pinned. Their content is stored as
+ * snapshots plus deltas (lib/versionStorage.ts) and old automatic versions
+ * are thinned out (lib/versionRetention.ts).
+ */
+
+import { Db, ObjectId, WithId, Document as MongoDocument } from 'mongodb';
+import { DocumentTab, getDocumentTabs } from './documentTabs';
+import { DiffStats, TabDiff, diffTabs, parseDiffStats, sumDiffStats, tabsDiffStats } from './versionDiff';
+import { compactVersions, encodeVersionContent, loadVersionTabs, versionTabs } from './versionStorage';
+import { pruneVersions } from './versionRetention';
+
+// Versions summed up per author in one comparison, newest first
+const MAX_SUMMARY_VERSIONS = 200;
+
+// Compare against the document as it is now
+export const CURRENT_VERSION = 'current';
+
+export const MAX_VERSION_NAME_LENGTH = 100;
+export const MAX_VERSION_DESCRIPTION_LENGTH = 500;
+
+// Fields that hold a version's content, in either storage form
+const CONTENT_FIELDS = { content: 1, tabs: 1, baseVersion: 1, delta: 1 };
+
+export type VersionChangeType = 'auto' | 'manual' | 'restore';
+
+export interface VersionAuthor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface VersionSummary {
+  id: string;
+  versionNumber: number;
+  title: string;
+  changeType: VersionChangeType;
+  name?: string; // Named versions are never pruned
+  description?: string;
+  pinned: boolean; // Pinned versions are never pruned
+  wordCount: number;
+  characterCount: number;
+  createdAt: Date;
+  author: VersionAuthor | null;
+  stats: DiffStats | null; // against the previous version
+}
+
+export interface ComparedVersion {
+  id: string; // version id or CURRENT_VERSION
+  versionNumber: number | null;
+  title: string;
+  createdAt: Date;
+}
+
+export interface AuthorChanges extends DiffStats {
+  author: VersionAuthor | null; // null: edits not saved as a version yet
+  versions: number;
+}
+
+export interface VersionComparison {
+  from: ComparedVersion;
+  to: ComparedVersion;
+  tabs: TabDiff[];
+  stats: DiffStats;
+  authors: AuthorChanges[];
+}
+
+interface LoadedVersion extends ComparedVersion {
+  tabs: DocumentTab[];
+}
+
+export interface NewVersion {
+  document: ObjectId;
+  title: string;
+  tabs: DocumentTab[];
+  createdBy: ObjectId;
+  changeType: VersionChangeType;
+  name?: string;
+  description?: string;
+  pinned?: boolean;
+  wordCount: number;
+  characterCount: number;
+}
+
+export interface VersionLabels {
+  name?: string | null; // null removes the name
+  description?: string | null;
+  pinned?: boolean;
+}
+
+const formatAuthor = (user: WithId<MongoDocument> | undefined): VersionAuthor | null =>
+  user ? { id: user._id.toString(), name: user.name, email: user.email } : null;
+
+async function loadAuthors(db: Db, ids: ObjectId[]) {
+  if (ids.length === 0) return [];
+  return db.collection('users')
+    .find({ _id: { $in: ids } }, { projection: { name: 1, email: 1 } })
+    .toArray();
+}
+
+function summarize(version: MongoDocument, author: VersionAuthor | null): VersionSummary {
+  return {
+    id: version._id.toString(),
+    versionNumber: version.versionNumber,
+    title: version.title,
+    changeType: version.changeType,
+    name: version.name || undefined,
+    description: version.description,
+    pinned: !!version.pinned,
+    wordCount: version.wordCount || 0,
+    characterCount: version.characterCount || 0,
+    createdAt: version.createdAt,
+    author,
+    stats: parseDiffStats(version.contentDiff)
+  };
+}
+
+/**
+ * A version name or description sent by a client: trimmed and cut to length,
+ * null when empty, undefined when it isn't a string
+ */
+export function normalizeVersionLabel(value: unknown, maxLength: number): string | null | undefined {
+  if (value === null) return null;
+  if (typeof value !== 'string') return undefined;
+  return value.trim().slice(0, maxLength) || null;
+}
+
+/**
+ * Version history of a document, newest first, without content
+ */
+export async function listVersions(db: Db, docObjectId: ObjectId): Promise<VersionSummary[]> {
+  const versions = await db.collection('documentVersions')
+    .find(
+      { document: docObjectId },
+      {
+        projection: { content: 0, tabs: 0, delta: 0 },
+        sort: { versionNumber: -1 }
+      }
+    )
+    .toArray();
+
+  const authors = await loadAuthors(db, versions.map((version) => version.createdBy).filter(Boolean));
+
+  return versions.map((version) =>
+    summarize(version, formatAuthor(authors.find((author) => author._id.equals(version.createdBy))))
+  );
+}
+
+/**
+ * One version of a document with its content, or null if it isn't one of
+ * the document's versions
+ */
+export async function getVersion(db: Db, docObjectId: ObjectId, versionId: string) {
+  if (!ObjectId.isValid(versionId)) return null;
+
+  const version = await db.collection('documentVersions').findOne({
+    _id: new ObjectId(versionId),
+    document: docObjectId
+  });
+  if (!version) return null;
+
+  const [[author], tabs] = await Promise.all([
+    loadAuthors(db, version.createdBy ? [version.createdBy] : []),
+    versionTabs(db, version)
+  ]);
+
+  return {
+    ...summarize(version, formatAuthor(author)),
+    content: tabs[0]?.content || '',
+    tabs
+  };
+}
+
+/**
+ * Save a new version after the document's latest one, storing its changes
+ * against that version (contentDiff); automatic versions prune old ones
+ */
+export async function createVersion(db: Db, version: NewVersion): Promise<VersionSummary> {
+  const latestVersion = await db.collection('documentVersions').findOne(
+    { document: version.document },
+    { sort: { versionNumber: -1 } }
+  );
+  const previousTabs = latestVersion ? await versionTabs(db, latestVersion) : [];
+
+  const record = {
+    document: version.document,
+    versionNumber: (latestVersion?.versionNumber || 0) + 1,
+    title: version.title,
+    ...(await encodeVersionContent(db, latestVersion, version.tabs)),
+    contentDiff: JSON.stringify(tabsDiffStats(previousTabs, version.tabs)),
+    createdBy: version.createdBy,
+    changeType: version.changeType,
+    ...(version.name ? { name: version.name } : {}),
+    ...(version.description ? { description: version.description } : {}),
+    pinned: !!version.pinned,
+    wordCount: version.wordCount,
+    characterCount: version.characterCount,
+    createdAt: new Date()
+  };
+
+  const result = await db.collection('documentVersions').insertOne(record);
+  console.log(`📝 Created ${version.changeType} version ${record.versionNumber} of document ${version.document}`);
+
+  if (version.changeType === 'auto') {
+    await pruneVersions(db, version.document);
+  }
+
+  return summarize({ ...record, _id: result.insertedId }, null);
+}
+
+/**
+ * Rename, describe or pin a version; null if it isn't one of the
+ * document's versions
+ */
+export async function updateVersionLabels(
+  db: Db,
+  docObjectId: ObjectId,
+  versionId: string,
+  labels: VersionLabels
+): Promise<VersionSummary | null> {
+  if (!ObjectId.isValid(versionId)) return null;
+
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+  for (const field of ['name', 'description'] as const) {
+    if (labels[field] === null) $unset[field] = '';
+    else if (labels[field] !== undefined) $set[field] = labels[field];
+  }
+  if (labels.pinned !== undefined) $set.pinned = labels.pinned;
+
+  const filter = { _id: new ObjectId(versionId), document: docObjectId };
+  const projection = { content: 0, tabs: 0, delta: 0 };
+  const changes = {
+    ...(Object.keys($set).length > 0 ? { $set } : {}),
+    ...(Object.keys($unset).length > 0 ? { $unset } : {})
+  };
+
+  const version = Object.keys(changes).length === 0
+    ? await db.collection('documentVersions').findOne(filter, { projection })
+    : await db.collection('documentVersions').findOneAndUpdate(filter, changes, { returnDocument: 'after', projection });
+  if (!version) return null;
+
+  const [author] = await loadAuthors(db, version.createdBy ? [version.createdBy] : []);
+  return summarize(version, formatAuthor(author));
+}
+
+async function loadComparedVersion(
+  db: Db,
+  document: WithId<MongoDocument>,
+  ref: string
+): Promise<LoadedVersion | null> {
+  if (ref === CURRENT_VERSION) {
+    return {
+      id: CURRENT_VERSION,
+      versionNumber: null,
+      title: document.title,
+      createdAt: document.updatedAt,
+      tabs: getDocumentTabs(document)
+    };
+  }
+
+  if (!ObjectId.isValid(ref)) return null;
+  const version = await db.collection('documentVersions').findOne({
+    _id: new ObjectId(ref),
+    document: document._id
+  });
+
+  return version && {
+    id: version._id.toString(),
+    versionNumber: version.versionNumber,
+    title: version.title,
+    createdAt: version.createdAt,
+    tabs: await versionTabs(db, version)
+  };
+}
+
+/**
+ * Who changed how much between two points of the history: every version in
+ * between counts for its author, and edits since the last version (when
+ * comparing with the current document) count separately
+ */
+async function summarizeAuthors(
+  db: Db,
+  document: WithId<MongoDocument>,
+  from: LoadedVersion,
+  to: LoadedVersion
+): Promise<AuthorChanges[]> {
+  const numbers = [from.versionNumber, to.versionNumber];
+  const includesCurrent = numbers.includes(null);
+  const known = numbers.filter((number): number is number => number !== null);
+  const low = known.length > 0 ? Math.min(...known) : Infinity;
+  const high = includesCurrent ? Infinity : Math.max(...known);
+
+  // The versions in (low, high] and the one before the oldest of them
+  const versions = low === Infinity ? [] : await db.collection('documentVersions')
+    .find(
+      { document: document._id, versionNumber: { $gte: low, ...(high !== Infinity ? { $lte: high } : {}) } },
+      { projection: { versionNumber: 1, createdBy: 1, contentDiff: 1 }, sort: { versionNumber: -1 }, limit: MAX_SUMMARY_VERSIONS + 1 }
+    )
+    .toArray();
+
+  const changes = new Map<string, { authorId: ObjectId | null; stats: DiffStats[] }>();
+  const record = (authorId: ObjectId | null, stats: DiffStats) => {
+    const key = authorId?.toString() || '';
+    const entry = changes.get(key) || { authorId, stats: [] };
+    entry.stats.push(stats);
+    changes.set(key, entry);
+  };
+
+  // Versions saved before contentDiff was stored are diffed now
+  let contents = new Map<string, DocumentTab[]>();
+  if (versions.some((version) => !parseDiffStats(version.contentDiff))) {
+    const withContent = await db.collection('documentVersions')
+      .find({ _id: { $in: versions.map((version) => version._id) } }, { projection: CONTENT_FIELDS })
+      .toArray();
+    contents = await loadVersionTabs(db, withContent);
+  }
+
+  for (const [index, version] of versions.entries()) {
+    if (version.versionNumber === low) continue;
+
+    const previous = versions[index + 1];
+    const stats = parseDiffStats(version.contentDiff) || (previous
+      ? tabsDiffStats(contents.get(previous._id.toString()) || [], contents.get(version._id.toString()) || [])
+      : null);
+
+    if (stats) record(version.createdBy || null, stats);
+  }
+
+  if (includesCurrent) {
+    const latest = await db.collection('documentVersions').findOne(
+      { document: document._id },
+      { sort: { versionNumber: -1 }, projection: CONTENT_FIELDS }
+    );
+    const stats = tabsDiffStats(latest ? await versionTabs(db, latest) : [], getDocumentTabs(document));
+    if (stats.insertedWords > 0 || stats.deletedWords > 0 || stats.formatChanges > 0) record(null, stats);
+  }
+
+  const authors = await loadAuthors(
+    db,
+    [...changes.values()].map((entry) => entry.authorId).filter((id): id is ObjectId => !!id)
+  );
+
+  return [...changes.values()]
+    .map(({ authorId, stats }) => ({
+      author: authorId ? formatAuthor(authors.find((author) => author._id.equals(authorId))) : null,
+      versions: authorId ? stats.length : 0,
+      ...sumDiffStats(stats)
+    }))
+    .sort((a, b) => (b.insertedWords + b.deletedWords) - (a.insertedWords + a.deletedWords));
+}
+
+/**
+ * Diff two versions of a document (either may be CURRENT_VERSION); null if
+ * one of them isn't a version of this document
+ */
+export async function compareVersions(
+  db: Db,
+  document: WithId<MongoDocument>,
+  fromRef: string,
+  toRef: string
+): Promise<VersionComparison | null> {
+  const [from, to] = await Promise.all([
+    loadComparedVersion(db, document, fromRef),
+    loadComparedVersion(db, document, toRef)
+  ]);
+  if (!from || !to) return null;
+
+  const tabs = diffTabs(from.tabs, to.tabs);
+  const describe = (version: LoadedVersion): ComparedVersion => ({
+    id: version.id,
+    versionNumber: version.versionNumber,
+    title: version.title,
+    createdAt: version.createdAt
+  });
+
+  return {
+    from: describe(from),
+    to: describe(to),
+    tabs,
+    stats: sumDiffStats(tabs.map((tab) => tab.stats)),
+    authors: await summarizeAuthors(db, document, from, to)
+  };
+}
+
+/**
+ * Store versions saved as full copies as snapshots plus deltas and apply the
+ * retention policy to every document's history (npm run migrate:versions)
+ */
+export async function migrateVersions(db: Db) {
+  let converted = 0;
+  let pruned = 0;
+
+  const documentIds: ObjectId[] = await db.collection('documentVersions').distinct('document');
+  for (const documentId of documentIds) {
+    pruned += await pruneVersions(db, documentId);
+    converted += await compactVersions(db, documentId);
+  }
+
+  console.log(`📦 Version migration finished: ${documentIds.length} document(s), ${converted} version(s) stored as deltas, ${pruned} pruned`);
+  return { converted, pruned };
+}
@@ -2,6 +2,8 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   turbopack: {},
+  // pdfkit reads its font files from its own directory at runtime
+  serverExternalPackages: ['pdfkit'],
   webpack: (config) => {
     config.externals = [...(config.externals || []), { canvas: 'canvas' }];
     // Suppress specific TipTap warnings in development
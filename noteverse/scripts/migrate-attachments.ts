@@ -0,0 +1,36 @@
+/**
+ * Attachment Migration
+ *
+ * Moves the images embedded as data URLs in documents, their versions and
+ * their persisted Yjs state into attachments (lib/attachments.ts), so they
+ * are stored once and served from /api/attachments/[id]. See
+ * migrateAttachments in lib/attachments.ts.
+ *
+ * Idempotent - run it as often as needed: npm run migrate:attachments
+ * Restart the realtime server afterwards so open documents reload.
+ */
+
+import nextEnv from '@next/env';
+
+// Load .env files before lib/mongodb reads MONGODB_URI
+// (@next/env is CommonJS, so its named exports are only on the default import)
+nextEnv.loadEnvConfig(process.cwd(), process.env.NODE_ENV !== 'production');
+
+async function main() {
+  const { connectToDatabase } = await import('../lib/mongodb');
+  const { migrateAttachments } = await import('../lib/attachments');
+
+  const { client, db } = await connectToDatabase();
+
+  try {
+    console.log('🚚 Moving embedded images to attachments...');
+    await migrateAttachments(db);
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Attachment migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+/**
+ * Search Data Migration
+ *
+ * Stores the plain text of documents saved before search used it
+ * (Document.plainText) and replaces the text index over the HTML content
+ * with one over title and plain text. See migrateSearch in lib/search.ts.
+ *
+ * Idempotent - run it as often as needed: npm run migrate:search
+ */
+
+import nextEnv from '@next/env';
+
+// Load .env files before lib/mongodb reads MONGODB_URI
+// (@next/env is CommonJS, so its named exports are only on the default import)
+nextEnv.loadEnvConfig(process.cwd(), process.env.NODE_ENV !== 'production');
+
+async function main() {
+  const { connectToDatabase } = await import('../lib/mongodb');
+  const { migrateSearch } = await import('../lib/search');
+
+  const { client, db } = await connectToDatabase();
+
+  try {
+    console.log('🚚 Migrating search data...');
+    await migrateSearch(db);
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Search migration failed:', error);
+  process.exit(1);
+});
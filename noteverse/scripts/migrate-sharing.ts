@@ -0,0 +1,35 @@
+/**
+ * Sharing Data Migration
+ *
+ * Folds the legacy sharing records (documentshares, Document.collaborators)
+ * into Document.sharedWith, removes duplicate and expired entries, drops
+ * notification settings of removed collaborators and (re)creates the
+ * sharing indexes. See migrateSharing in lib/sharing.ts.
+ *
+ * Idempotent - run it as often as needed: npm run migrate:sharing
+ */
+
+import nextEnv from '@next/env';
+
+// Load .env files before lib/mongodb reads MONGODB_URI
+// (@next/env is CommonJS, so its named exports are only on the default import)
+nextEnv.loadEnvConfig(process.cwd(), process.env.NODE_ENV !== 'production');
+
+async function main() {
+  const { connectToDatabase } = await import('../lib/mongodb');
+  const { migrateSharing } = await import('../lib/sharing');
+
+  const { client, db } = await connectToDatabase();
+
+  try {
+    console.log('🚚 Migrating sharing data...');
+    await migrateSharing(db);
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Sharing migration failed:', error);
+  process.exit(1);
+});
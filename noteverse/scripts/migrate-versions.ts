@@ -0,0 +1,34 @@
+/**
+ * Version Storage Migration
+ *
+ * Applies the version retention policy (lib/versionRetention.ts) to every
+ * document and stores versions that were saved as full copies as snapshots
+ * plus deltas (lib/versionStorage.ts). See migrateVersions in lib/versions.ts.
+ *
+ * Idempotent - run it as often as needed: npm run migrate:versions
+ */
+
+import nextEnv from '@next/env';
+
+// Load .env files before lib/mongodb reads MONGODB_URI
+// (@next/env is CommonJS, so its named exports are only on the default import)
+nextEnv.loadEnvConfig(process.cwd(), process.env.NODE_ENV !== 'production');
+
+async function main() {
+  const { connectToDatabase } = await import('../lib/mongodb');
+  const { migrateVersions } = await import('../lib/versions');
+
+  const { client, db } = await connectToDatabase();
+
+  try {
+    console.log('🚚 Migrating version history...');
+    await migrateVersions(db);
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Version migration failed:', error);
+  process.exit(1);
+});
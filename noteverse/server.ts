@@ -0,0 +1,64 @@
+/**
+ * Custom Next.js Server with Socket.io
+ *
+ * This server enables real-time collaboration by:
+ * 1. Running Next.js app
+ * 2. Initializing the realtime server (lib/socket/socketServer.ts)
+ * 3. Handling both HTTP and WebSocket traffic on one port
+ * 4. Running the scheduled jobs (lib/scheduledJobs.ts)
+ *
+ * Run with: npm run dev (tsx server.ts)
+ */
+
+import { createServer } from 'http';
+import { parse } from 'url';
+import next from 'next';
+import nextEnv from '@next/env';
+
+const dev = process.env.NODE_ENV !== 'production';
+const hostname = 'localhost';
+const port = parseInt(process.env.PORT || '', 10) || 3000;
+
+// Load .env files before the realtime module connects to MongoDB
+// (@next/env is CommonJS, so its named exports are only on the default import)
+nextEnv.loadEnvConfig(process.cwd(), dev);
+
+// Initialize Next.js app
+const app = next({ dev, hostname, port });
+const handle = app.getRequestHandler();
+
+app.prepare().then(async () => {
+  const { initializeSocketServer } = await import('./lib/socket/socketServer');
+  const { startScheduledJobs } = await import('./lib/scheduledJobs');
+
+  // Create HTTP server
+  const server = createServer(async (req, res) => {
+    try {
+      const parsedUrl = parse(req.url || '', true);
+      await handle(req, res, parsedUrl);
+    } catch (err) {
+      console.error('❌ Error occurred handling', req.url, err);
+      res.statusCode = 500;
+      res.end('internal server error');
+    }
+  });
+
+  // Initialize Socket.io
+  initializeSocketServer(server);
+
+  // Start the scheduled jobs (trash purge, email digests)
+  startScheduledJobs();
+
+  // Start server
+  server.listen(port, () => {
+    console.log(`
+    ╔════════════════════════════════════════╗
+    ║   🚀 NoteVerse Server Running          ║
+    ╠════════════════════════════════════════╣
+    ║   📍 Local: http://${hostname}:${port}     ║
+    ║   🔌 Socket.io: Ready                  ║
+    ║   🌐 Environment: ${dev ? 'Development' : 'Production'}       ║
+    ╚════════════════════════════════════════╝
+    `);
+  });
+});
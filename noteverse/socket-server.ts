@@ -0,0 +1,73 @@
+/**
+ * Standalone Socket.io + Yjs Server
+ *
+ * Runs the realtime server (lib/socket/socketServer.ts) INDEPENDENTLY
+ * from the Next.js app. Deploy this to Render, Railway, or any Node.js
+ * hosting service.
+ *
+ * Deploy Instructions:
+ * 1. Deploy the repo to Render/Railway with start command: npm run start:socket
+ * 2. Set environment variables: MONGODB_URI, NEXTAUTH_SECRET (same as the app)
+ *    and ALLOWED_ORIGINS=https://your-vercel-app.vercel.app
+ * 3. Update frontend with: NEXT_PUBLIC_SOCKET_URL=https://your-socket-server.com
+ *
+ * Run locally: npm run dev:socket
+ */
+
+import { createServer } from 'http';
+import nextEnv from '@next/env';
+
+const PORT = parseInt(process.env.PORT || '', 10) || 3000;
+
+// Load .env files before the realtime module connects to MongoDB
+// (@next/env is CommonJS, so its named exports are only on the default import)
+nextEnv.loadEnvConfig(process.cwd(), process.env.NODE_ENV !== 'production');
+
+// Create HTTP server
+const server = createServer((req, res) => {
+  // Health check endpoint
+  if (req.url === '/health') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      status: 'healthy',
+      uptime: process.uptime(),
+      timestamp: new Date().toISOString()
+    }));
+    return;
+  }
+
+  // Root endpoint
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end('NoteVerse Socket.io Server - WebSocket only');
+});
+
+import('./lib/socket/socketServer').then(({ initializeSocketServer }) => {
+  // Initialize Socket.io
+  initializeSocketServer(server);
+
+  // Start server
+  server.listen(PORT, () => {
+    console.log(`
+╔════════════════════════════════════════╗
+║   🚀 NoteVerse Socket.io Server        ║
+╠════════════════════════════════════════╣
+║   📍 Port: ${PORT}
+║   🔌 WebSocket: Ready                  ║
+║   🌐 Environment: ${process.env.NODE_ENV || 'development'}
+║   🔒 CORS: Configured                  ║
+╚════════════════════════════════════════╝
+    `);
+  });
+});
+
+// Graceful shutdown
+function shutdown(signal: string) {
+  console.log(`\n📡 ${signal} received, closing server gracefully...`);
+  server.close(() => {
+    console.log('✅ Server closed');
+    process.exit(0);
+  });
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));